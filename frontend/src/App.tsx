@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import { Routes, Route, NavLink, useLocation } from 'react-router-dom';
-import { FilePlus, FileText, Files, GitCompare, Home, Users, Shield, Archive, ChevronDown, ChevronRight, Heart } from 'lucide-react';
+import { Brain, Copy, FilePlus, FileText, Files, GitCompare, Home, Users, Shield, Archive, ChevronDown, ChevronRight, Heart, PiggyBank } from 'lucide-react';
 import Claims from './pages/Claims';
 import DraftClaims from './pages/DraftClaims';
 import Documents from './pages/Documents';
 import Matches from './pages/Matches';
+import Duplicates from './pages/Duplicates';
+import ClassificationReview from './pages/ClassificationReview';
 import Patients from './pages/Patients';
+import Reimbursements from './pages/Reimbursements';
 import Admin from './pages/Admin';
 import ArchivedDocuments from './pages/archive/Documents';
 import ArchivedClaims from './pages/archive/Claims';
@@ -13,6 +16,7 @@ import ArchivedDraftClaims from './pages/archive/DraftClaims';
 import ArchivedPatients from './pages/archive/Patients';
 import ArchivedIllnesses from './pages/archive/Illnesses';
 import { cn } from './lib/utils';
+import { GlobalSearch } from './components';
 import { api, type Stats } from './lib/api';
 
 function NavItem({ to, icon: Icon, children, indent = false }: { to: string; icon: React.ElementType; children: React.ReactNode; indent?: boolean }) {
@@ -99,6 +103,11 @@ export default function App() {
           </div>
         </div>
 
+        {/* Search */}
+        <div className="p-4 border-b-2 border-bauhaus-black">
+          <GlobalSearch />
+        </div>
+
         {/* Navigation */}
         <nav className="flex-1 py-4 overflow-y-auto">
           <NavItem to="/" icon={Home}>Dashboard</NavItem>
@@ -107,6 +116,9 @@ export default function App() {
           <NavItem to="/documents" icon={Files}>Documents</NavItem>
           <NavItem to="/patients" icon={Users}>Patients</NavItem>
           <NavItem to="/matches" icon={GitCompare}>Match Review</NavItem>
+          <NavItem to="/duplicates" icon={Copy}>Duplicate Review</NavItem>
+          <NavItem to="/classification-review" icon={Brain}>Classification Review</NavItem>
+          <NavItem to="/reimbursements" icon={PiggyBank}>Reimbursements</NavItem>
           <NavItem to="/admin" icon={Shield}>Admin</NavItem>
 
           <NavSection icon={Archive} label="Archive" basePath="/archive">
@@ -137,6 +149,9 @@ export default function App() {
           <Route path="/documents" element={<Documents />} />
           <Route path="/patients" element={<Patients />} />
           <Route path="/matches" element={<Matches />} />
+          <Route path="/duplicates" element={<Duplicates />} />
+          <Route path="/classification-review" element={<ClassificationReview />} />
+          <Route path="/reimbursements" element={<Reimbursements />} />
           <Route path="/admin" element={<Admin />} />
           {/* Archive routes */}
           <Route path="/archive/documents" element={<ArchivedDocuments />} />
@@ -0,0 +1,105 @@
+/**
+ * Shared AuditHistory component.
+ * Collapsible list of recorded changes to one entity, newest first.
+ */
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { api, type AuditEntityType, type AuditEntry } from '@/lib/api';
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+  /** The loaded entity; a new object after a save makes an open panel reload */
+  version?: unknown;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export function AuditHistory({ entityType, entityId, version }: AuditHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    api.getAuditEntries(entityType, entityId)
+      .then((result) => {
+        if (cancelled) return;
+        setEntries(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, entityType, entityId, version]);
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="font-bold flex items-center gap-2 mb-3"
+      >
+        {open ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+        <History size={18} />
+        History
+      </button>
+
+      {open && (
+        loading && entries.length === 0 ? (
+          <p className="text-xs text-bauhaus-gray">Loading history...</p>
+        ) : error ? (
+          <p className="text-xs text-bauhaus-red">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-bauhaus-gray">No recorded changes.</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="p-3 border border-bauhaus-lightgray text-xs">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="font-medium">
+                    {ACTION_LABELS[entry.action]} by {entry.actor}
+                  </span>
+                  <span className="text-bauhaus-gray whitespace-nowrap">
+                    {new Date(entry.createdAt).toLocaleString('en-GB')}
+                  </span>
+                </div>
+                {entry.source && <p className="text-bauhaus-gray mb-1">{entry.source}</p>}
+                {entry.action === 'update' && (
+                  <ul className="space-y-1">
+                    {entry.changes.map((change) => (
+                      <li key={change.field} className="font-mono break-all">
+                        <span className="font-semibold">{change.field}</span>:{' '}
+                        <span className="text-bauhaus-red line-through">{formatValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-green-700">{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Global search box.
+ * Searches documents, draft claims and Cigna claims, and jumps to the hit.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { api, type SearchEntityType, type SearchHit } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+
+const DEBOUNCE_MS = 250;
+
+const HIT_TARGETS: Record<SearchEntityType, { path: string; label: string }> = {
+  document: { path: '/documents', label: 'Document' },
+  draft_claim: { path: '/draft-claims', label: 'Draft' },
+  scraped_claim: { path: '/claims', label: 'Cigna claim' },
+};
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setHits([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.search(q, 10)
+        .then((result) => {
+          if (cancelled) return;
+          setHits(result.hits);
+          setActiveIndex(0);
+          setError(null);
+        })
+        .catch((err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    function handleClick(event: MouseEvent) {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  function openHit(hit: SearchHit) {
+    navigate(`${HIT_TARGETS[hit.entityType].path}?focus=${encodeURIComponent(hit.id)}`);
+    setOpen(false);
+    setQuery('');
+  }
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, hits.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && hits[activeIndex]) {
+      openHit(hits[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2 px-3 py-2 border-2 border-bauhaus-black bg-white">
+        <Search size={16} className="text-bauhaus-gray" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search everything..."
+          className="w-full text-sm focus:outline-none"
+        />
+      </div>
+
+      {open && query.trim() && (
+        <div className="absolute left-0 z-50 mt-1 w-96 max-h-[70vh] overflow-y-auto bg-white border-2 border-bauhaus-black shadow-lg">
+          {error ? (
+            <p className="p-3 text-sm text-bauhaus-red">{error}</p>
+          ) : hits.length === 0 ? (
+            <p className="p-3 text-sm text-bauhaus-gray">No matches</p>
+          ) : (
+            hits.map((hit, index) => (
+              <button
+                key={`${hit.entityType}:${hit.id}`}
+                onClick={() => openHit(hit)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'block w-full text-left p-3 border-b border-bauhaus-lightgray last:border-b-0',
+                  index === activeIndex && 'bg-bauhaus-lightgray'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm truncate">{hit.title}</span>
+                  <span className="text-xs text-bauhaus-gray whitespace-nowrap">
+                    {HIT_TARGETS[hit.entityType].label}
+                    {hit.date && ` · ${formatDate(hit.date)}`}
+                  </span>
+                </div>
+                <p className="text-xs text-bauhaus-gray mt-1 line-clamp-2">
+                  {hit.snippet.map((part, partIndex) =>
+                    part.highlight ? (
+                      <mark key={partIndex} className="bg-bauhaus-yellow text-bauhaus-black">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={partIndex}>{part.text}</span>
+                    )
+                  )}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
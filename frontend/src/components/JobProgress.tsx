@@ -0,0 +1,91 @@
+/**
+ * Shared JobProgress component.
+ * Shows live step-by-step progress for a background job.
+ */
+import { useEffect, useState } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import { api, type Job, type JobStatus, type ProgressEvent } from '@/lib/api';
+import { useLiveEvents } from '@/lib/useLiveEvents';
+import { cn } from '@/lib/utils';
+
+interface JobProgressProps {
+  jobId: string;
+  title?: string;
+}
+
+export function JobProgress({ jobId, title }: JobProgressProps) {
+  const [status, setStatus] = useState<JobStatus>('running');
+  const [error, setError] = useState<string | undefined>();
+  const [steps, setSteps] = useState<ProgressEvent[]>([]);
+
+  // Load state reached before the stream connected
+  useEffect(() => {
+    setSteps([]);
+    api.getJob(jobId)
+      .then((job: Job) => {
+        setStatus(job.status);
+        setError(job.error);
+      })
+      .catch(() => {});
+  }, [jobId]);
+
+  useLiveEvents((event) => {
+    if (event.kind === 'job') {
+      setStatus(event.job.status);
+      setError(event.job.error);
+    } else if (event.kind === 'progress') {
+      setSteps((prev) => {
+        // Repeated updates within a step replace the previous line
+        const last = prev[prev.length - 1];
+        return last?.step === event.step ? [...prev.slice(0, -1), event] : [...prev, event];
+      });
+    }
+  }, { jobId });
+
+  const active = status === 'running' || status === 'queued';
+  const latest = steps[steps.length - 1];
+  const percent = latest?.total ? Math.round(((latest.current ?? 0) / latest.total) * 100) : null;
+
+  return (
+    <div className="border-2 border-bauhaus-black p-3 text-sm">
+      <div className="flex items-center gap-2 mb-2 font-medium">
+        {active ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : status === 'succeeded' ? (
+          <Check size={14} className="text-bauhaus-green" />
+        ) : (
+          <X size={14} className="text-bauhaus-red" />
+        )}
+        <span>{title ?? 'Progress'}</span>
+        <span className="ml-auto text-xs uppercase text-bauhaus-gray">{status}</span>
+      </div>
+
+      {percent !== null && active && (
+        <div className="h-1 bg-bauhaus-lightgray mb-2">
+          <div className="h-1 bg-bauhaus-blue transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <p className="text-xs text-bauhaus-gray">Waiting for first update...</p>
+      ) : (
+        <ol className="space-y-1 text-xs">
+          {steps.map((step, index) => (
+            <li
+              key={`${step.step}-${index}`}
+              className={cn(
+                'flex items-center gap-2',
+                index === steps.length - 1 && active ? 'text-bauhaus-black' : 'text-bauhaus-gray'
+              )}
+            >
+              <span className="w-16 shrink-0">{new Date(step.at).toLocaleTimeString('en-GB')}</span>
+              <span>{step.message}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {error && <p className="mt-2 text-xs text-bauhaus-red">{error}</p>}
+    </div>
+  );
+}
@@ -6,3 +6,6 @@ export { DetailRow } from './DetailRow';
 export { EmptyState } from './EmptyState';
 export { LoadingSpinner } from './LoadingSpinner';
 export { UnseenDivider } from './UnseenDivider';
+export { JobProgress } from './JobProgress';
+export { GlobalSearch } from './GlobalSearch';
+export { AuditHistory } from './AuditHistory';
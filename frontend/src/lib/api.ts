@@ -14,6 +14,26 @@ export function getDocumentFileUrl(documentId: string): string {
   return `${API_BASE}/documents/${documentId}/file`;
 }
 
+/**
+ * Subscribe to the server's live event stream (Server-Sent Events).
+ * Pass a jobId to receive only that job's events.
+ * Returns a function that closes the stream.
+ */
+export function subscribeLiveEvents(
+  onEvent: (event: LiveEvent) => void,
+  jobId?: string
+): () => void {
+  const query = jobId ? `?jobId=${encodeURIComponent(jobId)}` : "";
+  const source = new EventSource(`${API_BASE}/events${query}`);
+  const handle = (message: MessageEvent<string>) => {
+    onEvent(JSON.parse(message.data) as LiveEvent);
+  };
+  for (const kind of ["progress", "job", "log"] as const) {
+    source.addEventListener(kind, handle);
+  }
+  return () => source.close();
+}
+
 async function fetchJson<T>(path: string, options?: RequestInit): Promise<T> {
   const response = await fetch(`${API_BASE}${path}`, {
     ...options,
@@ -25,12 +45,51 @@ async function fetchJson<T>(path: string, options?: RequestInit): Promise<T> {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.error || `HTTP ${response.status}`);
+    // A 409 carries the stored entity (see isVersionConflict)
+    throw Object.assign(new Error(error.error || `HTTP ${response.status}`), {
+      status: response.status,
+      current: error.current,
+    });
   }
 
   return response.json();
 }
 
+/** Header asking the server to save only on top of this version */
+function ifMatch(version: number | undefined): Record<string, string> {
+  return version === undefined ? {} : { "If-Match": `"${version}"` };
+}
+
+/**
+ * Whether a save failed because the entity changed since it was loaded.
+ * The error carries the stored entity.
+ */
+export function isVersionConflict<T>(err: unknown): err is Error & { status: 409; current: T } {
+  return err instanceof Error && (err as { status?: number }).status === 409 && "current" in err;
+}
+
+/** Append list parameters as a query string, skipping unset ones */
+function listPath(path: string, params: object): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value));
+  }
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/** Fetch every page of a list endpoint by following its cursors */
+async function fetchAllPages<T>(path: string, params: object = {}): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchJson<ListPage<T>>(listPath(path, { ...params, limit: 500, cursor }));
+    items.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return items;
+}
+
 // === Types ===
 
 export interface ScrapedLineItem {
@@ -99,12 +158,15 @@ export interface Claim {
   archivedAt?: string;
 }
 
+export type AmountRole = "total" | "subtotal" | "vat" | "line_item" | "unknown";
+
 export interface DetectedAmount {
   value: number;
   currency: string;
   rawText: string;
   context?: string;
   confidence: number;
+  role?: AmountRole;
 }
 
 export interface PaymentOverride {
@@ -126,8 +188,64 @@ export interface CalendarOrganizer {
   displayName?: string;
 }
 
+export type DocumentClassification =
+  | "medical_bill"
+  | "correspondence"
+  | "receipt"
+  | "prescription"
+  | "lab_result"
+  | "insurance_statement"
+  | "appointment"
+  | "unknown";
+
+export interface ClassificationOverride {
+  classification: DocumentClassification;
+  /** Automatic classification, restored when the override is cleared */
+  previousClassification: DocumentClassification;
+  note?: string;
+  updatedAt: string;
+}
+
+export interface ClassificationPrediction {
+  classification: DocumentClassification;
+  /** 0-1 */
+  probability: number;
+  modelVersion: number;
+  predictedAt: string;
+}
+
+export interface ExtractedField<T> {
+  value: T;
+  /** 0-100 */
+  confidence: number;
+}
+
+export interface ExtractedInvoiceFields {
+  providerName?: ExtractedField<string>;
+  providerAddress?: ExtractedField<string>;
+  invoiceNumber?: ExtractedField<string>;
+  invoiceDate?: ExtractedField<string>;
+  serviceDates?: ExtractedField<string[]>;
+  patientName?: ExtractedField<string>;
+  iban?: ExtractedField<string>;
+  paymentTerms?: ExtractedField<string>;
+  extractedAt: string;
+}
+
+export type DuplicateReason = "content_hash" | "near_duplicate";
+
+export interface DuplicateCandidate {
+  documentId: string;
+  reason: DuplicateReason;
+  /** Text similarity 0-1 (1 for identical content) */
+  similarity: number;
+  detectedAt: string;
+}
+
 export interface MedicalDocument {
   id: string;
+  /** Incremented by every save; sent back as If-Match */
+  version?: number;
   sourceType: "email" | "attachment" | "calendar";
   emailId?: string;
   account?: string;
@@ -159,6 +277,18 @@ export interface MedicalDocument {
   calendarConferenceUrl?: string;
   // Override fields
   paymentOverride?: PaymentOverride;
+  classificationOverride?: ClassificationOverride;
+  classificationPrediction?: ClassificationPrediction;
+  // Invoice fields read from OCR text
+  extractedFields?: ExtractedInvoiceFields;
+  // Set by archive rules
+  tags?: string[];
+  illnessId?: string;
+  // Duplicate detection
+  contentHash?: string;
+  duplicateCandidate?: DuplicateCandidate;
+  duplicateOf?: string;
+  notDuplicateOf?: string[];
   archivedAt?: string;
   archivedByRuleId?: string;
   archivedReason?: string;
@@ -201,6 +331,8 @@ export interface DraftClaimSubmission {
 
 export interface DraftClaim {
   id: string;
+  /** Incremented by every save; sent back as If-Match */
+  version?: number;
   status: DraftClaimStatus;
   primaryDocumentId: string;
   documentIds: string[];
@@ -243,6 +375,9 @@ export interface DraftClaimMatchDetails {
   scrapedCurrency?: string;
   scrapedPatient?: string;
   scrapedTreatmentDate?: string;
+  convertedDraftAmount?: number;
+  exchangeRate?: number;
+  exchangeRateDate?: string;
 }
 
 export interface DraftClaimMatch {
@@ -261,6 +396,46 @@ export interface DraftClaimMatchCandidate {
   documents: MedicalDocument[];
 }
 
+export type SubmissionSuggestionSource =
+  | "draft"
+  | "document"
+  | "previous_draft"
+  | "scraped_claim"
+  | "illness"
+  | "patient"
+  | "default";
+
+export interface SubmissionFieldSource {
+  source: SubmissionSuggestionSource;
+  reason: string;
+  draftClaimId?: string;
+  scrapedClaimId?: string;
+}
+
+export interface SubmissionSuggestion {
+  draftClaimId: string;
+  illnessId?: string;
+  submission: DraftClaimSubmission;
+  sources: Partial<Record<Exclude<keyof DraftClaimSubmission, "progressReport">, SubmissionFieldSource>>;
+}
+
+export type FilingUrgency = "expired" | "critical" | "warning" | "ok";
+
+export interface DraftClaimDeadline {
+  draftClaimId: string;
+  status: DraftClaimStatus;
+  patientId?: string;
+  patientName?: string;
+  illnessId?: string;
+  amount: number;
+  currency: string;
+  treatmentDate: string;
+  filingWindowDays: number;
+  deadline: string;
+  daysRemaining: number;
+  urgency: FilingUrgency;
+}
+
 export interface DocumentClaimAssignment {
   id: string;
   documentId: string;
@@ -277,6 +452,10 @@ export interface DocumentClaimAssignment {
     claimCurrency: string;
     difference: number;
     differencePercent: number;
+    convertedAmount?: number;
+    exchangeRate?: number;
+    exchangeRateDate?: string;
+    exchangeRateSource?: string;
   };
   dateMatchDetails?: {
     documentDate: string;
@@ -299,6 +478,7 @@ export interface Patient {
   citizenship?: string;
   workLocation?: string;
   email?: string;
+  filingWindowDays?: number;
   createdAt: string;
   updatedAt: string;
   archivedAt?: string;
@@ -314,6 +494,8 @@ export interface RelevantAccount {
 
 export interface Illness {
   id: string;
+  /** Incremented by every save; sent back as If-Match */
+  version?: number;
   patientId: string;
   name: string;
   icdCode?: string;
@@ -330,6 +512,39 @@ export interface Illness {
   archivedAt?: string;
 }
 
+export type ArchiveRuleTextField =
+  | "fromAddress"
+  | "toAddress"
+  | "subject"
+  | "attachmentName"
+  | "account"
+  | "ocrText"
+  | "calendarSummary"
+  | "calendarDescription"
+  | "calendarLocation"
+  | "calendarOrganizer"
+  | "calendarAttendees";
+
+export type ArchiveRuleCondition =
+  | { kind: "text"; field: ArchiveRuleTextField; operator: "contains" | "equals" | "regex"; value: string }
+  | { kind: "classification"; classifications: DocumentClassification[] }
+  | { kind: "amount"; min?: number; max?: number; currency?: string }
+  | { kind: "date"; after?: string; before?: string }
+  | ArchiveRuleConditionGroup;
+
+export interface ArchiveRuleConditionGroup {
+  kind: "group";
+  match: "all" | "any";
+  conditions: ArchiveRuleCondition[];
+}
+
+export type ArchiveRuleAction =
+  | { kind: "archive" }
+  | { kind: "set_classification"; classification: DocumentClassification }
+  | { kind: "tag"; tag: string }
+  | { kind: "link_illness"; illnessId: string }
+  | { kind: "promote_to_draft" };
+
 export interface ArchiveRule {
   id: string;
   name: string;
@@ -337,6 +552,10 @@ export interface ArchiveRule {
   fromContains?: string;
   subjectContains?: string;
   attachmentNameContains?: string;
+  /** All conditions and the "contains" fields must match */
+  conditions?: ArchiveRuleConditionGroup;
+  /** Default: archive */
+  actions?: ArchiveRuleAction[];
   createdAt: string;
   updatedAt: string;
 }
@@ -347,6 +566,8 @@ export interface CreateArchiveRuleInput {
   fromContains?: string;
   subjectContains?: string;
   attachmentNameContains?: string;
+  conditions?: ArchiveRuleConditionGroup;
+  actions?: ArchiveRuleAction[];
   applyToExisting?: boolean;
 }
 
@@ -362,6 +583,7 @@ export interface CreatePatientInput {
   citizenship?: string;
   workLocation?: string;
   email?: string;
+  filingWindowDays?: number;
 }
 
 export interface CreateIllnessInput {
@@ -400,18 +622,328 @@ export interface Stats {
   };
 }
 
+export interface ReimbursementTotals {
+  outOfPocket: number;
+  submitted: number;
+  reimbursed: number;
+  rejected: number;
+  awaiting: number;
+  notSubmitted: number;
+}
+
+export interface ReimbursementLedgerRow extends ReimbursementTotals {
+  patientId?: string;
+  patientName: string;
+  illnessId?: string;
+  illnessName: string;
+  currency: string;
+  draftClaimCount: number;
+  scrapedClaimCount: number;
+}
+
+export interface ReimbursementReport {
+  from?: string;
+  to?: string;
+  rows: ReimbursementLedgerRow[];
+  totals: Array<ReimbursementTotals & { currency: string }>;
+  generatedAt: string;
+}
+
+export type SearchEntityType = "document" | "draft_claim" | "scraped_claim";
+
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  snippet: SearchSnippetPart[];
+  date?: string;
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  hits: SearchHit[];
+}
+
+export interface Versioned {
+  version?: number;
+}
+
+export interface UpdateDraftClaimInput {
+  illnessId?: string;
+  doctorNotes?: string;
+  documentIds?: string[];
+  calendarDocumentIds?: string[];
+  paymentProofDocumentIds?: string[];
+  paymentProofText?: string;
+  submission?: DraftClaimSubmission;
+}
+
+export interface ListPage<T> {
+  items: T[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** Matching records across all pages */
+  total: number;
+}
+
+/** Paging and sort of list endpoints; sort is `key` or `-key` for descending */
+export interface ListParams {
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+}
+
+/** Filters take comma-separated values; date bounds are inclusive */
+export interface DocumentListParams extends ListParams {
+  classification?: string;
+  sourceType?: string;
+  account?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  archived?: boolean | "all";
+  amountMin?: number;
+  amountMax?: number;
+}
+
+export interface DraftClaimListParams extends ListParams {
+  status?: string;
+  treatmentDateFrom?: string;
+  treatmentDateTo?: string;
+  archived?: boolean | "all";
+  amountMin?: number;
+  amountMax?: number;
+}
+
+export interface ScrapedClaimListParams extends ListParams {
+  status?: string;
+  treatmentDateFrom?: string;
+  treatmentDateTo?: string;
+  submissionDateFrom?: string;
+  submissionDateTo?: string;
+  archived?: boolean | "all";
+  amountMin?: number;
+  amountMax?: number;
+}
+
+export interface AssignmentListParams extends ListParams {
+  status?: string;
+  documentId?: string;
+  claimId?: string;
+  createdAtFrom?: string;
+  createdAtTo?: string;
+  amountMin?: number;
+  amountMax?: number;
+}
+
+export type AuditEntityType =
+  | "document"
+  | "draft_claim"
+  | "scraped_claim"
+  | "claim"
+  | "assignment"
+  | "patient"
+  | "illness"
+  | "archive_rule";
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: "create" | "update" | "delete";
+  actor: string;
+  source?: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
 export interface PromoteDraftClaimResponse {
   draft: DraftClaim;
   created: boolean;
   expanded: boolean;
 }
 
+export type JobType = "scrape" | "submit" | "document_processing";
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobLogEntry {
+  at: string;
+  level: "info" | "warn" | "error";
+  message: string;
+}
+
+export interface JobProgress {
+  current: number;
+  total?: number;
+  message?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  trigger: string;
+  input?: Record<string, unknown>;
+  entityId?: string;
+  progress?: JobProgress;
+  logs: JobLogEntry[];
+  result?: unknown;
+  error?: string;
+  cancelRequestedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/** Job as returned by the list endpoint (logs omitted) */
+export type JobSummary = Omit<Job, "logs"> & { logCount: number };
+
+export interface ProgressEvent {
+  kind: "progress";
+  source: JobType;
+  jobId?: string;
+  /** Step name, specific to the source (e.g. "patient", "claim", "emails") */
+  step: string;
+  message: string;
+  current?: number;
+  total?: number;
+  at: string;
+}
+
+export interface JobEvent {
+  kind: "job";
+  job: Omit<Job, "logs">;
+  at: string;
+}
+
+export interface JobLogEvent {
+  kind: "log";
+  jobId: string;
+  entry: JobLogEntry;
+  at: string;
+}
+
+export type LiveEvent = ProgressEvent | JobEvent | JobLogEvent;
+
+export type IntegrityIssueKind = "broken_reference" | "orphan" | "duplicate";
+
+export interface IntegrityIssue {
+  id: string;
+  kind: IntegrityIssueKind;
+  entityType: AuditEntityType | "file" | "search_index";
+  entityId: string;
+  field?: string;
+  targetType?: AuditEntityType | "file";
+  targetId?: string;
+  message: string;
+  /** What a repair does; absent when the issue needs manual review */
+  repair?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  checked: Partial<Record<AuditEntityType, number>>;
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityRepairResult {
+  repaired: string[];
+  skipped: string[];
+  report: IntegrityReport;
+}
+
+export interface DuplicateReviewItem {
+  document: MedicalDocument;
+  original: MedicalDocument;
+  candidate: DuplicateCandidate;
+}
+
+export interface ClassifierModelSummary {
+  id: string;
+  modelVersion: number;
+  exampleCount: number;
+  classCounts: Partial<Record<DocumentClassification, number>>;
+  vocabularySize: number;
+  trainedAt: string;
+}
+
+export interface ClassifierStatus {
+  model: ClassifierModelSummary | null;
+  /** Predictions below this probability go to review */
+  confidentProbability: number;
+}
+
+export interface ClassifierTrainingResult {
+  model: ClassifierModelSummary;
+  predicted: number;
+  reclassified: number;
+}
+
+export interface ClassificationReviewItem {
+  document: MedicalDocument;
+  prediction: ClassificationPrediction;
+}
+
+export interface DuplicateScanResult {
+  hashed: number;
+  flagged: number;
+}
+
+export interface SubmitDraftClaimResponse {
+  message: string;
+  draftId: string;
+  patient: string;
+  amount: number;
+  currency: string;
+  job: Job;
+}
+
+export interface SubmitDraftClaimsBatchResponse {
+  message: string;
+  draftIds: string[];
+  job: Job;
+}
+
 // === API Functions ===
 
 export const api = {
   // Stats
   getStats: () => fetchJson<Stats>("/stats"),
 
+  // Reports
+  getReimbursementReport: (range: { from?: string; to?: string } = {}) => {
+    const params = new URLSearchParams();
+    if (range.from) params.set("from", range.from);
+    if (range.to) params.set("to", range.to);
+    const query = params.toString();
+    return fetchJson<ReimbursementReport>(`/reports/reimbursement${query ? `?${query}` : ""}`);
+  },
+
+  // Search
+  search: (q: string, limit?: number) => {
+    const params = new URLSearchParams({ q });
+    if (limit) params.set("limit", String(limit));
+    return fetchJson<SearchResponse>(`/search?${params.toString()}`);
+  },
+
+  // Audit log
+  getAuditEntries: (entity: AuditEntityType, id: string) => {
+    const params = new URLSearchParams({ entity, id });
+    return fetchJson<AuditEntry[]>(`/audit?${params.toString()}`);
+  },
+
   // Claims
   getClaims: () => fetchJson<Claim[]>("/claims"),
   getClaim: (id: string) => fetchJson<Claim>(`/claims/${id}`),
@@ -425,7 +957,9 @@ export const api = {
     }),
 
   // Scraped Claims
-  getScrapedClaims: () => fetchJson<ScrapedClaim[]>("/scraped-claims"),
+  getScrapedClaims: () => fetchAllPages<ScrapedClaim>("/scraped-claims"),
+  listScrapedClaims: (params: ScrapedClaimListParams = {}) =>
+    fetchJson<ListPage<ScrapedClaim>>(listPath("/scraped-claims", params)),
   getScrapedClaim: (id: string) => fetchJson<ScrapedClaim>(`/scraped-claims/${id}`),
   getArchivedScrapedClaims: () => fetchJson<ScrapedClaim[]>("/scraped-claims/archived"),
   getActiveScrapedClaims: () => fetchJson<ScrapedClaim[]>("/scraped-claims/active"),
@@ -436,7 +970,9 @@ export const api = {
     }),
 
   // Documents
-  getDocuments: () => fetchJson<MedicalDocument[]>("/documents"),
+  getDocuments: () => fetchAllPages<MedicalDocument>("/documents"),
+  listDocuments: (params: DocumentListParams = {}) =>
+    fetchJson<ListPage<MedicalDocument>>(listPath("/documents", params)),
   getActiveDocuments: () => fetchJson<MedicalDocument[]>("/documents/active"),
   getArchivedDocuments: () => fetchJson<MedicalDocument[]>("/documents/archived"),
   getDocument: (id: string) => fetchJson<MedicalDocument>(`/documents/${id}`),
@@ -457,10 +993,23 @@ export const api = {
 
   setPaymentOverride: (
     id: string,
-    override: { amount: number; currency: string; note?: string } | null
+    override: { amount: number; currency: string; note?: string } | null,
+    version?: number
   ) =>
     fetchJson<MedicalDocument>(`/documents/${id}/payment-override`, {
       method: "PUT",
+      headers: ifMatch(version),
+      body: JSON.stringify(override ? override : { clear: true }),
+    }),
+
+  setClassificationOverride: (
+    id: string,
+    override: { classification: DocumentClassification; note?: string } | null,
+    version?: number
+  ) =>
+    fetchJson<MedicalDocument>(`/documents/${id}/classification-override`, {
+      method: "PUT",
+      headers: ifMatch(version),
       body: JSON.stringify(override ? override : { clear: true }),
     }),
 
@@ -516,9 +1065,10 @@ export const api = {
       method: "POST",
       body: JSON.stringify(input),
     }),
-  updateIllness: (id: string, updates: Partial<CreateIllnessInput>) =>
+  updateIllness: (id: string, updates: Partial<CreateIllnessInput>, version?: number) =>
     fetchJson<Illness>(`/illnesses/${id}`, {
       method: "PUT",
+      headers: ifMatch(version),
       body: JSON.stringify(updates),
     }),
   setIllnessArchived: (id: string, archived: boolean) =>
@@ -528,7 +1078,9 @@ export const api = {
     }),
 
   // Assignments
-  getAssignments: () => fetchJson<DocumentClaimAssignment[]>("/assignments"),
+  getAssignments: () => fetchAllPages<DocumentClaimAssignment>("/assignments"),
+  listAssignments: (params: AssignmentListParams = {}) =>
+    fetchJson<ListPage<DocumentClaimAssignment>>(listPath("/assignments", params)),
   getCandidates: () => fetchJson<DocumentClaimAssignment[]>("/assignments/candidates"),
   getConfirmed: () => fetchJson<DocumentClaimAssignment[]>("/assignments/confirmed"),
 
@@ -548,9 +1100,17 @@ export const api = {
     fetchJson<PreviewAccountsResponse>(`/assignments/${assignmentId}/preview-accounts`),
 
   // Draft Claims
-  getDraftClaims: () => fetchJson<DraftClaim[]>("/draft-claims"),
+  getDraftClaims: () => fetchAllPages<DraftClaim>("/draft-claims"),
+  getDraftClaim: (id: string) => fetchJson<DraftClaim>(`/draft-claims/${id}`),
+  listDraftClaims: (params: DraftClaimListParams = {}) =>
+    fetchJson<ListPage<DraftClaim>>(listPath("/draft-claims", params)),
   getArchivedDraftClaims: () => fetchJson<DraftClaim[]>("/draft-claims/archived"),
   getActiveDraftClaims: () => fetchJson<DraftClaim[]>("/draft-claims/active"),
+  getDraftClaimDeadlines: () => fetchJson<DraftClaimDeadline[]>("/draft-claims/deadlines"),
+  getSubmissionSuggestion: (id: string, illnessId?: string) =>
+    fetchJson<SubmissionSuggestion>(
+      `/draft-claims/${id}/submission-suggestion${illnessId ? `?illnessId=${encodeURIComponent(illnessId)}` : ""}`
+    ),
   setDraftClaimArchived: (id: string, archived: boolean) =>
     fetchJson<DraftClaim>(`/draft-claims/${id}/archive`, {
       method: "PUT",
@@ -596,25 +1156,30 @@ export const api = {
       pauseBeforeSubmit?: boolean;
     }
   ) =>
-    fetchJson<Claim>(`/draft-claims/${id}/submit`, {
+    fetchJson<SubmitDraftClaimResponse>(`/draft-claims/${id}/submit`, {
       method: "POST",
       body: JSON.stringify(options ?? {}),
     }),
-  /** Auto-save partial updates to a pending draft claim */
-  updateDraftClaim: (
-    id: string,
-    input: {
-      illnessId?: string;
-      doctorNotes?: string;
-      documentIds?: string[];
-      calendarDocumentIds?: string[];
-      paymentProofDocumentIds?: string[];
-      paymentProofText?: string;
-      submission?: DraftClaimSubmission;
+  /** Submit accepted drafts automatically, one after another, in one Cigna session */
+  submitDraftClaimsBatch: (
+    draftIds: string[],
+    options?: {
+      cignaId?: string;
+      password?: string;
+      totpSecret?: string;
+      /** Run browser invisibly (default: false - visible) */
+      headless?: boolean;
     }
   ) =>
+    fetchJson<SubmitDraftClaimsBatchResponse>("/draft-claims/submit-batch", {
+      method: "POST",
+      body: JSON.stringify({ ...options, draftIds }),
+    }),
+  /** Auto-save partial updates to a pending draft claim */
+  updateDraftClaim: (id: string, input: UpdateDraftClaimInput, version?: number) =>
     fetchJson<DraftClaim>(`/draft-claims/${id}`, {
       method: "PATCH",
+      headers: ifMatch(version),
       body: JSON.stringify(input),
     }),
   runDraftMatching: () =>
@@ -647,11 +1212,9 @@ export const api = {
     ),
 
   // Processing
+  /** Starts a background document processing job */
   processDocuments: () =>
-    fetchJson<{ processed: number; documents: MedicalDocument[] }>(
-      "/process/documents",
-      { method: "POST" }
-    ),
+    fetchJson<Job>("/process/documents", { method: "POST" }),
 
   processCalendar: () =>
     fetchJson<{ processed: number; documents: MedicalDocument[] }>(
@@ -670,11 +1233,42 @@ export const api = {
     password: string;
     totpSecret?: string;
   }) =>
-    fetchJson<{ scraped: number; claims: ScrapedClaim[] }>("/process/scrape", {
+    fetchJson<Job>("/process/scrape", {
       method: "POST",
       body: JSON.stringify(credentials),
     }),
 
+  // Jobs
+  getJobs: (type?: JobType) =>
+    fetchJson<JobSummary[]>(type ? `/jobs?type=${type}` : "/jobs"),
+  getJob: (id: string) => fetchJson<Job>(`/jobs/${id}`),
+  cancelJob: (id: string) =>
+    fetchJson<Job>(`/jobs/${id}/cancel`, { method: "POST" }),
+
+  // Integrity
+  getIntegrityReport: () => fetchJson<IntegrityReport>("/admin/integrity"),
+  repairIntegrityIssues: (issueIds: string[]) =>
+    fetchJson<IntegrityRepairResult>("/admin/integrity/repair", {
+      method: "POST",
+      body: JSON.stringify({ issueIds }),
+    }),
+
+  // Duplicates
+  getDuplicates: () => fetchJson<DuplicateReviewItem[]>("/duplicates"),
+  scanForDuplicates: () =>
+    fetchJson<DuplicateScanResult>("/duplicates/scan", { method: "POST" }),
+  mergeDuplicate: (documentId: string) =>
+    fetchJson<MedicalDocument>(`/documents/${documentId}/duplicate/merge`, { method: "POST" }),
+  dismissDuplicate: (documentId: string) =>
+    fetchJson<MedicalDocument>(`/documents/${documentId}/duplicate/dismiss`, { method: "POST" }),
+
+  // Classifier
+  getClassifier: () => fetchJson<ClassifierStatus>("/classifier"),
+  trainClassifier: () =>
+    fetchJson<ClassifierTrainingResult>("/classifier/train", { method: "POST" }),
+  getClassificationReview: () =>
+    fetchJson<ClassificationReviewItem[]>("/classification-review"),
+
   /**
    * Upload a proof of payment file (image or PDF).
    * Returns the created document ID.
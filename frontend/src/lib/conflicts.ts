@@ -0,0 +1,50 @@
+/**
+ * Optimistic concurrency on the client.
+ *
+ * Saves send the version the form was loaded from. When the server answers
+ * 409 with its current copy, merge where possible and otherwise ask.
+ */
+
+import { isVersionConflict, type Versioned } from './api';
+
+export interface ConflictCheckedSave<T> {
+  entity: T;
+  /** False when the user kept the stored copy instead of saving */
+  saved: boolean;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Save changes to `fields` made on top of `base`, sending its version.
+ * If someone else saved in between (409), the save is retried on the stored
+ * version when none of those fields changed there; otherwise the user picks
+ * between overwriting and keeping the stored copy.
+ */
+export async function saveWithConflictCheck<T extends Versioned>(
+  base: T,
+  fields: (keyof T)[],
+  save: (version: number) => Promise<T>,
+  label: string
+): Promise<ConflictCheckedSave<T>> {
+  try {
+    return { entity: await save(base.version ?? 0), saved: true };
+  } catch (err) {
+    if (!isVersionConflict<T>(err)) throw err;
+
+    const current = err.current;
+    const changedElsewhere = fields.filter((field) => !sameValue(base[field], current[field]));
+    if (
+      changedElsewhere.length > 0 &&
+      !confirm(
+        `This ${label} was changed elsewhere (${changedElsewhere.join(', ')}).\n\n` +
+          'OK: overwrite with your changes\nCancel: discard your changes and load the latest version'
+      )
+    ) {
+      return { entity: current, saved: false };
+    }
+    return { entity: await save(current.version ?? 0), saved: true };
+  }
+}
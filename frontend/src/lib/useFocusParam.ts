@@ -0,0 +1,26 @@
+import { useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+
+/**
+ * Open the item named by `?focus=<id>` once it is loaded, then drop the
+ * parameter so the selection can change freely. Used by global search to
+ * jump to a hit.
+ */
+export function useFocusParam<T extends { id: string }>(
+  items: T[],
+  onFocus: (item: T) => void
+) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focusId = searchParams.get("focus");
+
+  useEffect(() => {
+    if (!focusId) return;
+    const item = items.find((candidate) => candidate.id === focusId);
+    if (!item) return;
+
+    onFocus(item);
+    const next = new URLSearchParams(searchParams);
+    next.delete("focus");
+    setSearchParams(next, { replace: true });
+  }, [focusId, items]);
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { subscribeLiveEvents, type LiveEvent } from "./api";
+
+export interface UseLiveEventsOptions {
+  /** Only receive events for this job. */
+  jobId?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to the server's live event stream while mounted.
+ *
+ * The handler may change between renders without reopening the stream.
+ */
+export function useLiveEvents(
+  onEvent: (event: LiveEvent) => void,
+  options: UseLiveEventsOptions = {}
+) {
+  const { jobId, enabled = true } = options;
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeLiveEvents((event) => handlerRef.current(event), jobId);
+  }, [enabled, jobId]);
+}
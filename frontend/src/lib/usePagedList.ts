@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ListPage, ListParams } from "./api";
+
+export interface UsePagedListOptions<T, P extends ListParams> {
+  /** Fetches one page of a list endpoint (e.g. api.listDocuments) */
+  fetchPage: (params: P) => Promise<ListPage<T>>;
+  /** Filters and sort; changing them reloads from the first page */
+  params: P;
+  /** When an item was added; items added after the last visit are unseen */
+  getAddedAt: (item: T) => string;
+  pageSize?: number;
+  pollIntervalMs?: number;
+  /** Unique key for localStorage persistence of the last visit */
+  cacheKey?: string;
+}
+
+function loadSeenAt(key: string | null): string | null {
+  if (!key) return null;
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function saveSeenAt(key: string | null, value: string): void {
+  if (!key) return;
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // quota exceeded or private mode - ignore
+  }
+}
+
+/**
+ * Paginated list with server-side filters and sort.
+ *
+ * Unlike useUnseenList, items are loaded a page at a time and polling
+ * re-fetches only the pages already loaded. Unseen items are those added
+ * since the list was last marked seen, so they survive filter changes.
+ */
+export function usePagedList<T extends { id: string }, P extends ListParams>(
+  options: UsePagedListOptions<T, P>
+) {
+  const {
+    fetchPage,
+    params,
+    getAddedAt,
+    pageSize = 50,
+    pollIntervalMs = 30000,
+    cacheKey,
+  } = options;
+
+  const seenStorageKey = cacheKey ? `paged-list-seen-at:${cacheKey}` : null;
+  const paramsKey = JSON.stringify(params);
+
+  const [items, setItems] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // First visit: everything already there counts as seen
+  const [seenAt, setSeenAt] = useState(() => {
+    const stored = loadSeenAt(seenStorageKey);
+    if (stored) return stored;
+    const now = new Date().toISOString();
+    saveSeenAt(seenStorageKey, now);
+    return now;
+  });
+
+  const pageCountRef = useRef(1);
+  // Bumped on every params change so responses for old params are dropped
+  const generationRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const generation = generationRef.current;
+    try {
+      const loaded: T[] = [];
+      let page: ListPage<T> | null = null;
+      let cursor: string | undefined;
+      for (let i = 0; i < pageCountRef.current; i++) {
+        page = await fetchPage({ ...JSON.parse(paramsKey), limit: pageSize, cursor } as P);
+        loaded.push(...page.items);
+        cursor = page.nextCursor ?? undefined;
+        if (!cursor) break;
+      }
+      if (generation !== generationRef.current || !page) return;
+      setItems(loaded);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (err) {
+      if (generation === generationRef.current) setError(err as Error);
+    } finally {
+      if (generation === generationRef.current) setLoading(false);
+    }
+  }, [fetchPage, paramsKey, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const generation = generationRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage({ ...JSON.parse(paramsKey), limit: pageSize, cursor: nextCursor } as P);
+      if (generation !== generationRef.current) return;
+      pageCountRef.current++;
+      setItems((current) => {
+        const known = new Set(current.map((item) => item.id));
+        return [...current, ...page.items.filter((item) => !known.has(item.id))];
+      });
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, paramsKey, pageSize, nextCursor, loadingMore]);
+
+  // Start over from the first page when filters or sort change
+  useEffect(() => {
+    generationRef.current++;
+    pageCountRef.current = 1;
+    setLoading(true);
+    setItems([]);
+    setNextCursor(null);
+    refresh();
+    if (pollIntervalMs <= 0) return;
+    const interval = setInterval(refresh, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [refresh, pollIntervalMs]);
+
+  const unseenIds = useMemo(
+    () => new Set(items.filter((item) => getAddedAt(item) > seenAt).map((item) => item.id)),
+    [items, seenAt, getAddedAt]
+  );
+
+  const markAllSeen = useCallback(() => {
+    const latest = items.reduce(
+      (max, item) => (getAddedAt(item) > max ? getAddedAt(item) : max),
+      seenAt
+    );
+    setSeenAt(latest);
+    saveSeenAt(seenStorageKey, latest);
+  }, [items, seenAt, getAddedAt, seenStorageKey]);
+
+  const upsertItem = useCallback(
+    (item: T) =>
+      setItems((current) => {
+        const index = current.findIndex((entry) => entry.id === item.id);
+        if (index === -1) return [item, ...current];
+        return current.map((entry) => (entry.id === item.id ? item : entry));
+      }),
+    []
+  );
+
+  return {
+    items,
+    total,
+    hasMore: nextCursor !== null,
+    loading,
+    loadingMore,
+    error,
+    unseenIds,
+    hasUnseen: unseenIds.size > 0,
+    refresh,
+    loadMore,
+    markAllSeen,
+    upsertItem,
+  };
+}
@@ -1,15 +1,53 @@
-import { useState, type ReactNode } from 'react';
-import { RefreshCw, Wrench } from 'lucide-react';
-import { api } from '@/lib/api';
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { ListChecks, RefreshCw, ShieldCheck, Wrench, X } from 'lucide-react';
+import {
+  api,
+  type IntegrityIssueKind,
+  type IntegrityReport,
+  type Job,
+  type JobStatus,
+  type JobSummary,
+} from '@/lib/api';
+import { JobProgress } from '@/components';
+import { useCachedFetch } from '@/lib/useCachedFetch';
+import { useLiveEvents } from '@/lib/useLiveEvents';
+import { cn } from '@/lib/utils';
 
 export default function Admin() {
   const [processing, setProcessing] = useState<string | null>(null);
+  const fetchJobs = useCallback(() => api.getJobs(), []);
+  const { data: fetchedJobs, refresh: refreshJobs } = useCachedFetch<JobSummary[]>({
+    key: 'jobs',
+    fetcher: fetchJobs,
+    ttlMs: 5_000,
+  });
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  useEffect(() => {
+    if (fetchedJobs) setJobs(fetchedJobs);
+  }, [fetchedJobs]);
+
+  // Live job updates replace polling
+  useLiveEvents((event) => {
+    if (event.kind === 'job') {
+      setJobs((prev) => {
+        const existing = prev.find((job) => job.id === event.job.id);
+        const updated = { ...event.job, logCount: existing?.logCount ?? 0 };
+        return existing
+          ? prev.map((job) => (job.id === updated.id ? updated : job))
+          : [updated, ...prev];
+      });
+    } else if (event.kind === 'log') {
+      setJobs((prev) => prev.map((job) =>
+        job.id === event.jobId ? { ...job, logCount: job.logCount + 1 } : job
+      ));
+    }
+  });
 
   async function handleProcessDocuments() {
     setProcessing('documents');
     try {
-      const result = await api.processDocuments();
-      alert(`Processed ${result.processed} documents`);
+      await api.processDocuments();
+      await refreshJobs();
     } catch (err) {
       alert(`Error: ${err}`);
     } finally {
@@ -80,6 +118,212 @@ export default function Admin() {
           Background jobs keep data fresh daily.
         </div>
       </div>
+
+      <JobsPanel jobs={jobs} onChange={refreshJobs} />
+
+      <IntegrityPanel />
+    </div>
+  );
+}
+
+const JOB_STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: 'bg-bauhaus-lightgray text-bauhaus-black',
+  running: 'bg-bauhaus-blue text-white',
+  succeeded: 'bg-bauhaus-green text-white',
+  failed: 'bg-bauhaus-red text-white',
+  cancelled: 'bg-bauhaus-lightgray text-bauhaus-gray',
+};
+
+const JOB_TYPE_LABELS: Record<JobSummary['type'], string> = {
+  scrape: 'Cigna scrape',
+  submit: 'Claim submission',
+  document_processing: 'Document processing',
+};
+
+function JobsPanel({ jobs, onChange }: { jobs: JobSummary[]; onChange: () => Promise<void> }) {
+  const [expanded, setExpanded] = useState<Job | null>(null);
+
+  async function handleToggle(id: string) {
+    if (expanded?.id === id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      setExpanded(await api.getJob(id));
+    } catch (err) {
+      alert(`Error: ${err}`);
+    }
+  }
+
+  async function handleCancel(id: string) {
+    try {
+      const job = await api.cancelJob(id);
+      if (expanded?.id === id) setExpanded(job);
+      await onChange();
+    } catch (err) {
+      alert(`Error: ${err}`);
+    }
+  }
+
+  return (
+    <div className="bg-white border-2 border-bauhaus-black p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ListChecks size={20} />
+        <h2 className="text-xl font-bold">Jobs</h2>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-bauhaus-gray">No jobs yet.</p>
+      ) : (
+        <ul className="divide-y divide-bauhaus-lightgray">
+          {jobs.slice(0, 25).map((job) => (
+            <li key={job.id} className="py-2">
+              <div className="flex items-center gap-3 text-sm">
+                <span className={cn('px-2 py-0.5 text-xs font-medium uppercase', JOB_STATUS_CLASSES[job.status])}>
+                  {job.status}
+                </span>
+                <button onClick={() => handleToggle(job.id)} className="font-medium hover:underline text-left">
+                  {JOB_TYPE_LABELS[job.type]}
+                </button>
+                <span className="text-bauhaus-gray">
+                  {new Date(job.createdAt).toLocaleString('en-GB')} · {job.trigger}
+                </span>
+                {job.progress && job.status === 'running' && (
+                  <span className="text-bauhaus-gray">
+                    {job.progress.total
+                      ? `${job.progress.current}/${job.progress.total}`
+                      : job.progress.current}
+                    {job.progress.message && ` · ${job.progress.message}`}
+                  </span>
+                )}
+                {job.error && <span className="text-bauhaus-red truncate">{job.error}</span>}
+                {(job.status === 'running' || job.status === 'queued') && !job.cancelRequestedAt && (
+                  <button
+                    onClick={() => handleCancel(job.id)}
+                    className="ml-auto flex items-center gap-1 text-bauhaus-red hover:underline"
+                  >
+                    <X size={14} /> Cancel
+                  </button>
+                )}
+              </div>
+              {expanded?.id === job.id && (job.status === 'running' || job.status === 'queued') && (
+                <div className="mt-2">
+                  <JobProgress jobId={job.id} title={JOB_TYPE_LABELS[job.type]} />
+                </div>
+              )}
+              {expanded?.id === job.id && !(job.status === 'running' || job.status === 'queued') && (
+                <pre className="mt-2 p-3 bg-bauhaus-lightgray text-xs overflow-x-auto max-h-64">
+                  {expanded.logs.length === 0
+                    ? 'No log lines.'
+                    : expanded.logs
+                      .map((entry) => `${new Date(entry.at).toLocaleTimeString('en-GB')} [${entry.level}] ${entry.message}`)
+                      .join('\n')}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const INTEGRITY_KIND_LABELS: Record<IntegrityIssueKind, string> = {
+  broken_reference: 'Broken link',
+  orphan: 'Orphan',
+  duplicate: 'Duplicate',
+};
+
+function IntegrityPanel() {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function handleCheck() {
+    setBusy(true);
+    try {
+      setReport(await api.getIntegrityReport());
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRepair(issueIds: string[]) {
+    setBusy(true);
+    try {
+      const result = await api.repairIntegrityIssues(issueIds);
+      setReport(result.report);
+      if (result.skipped.length > 0) {
+        alert(`Repaired ${result.repaired.length} issue(s); ${result.skipped.length} no longer applied`);
+      }
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const repairable = report?.issues.filter((issue) => issue.repair) ?? [];
+
+  return (
+    <div className="bg-white border-2 border-bauhaus-black p-6 mt-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck size={20} />
+        <h2 className="text-xl font-bold">Data Integrity</h2>
+      </div>
+
+      <p className="text-sm text-bauhaus-gray mb-4">
+        Finds links to deleted records, uploads and index entries nothing uses, and duplicates.
+        Only safe repairs are offered; everything else needs a manual look.
+      </p>
+
+      <div className="flex gap-4 mb-4">
+        <ActionButton onClick={handleCheck} disabled={busy}>
+          {busy ? 'Checking...' : 'Check Integrity'}
+        </ActionButton>
+        {repairable.length > 0 && (
+          <ActionButton
+            onClick={() => {
+              if (confirm(`Apply ${repairable.length} safe repair(s)?`)) {
+                handleRepair(repairable.map((issue) => issue.id));
+              }
+            }}
+            disabled={busy}
+          >
+            Repair All Safe Issues ({repairable.length})
+          </ActionButton>
+        )}
+      </div>
+
+      {report && (
+        report.issues.length === 0 ? (
+          <p className="text-sm text-bauhaus-green">
+            No issues found ({new Date(report.checkedAt).toLocaleString('en-GB')}).
+          </p>
+        ) : (
+          <ul className="divide-y divide-bauhaus-lightgray">
+            {report.issues.map((issue) => (
+              <li key={issue.id} className="py-2 flex items-center gap-3 text-sm">
+                <span className="px-2 py-0.5 text-xs font-medium uppercase bg-bauhaus-lightgray text-bauhaus-black">
+                  {INTEGRITY_KIND_LABELS[issue.kind]}
+                </span>
+                <span className="truncate">{issue.message}</span>
+                {issue.repair && (
+                  <button
+                    onClick={() => handleRepair([issue.id])}
+                    disabled={busy}
+                    title={issue.repair}
+                    className="ml-auto flex items-center gap-1 text-bauhaus-blue hover:underline disabled:opacity-50"
+                  >
+                    <Wrench size={14} /> Repair
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
     </div>
   );
 }
@@ -6,6 +6,7 @@ import { api, type Claim, type ScrapedClaim, type Patient } from '@/lib/api';
 import { useUnseenList } from '@/lib/useUnseenList';
 import { useUnseenDivider } from '@/lib/useUnseenDivider';
 import { useCachedFetch } from '@/lib/useCachedFetch';
+import { useFocusParam } from '@/lib/useFocusParam';
 
 type ClaimFilter = 'all' | 'scraped' | 'submitted';
 
@@ -100,6 +101,11 @@ export default function Claims() {
   });
   const dividerRef = useRef<HTMLDivElement | null>(null);
 
+  useFocusParam(claims, (claim) => {
+    setFilter('all');
+    setSelectedClaim(claim);
+  });
+
   async function handleArchive() {
     if (!selectedClaim) return;
     setArchiving(true);
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Brain, Check, ExternalLink, GraduationCap, RefreshCw } from 'lucide-react';
+import {
+  api,
+  getDocumentFileUrl,
+  type ClassificationReviewItem,
+  type ClassifierStatus,
+  type DocumentClassification,
+} from '@/lib/api';
+import { EmptyState, LoadingSpinner } from '@/components';
+import { cn, formatDate } from '@/lib/utils';
+
+const classificationOptions: Array<{ value: DocumentClassification; label: string }> = [
+  { value: 'medical_bill', label: 'Bill' },
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'correspondence', label: 'Letter' },
+  { value: 'prescription', label: 'Prescription' },
+  { value: 'lab_result', label: 'Lab result' },
+  { value: 'insurance_statement', label: 'Insurance statement' },
+  { value: 'appointment', label: 'Appointment' },
+  { value: 'unknown', label: 'Unknown' },
+];
+
+function classificationLabel(value: DocumentClassification): string {
+  return classificationOptions.find((option) => option.value === value)?.label ?? value;
+}
+
+export default function ClassificationReview() {
+  const [items, setItems] = useState<ClassificationReviewItem[]>([]);
+  const [status, setStatus] = useState<ClassifierStatus | null>(null);
+  const [choices, setChoices] = useState<Record<string, DocumentClassification>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [training, setTraining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  async function loadQueue() {
+    setLoading(true);
+    try {
+      const [queue, classifier] = await Promise.all([api.getClassificationReview(), api.getClassifier()]);
+      setItems(queue);
+      setStatus(classifier);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleTrain() {
+    setTraining(true);
+    try {
+      const result = await api.trainClassifier();
+      alert(
+        `Trained model v${result.model.modelVersion} on ${result.model.exampleCount} document(s); ` +
+        `${result.reclassified} document(s) reclassified`
+      );
+      await loadQueue();
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setTraining(false);
+    }
+  }
+
+  async function handleConfirm(item: ClassificationReviewItem) {
+    const { document } = item;
+    const classification = choices[document.id] ?? item.prediction.classification;
+    setBusyId(document.id);
+    try {
+      await api.setClassificationOverride(document.id, { classification }, document.version);
+      setItems((current) => current.filter((entry) => entry.document.id !== document.id));
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const model = status?.model;
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Brain size={24} />
+          <h1 className="text-3xl font-bold bauhaus-accent">Classification Review</h1>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleTrain}
+            disabled={training}
+            className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors disabled:opacity-50"
+          >
+            <GraduationCap size={16} />
+            {training ? 'Training...' : 'Retrain Model'}
+          </button>
+          <button
+            onClick={loadQueue}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors"
+          >
+            <RefreshCw size={16} className={cn(loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-bauhaus-gray mb-2">
+        The classifier learns from documents whose classification you corrected and from documents
+        confirmed as claim evidence. Confirm or correct the uncertain predictions below, then retrain.
+      </p>
+      <p className="text-sm mb-6">
+        {model
+          ? `Model v${model.modelVersion}, trained ${formatDate(model.trainedAt)} on ${model.exampleCount} document(s)`
+          : 'No model trained yet: documents are classified by keywords.'}
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-bauhaus-red/10 border-2 border-bauhaus-red text-bauhaus-red">
+          {error}
+        </div>
+      )}
+
+      {loading && items.length === 0 ? (
+        <LoadingSpinner />
+      ) : items.length === 0 ? (
+        <EmptyState
+          icon={Brain}
+          title="Nothing to review"
+          message="Documents the model is unsure about will appear here."
+        />
+      ) : (
+        <ul className="space-y-4">
+          {items.map((item) => {
+            const { document, prediction } = item;
+            return (
+              <li key={document.id} className="bauhaus-card flex items-center gap-6">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{document.filename ?? document.subject ?? document.id}</p>
+                  <p className="text-sm text-bauhaus-gray truncate">
+                    {document.date ? formatDate(document.date) : 'No date'}
+                    {document.fromAddress && ` · ${document.fromAddress}`}
+                  </p>
+                  <p className="text-sm">
+                    Predicted {classificationLabel(prediction.classification)} ·{' '}
+                    {Math.round(prediction.probability * 100)}% likely
+                  </p>
+                  {document.attachmentPath && (
+                    <a
+                      href={getDocumentFileUrl(document.id)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-bauhaus-blue hover:underline"
+                    >
+                      <ExternalLink size={14} /> Open file
+                    </a>
+                  )}
+                </div>
+                <select
+                  value={choices[document.id] ?? prediction.classification}
+                  onChange={(e) =>
+                    setChoices((current) => ({
+                      ...current,
+                      [document.id]: e.target.value as DocumentClassification,
+                    }))
+                  }
+                  className="px-2 py-2 border-2 border-bauhaus-black bg-white"
+                >
+                  {classificationOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleConfirm(item)}
+                  disabled={busyId === document.id}
+                  className="flex items-center gap-2 px-4 py-2 bg-bauhaus-black text-white font-medium hover:bg-bauhaus-gray transition-colors disabled:opacity-50"
+                >
+                  <Check size={16} /> Confirm
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
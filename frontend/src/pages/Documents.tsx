@@ -1,5 +1,6 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
-import { FileText, Mail, Calendar, Tag, DollarSign, RefreshCw, Eye, ExternalLink, MapPin, Users, Clock, User, Edit2, Check, X, Archive, Trash2, FilePlus, Filter } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { FileText, Mail, Calendar, Tag, DollarSign, RefreshCw, Eye, ExternalLink, MapPin, Users, Clock, User, Edit2, Check, X, Archive, Trash2, FilePlus, Filter, Receipt } from 'lucide-react';
 import { cn, formatCurrency, formatDate } from '@/lib/utils';
 import {
   FilterTabs,
@@ -7,12 +8,47 @@ import {
   EmptyState as SharedEmptyState,
   LoadingSpinner,
   UnseenDivider,
+  AuditHistory,
 } from '@/components';
-import { api, getDocumentFileUrl, type ArchiveRule, type MedicalDocument } from '@/lib/api';
-import { useUnseenList } from '@/lib/useUnseenList';
+import {
+  api,
+  getDocumentFileUrl,
+  type AmountRole,
+  type ArchiveRule,
+  type ArchiveRuleAction,
+  type ArchiveRuleCondition,
+  type ArchiveRuleTextField,
+  type DocumentClassification,
+  type DocumentListParams,
+  type ExtractedInvoiceFields,
+  type Illness,
+  type MedicalDocument,
+} from '@/lib/api';
+import { usePagedList } from '@/lib/usePagedList';
 import { useUnseenDivider } from '@/lib/useUnseenDivider';
+import { useFocusParam } from '@/lib/useFocusParam';
+import { saveWithConflictCheck } from '@/lib/conflicts';
+
+const sortOptions: Array<{ value: string; label: string }> = [
+  { value: '-date', label: 'Newest first' },
+  { value: 'date', label: 'Oldest first' },
+  { value: '-processedAt', label: 'Recently added' },
+  { value: '-amount', label: 'Largest amount' },
+];
+
+const documentAddedAt = (doc: MedicalDocument) => doc.processedAt;
+
+/** List query for a filter tab ('all', 'calendar' or a classification) */
+function documentListParams(filter: string, sort: string): DocumentListParams {
+  return {
+    archived: false,
+    sort,
+    ...(filter === 'calendar' && { sourceType: 'calendar' }),
+    ...(filter !== 'all' && filter !== 'calendar' && { classification: filter }),
+  };
+}
 
-const CURRENCIES = ['EUR', 'USD', 'GBP', 'HRK', 'CHF'];
+const CURRENCIES = ['EUR', 'USD', 'GBP', 'HRK', 'CHF', 'PLN', 'CZK', 'SEK'];
 
 const classificationLabels: Record<string, { label: string; color: string }> = {
   medical_bill: { label: 'Bill', color: 'bg-bauhaus-red' },
@@ -25,32 +61,152 @@ const classificationLabels: Record<string, { label: string; color: string }> = {
   unknown: { label: 'Unknown', color: 'bg-bauhaus-gray' },
 };
 
+const amountRoleLabels: Record<AmountRole, string | null> = {
+  total: 'Total',
+  subtotal: 'Subtotal',
+  vat: 'VAT',
+  line_item: 'Line item',
+  unknown: null,
+};
+
+const ruleFieldLabels: Record<ArchiveRuleTextField, string> = {
+  fromAddress: 'From',
+  toAddress: 'To',
+  subject: 'Subject',
+  attachmentName: 'Attachment',
+  account: 'Account',
+  ocrText: 'Text',
+  calendarSummary: 'Event title',
+  calendarDescription: 'Event description',
+  calendarLocation: 'Event location',
+  calendarOrganizer: 'Organizer',
+  calendarAttendees: 'Attendees',
+};
+
+function describeRuleCondition(condition: ArchiveRuleCondition): string {
+  switch (condition.kind) {
+    case 'group': {
+      const parts = condition.conditions.map(describeRuleCondition);
+      const joined = parts.join(condition.match === 'all' ? ' and ' : ' or ');
+      return parts.length > 1 ? `(${joined})` : joined;
+    }
+    case 'text':
+      return condition.operator === 'regex'
+        ? `${ruleFieldLabels[condition.field]} matches /${condition.value}/`
+        : `${ruleFieldLabels[condition.field]} ${condition.operator} "${condition.value}"`;
+    case 'classification':
+      return `Classified as ${condition.classifications
+        .map((value) => classificationLabels[value]?.label ?? value)
+        .join(' or ')}`;
+    case 'amount':
+      return [
+        'Amount',
+        condition.min !== undefined && `≥ ${condition.min}`,
+        condition.max !== undefined && `≤ ${condition.max}`,
+        condition.currency,
+      ]
+        .filter(Boolean)
+        .join(' ');
+    case 'date':
+      return [
+        'Date',
+        condition.after && `from ${condition.after}`,
+        condition.before && `before ${condition.before}`,
+      ]
+        .filter(Boolean)
+        .join(' ');
+  }
+}
+
+function describeRuleAction(action: ArchiveRuleAction, illnesses: Illness[]): string {
+  switch (action.kind) {
+    case 'archive':
+      return 'Archive';
+    case 'set_classification':
+      return `Classify as ${classificationLabels[action.classification]?.label ?? action.classification}`;
+    case 'tag':
+      return `Tag "${action.tag}"`;
+    case 'link_illness':
+      return `Link to ${illnesses.find((illness) => illness.id === action.illnessId)?.name ?? 'illness'}`;
+    case 'promote_to_draft':
+      return 'Create draft claim';
+  }
+}
+
 export default function Documents() {
+  const [filter, setFilter] = useState<string>('all');
+  const [sort, setSort] = useState('-date');
+  const listParams = useMemo(() => documentListParams(filter, sort), [filter, sort]);
+
   const {
     items: documents,
+    total,
+    hasMore,
     loading,
+    loadingMore,
     unseenIds,
-    refresh: refreshDocuments,
+    refresh: refreshList,
+    loadMore,
     markAllSeen,
     upsertItem,
-  } = useUnseenList<MedicalDocument>({
-    fetcher: api.getActiveDocuments,
-    cacheKey: 'documents-active',
+  } = usePagedList<MedicalDocument, DocumentListParams>({
+    fetchPage: api.listDocuments,
+    params: listParams,
+    getAddedAt: documentAddedAt,
+    cacheKey: 'documents',
   });
 
+  // Tab counts come from the list totals, one query per tab
+  const [tabCounts, setTabCounts] = useState<Record<string, number>>({});
+  const refreshCounts = useCallback(async () => {
+    const keys = ['all', 'calendar', ...Object.keys(classificationLabels)];
+    try {
+      const totals = await Promise.all(
+        keys.map((key) => api.listDocuments({ ...documentListParams(key, '-date'), limit: 1 }))
+      );
+      setTabCounts(Object.fromEntries(keys.map((key, i) => [key, totals[i]!.total])));
+    } catch (err) {
+      console.error('Failed to load document counts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCounts();
+  }, [refreshCounts]);
+
+  const refreshDocuments = useCallback(() => {
+    refreshList();
+    refreshCounts();
+  }, [refreshList, refreshCounts]);
+
   const [selectedDoc, setSelectedDoc] = useState<MedicalDocument | null>(null);
-  const [filter, setFilter] = useState<string>('all');
   const [showOcr, setShowOcr] = useState(false);
   const [fullDoc, setFullDoc] = useState<MedicalDocument | null>(null);
   const [loadingOcr, setLoadingOcr] = useState(false);
   const dividerRef = useRef<HTMLDivElement | null>(null);
 
+  useFocusParam(documents, (doc) => {
+    setFilter('all');
+    setSelectedDoc(doc);
+  });
+
+  // A focused document may be beyond the loaded pages; fetch it directly
+  const [searchParams] = useSearchParams();
+  const focusId = searchParams.get('focus');
+  useEffect(() => {
+    if (!focusId || loading || documents.some((doc) => doc.id === focusId)) return;
+    api.getDocument(focusId)
+      .then(upsertItem)
+      .catch((err) => console.error('Failed to load focused document:', err));
+  }, [focusId, loading]);
+
   // Override editor state
   const [editingOverride, setEditingOverride] = useState(false);
   const [overrideAmount, setOverrideAmount] = useState('');
   const [overrideCurrency, setOverrideCurrency] = useState('EUR');
   const [overrideNote, setOverrideNote] = useState('');
   const [savingOverride, setSavingOverride] = useState(false);
+  const [savingClassification, setSavingClassification] = useState(false);
   const [archiving, setArchiving] = useState(false);
   const [promoting, setPromoting] = useState(false);
 
@@ -62,6 +218,16 @@ export default function Documents() {
   const [ruleFrom, setRuleFrom] = useState('');
   const [ruleSubject, setRuleSubject] = useState('');
   const [ruleAttachment, setRuleAttachment] = useState('');
+  const [ruleAccount, setRuleAccount] = useState('');
+  const [ruleText, setRuleText] = useState('');
+  const [ruleMatch, setRuleMatch] = useState<'all' | 'any'>('all');
+  const [ruleRegex, setRuleRegex] = useState(false);
+  const [ruleArchive, setRuleArchive] = useState(true);
+  const [ruleClassification, setRuleClassification] = useState<DocumentClassification | ''>('');
+  const [ruleTag, setRuleTag] = useState('');
+  const [ruleIllnessId, setRuleIllnessId] = useState('');
+  const [rulePromote, setRulePromote] = useState(false);
+  const [illnesses, setIllnesses] = useState<Illness[]>([]);
   const [ruleApplyToExisting, setRuleApplyToExisting] = useState(true);
   const [ruleError, setRuleError] = useState<string | null>(null);
   const [showArchiveRules, setShowArchiveRules] = useState(false);
@@ -97,9 +263,10 @@ export default function Documents() {
     const loadRules = async () => {
       setLoadingRules(true);
       try {
-        const rules = await api.getArchiveRules();
+        const [rules, allIllnesses] = await Promise.all([api.getArchiveRules(), api.getIllnesses()]);
         if (!active) return;
         setArchiveRules(rules);
+        setIllnesses(allIllnesses);
         setRuleError(null);
       } catch (err) {
         console.error('Failed to load archive rules:', err);
@@ -131,13 +298,19 @@ export default function Documents() {
 
     setSavingOverride(true);
     try {
-      const updated = await api.setPaymentOverride(selectedDoc.id, {
-        amount: amountValue,
-        currency: overrideCurrency,
-        note: overrideNote || undefined,
-      });
-      upsertItem(updated);
-      setSelectedDoc(updated);
+      const { entity } = await saveWithConflictCheck(
+        selectedDoc,
+        ['paymentOverride'],
+        (version) =>
+          api.setPaymentOverride(
+            selectedDoc.id,
+            { amount: amountValue, currency: overrideCurrency, note: overrideNote || undefined },
+            version
+          ),
+        'document'
+      );
+      upsertItem(entity);
+      setSelectedDoc(entity);
       setEditingOverride(false);
     } catch (err) {
       console.error('Failed to save override:', err);
@@ -153,9 +326,14 @@ export default function Documents() {
 
     setSavingOverride(true);
     try {
-      const updated = await api.setPaymentOverride(selectedDoc.id, null);
-      upsertItem(updated);
-      setSelectedDoc(updated);
+      const { entity } = await saveWithConflictCheck(
+        selectedDoc,
+        ['paymentOverride'],
+        (version) => api.setPaymentOverride(selectedDoc.id, null, version),
+        'document'
+      );
+      upsertItem(entity);
+      setSelectedDoc(entity);
       setOverrideAmount('');
       setOverrideNote('');
       setEditingOverride(false);
@@ -167,6 +345,33 @@ export default function Documents() {
     }
   }
 
+  /** Correct the classification, or pass null to return to the automatic one */
+  async function handleClassificationChange(classification: DocumentClassification | null) {
+    if (!selectedDoc) return;
+
+    setSavingClassification(true);
+    try {
+      const { entity } = await saveWithConflictCheck(
+        selectedDoc,
+        ['classification', 'classificationOverride'],
+        (version) =>
+          api.setClassificationOverride(
+            selectedDoc.id,
+            classification ? { classification } : null,
+            version
+          ),
+        'document'
+      );
+      upsertItem(entity);
+      setSelectedDoc(entity);
+    } catch (err) {
+      console.error('Failed to save classification:', err);
+      alert(`Error: ${err}`);
+    } finally {
+      setSavingClassification(false);
+    }
+  }
+
   async function handleArchiveToggle() {
     if (!selectedDoc) return;
     const isArchived = !!selectedDoc.archivedAt;
@@ -223,18 +428,38 @@ export default function Documents() {
 
   async function handleCreateArchiveRule() {
     const name = ruleName.trim();
-    const fromContains = ruleFrom.trim();
-    const subjectContains = ruleSubject.trim();
-    const attachmentNameContains = ruleAttachment.trim();
+    const operator = ruleRegex ? 'regex' : 'contains';
+    const conditions: ArchiveRuleCondition[] = (
+      [
+        ['fromAddress', ruleFrom],
+        ['subject', ruleSubject],
+        ['attachmentName', ruleAttachment],
+        ['account', ruleAccount],
+        ['ocrText', ruleText],
+      ] as Array<[ArchiveRuleTextField, string]>
+    )
+      .filter(([, value]) => value.trim())
+      .map(([field, value]) => ({ kind: 'text', field, operator, value: value.trim() }));
+    const actions: ArchiveRuleAction[] = [
+      ...(ruleClassification ? [{ kind: 'set_classification' as const, classification: ruleClassification }] : []),
+      ...(ruleTag.trim() ? [{ kind: 'tag' as const, tag: ruleTag.trim() }] : []),
+      ...(ruleIllnessId ? [{ kind: 'link_illness' as const, illnessId: ruleIllnessId }] : []),
+      ...(ruleArchive ? [{ kind: 'archive' as const }] : []),
+      ...(rulePromote ? [{ kind: 'promote_to_draft' as const }] : []),
+    ];
 
     if (!name) {
       setRuleError('Rule name is required');
       return;
     }
-    if (!fromContains && !subjectContains && !attachmentNameContains) {
+    if (conditions.length === 0) {
       setRuleError('Add at least one match condition');
       return;
     }
+    if (actions.length === 0) {
+      setRuleError('Choose at least one action');
+      return;
+    }
 
     setSavingRule(true);
     setRuleError(null);
@@ -242,9 +467,8 @@ export default function Documents() {
       const created = await api.createArchiveRule({
         name,
         enabled: true,
-        ...(fromContains && { fromContains }),
-        ...(subjectContains && { subjectContains }),
-        ...(attachmentNameContains && { attachmentNameContains }),
+        conditions: { kind: 'group', match: ruleMatch, conditions },
+        actions,
         applyToExisting: ruleApplyToExisting,
       });
       setArchiveRules((prev) => [created, ...prev]);
@@ -252,11 +476,20 @@ export default function Documents() {
       setRuleFrom('');
       setRuleSubject('');
       setRuleAttachment('');
+      setRuleAccount('');
+      setRuleText('');
+      setRuleMatch('all');
+      setRuleRegex(false);
+      setRuleArchive(true);
+      setRuleClassification('');
+      setRuleTag('');
+      setRuleIllnessId('');
+      setRulePromote(false);
       setRuleApplyToExisting(true);
       refreshDocuments();
     } catch (err) {
       console.error('Failed to create archive rule:', err);
-      setRuleError('Failed to create rule');
+      setRuleError(err instanceof Error ? err.message : 'Failed to create rule');
     } finally {
       setSavingRule(false);
     }
@@ -302,76 +535,29 @@ export default function Documents() {
     prefillRuleFromSender();
   }
 
-  const filteredDocs = useMemo(() => {
-    // Always filter out archived documents - they appear in the Archive section
-    const activeDocuments = documents.filter((doc) => !doc.archivedAt);
-
-    const base = filter === 'all'
-      ? activeDocuments
-      : filter === 'calendar'
-        ? activeDocuments.filter(d => d.sourceType === 'calendar')
-        : activeDocuments.filter(d => d.classification === filter);
-
-    // Sort by date descending (most recent first)
-    return [...base].sort((a, b) => {
-      const dateA = new Date(a.date ?? a.processedAt).getTime();
-      const dateB = new Date(b.date ?? b.processedAt).getTime();
-      return dateB - dateA;
-    });
-  }, [documents, filter]);
-
+  // Documents arrive filtered and sorted by the server; group attachments of
+  // one email, keeping each group where its first document appears
   const groupedDocs = useMemo(() => {
-    const filteredIds = new Set(filteredDocs.map((doc) => doc.id));
+    const groups: Array<{ key: string; docs: MedicalDocument[] }> = [];
     const emailGroups = new Map<string, MedicalDocument[]>();
-    const standalone: MedicalDocument[] = [];
 
-    // Only consider non-archived documents
-    const activeDocuments = documents.filter((doc) => !doc.archivedAt);
-
-    for (const doc of activeDocuments) {
+    for (const doc of documents) {
       if (doc.emailId && doc.sourceType !== 'calendar') {
-        const existing = emailGroups.get(doc.emailId) ?? [];
-        existing.push(doc);
-        emailGroups.set(doc.emailId, existing);
+        const existing = emailGroups.get(doc.emailId);
+        if (existing) {
+          existing.push(doc);
+          continue;
+        }
+        const docs = [doc];
+        emailGroups.set(doc.emailId, docs);
+        groups.push({ key: doc.emailId, docs });
       } else {
-        standalone.push(doc);
+        groups.push({ key: doc.id, docs: [doc] });
       }
     }
 
-    const groups: Array<{ key: string; docs: MedicalDocument[] }> = [];
-
-    for (const [emailId, docs] of emailGroups.entries()) {
-      const visibleDocs = docs.filter((doc) => filteredIds.has(doc.id));
-      if (visibleDocs.length === 0) continue;
-      const sorted = [...visibleDocs].sort((a, b) => {
-        const dateA = new Date(
-          (a.sourceType === 'calendar' ? a.calendarStart : a.date) ?? a.processedAt
-        ).getTime();
-        const dateB = new Date(
-          (b.sourceType === 'calendar' ? b.calendarStart : b.date) ?? b.processedAt
-        ).getTime();
-        return dateB - dateA;
-      });
-      groups.push({ key: emailId, docs: sorted });
-    }
-
-    for (const doc of standalone) {
-      if (!filteredIds.has(doc.id)) continue;
-      groups.push({ key: doc.id, docs: [doc] });
-    }
-
-    const groupDate = (docs: MedicalDocument[]) =>
-      Math.max(
-        ...docs.map((doc) =>
-          new Date(
-            (doc.sourceType === 'calendar' ? doc.calendarStart : doc.date) ?? doc.processedAt
-          ).getTime()
-        )
-      );
-
-    groups.sort((a, b) => groupDate(b.docs) - groupDate(a.docs));
     return groups;
-  }, [documents, filteredDocs]);
+  }, [documents]);
 
   const groupedSections = useMemo(() => {
     const unseenGroups = groupedDocs.filter((group) =>
@@ -391,36 +577,18 @@ export default function Documents() {
     dividerRef,
     onSeen: markAllSeen,
     active: groupedSections.hasVisibleUnseen,
-    deps: [groupedDocs, filter],
+    deps: [groupedDocs, filter, sort],
   });
 
-  const activeDocuments = useMemo(
-    () => documents.filter((doc) => !doc.archivedAt),
-    [documents]
-  );
-
-  const classificationCounts = useMemo(() =>
-    activeDocuments.reduce((acc, doc) => {
-      acc[doc.classification] = (acc[doc.classification] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>),
-    [activeDocuments]
-  );
-
-  const calendarCount = useMemo(
-    () => activeDocuments.filter(d => d.sourceType === 'calendar').length,
-    [activeDocuments]
-  );
-
   const filterItems: FilterTabItem<string>[] = useMemo(() => [
-    { key: 'all', label: 'All', count: activeDocuments.length },
-    { key: 'calendar', label: <><Calendar size={14} /> Calendar</>, count: calendarCount, highlight: true },
+    { key: 'all', label: 'All', count: tabCounts.all ?? 0 },
+    { key: 'calendar', label: <><Calendar size={14} /> Calendar</>, count: tabCounts.calendar ?? 0, highlight: true },
     ...Object.entries(classificationLabels).map(([key, { label }]) => ({
       key,
       label,
-      count: classificationCounts[key] || 0,
+      count: tabCounts[key] ?? 0,
     })),
-  ], [activeDocuments.length, calendarCount, classificationCounts]);
+  ], [tabCounts]);
 
   return (
     <div className="p-8">
@@ -436,13 +604,23 @@ export default function Documents() {
       </div>
 
       {/* Filter tabs */}
-      <div className="mb-6">
+      <div className="mb-6 flex items-start justify-between gap-4">
         <FilterTabs items={filterItems} active={filter} onChange={setFilter} />
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value)}
+          className="px-3 py-2 border-2 border-bauhaus-black bg-white font-medium"
+          title="Sort documents"
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
       </div>
 
       {loading ? (
         <LoadingSpinner />
-      ) : documents.length === 0 ? (
+      ) : documents.length === 0 && filter === 'all' ? (
         <SharedEmptyState
           icon={FileText}
           title="No Documents Yet"
@@ -502,6 +680,15 @@ export default function Documents() {
                 />
               );
             })}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="w-full px-4 py-2 border-2 border-bauhaus-black bg-white font-medium hover:bg-bauhaus-lightgray transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : `Load more (${documents.length} of ${total})`}
+              </button>
+            )}
           </div>
 
           {/* Document detail */}
@@ -520,12 +707,40 @@ export default function Documents() {
                   <>
                     <div className="sticky top-0 bg-white z-10 pb-3 border-b border-bauhaus-lightgray">
                       <div className="flex items-start justify-between mb-4">
-                        <span className={cn(
-                          'inline-block px-2 py-1 text-xs font-medium uppercase text-white',
-                          classificationLabels[selectedDoc.classification]?.color
-                        )}>
-                          {classificationLabels[selectedDoc.classification]?.label}
-                        </span>
+                        <div>
+                          <span className={cn(
+                            'inline-block px-2 py-1 text-xs font-medium uppercase text-white',
+                            classificationLabels[selectedDoc.classification]?.color
+                          )}>
+                            {classificationLabels[selectedDoc.classification]?.label}
+                          </span>
+                          <div className="flex items-center gap-2 mt-2 text-xs">
+                            <select
+                              value={selectedDoc.classification}
+                              onChange={(e) => handleClassificationChange(e.target.value as DocumentClassification)}
+                              disabled={savingClassification}
+                              className="px-1 py-0.5 border border-bauhaus-lightgray bg-white"
+                              title="Correct the classification"
+                            >
+                              {Object.entries(classificationLabels).map(([key, { label }]) => (
+                                <option key={key} value={key}>{label}</option>
+                              ))}
+                            </select>
+                            {selectedDoc.classificationOverride ? (
+                              <button
+                                onClick={() => handleClassificationChange(null)}
+                                disabled={savingClassification}
+                                className="text-bauhaus-blue hover:underline"
+                              >
+                                Reset to automatic
+                              </button>
+                            ) : selectedDoc.classificationPrediction && (
+                              <span className="text-bauhaus-gray">
+                                {Math.round(selectedDoc.classificationPrediction.probability * 100)}% likely
+                              </span>
+                            )}
+                          </div>
+                        </div>
                         <div className="flex gap-2">
                           <button
                             onClick={async () => {
@@ -686,6 +901,7 @@ export default function Documents() {
                                         <span className="text-sm text-bauhaus-gray ml-2">
                                           ({amount.confidence}% confidence)
                                         </span>
+                                        <AmountRoleBadge role={amount.role} />
                                       </div>
                                     </div>
                                   ))}
@@ -791,6 +1007,7 @@ export default function Documents() {
                                 <span className="text-sm text-bauhaus-gray ml-2">
                                   ({amount.confidence}% confidence)
                                 </span>
+                                <AmountRoleBadge role={amount.role} />
                               </div>
                             </div>
                           ))}
@@ -798,6 +1015,11 @@ export default function Documents() {
                       </div>
                     )}
 
+                    {/* Invoice fields */}
+                    {selectedDoc.extractedFields && (
+                      <InvoiceFieldsDetail fields={selectedDoc.extractedFields} />
+                    )}
+
                     {/* Medical keywords */}
                     {selectedDoc.medicalKeywords.length > 0 && (
                       <div className="mb-6">
@@ -818,6 +1040,23 @@ export default function Documents() {
                       </div>
                     )}
 
+                    {/* Tags set by rules */}
+                    {selectedDoc.tags && selectedDoc.tags.length > 0 && (
+                      <div className="mb-6">
+                        <h3 className="font-bold mb-3 flex items-center gap-2">
+                          <Tag size={18} />
+                          Tags
+                        </h3>
+                        <div className="flex flex-wrap gap-2">
+                          {selectedDoc.tags.map((tag) => (
+                            <span key={tag} className="px-2 py-1 border-2 border-bauhaus-black text-sm">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Archive rules */}
                     {showArchiveRules ? (
                       <div className="mb-6">
@@ -828,7 +1067,7 @@ export default function Documents() {
                               Email Filters
                             </h3>
                             <p className="text-xs text-bauhaus-gray">
-                              Auto-archive documents by sender, subject, or attachment name.
+                              Archive, classify, tag or draft documents that match all (or any) conditions.
                             </p>
                           </div>
                           {selectedDoc.fromAddress && (
@@ -878,6 +1117,94 @@ export default function Documents() {
                               placeholder="hetzner"
                             />
                           </div>
+                          <div>
+                            <label className="block text-xs text-bauhaus-gray mb-1">Account</label>
+                            <input
+                              value={ruleAccount}
+                              onChange={(e) => setRuleAccount(e.target.value)}
+                              className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
+                              placeholder="family"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-bauhaus-gray mb-1">Document text contains</label>
+                            <input
+                              value={ruleText}
+                              onChange={(e) => setRuleText(e.target.value)}
+                              className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
+                              placeholder="apotheke"
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-3">
+                            <label className="text-xs text-bauhaus-gray flex items-center gap-2">
+                              Match
+                              <select
+                                value={ruleMatch}
+                                onChange={(e) => setRuleMatch(e.target.value as 'all' | 'any')}
+                                className="p-1 border-2 border-bauhaus-black bg-white"
+                              >
+                                <option value="all">all conditions</option>
+                                <option value="any">any condition</option>
+                              </select>
+                            </label>
+                            <label className="text-xs text-bauhaus-gray flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={ruleRegex}
+                                onChange={(e) => setRuleRegex(e.target.checked)}
+                              />
+                              Regular expressions
+                            </label>
+                          </div>
+                          <div className="pt-2 border-t border-bauhaus-lightgray space-y-2">
+                            <p className="text-xs font-medium">Actions</p>
+                            <div className="grid grid-cols-2 gap-2">
+                              <select
+                                value={ruleClassification}
+                                onChange={(e) => setRuleClassification(e.target.value as DocumentClassification | '')}
+                                className="p-2 border-2 border-bauhaus-black bg-white text-sm"
+                              >
+                                <option value="">Keep classification</option>
+                                {Object.entries(classificationLabels).map(([value, { label }]) => (
+                                  <option key={value} value={value}>Classify as {label}</option>
+                                ))}
+                              </select>
+                              <input
+                                value={ruleTag}
+                                onChange={(e) => setRuleTag(e.target.value)}
+                                className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue text-sm"
+                                placeholder="Tag"
+                              />
+                              <select
+                                value={ruleIllnessId}
+                                onChange={(e) => setRuleIllnessId(e.target.value)}
+                                className="col-span-2 p-2 border-2 border-bauhaus-black bg-white text-sm"
+                              >
+                                <option value="">No illness link</option>
+                                {illnesses.map((illness) => (
+                                  <option key={illness.id} value={illness.id}>Link to {illness.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div className="flex items-center gap-4">
+                              <label className="text-xs text-bauhaus-gray flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={ruleArchive}
+                                  onChange={(e) => setRuleArchive(e.target.checked)}
+                                />
+                                Archive
+                              </label>
+                              <label className="text-xs text-bauhaus-gray flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={rulePromote}
+                                  onChange={(e) => setRulePromote(e.target.checked)}
+                                />
+                                Create draft claim
+                              </label>
+                            </div>
+                          </div>
                           <div className="flex items-center justify-between">
                             <label className="text-xs text-bauhaus-gray flex items-center gap-2">
                               <input
@@ -911,9 +1238,13 @@ export default function Documents() {
                                 rule.fromContains && `From contains "${rule.fromContains}"`,
                                 rule.subjectContains && `Subject contains "${rule.subjectContains}"`,
                                 rule.attachmentNameContains && `Attachment contains "${rule.attachmentNameContains}"`,
+                                rule.conditions && describeRuleCondition(rule.conditions),
                               ]
                                 .filter(Boolean)
                                 .join(' • ');
+                              const actions = (rule.actions?.length ? rule.actions : [{ kind: 'archive' as const }])
+                                .map((action) => describeRuleAction(action, illnesses))
+                                .join(', ');
 
                               return (
                                 <div
@@ -925,6 +1256,7 @@ export default function Documents() {
                                     <p className="text-xs text-bauhaus-gray">
                                       {conditions || 'No conditions'}
                                     </p>
+                                    <p className="text-xs">→ {actions}</p>
                                   </div>
                                   <div className="flex items-center gap-2">
                                     <button
@@ -958,6 +1290,8 @@ export default function Documents() {
                       </div>
                     )}
 
+                    <AuditHistory entityType="document" entityId={selectedDoc.id} version={selectedDoc} />
+
                     {/* OCR text */}
                     {showOcr && (
                       <div>
@@ -1191,6 +1525,68 @@ function DocumentGroupCard({
   );
 }
 
+function AmountRoleBadge({ role }: { role?: AmountRole }) {
+  const label = role ? amountRoleLabels[role] : null;
+  if (!label) return null;
+  return (
+    <span className="ml-2 px-2 py-0.5 text-xs font-medium uppercase bg-bauhaus-lightgray text-bauhaus-black">
+      {label}
+    </span>
+  );
+}
+
+const invoiceFieldLabels: Array<[Exclude<keyof ExtractedInvoiceFields, 'extractedAt'>, string]> = [
+  ['providerName', 'Provider'],
+  ['providerAddress', 'Address'],
+  ['invoiceNumber', 'Invoice no.'],
+  ['invoiceDate', 'Invoice date'],
+  ['serviceDates', 'Service dates'],
+  ['patientName', 'Patient'],
+  ['iban', 'IBAN'],
+  ['paymentTerms', 'Payment terms'],
+];
+
+function formatInvoiceField(value: string | string[], key: keyof ExtractedInvoiceFields): string {
+  if (Array.isArray(value)) return value.map((date) => formatDate(date)).join(', ');
+  return key === 'invoiceDate' ? formatDate(value) : value;
+}
+
+function InvoiceFieldsDetail({ fields }: { fields: ExtractedInvoiceFields }) {
+  const rows = invoiceFieldLabels.filter(([key]) => fields[key]);
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="font-bold mb-3 flex items-center gap-2">
+        <Receipt size={18} />
+        Invoice Details
+      </h3>
+      <div className="space-y-1 text-sm">
+        {rows.map(([key, label]) => {
+          const field = fields[key]!;
+          return (
+            <div key={key} className="flex items-start gap-2">
+              <span className="text-bauhaus-gray w-28 flex-shrink-0">{label}</span>
+              <span className="font-medium flex-1 min-w-0 break-words">
+                {formatInvoiceField(field.value, key)}
+              </span>
+              <span
+                className={cn(
+                  'text-xs flex-shrink-0',
+                  field.confidence >= 60 ? 'text-bauhaus-gray' : 'text-bauhaus-red'
+                )}
+                title="Extraction confidence"
+              >
+                {field.confidence}%
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function DetailRow({
   icon: Icon,
   label,
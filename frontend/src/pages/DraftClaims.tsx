@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Check, ExternalLink, FilePlus, FileText, RefreshCw, X, Archive, RotateCcw, Upload, Trash2, ChevronDown } from 'lucide-react';
+import { Check, ExternalLink, FilePlus, FileText, RefreshCw, X, Archive, RotateCcw, Upload, Trash2, ChevronDown, Wand2, Send } from 'lucide-react';
 import { cn, formatCurrency, formatDate, truncate } from '@/lib/utils';
 import {
   FilterTabs,
@@ -8,6 +8,8 @@ import {
   EmptyState,
   LoadingSpinner,
   UnseenDivider,
+  JobProgress,
+  AuditHistory,
 } from '@/components';
 import {
   api,
@@ -22,10 +24,17 @@ import {
   type Patient,
   type ScrapedClaim,
   type DraftClaimMatchCandidate,
+  type DraftClaimDeadline,
+  type FilingUrgency,
+  type SubmissionFieldSource,
+  type SubmissionSuggestion,
+  type UpdateDraftClaimInput,
 } from '@/lib/api';
 import { useUnseenList } from '@/lib/useUnseenList';
 import { useUnseenDivider } from '@/lib/useUnseenDivider';
 import { useCachedFetch } from '@/lib/useCachedFetch';
+import { useFocusParam } from '@/lib/useFocusParam';
+import { saveWithConflictCheck } from '@/lib/conflicts';
 
 type DraftFilter = DraftClaimStatus | 'all';
 type DateMode = 'calendar' | 'manual';
@@ -37,6 +46,13 @@ const statusLabels: Record<DraftClaimStatus, { label: string; color: string }> =
   submitted: { label: 'Submitted', color: 'bg-bauhaus-green text-white' },
 };
 
+const urgencyColors: Record<FilingUrgency, string> = {
+  expired: 'bg-bauhaus-black text-white',
+  critical: 'bg-bauhaus-red text-white',
+  warning: 'bg-bauhaus-yellow text-bauhaus-black',
+  ok: 'bg-bauhaus-lightgray text-bauhaus-gray',
+};
+
 const rangeOptions: Array<{ label: string; value: DraftClaimRange }> = [
   { label: 'Forever', value: 'forever' },
   { label: 'Last Month', value: 'last_month' },
@@ -194,10 +210,27 @@ export default function DraftClaims() {
   });
   const matchCandidates = matchCandidatesCached ?? [];
 
+  const { data: deadlinesCached, refresh: refreshDeadlines } = useCachedFetch<DraftClaimDeadline[]>({
+    key: 'draft-claim-deadlines',
+    fetcher: api.getDraftClaimDeadlines,
+    pollIntervalMs: 300_000,
+  });
+  const deadlinesByDraftId = useMemo(
+    () => new Map((deadlinesCached ?? []).map((deadline) => [deadline.draftClaimId, deadline])),
+    [deadlinesCached]
+  );
+
+  // Deadlines depend on treatment dates and statuses; refetch when drafts change
+  useEffect(() => {
+    refreshDeadlines();
+  }, [drafts]);
+
   const [selectedDraft, setSelectedDraft] = useState<DraftClaim | null>(null);
   const [linkedClaim, setLinkedClaim] = useState<Claim | null>(null);
   const [filter, setFilter] = useState<DraftFilter>('pending');
   const [processing, setProcessing] = useState<string | null>(null);
+  const [submitJob, setSubmitJob] = useState<{ draftId: string; jobId: string } | null>(null);
+  const [batchSubmitJobId, setBatchSubmitJobId] = useState<string | null>(null);
   const dividerRef = useRef<HTMLDivElement | null>(null);
   const listRef = useRef<HTMLDivElement | null>(null);
 
@@ -214,6 +247,8 @@ export default function DraftClaims() {
   const [providerName, setProviderName] = useState('');
   const [providerAddress, setProviderAddress] = useState('');
   const [providerCountry, setProviderCountry] = useState('');
+  const [suggestionSources, setSuggestionSources] = useState<SubmissionSuggestion['sources']>({});
+  const [suggesting, setSuggesting] = useState(false);
   const [uploadingProof, setUploadingProof] = useState(false);
   const [uploadingAttachment, setUploadingAttachment] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -232,6 +267,12 @@ export default function DraftClaims() {
     }
   }, [drafts, selectedDraft]);
 
+  useFocusParam(drafts, (draft) => {
+    setFilter('all');
+    setSelectedDraft(draft);
+    resetDraftForm(draft);
+  });
+
   useEffect(() => {
     setDocumentsExpanded(false);
   }, [selectedDraft?.id]);
@@ -247,6 +288,7 @@ export default function DraftClaims() {
   }, [selectedDraft?.id, selectedDraft?.status]);
 
   function resetDraftForm(draft: DraftClaim | null) {
+    setSuggestionSources({});
     if (!draft) {
       setSelectedIllnessId('');
       setDoctorNotes('');
@@ -306,7 +348,7 @@ export default function DraftClaims() {
       ''
     );
 
-    if (draft.treatmentDateSource === 'manual') {
+    if (draft.treatmentDateSource === 'manual' || draft.treatmentDateSource === 'document') {
       setDateMode('manual');
       setManualDate(draft.treatmentDate ? draft.treatmentDate.slice(0, 10) : '');
     } else {
@@ -315,6 +357,55 @@ export default function DraftClaims() {
     }
   }
 
+  /** Fill empty claim detail fields from submission history */
+  async function handleSuggestDetails() {
+    if (!selectedDraft) return;
+    setSuggesting(true);
+    try {
+      const { submission, sources } = await api.getSubmissionSuggestion(
+        selectedDraft.id,
+        selectedIllnessId || undefined
+      );
+      const filled: SubmissionSuggestion['sources'] = {};
+
+      if (submission.claimType && sources.claimType && !selectedDraft.submission?.claimType) {
+        setClaimType(submission.claimType);
+        filled.claimType = sources.claimType;
+      }
+      if (submission.country && !claimCountry.trim()) {
+        setClaimCountry(submission.country);
+        filled.country = sources.country;
+      }
+      const suggestedSymptoms = submission.symptoms?.map((symptom) => symptom.name) ?? [];
+      if (suggestedSymptoms.length > 0 && symptomInputs.every((value) => !value.trim())) {
+        setSymptomInputs([0, 1, 2].map((index) => suggestedSymptoms[index] ?? ''));
+        filled.symptoms = sources.symptoms;
+      }
+      if (submission.providerName && !providerName.trim()) {
+        setProviderName(submission.providerName);
+        filled.providerName = sources.providerName;
+      }
+      if (submission.providerAddress && !providerAddress.trim()) {
+        setProviderAddress(submission.providerAddress);
+        filled.providerAddress = sources.providerAddress;
+      }
+      if (submission.providerCountry && !providerCountry.trim()) {
+        setProviderCountry(submission.providerCountry);
+        filled.providerCountry = sources.providerCountry;
+      }
+
+      setSuggestionSources(filled);
+      if (Object.keys(filled).length === 0) {
+        alert('No suggestions for empty fields');
+      }
+    } catch (err) {
+      console.error('Failed to suggest submission details:', err);
+      alert(`Error: ${err}`);
+    } finally {
+      setSuggesting(false);
+    }
+  }
+
   function buildDraftUpdateInput(overrides?: {
     illnessId?: string;
     doctorNotes?: string;
@@ -362,6 +453,19 @@ export default function DraftClaims() {
     return trimmed;
   }
 
+  // Save on top of the version shown; on a conflict merge, or let the user choose
+  async function saveDraftUpdate(draft: DraftClaim, input: UpdateDraftClaimInput) {
+    const { entity, saved } = await saveWithConflictCheck(
+      draft,
+      Object.keys(input) as (keyof DraftClaim)[],
+      (version) => api.updateDraftClaim(draft.id, input, version),
+      'draft claim'
+    );
+    upsertItem(entity);
+    setSelectedDraft(entity);
+    if (!saved) resetDraftForm(entity);
+  }
+
   // Save draft changes (works for pending and accepted drafts)
   async function handleSaveDraft() {
     if (!selectedDraft || selectedDraft.status === 'rejected') return;
@@ -371,12 +475,7 @@ export default function DraftClaims() {
 
     setSaving(true);
     try {
-      const updated = await api.updateDraftClaim(
-        selectedDraft.id,
-        buildDraftUpdateInput()
-      );
-      upsertItem(updated);
-      setSelectedDraft(updated);
+      await saveDraftUpdate(selectedDraft, buildDraftUpdateInput());
     } catch (err) {
       console.error('Save failed:', err);
       alert(`Save failed: ${err}`);
@@ -399,12 +498,10 @@ export default function DraftClaims() {
         setSelectedProofIds(nextProofIds);
         await refreshDocuments();
 
-        const updated = await api.updateDraftClaim(
-          selectedDraft.id,
+        await saveDraftUpdate(
+          selectedDraft,
           buildDraftUpdateInput({ paymentProofDocumentIds: nextProofIds })
         );
-        upsertItem(updated);
-        setSelectedDraft(updated);
       } catch (err) {
         console.error('Failed to upload proof:', err);
         alert(`Upload failed: ${err}`);
@@ -435,12 +532,10 @@ export default function DraftClaims() {
 
         await refreshDocuments();
 
-        const updated = await api.updateDraftClaim(
-          selectedDraft.id,
+        await saveDraftUpdate(
+          selectedDraft,
           buildDraftUpdateInput({ documentIds: nextDocIds })
         );
-        upsertItem(updated);
-        setSelectedDraft(updated);
       } catch (err) {
         console.error('Failed to upload attachment:', err);
         alert(`Upload failed: ${err}`);
@@ -758,8 +853,8 @@ export default function DraftClaims() {
     }
     setProcessing('submit');
     try {
-      const claim = await api.submitDraftClaim(selectedDraft.id);
-      alert(`Submission started. Claim ID: ${claim.id}`);
+      const result = await api.submitDraftClaim(selectedDraft.id);
+      setSubmitJob({ draftId: selectedDraft.id, jobId: result.job.id });
     } catch (err) {
       console.error('Failed to submit claim:', err);
       alert(`Error: ${err}`);
@@ -768,6 +863,24 @@ export default function DraftClaims() {
     }
   }
 
+  async function handleSubmitAccepted() {
+    const accepted = drafts.filter((draft) => draft.status === 'accepted');
+    if (accepted.length === 0) return;
+    if (!confirm(`Submit ${accepted.length} accepted draft claims to Cigna without review?`)) {
+      return;
+    }
+    setProcessing('submit-batch');
+    try {
+      const result = await api.submitDraftClaimsBatch(accepted.map((draft) => draft.id));
+      setBatchSubmitJobId(result.job.id);
+    } catch (err) {
+      console.error('Failed to submit draft claims:', err);
+      alert(`Error: ${err}`);
+    } finally {
+      setProcessing(null);
+    }
+  }
+
   async function handleLinkToScrapedClaim(scrapedClaimId: string) {
     if (!selectedDraft) return;
     setLinking(true);
@@ -881,6 +994,17 @@ export default function DraftClaims() {
               {processing === range.value ? 'Generating...' : range.label}
             </button>
           ))}
+          {counts.accepted > 0 && (
+            <button
+              onClick={handleSubmitAccepted}
+              disabled={processing !== null}
+              className="flex items-center gap-2 px-4 py-2 bg-bauhaus-red text-white font-medium hover:bg-bauhaus-red/90 transition-colors disabled:opacity-60"
+              title="Submit all accepted drafts to Cigna in one session"
+            >
+              <Send size={18} />
+              {processing === 'submit-batch' ? 'Starting...' : `Submit ${counts.accepted} Accepted`}
+            </button>
+          )}
           <button
             onClick={handleAutoLink}
             disabled={processing !== null}
@@ -908,6 +1032,12 @@ export default function DraftClaims() {
         </div>
       </div>
 
+      {batchSubmitJobId && (
+        <div className="mb-6">
+          <JobProgress jobId={batchSubmitJobId} title="Cigna batch submission" />
+        </div>
+      )}
+
       {/* Filter tabs */}
       <div className="mb-6">
         <FilterTabs items={filterItems} active={filter} onChange={setFilter} />
@@ -935,6 +1065,7 @@ export default function DraftClaims() {
                 document={documents.find((doc) => doc.id === draft.primaryDocumentId)}
                 selected={selectedDraft?.id === draft.id}
                 patientName={getPatientNameForDraft(draft)}
+                deadline={deadlinesByDraftId.get(draft.id)}
                 onClick={() => {
                   setSelectedDraft(draft);
                   resetDraftForm(draft);
@@ -953,6 +1084,7 @@ export default function DraftClaims() {
                 document={documents.find((doc) => doc.id === draft.primaryDocumentId)}
                 selected={selectedDraft?.id === draft.id}
                 patientName={getPatientNameForDraft(draft)}
+                deadline={deadlinesByDraftId.get(draft.id)}
                 onClick={() => {
                   setSelectedDraft(draft);
                   resetDraftForm(draft);
@@ -975,6 +1107,7 @@ export default function DraftClaims() {
                   >
                     {statusLabels[selectedDraft.status].label}
                   </span>
+                  <DeadlineBadge deadline={deadlinesByDraftId.get(selectedDraft.id)} />
                   {selectedDraft.status === 'pending' && (
                     <button
                       onClick={handleSaveDraft}
@@ -1262,7 +1395,22 @@ export default function DraftClaims() {
                       )}
                     </div>
                     <div className="border-t-2 border-bauhaus-black pt-4 mb-4">
-                      <h3 className="font-bold mb-3">Claim Details</h3>
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-bold">Claim Details</h3>
+                        <button
+                          type="button"
+                          onClick={handleSuggestDetails}
+                          disabled={suggesting}
+                          className={cn(
+                            'flex items-center gap-1 px-2 py-1 text-xs font-medium border-2 border-bauhaus-black hover:bg-bauhaus-lightgray transition-colors',
+                            suggesting && 'opacity-60 cursor-not-allowed'
+                          )}
+                          title="Fill empty fields from earlier submissions, the illness and the patient"
+                        >
+                          <Wand2 size={12} />
+                          {suggesting ? 'Suggesting...' : 'Suggest from history'}
+                        </button>
+                      </div>
 
                       <div className="mb-3">
                         <label className="block text-sm text-bauhaus-gray mb-1">Claim Type</label>
@@ -1275,6 +1423,7 @@ export default function DraftClaims() {
                           <option value="Vision">Vision</option>
                           <option value="Dental">Dental</option>
                         </select>
+                        <SuggestionHint source={suggestionSources.claimType} />
                       </div>
 
                       <div className="mb-3">
@@ -1295,6 +1444,7 @@ export default function DraftClaims() {
                             Country of treatment is required.
                           </p>
                         )}
+                        <SuggestionHint source={suggestionSources.country} />
                       </div>
 
                       <div className="mb-3">
@@ -1317,6 +1467,7 @@ export default function DraftClaims() {
                             />
                           ))}
                         </div>
+                        <SuggestionHint source={suggestionSources.symptoms} />
                       </div>
 
                       <div className="mb-3">
@@ -1328,6 +1479,7 @@ export default function DraftClaims() {
                           className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
                           placeholder="Provider or clinic name"
                         />
+                        <SuggestionHint source={suggestionSources.providerName} />
                       </div>
 
                       <div className="mb-3">
@@ -1339,6 +1491,7 @@ export default function DraftClaims() {
                           rows={2}
                           placeholder="Street, city, postcode"
                         />
+                        <SuggestionHint source={suggestionSources.providerAddress} />
                       </div>
 
                       <div className="mb-3">
@@ -1350,6 +1503,7 @@ export default function DraftClaims() {
                           className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
                           placeholder="Country of provider"
                         />
+                        <SuggestionHint source={suggestionSources.providerCountry} />
                       </div>
 
                       <div className="mb-3">
@@ -1954,6 +2108,11 @@ export default function DraftClaims() {
                       >
                         {processing === 'submit' ? 'Opening browser...' : 'Start Cigna Submission'}
                       </button>
+                      {submitJob?.draftId === selectedDraft.id && (
+                        <div className="mt-3">
+                          <JobProgress jobId={submitJob.jobId} title="Cigna submission" />
+                        </div>
+                      )}
                     </div>
                     <div className="mt-4">
                       <button
@@ -2129,6 +2288,10 @@ export default function DraftClaims() {
                     </div>
                   </div>
                 )}
+
+                <div className="border-t border-bauhaus-lightgray pt-4 mt-4">
+                  <AuditHistory entityType="draft_claim" entityId={selectedDraft.id} version={selectedDraft} />
+                </div>
               </div>
             </div>
           )}
@@ -2146,18 +2309,46 @@ const classificationLabels: Record<string, { label: string; color: string }> = {
   other: { label: 'Other', color: 'bg-gray-100 text-gray-700' },
 };
 
+function SuggestionHint({ source }: { source?: SubmissionFieldSource }) {
+  if (!source) return null;
+  return <p className="text-xs text-bauhaus-blue mt-1">Suggested: {source.reason}</p>;
+}
+
+function DeadlineBadge({ deadline }: { deadline?: DraftClaimDeadline }) {
+  if (!deadline) return null;
+
+  const days = deadline.daysRemaining;
+  const label =
+    days < 0
+      ? `Expired ${-days} ${-days === 1 ? 'day' : 'days'} ago`
+      : days === 0
+        ? 'Expires today'
+        : `Expires in ${days} ${days === 1 ? 'day' : 'days'}`;
+
+  return (
+    <span
+      className={cn('inline-block px-1.5 py-0.5 text-xs font-medium', urgencyColors[deadline.urgency])}
+      title={`File by ${formatDate(deadline.deadline)} (${deadline.filingWindowDays}-day window)`}
+    >
+      {label}
+    </span>
+  );
+}
+
 function DraftCard({
   draft,
   document,
   selected,
   onClick,
   patientName,
+  deadline,
 }: {
   draft: DraftClaim;
   document?: MedicalDocument;
   selected: boolean;
   onClick: () => void;
   patientName?: string;
+  deadline?: DraftClaimDeadline;
 }) {
   const hasFile = document?.attachmentPath;
   const filename = document?.filename || 'Attachment';
@@ -2210,6 +2401,7 @@ function DraftCard({
               {patientName}
             </span>
           )}
+          <DeadlineBadge deadline={deadline} />
         </div>
         <span className="text-xs text-bauhaus-gray flex-shrink-0">
           {draft.generatedAt ? formatDate(draft.generatedAt) : 'No date'}
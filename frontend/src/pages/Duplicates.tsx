@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Copy, ExternalLink, GitMerge, RefreshCw, ScanSearch, X } from 'lucide-react';
+import {
+  api,
+  getDocumentFileUrl,
+  type DuplicateReviewItem,
+  type MedicalDocument,
+} from '@/lib/api';
+import { EmptyState, LoadingSpinner } from '@/components';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+
+function documentAmount(document: MedicalDocument): string {
+  if (document.paymentOverride) {
+    return formatCurrency(document.paymentOverride.amount, document.paymentOverride.currency);
+  }
+  const amount = document.detectedAmounts[0];
+  return amount ? formatCurrency(amount.value, amount.currency) : '—';
+}
+
+function DocumentSummary({ label, document }: { label: string; document: MedicalDocument }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs text-bauhaus-gray uppercase tracking-wide mb-1">{label}</p>
+      <p className="font-medium truncate">{document.filename ?? document.subject ?? document.id}</p>
+      <p className="text-sm text-bauhaus-gray truncate">
+        {document.date ? formatDate(document.date) : 'No date'}
+        {document.fromAddress && ` · ${document.fromAddress}`}
+      </p>
+      <p className="text-sm">{documentAmount(document)}</p>
+      {document.attachmentPath && (
+        <a
+          href={getDocumentFileUrl(document.id)}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-1 text-sm text-bauhaus-blue hover:underline"
+        >
+          <ExternalLink size={14} /> Open file
+        </a>
+      )}
+    </div>
+  );
+}
+
+export default function Duplicates() {
+  const [items, setItems] = useState<DuplicateReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  async function loadQueue() {
+    setLoading(true);
+    try {
+      setItems(await api.getDuplicates());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleScan() {
+    setScanning(true);
+    try {
+      const result = await api.scanForDuplicates();
+      alert(`Hashed ${result.hashed} document(s); flagged ${result.flagged} new possible duplicate(s)`);
+      await loadQueue();
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setScanning(false);
+    }
+  }
+
+  async function handleResolve(documentId: string, action: 'merge' | 'dismiss') {
+    setBusyId(documentId);
+    try {
+      if (action === 'merge') {
+        await api.mergeDuplicate(documentId);
+      } else {
+        await api.dismissDuplicate(documentId);
+      }
+      setItems((current) => current.filter((item) => item.document.id !== documentId));
+    } catch (err) {
+      alert(`Error: ${err}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Copy size={24} />
+          <h1 className="text-3xl font-bold bauhaus-accent">Duplicate Review</h1>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleScan}
+            disabled={scanning}
+            className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors disabled:opacity-50"
+          >
+            <ScanSearch size={16} />
+            {scanning ? 'Scanning...' : 'Scan All Documents'}
+          </button>
+          <button
+            onClick={loadQueue}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors"
+          >
+            <RefreshCw size={16} className={cn(loading && 'animate-spin')} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-bauhaus-gray mb-6">
+        Documents that look like an earlier one are held back from draft generation.
+        Merge a duplicate to fold it into the original, or dismiss the match to keep both.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-bauhaus-red/10 border-2 border-bauhaus-red text-bauhaus-red">
+          {error}
+        </div>
+      )}
+
+      {loading && items.length === 0 ? (
+        <LoadingSpinner />
+      ) : items.length === 0 ? (
+        <EmptyState
+          icon={Copy}
+          title="No duplicates to review"
+          message="New documents are checked as they are processed. Scan to check older ones."
+        />
+      ) : (
+        <ul className="space-y-4">
+          {items.map(({ document, original, candidate }) => (
+            <li key={document.id} className="bauhaus-card">
+              <div className="flex items-center gap-2 mb-4">
+                <span className="px-2 py-0.5 text-xs font-medium uppercase bg-bauhaus-lightgray text-bauhaus-black">
+                  {candidate.reason === 'content_hash'
+                    ? 'Identical file'
+                    : `${Math.round(candidate.similarity * 100)}% similar text`}
+                </span>
+                <span className="text-xs text-bauhaus-gray">
+                  Detected {formatDate(candidate.detectedAt)}
+                </span>
+              </div>
+
+              <div className="flex gap-6 mb-4">
+                <DocumentSummary label="Possible duplicate" document={document} />
+                <DocumentSummary label="Original" document={original} />
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleResolve(document.id, 'merge')}
+                  disabled={busyId === document.id}
+                  className="flex items-center gap-2 px-4 py-2 bg-bauhaus-black text-white font-medium hover:bg-bauhaus-gray transition-colors disabled:opacity-50"
+                >
+                  <GitMerge size={16} /> Merge into original
+                </button>
+                <button
+                  onClick={() => handleResolve(document.id, 'dismiss')}
+                  disabled={busyId === document.id}
+                  className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors disabled:opacity-50"
+                >
+                  <X size={16} /> Not a duplicate
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
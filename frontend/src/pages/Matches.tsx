@@ -574,8 +574,31 @@ export default function Matches() {
                       </p>
                     </div>
                   </div>
+                  {selectedMatch.amountMatchDetails.convertedAmount !== undefined && (
+                    <p className="text-sm mt-2">
+                      Document converted:{' '}
+                      <span className="font-medium">
+                        {formatCurrency(
+                          selectedMatch.amountMatchDetails.convertedAmount,
+                          selectedMatch.amountMatchDetails.claimCurrency
+                        )}
+                      </span>
+                      {selectedMatch.amountMatchDetails.exchangeRate !== undefined && (
+                        <span className="text-bauhaus-gray">
+                          {' '}at {selectedMatch.amountMatchDetails.exchangeRate.toFixed(4)}
+                          {selectedMatch.amountMatchDetails.exchangeRateDate &&
+                            ` on ${formatDate(selectedMatch.amountMatchDetails.exchangeRateDate)}`}
+                          {selectedMatch.amountMatchDetails.exchangeRateSource &&
+                            ` (${selectedMatch.amountMatchDetails.exchangeRateSource.replace('_', ' ')})`}
+                        </span>
+                      )}
+                    </p>
+                  )}
                   <p className="text-sm text-bauhaus-gray mt-2">
-                    Difference: {(selectedMatch.amountMatchDetails.differencePercent * 100).toFixed(1)}%
+                    Difference: {formatCurrency(
+                      selectedMatch.amountMatchDetails.difference,
+                      selectedMatch.amountMatchDetails.claimCurrency
+                    )} ({(selectedMatch.amountMatchDetails.differencePercent * 100).toFixed(1)}%)
                   </p>
                 </div>
               )}
@@ -22,6 +22,7 @@ import {
 } from '@/lib/api';
 import { useUnseenList } from '@/lib/useUnseenList';
 import { useUnseenDivider } from '@/lib/useUnseenDivider';
+import { saveWithConflictCheck } from '@/lib/conflicts';
 
 type RelationshipType = 'Employee' | 'Member' | 'Beneficiary';
 type IllnessType = 'acute' | 'chronic';
@@ -80,7 +81,15 @@ export default function Patients() {
     updates: Partial<CreateIllnessInput>
   ) {
     try {
-      const updated = await api.updateIllness(illnessId, updates);
+      const base = patientIllnesses.find((illness) => illness.id === illnessId);
+      const { entity: updated } = base
+        ? await saveWithConflictCheck(
+            base,
+            Object.keys(updates) as (keyof Illness)[],
+            (version) => api.updateIllness(illnessId, updates, version),
+            'illness'
+          )
+        : { entity: await api.updateIllness(illnessId, updates) };
       setPatientIllnesses((prev) =>
         prev.map((illness) => (illness.id === illnessId ? updated : illness))
       );
@@ -682,6 +691,7 @@ function PatientFormModal({
     citizenship: patient?.citizenship || '',
     workLocation: patient?.workLocation || '',
     email: patient?.email || '',
+    ...(patient?.filingWindowDays && { filingWindowDays: patient.filingWindowDays }),
   });
 
   function handleSubmit(e: React.FormEvent) {
@@ -781,6 +791,22 @@ function PatientFormModal({
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-1">Filing Window (days)</label>
+            <input
+              type="number"
+              min={1}
+              value={formData.filingWindowDays ?? ''}
+              onChange={(e) => {
+                const { filingWindowDays: _, ...rest } = formData;
+                const days = parseInt(e.target.value, 10);
+                setFormData(days > 0 ? { ...rest, filingWindowDays: days } : rest);
+              }}
+              className="w-full p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
+              placeholder="Policy default"
+            />
+          </div>
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
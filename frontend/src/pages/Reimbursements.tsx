@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { PiggyBank, RefreshCw } from 'lucide-react';
+import { api, type ReimbursementReport, type ReimbursementTotals } from '@/lib/api';
+import { EmptyState, LoadingSpinner } from '@/components';
+import { cn, formatCurrency } from '@/lib/utils';
+
+const COLUMNS: Array<{ key: keyof ReimbursementTotals; label: string }> = [
+  { key: 'outOfPocket', label: 'Paid' },
+  { key: 'notSubmitted', label: 'Not submitted' },
+  { key: 'submitted', label: 'Submitted' },
+  { key: 'awaiting', label: 'Awaiting' },
+  { key: 'reimbursed', label: 'Reimbursed' },
+  { key: 'rejected', label: 'Rejected' },
+];
+
+export default function Reimbursements() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<ReimbursementReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReport();
+  }, [from, to]);
+
+  async function loadReport() {
+    setLoading(true);
+    try {
+      const data = await api.getReimbursementReport({
+        ...(from && { from }),
+        ...(to && { to }),
+      });
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <PiggyBank size={24} />
+          <h1 className="text-3xl font-bold bauhaus-accent">Reimbursements</h1>
+        </div>
+        <button
+          onClick={loadReport}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 border-2 border-bauhaus-black font-medium hover:bg-bauhaus-lightgray transition-colors"
+        >
+          <RefreshCw size={16} className={cn(loading && 'animate-spin')} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium mb-1">Treatment from</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Treatment to</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="p-2 border-2 border-bauhaus-black focus:outline-none focus:ring-2 focus:ring-bauhaus-blue"
+          />
+        </div>
+        {(from || to) && (
+          <button
+            onClick={() => { setFrom(''); setTo(''); }}
+            className="px-4 py-2 text-sm font-medium text-bauhaus-gray hover:underline"
+          >
+            Clear dates
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-bauhaus-red/10 border-2 border-bauhaus-red text-bauhaus-red">
+          {error}
+        </div>
+      )}
+
+      {loading && !report ? (
+        <LoadingSpinner />
+      ) : !report || report.rows.length === 0 ? (
+        <EmptyState
+          icon={PiggyBank}
+          title="Nothing to report"
+          message="No draft or scraped claims have a treatment date in this range."
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            {report.totals.map((totals) => (
+              <div key={totals.currency} className="bauhaus-card">
+                <p className="text-sm text-bauhaus-gray uppercase tracking-wide">
+                  Still owed ({totals.currency})
+                </p>
+                <p className="text-4xl font-bold my-2">
+                  {formatCurrency(totals.awaiting + totals.notSubmitted, totals.currency)}
+                </p>
+                <p className="text-sm text-bauhaus-gray">
+                  {formatCurrency(totals.awaiting, totals.currency)} awaiting Cigna ·{' '}
+                  {formatCurrency(totals.notSubmitted, totals.currency)} not submitted
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white border-2 border-bauhaus-black overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-bauhaus-black text-left">
+                  <th className="p-3">Patient</th>
+                  <th className="p-3">Illness</th>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} className="p-3 text-right">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-bauhaus-lightgray">
+                {report.rows.map((row) => (
+                  <tr key={`${row.patientId ?? ''}|${row.illnessId ?? ''}|${row.currency}`}>
+                    <td className="p-3 font-medium">{row.patientName}</td>
+                    <td className="p-3">
+                      {row.illnessName}
+                      <span className="block text-xs text-bauhaus-gray">
+                        {row.draftClaimCount} drafts · {row.scrapedClaimCount} Cigna-only claims
+                      </span>
+                    </td>
+                    {COLUMNS.map((column) => (
+                      <td key={column.key} className="p-3 text-right whitespace-nowrap">
+                        {formatCurrency(row[column.key], row.currency)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                {report.totals.map((totals) => (
+                  <tr key={totals.currency} className="border-t-2 border-bauhaus-black font-bold">
+                    <td className="p-3" colSpan={2}>Total {totals.currency}</td>
+                    {COLUMNS.map((column) => (
+                      <td key={column.key} className="p-3 text-right whitespace-nowrap">
+                        {formatCurrency(totals[column.key], totals.currency)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Backup script: write or restore a backup bundle
+ *
+ * `create` writes all entities, referenced attachments and generated PDFs
+ * into one .tar.gz (default: data/backups/). `restore` verifies a bundle's
+ * manifest and checksums, then writes it into the configured storage
+ * backend (STORAGE_BACKEND=json or sqlite).
+ *
+ * Usage:
+ *   npx tsx src/scripts/backup.ts create [output.tar.gz]
+ *   npx tsx src/scripts/backup.ts restore <backup.tar.gz>
+ */
+
+import { createBackup, restoreBackup } from "../services/backup.js";
+
+const USAGE = `Usage:
+  npx tsx src/scripts/backup.ts create [output.tar.gz]
+  npx tsx src/scripts/backup.ts restore <backup.tar.gz>`;
+
+async function main(): Promise<void> {
+  const [command, file] = process.argv.slice(2);
+
+  if (command === "create") {
+    const { path, manifest } = await createBackup(file);
+    for (const set of manifest.entities) {
+      console.log(`  ${set.name}: ${set.count}`);
+    }
+    console.log(`  files: ${manifest.files.length}`);
+    for (const missing of manifest.missingFiles) {
+      console.warn(`  ⚠️  Attachment not found, not included: ${missing}`);
+    }
+    console.log(`\n✅ Backup written to ${path}`);
+    return;
+  }
+
+  if (command === "restore" && file) {
+    const result = await restoreBackup(file);
+    console.log(`Backup from ${result.manifest.createdAt} (${result.manifest.storageBackend} backend)\n`);
+    for (const [name, count] of Object.entries(result.entities)) {
+      console.log(`  ${name}: ${count}`);
+    }
+    if (result.skippedAuditEntries > 0) {
+      console.log(`  audit entries already present: ${result.skippedAuditEntries}`);
+    }
+    console.log(`  files restored: ${result.filesRestored}, already in place: ${result.filesReused}`);
+    console.log(`  documents with remapped attachment paths: ${result.remappedDocuments}`);
+    console.log("\n✅ Restore complete.");
+    return;
+  }
+
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("Backup failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Encryption script: manage encryption at rest
+ *
+ * `init` creates the key file from STORAGE_PASSPHRASE and encrypts existing
+ * data. `rekey` replaces the passphrase (STORAGE_PASSPHRASE is the current
+ * one, NEW_STORAGE_PASSPHRASE the new one); stored data is not rewritten.
+ * `status` reports whether encryption is on and the passphrase works.
+ *
+ * Usage: npx tsx src/scripts/encryption.ts <init|rekey|status>
+ */
+
+import {
+  ENCRYPTION_KEYFILE,
+  PASSPHRASE_ENV,
+  isEncryptionEnabled,
+  rekeyStorage,
+  unlockStorage,
+} from "../storage/encryption.js";
+import { enableEncryption } from "../services/storage-encryption.js";
+
+const NEW_PASSPHRASE_ENV = "NEW_STORAGE_PASSPHRASE";
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+
+  if (command === "init") {
+    const { files, rows } = await enableEncryption(requireEnv(PASSPHRASE_ENV));
+    console.log(`Key file: ${ENCRYPTION_KEYFILE}`);
+    console.log(`Encrypted ${files} files and ${rows} database rows.`);
+    console.log(`\n✅ Encryption enabled. Set ${PASSPHRASE_ENV} when starting the API.`);
+    return;
+  }
+
+  if (command === "rekey") {
+    rekeyStorage(requireEnv(PASSPHRASE_ENV), requireEnv(NEW_PASSPHRASE_ENV));
+    console.log(`✅ Passphrase changed. Use the new one in ${PASSPHRASE_ENV} from now on.`);
+    return;
+  }
+
+  if (command === "status") {
+    if (!isEncryptionEnabled()) {
+      console.log("Encryption: off");
+      return;
+    }
+    console.log(`Encryption: on (${ENCRYPTION_KEYFILE})`);
+    unlockStorage(requireEnv(PASSPHRASE_ENV));
+    console.log("Passphrase: OK");
+    return;
+  }
+
+  console.error("Usage: npx tsx src/scripts/encryption.ts <init|rekey|status>");
+  process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("Encryption command failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * Import script: ECB reference rates → FX rate store
+ *
+ * Accepts eurofxref-hist.csv (https://www.ecb.europa.eu/stats/eurofxref/eurofxref-hist.zip)
+ * or an ECB Data Portal EXR series export.
+ * Safe to run multiple times (rates are merged per day).
+ *
+ * Usage: npx tsx src/scripts/import-ecb-rates.ts <file.csv> [--since YYYY-MM-DD] [--currencies GBP,USD]
+ */
+
+import * as fs from "node:fs";
+import { importEcbCsv } from "../services/fx-rates.js";
+
+function parseArgs(argv: string[]): { file?: string; since?: Date; currencies?: string[] } {
+  const args: { file?: string; since?: Date; currencies?: string[] } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--since") {
+      const since = new Date(argv[++i] ?? "");
+      if (Number.isNaN(since.getTime())) {
+        throw new Error("--since expects a date (YYYY-MM-DD)");
+      }
+      args.since = since;
+    } else if (arg === "--currencies") {
+      args.currencies = (argv[++i] ?? "").split(",").map((c) => c.trim()).filter(Boolean);
+    } else if (arg) {
+      args.file = arg;
+    }
+  }
+
+  return args;
+}
+
+async function main(): Promise<void> {
+  const { file, since, currencies } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error(
+      "Usage: npx tsx src/scripts/import-ecb-rates.ts <file.csv> [--since YYYY-MM-DD] [--currencies GBP,USD]"
+    );
+    process.exit(1);
+  }
+
+  const content = fs.readFileSync(file, "utf-8");
+  const imported = await importEcbCsv(content, {
+    ...(since && { since }),
+    ...(currencies && { currencies }),
+  });
+
+  console.log(`Imported ${imported} daily rate sets from ${file}`);
+}
+
+main().catch((err) => {
+  console.error("Import failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+/**
+ * Integrity script: check or repair references between entities
+ *
+ * `check` lists broken references, orphaned files and search index rows,
+ * and duplicate records. `repair` applies every repair that is safe
+ * (see src/services/integrity.ts) and lists what is left for manual review.
+ *
+ * Usage:
+ *   npx tsx src/scripts/integrity.ts check
+ *   npx tsx src/scripts/integrity.ts repair
+ */
+
+import {
+  checkIntegrity,
+  repairIntegrityIssues,
+  type IntegrityReport,
+} from "../services/integrity.js";
+
+const USAGE = `Usage:
+  npx tsx src/scripts/integrity.ts check
+  npx tsx src/scripts/integrity.ts repair`;
+
+function printReport(report: IntegrityReport): void {
+  for (const [type, count] of Object.entries(report.checked)) {
+    console.log(`  ${type}: ${count}`);
+  }
+  console.log("");
+  for (const issue of report.issues) {
+    const repair = issue.repair ? ` → repair: ${issue.repair}` : "";
+    console.log(`  [${issue.kind}] ${issue.message}${repair}`);
+  }
+  console.log(report.issues.length === 0 ? "✅ No issues found." : `\n${report.issues.length} issue(s) found.`);
+}
+
+async function main(): Promise<void> {
+  const [command] = process.argv.slice(2);
+
+  if (command === "check") {
+    printReport(await checkIntegrity());
+    return;
+  }
+
+  if (command === "repair") {
+    const before = await checkIntegrity();
+    const repairable = before.issues.filter((issue) => issue.repair).map((issue) => issue.id);
+    const result = await repairIntegrityIssues(repairable);
+    console.log(`Repaired ${result.repaired.length} issue(s).\n`);
+    printReport(result.report);
+    return;
+  }
+
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("Integrity check failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Migration script: SQLite schema migrations
+ *
+ * `up` (default) applies pending migrations. On a new database, migration 0
+ * creates the schema and imports the JSON storage directories.
+ * `status` lists applied and pending migrations, and exits with code 1 when
+ * migrations are pending or the database is newer than this code.
+ *
+ * Usage: npx tsx src/scripts/migrate-sqlite.ts [up|status]
+ */
+
+import { openDatabase, DB_PATH } from "../storage/sqlite.js";
+import { getMigrationStatus, migrateUp, type MigrationStatus } from "../storage/migrations.js";
+
+function printStatus(status: MigrationStatus): void {
+  console.log(`Database: ${DB_PATH}`);
+  console.log(
+    `Schema version: ${status.currentVersion ?? "none"} (latest ${status.latestVersion})\n`
+  );
+
+  for (const migration of status.applied) {
+    const marker = status.unknown.includes(migration) ? "?" : "✓";
+    console.log(`  ${marker} ${migration.version} ${migration.name} (applied ${migration.appliedAt})`);
+  }
+  for (const migration of status.pending) {
+    console.log(`  · ${migration.version} ${migration.name} (pending)`);
+  }
+
+  if (status.unknown.length > 0) {
+    console.log("\n⚠️  Database was migrated by a newer version of the application.");
+  } else if (status.pending.length > 0) {
+    console.log(`\n${status.pending.length} pending. Run: pnpm migrate:sqlite up`);
+  } else {
+    console.log("\nUp to date.");
+  }
+}
+
+function main(): void {
+  const command = process.argv[2] ?? "up";
+  if (command !== "up" && command !== "status") {
+    console.error("Usage: npx tsx src/scripts/migrate-sqlite.ts [up|status]");
+    process.exit(1);
+  }
+
+  const db = openDatabase();
+  try {
+    if (command === "status") {
+      const status = getMigrationStatus(db);
+      printStatus(status);
+      if (status.pending.length > 0 || status.unknown.length > 0) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    const applied = migrateUp(db);
+    console.log(
+      applied.length > 0
+        ? `\n✅ Applied ${applied.length} migrations.`
+        : "\n✅ Already up to date."
+    );
+    console.log("\nTo switch to SQLite backend, set: STORAGE_BACKEND=sqlite");
+  } finally {
+    db.close();
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("Migration failed:", err);
+  process.exit(1);
+}
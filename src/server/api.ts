@@ -15,6 +15,7 @@ import {
   unarchiveClaim as unarchiveScrapedClaim,
   getArchivedClaims as getArchivedScrapedClaims,
   getActiveClaims as getActiveScrapedClaims,
+  SCRAPED_CLAIM_LIST_SPEC,
 } from "../storage/claims.js";
 import {
   submittedClaimsStorage,
@@ -31,10 +32,12 @@ import {
   getActiveDocuments,
   getArchivedDocuments,
   setPaymentOverride,
+  setClassificationOverride,
   archiveDocument,
   unarchiveDocument,
   createMedicalDocument,
   updateMedicalDocument,
+  DOCUMENT_LIST_SPEC,
 } from "../storage/documents.js";
 import {
   assignmentsStorage,
@@ -42,16 +45,26 @@ import {
   getConfirmedAssignments,
   confirmAssignment,
   rejectAssignment,
+  ASSIGNMENT_LIST_SPEC,
 } from "../storage/assignments.js";
 import {
   draftClaimsStorage,
   updateDraftClaim,
+  recordDraftClaimSubmission,
   archiveDraftClaim,
   unarchiveDraftClaim,
   markDraftClaimPending,
   getArchivedDraftClaims,
   getActiveDraftClaims,
+  DRAFT_CLAIM_LIST_SPEC,
 } from "../storage/draft-claims.js";
+import { parseListQuery, type ListQuery, type ListSpec } from "../storage/query.js";
+import {
+  assertVersion,
+  entityVersion,
+  isVersionConflict,
+  type SaveOptions,
+} from "../storage/base.js";
 import {
   archiveRulesStorage,
   createArchiveRule,
@@ -79,7 +92,15 @@ import {
   getArchivedIllnesses,
   getActiveIllnessesAll,
 } from "../storage/illnesses.js";
-import { ensureStorageDirs, getStorageBackend, getStatsFast } from "../storage/index.js";
+import {
+  ensureStorageDirs,
+  getStorageBackend,
+  getStatsFast,
+  getDatabase,
+  getMigrationStatus,
+  replayJournals,
+  runInTransaction,
+} from "../storage/index.js";
 import { DocumentProcessor } from "../services/document-processor.js";
 import { generateDraftClaims } from "../services/draft-claim-generator.js";
 import { promoteDocumentToDraftClaim, propagateDocumentPaymentToDrafts } from "../services/draft-claim-promoter.js";
@@ -93,21 +114,62 @@ import {
   linkDraftToSubmissionNumber,
   getLinkedDraftClaims,
 } from "../services/draft-claim-matcher.js";
-import { applyArchiveRuleToExistingDocuments } from "../services/archive-rules.js";
+import { applyArchiveRuleToExistingDocuments, validateArchiveRule } from "../services/archive-rules.js";
 import { dedupeIds } from "../services/ids.js";
 import {
-  runDocumentProcessing,
+  startDocumentProcessingJob,
   startDocumentProcessingSchedule,
 } from "../services/document-processing-runner.js";
+import {
+  startJob,
+  getJob,
+  cancelJob,
+  findActiveJob,
+  isTerminalJobStatus,
+  recoverInterruptedJobs,
+} from "../services/job-queue.js";
+import { getJobs } from "../storage/jobs.js";
+import { getAuditEntries, runAsActor } from "../storage/audit-log.js";
+import { PASSPHRASE_ENV, isEncryptionEnabled, unlockStorage } from "../storage/encryption.js";
+import { fxRatesStorage } from "../storage/fx-rates.js";
+import { importEcbCsv, seedFxRatesFromClaims } from "../services/fx-rates.js";
+import { getReimbursementReport } from "../services/reimbursement-ledger.js";
+import { getDraftClaimDeadlines } from "../services/filing-deadlines.js";
+import { getSubmissionSuggestion } from "../services/submission-suggestions.js";
+import { createBackup } from "../services/backup.js";
+import { checkIntegrity, repairIntegrityIssues } from "../services/integrity.js";
+import {
+  dismissDuplicate,
+  getDuplicateReviewQueue,
+  hashContent,
+  mergeDuplicate,
+  scanForDuplicates,
+} from "../services/duplicate-detection.js";
+import {
+  CONFIDENT_PROBABILITY,
+  getClassificationReviewQueue,
+  getClassifierModel,
+  retrainClassifier,
+} from "../services/document-classifier.js";
+import { getDropFolder, scanDropFolder, startDropFolderWatcher } from "../services/drop-folder.js";
+import { search, DEFAULT_SEARCH_LIMIT } from "../services/search.js";
+import { subscribeLiveEvents, formatSseMessage } from "../services/live-events.js";
 import { CignaScraper } from "../services/cigna-scraper.js";
-import { CignaSubmitter } from "../services/cigna-submit.js";
+import { CignaSubmitter, type ClaimSubmissionInput } from "../services/cigna-submit.js";
 import { extractAndPrepareAccounts } from "../services/account-extractor.js";
 import { generateDoctorNotesPdf } from "../services/pdf-generator.js";
-import type { CreatePatientInput, UpdatePatientInput } from "../types/patient.js";
-import type { CreateIllnessInput, UpdateIllnessInput } from "../types/illness.js";
+import type { CreatePatientInput, Patient, UpdatePatientInput } from "../types/patient.js";
+import type { CreateIllnessInput, Illness, UpdateIllnessInput } from "../types/illness.js";
 import type { DraftClaim, DraftClaimRange, DraftClaimDateSource, DraftClaimStatus } from "../types/draft-claim.js";
 import type { Claim } from "../types/claim.js";
-import type { MedicalDocument } from "../types/medical-document.js";
+import {
+  DOCUMENT_CLASSIFICATIONS,
+  type DocumentClassification,
+  type MedicalDocument,
+} from "../types/medical-document.js";
+import type { ClassifierModel } from "../types/classifier-model.js";
+import { JOB_TYPES, type Job, type JobType } from "../types/job.js";
+import { AUDIT_ENTITY_TYPES, type AuditEntityType } from "../types/audit-entry.js";
 import type {
   CreateArchiveRuleInput,
   UpdateArchiveRuleInput,
@@ -193,6 +255,7 @@ function json(res: http.ServerResponse, data: unknown, status = 200) {
   res.writeHead(status, {
     "Content-Type": "application/json",
     "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "ETag",
   });
   res.end(JSON.stringify(data));
 }
@@ -244,6 +307,43 @@ function requireFields<T extends Record<string, unknown>>(
   }
 }
 
+/** Require an optional filing window to be a positive whole number of days, or throw 400 */
+function validateFilingWindow(value: unknown): void {
+  if (value === undefined) return;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    httpError(400, "filingWindowDays must be a positive integer");
+  }
+}
+
+/**
+ * Save options from an If-Match header carrying an entity version (see
+ * storage/base.ts). A stale version makes the save fail with 409.
+ */
+function ifMatchOptions(req: http.IncomingMessage): SaveOptions {
+  const header = req.headers["if-match"]?.trim();
+  if (!header || header === "*") return {};
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  if (!match) {
+    httpError(400, "If-Match must be an entity tag from ETag");
+  }
+  return { expectedVersion: Number(match[1]) };
+}
+
+/** Send an entity's version as its ETag */
+function setEntityTag(res: http.ServerResponse, entity: object): void {
+  res.setHeader("ETag", `"${entityVersion(entity)}"`);
+}
+
+/** Parse list paging, sort and filter parameters (see storage/query.ts), or throw 400 */
+function parseListParams<T>(req: http.IncomingMessage, spec: ListSpec<T>): ListQuery {
+  const { query } = url.parse(req.url ?? "", true);
+  try {
+    return parseListQuery(spec, query);
+  } catch (err) {
+    httpError(400, err instanceof Error ? err.message : String(err));
+  }
+}
+
 /** Parse and validate a date string, or throw 400 */
 function parseDate(value: string, fieldName = "date"): Date {
   const parsed = new Date(value);
@@ -352,7 +452,8 @@ routes.PUT["/api/claims/:id/archive"] = async (_req, _res, params, body) => {
 // SCRAPED CLAIMS ROUTES
 // =============================================
 
-routes.GET["/api/scraped-claims"] = async () => scrapedClaimsStorage.getAll();
+routes.GET["/api/scraped-claims"] = async (req) =>
+  scrapedClaimsStorage.list(SCRAPED_CLAIM_LIST_SPEC, parseListParams(req, SCRAPED_CLAIM_LIST_SPEC));
 
 routes.GET["/api/scraped-claims/:id"] = async (_req, _res, params) => {
   const claim = await scrapedClaimsStorage.get(params.id!);
@@ -418,14 +519,15 @@ function invalidateCache(prefix: string) {
   }
 }
 
-routes.GET["/api/documents"] = async () => {
-  const all = await documentsStorage.getAll();
-  return all.map(slimDocument);
+routes.GET["/api/documents"] = async (req) => {
+  const page = await documentsStorage.list(DOCUMENT_LIST_SPEC, parseListParams(req, DOCUMENT_LIST_SPEC));
+  return { ...page, items: page.items.map(slimDocument) };
 };
 
-routes.GET["/api/documents/:id"] = async (_req, _res, params) => {
+routes.GET["/api/documents/:id"] = async (_req, res, params) => {
   const doc = await documentsStorage.get(params.id!);
   requireEntity(doc, "Document");
+  setEntityTag(res, doc);
   return doc;
 };
 
@@ -445,7 +547,7 @@ routes.GET["/api/documents/medical-bills"] = async () => {
 };
 
 /** Set or clear a manual payment override for a document */
-routes.PUT["/api/documents/:id/payment-override"] = async (_req, _res, params, body) => {
+routes.PUT["/api/documents/:id/payment-override"] = async (req, res, params, body) => {
   const { amount, currency, note, clear } = body as {
     amount?: number;
     currency?: string;
@@ -455,12 +557,15 @@ routes.PUT["/api/documents/:id/payment-override"] = async (_req, _res, params, b
 
   const doc = await documentsStorage.get(params.id!);
   requireEntity(doc, "Document");
+  const saveOptions = ifMatchOptions(req);
+  assertVersion(doc.id, doc, saveOptions.expectedVersion);
 
   // Clear the override if requested
   if (clear) {
-    const updated = await setPaymentOverride(params.id!, null);
+    const updated = await setPaymentOverride(params.id!, null, saveOptions);
     requireEntity(updated, "Document");
     await propagateDocumentPaymentToDrafts(params.id!);
+    setEntityTag(res, updated);
     return updated;
   }
 
@@ -479,9 +584,40 @@ routes.PUT["/api/documents/:id/payment-override"] = async (_req, _res, params, b
     ...(note !== undefined && { note }),
   };
 
-  const updated = await setPaymentOverride(params.id!, overrideInput);
+  const updated = await setPaymentOverride(params.id!, overrideInput, saveOptions);
   requireEntity(updated, "Document");
   await propagateDocumentPaymentToDrafts(params.id!);
+  setEntityTag(res, updated);
+  return updated;
+};
+
+/** Set or clear the user's classification for a document */
+routes.PUT["/api/documents/:id/classification-override"] = async (req, res, params, body) => {
+  const { classification, note, clear } = body as {
+    classification?: string;
+    note?: string;
+    clear?: boolean;
+  };
+
+  const doc = await documentsStorage.get(params.id!);
+  requireEntity(doc, "Document");
+  const saveOptions = ifMatchOptions(req);
+  assertVersion(doc.id, doc, saveOptions.expectedVersion);
+
+  if (!clear && !DOCUMENT_CLASSIFICATIONS.includes(classification as DocumentClassification)) {
+    httpError(400, `classification must be one of: ${DOCUMENT_CLASSIFICATIONS.join(", ")}`);
+  }
+
+  const updated = await setClassificationOverride(
+    params.id!,
+    clear
+      ? null
+      : { classification: classification as DocumentClassification, ...(note !== undefined && { note }) },
+    saveOptions
+  );
+  requireEntity(updated, "Document");
+  invalidateCache("docs:");
+  setEntityTag(res, updated);
   return updated;
 };
 
@@ -537,13 +673,15 @@ routes.POST["/api/documents/:id/reprocess"] = async (_req, _res, params) => {
 
   console.log(`Reprocessing document ${document.id}: ${document.filename}`);
 
-  // Import QweN client and helpers
-  const { qwenClient } = await import("../services/qwen-client.js");
-  const { extractAmounts, classifyDocument, extractMedicalKeywords } = await import("../services/document-processor.js");
+  // Import document source and helpers
+  const { createDocumentSourceFromEnv } = await import("../services/document-source.js");
+  const { classifyWithModel, extractMedicalKeywords } = await import("../services/document-processor.js");
+  const { extractAmounts } = await import("../services/locale-extraction.js");
+  const { extractInvoiceFields } = await import("../services/invoice-fields.js");
 
   // Re-run OCR on the attachment
   console.log(`  Running OCR on: ${document.attachmentPath}`);
-  const ocrResult = await qwenClient.ocrDocument(document.attachmentPath);
+  const ocrResult = await createDocumentSourceFromEnv().ocrDocument(document.attachmentPath);
 
   if (ocrResult.status !== "success" || !ocrResult.text) {
     console.error(`  OCR failed:`, ocrResult.error);
@@ -568,7 +706,8 @@ routes.POST["/api/documents/:id/reprocess"] = async (_req, _res, params) => {
     ocrText,
     ocrCharCount: ocrText.length,
     detectedAmounts,
-    classification: classifyDocument(ocrText, document.subject ?? ""),
+    extractedFields: extractInvoiceFields(ocrText),
+    ...(await classifyWithModel(ocrText, document.subject ?? "", document)),
     medicalKeywords: extractMedicalKeywords(ocrText),
   };
 
@@ -597,6 +736,22 @@ routes.POST["/api/documents/:id/reprocess"] = async (_req, _res, params) => {
 
 routes.GET["/api/archive-rules"] = async () => archiveRulesStorage.getAll();
 
+/**
+ * Check a rule's conditions and actions, and that linked illnesses exist.
+ */
+async function assertValidArchiveRule(rule: UpdateArchiveRuleInput): Promise<void> {
+  try {
+    validateArchiveRule(rule);
+  } catch (err) {
+    httpError(400, err instanceof Error ? err.message : String(err));
+  }
+  for (const action of rule.actions ?? []) {
+    if (action.kind === "link_illness" && !(await illnessesStorage.get(action.illnessId))) {
+      httpError(400, `Illness not found: ${action.illnessId}`);
+    }
+  }
+}
+
 routes.POST["/api/archive-rules"] = async (_req, _res, _params, body) => {
   const input = body as CreateArchiveRuleInput & { applyToExisting?: boolean };
   const name = input.name?.trim();
@@ -605,17 +760,18 @@ routes.POST["/api/archive-rules"] = async (_req, _res, _params, body) => {
   const fromContains = input.fromContains?.trim();
   const subjectContains = input.subjectContains?.trim();
   const attachmentNameContains = input.attachmentNameContains?.trim();
-  if (!fromContains && !subjectContains && !attachmentNameContains) {
-    httpError(400, "At least one match condition is required");
-  }
-
-  const rule = await createArchiveRule({
+  const ruleInput: CreateArchiveRuleInput = {
     name,
     enabled: input.enabled ?? true,
     ...(fromContains && { fromContains }),
     ...(subjectContains && { subjectContains }),
     ...(attachmentNameContains && { attachmentNameContains }),
-  });
+    ...(input.conditions && { conditions: input.conditions }),
+    ...(input.actions && { actions: input.actions }),
+  };
+  await assertValidArchiveRule(ruleInput);
+
+  const rule = await createArchiveRule(ruleInput);
 
   // Apply to existing documents in background (fire-and-forget) to avoid timeout
   if (input.applyToExisting ?? true) {
@@ -651,24 +807,16 @@ routes.PUT["/api/archive-rules/:id"] = async (_req, _res, params, body) => {
     ...(updates.attachmentNameContains !== undefined && {
       attachmentNameContains: normalizeOptional(updates.attachmentNameContains),
     }),
+    // null removes the conditions or actions (actions fall back to archive)
+    ...(updates.conditions !== undefined && { conditions: updates.conditions ?? undefined }),
+    ...(updates.actions !== undefined && { actions: updates.actions ?? undefined }),
   };
 
   if (normalized.name !== undefined && !normalized.name) {
     httpError(400, "name is required");
   }
 
-  const proposed = {
-    ...existing,
-    ...normalized,
-  };
-
-  if (
-    !proposed.fromContains &&
-    !proposed.subjectContains &&
-    !proposed.attachmentNameContains
-  ) {
-    httpError(400, "At least one match condition is required");
-  }
+  await assertValidArchiveRule({ ...existing, ...normalized });
 
   const updated = await updateArchiveRule(params.id!, normalized);
   requireEntity(updated, "Archive rule");
@@ -703,11 +851,13 @@ routes.GET["/api/patients/:id"] = async (_req, _res, params) => {
 routes.POST["/api/patients"] = async (_req, _res, _params, body) => {
   const input = body as CreatePatientInput;
   requireFields(input, ["cignaId", "name"]);
+  validateFilingWindow(input.filingWindowDays);
   return createPatient(input);
 };
 
 routes.PUT["/api/patients/:id"] = async (_req, _res, params, body) => {
   const updates = body as UpdatePatientInput;
+  validateFilingWindow(updates.filingWindowDays);
   const patient = await updatePatient(params.id!, updates);
   requireEntity(patient, "Patient");
   return patient;
@@ -751,9 +901,10 @@ routes.PUT["/api/patients/:id/archive"] = async (_req, _res, params, body) => {
 
 routes.GET["/api/illnesses"] = async () => illnessesStorage.getAll();
 
-routes.GET["/api/illnesses/:id"] = async (_req, _res, params) => {
+routes.GET["/api/illnesses/:id"] = async (_req, res, params) => {
   const illness = await illnessesStorage.get(params.id!);
   requireEntity(illness, "Illness");
+  setEntityTag(res, illness);
   return illness;
 };
 
@@ -763,10 +914,11 @@ routes.POST["/api/illnesses"] = async (_req, _res, _params, body) => {
   return createIllness(input);
 };
 
-routes.PUT["/api/illnesses/:id"] = async (_req, _res, params, body) => {
+routes.PUT["/api/illnesses/:id"] = async (req, res, params, body) => {
   const updates = body as UpdateIllnessInput;
-  const illness = await updateIllness(params.id!, updates);
+  const illness = await updateIllness(params.id!, updates, ifMatchOptions(req));
   requireEntity(illness, "Illness");
+  setEntityTag(res, illness);
   return illness;
 };
 
@@ -806,7 +958,8 @@ routes.PUT["/api/illnesses/:id/archive"] = async (_req, _res, params, body) => {
 // ASSIGNMENTS ROUTES
 // =============================================
 
-routes.GET["/api/assignments"] = async () => assignmentsStorage.getAll();
+routes.GET["/api/assignments"] = async (req) =>
+  assignmentsStorage.list(ASSIGNMENT_LIST_SPEC, parseListParams(req, ASSIGNMENT_LIST_SPEC));
 
 routes.GET["/api/assignments/candidates"] = async () => getCandidateAssignments();
 
@@ -823,16 +976,19 @@ routes.POST["/api/assignments/:id/confirm"] = async (_req, _res, params, body) =
   const existingAssignment = await assignmentsStorage.get(params.id!);
   requireEntity(existingAssignment, "Assignment");
 
-  // Extract and add relevant accounts to the illness
-  const document = await documentsStorage.get(existingAssignment.documentId);
-  if (document) {
-    const accounts = extractAndPrepareAccounts(document);
-    if (accounts.length > 0) {
-      await addRelevantAccounts(illnessId!, accounts);
+  // The illness's accounts and the confirmation are stored together
+  const assignment = await runInTransaction(async () => {
+    // Extract and add relevant accounts to the illness
+    const document = await documentsStorage.get(existingAssignment.documentId);
+    if (document) {
+      const accounts = extractAndPrepareAccounts(document);
+      if (accounts.length > 0) {
+        await addRelevantAccounts(illnessId!, accounts);
+      }
     }
-  }
 
-  const assignment = await confirmAssignment(params.id!, illnessId!, undefined, reviewNotes);
+    return confirmAssignment(params.id!, illnessId!, undefined, reviewNotes);
+  });
   requireEntity(assignment, "Assignment");
   return assignment;
 };
@@ -859,7 +1015,15 @@ routes.GET["/api/assignments/:id/preview-accounts"] = async (_req, _res, params)
 // DRAFT CLAIMS ROUTES
 // =============================================
 
-routes.GET["/api/draft-claims"] = async () => draftClaimsStorage.getAll();
+routes.GET["/api/draft-claims"] = async (req) =>
+  draftClaimsStorage.list(DRAFT_CLAIM_LIST_SPEC, parseListParams(req, DRAFT_CLAIM_LIST_SPEC));
+
+routes.GET["/api/draft-claims/:id"] = async (_req, res, params) => {
+  const draft = await draftClaimsStorage.get(params.id!);
+  requireEntity(draft, "Draft claim");
+  setEntityTag(res, draft);
+  return draft;
+};
 
 routes.POST["/api/draft-claims/generate"] = async (_req, _res, _params, body) => {
   const { range } = body as { range?: DraftClaimRange };
@@ -959,40 +1123,45 @@ routes.POST["/api/draft-claims/:id/accept"] = async (_req, _res, params, body) =
   return updated;
 };
 
-routes.POST["/api/draft-claims/:id/submit"] = async (_req, _res, params, body) => {
-  const {
-    cignaId: bodyId,
-    password: bodyPw,
-    totpSecret: bodyTotp,
-    headless: bodyHeadless,
-    pauseBeforeSubmit: bodyPause,
-  } = body as {
-    cignaId?: string;
-    password?: string;
-    totpSecret?: string;
-    headless?: boolean;
-    pauseBeforeSubmit?: boolean;
-  };
+/** Cigna credentials and browser options accepted by the submit routes */
+type SubmitRequestOptions = {
+  cignaId?: string;
+  password?: string;
+  totpSecret?: string;
+  headless?: boolean;
+};
 
-  const cignaId = bodyId ?? process.env.CIGNA_ID;
-  const password = bodyPw ?? process.env.CIGNA_PASSWORD;
-  const totpSecret = bodyTotp ?? process.env.CIGNA_TOTP_SECRET;
-  const headless = bodyHeadless ?? false; // Default: visible browser
-  const pauseBeforeSubmit = bodyPause ?? false; // Default: submit automatically
+/** Resolve Cigna credentials from the request body or environment, or throw 400 */
+function resolveSubmitCredentials(options: SubmitRequestOptions): {
+  cignaId: string;
+  password: string;
+  totpSecret?: string;
+} {
+  const cignaId = options.cignaId ?? process.env.CIGNA_ID;
+  const password = options.password ?? process.env.CIGNA_PASSWORD;
+  const totpSecret = options.totpSecret ?? process.env.CIGNA_TOTP_SECRET;
 
   if (!cignaId || !password) {
     httpError(400, "cignaId and password required (via body or CIGNA_ID/CIGNA_PASSWORD env vars)");
   }
+  return { cignaId, password, ...(totpSecret && { totpSecret }) };
+}
 
-  const draft = await draftClaimsStorage.get(params.id!);
+/** Check that a draft can be submitted, or throw 400/404 */
+async function requireSubmittableDraft(draftId: string): Promise<{
+  draft: DraftClaim;
+  illness: Illness;
+  patient: Patient;
+}> {
+  const draft = await draftClaimsStorage.get(draftId);
   requireEntity(draft, "Draft claim");
 
   if (draft.status !== "accepted") {
-    httpError(400, "Draft claim must be accepted before submission");
+    httpError(400, `Draft claim ${draft.id} must be accepted before submission`);
   }
 
   if (!draft.illnessId) {
-    httpError(400, "Draft claim is missing illness");
+    httpError(400, `Draft claim ${draft.id} is missing illness`);
   }
 
   const illness = await illnessesStorage.get(draft.illnessId);
@@ -1001,6 +1170,28 @@ routes.POST["/api/draft-claims/:id/submit"] = async (_req, _res, params, body) =
   const patient = await patientsStorage.get(illness.patientId);
   requireEntity(patient, "Patient");
 
+  if (!draft.submission?.country?.trim()) {
+    httpError(400, `country is required to submit draft claim ${draft.id}`);
+  }
+
+  const hasSymptoms = draft.submission.symptoms?.some((symptom) => symptom.name?.trim());
+  const hasMapping = !!illness.cignaSymptom?.trim() && !!illness.cignaDescription?.trim();
+  if (!hasSymptoms && !hasMapping) {
+    httpError(400, "Cigna symptom and diagnosis mapping are required for submission");
+  }
+
+  return { draft, illness, patient };
+}
+
+/**
+ * Build the Cigna form input for an accepted draft: all attachments and
+ * proofs, plus the doctor notes rendered as a PDF.
+ */
+async function buildDraftSubmissionInput(
+  draft: DraftClaim,
+  illness: Illness,
+  patient: Patient
+): Promise<ClaimSubmissionInput> {
   // For Cigna submission, upload ALL attachments and ALL proofs.
   // This includes invoices/bills from documentIds and payment proofs.
   const allDocIds = dedupeIds([
@@ -1051,101 +1242,206 @@ routes.POST["/api/draft-claims/:id/submit"] = async (_req, _res, params, body) =
   }
 
   const submission = draft.submission ?? {};
-  const submissionCountry = submission.country?.trim();
-  if (!submissionCountry) {
-    httpError(400, "country is required to submit a draft claim");
-  }
+  const submissionCountry = submission.country!.trim();
   const submittedSymptoms = submission.symptoms?.filter((symptom) => symptom.name?.trim()) ?? [];
   const mappedSymptom = illness.cignaSymptom?.trim();
   const mappedDiagnosis = illness.cignaDescription?.trim();
-  const hasMapping = !!mappedSymptom && !!mappedDiagnosis;
-  if (submittedSymptoms.length === 0 && !hasMapping) {
-    httpError(400, "Cigna symptom and diagnosis mapping are required for submission");
-  }
-  const resolvedSymptoms = hasMapping
-    ? [
-      {
-        name: mappedSymptom!,
-        description: mappedSymptom!,
-      },
-      {
-        name: mappedDiagnosis!,
-        description: mappedDiagnosis!,
-      },
-    ]
-    : submittedSymptoms;
-  const symptomNames = resolvedSymptoms.map((symptom) => symptom.name).filter(Boolean);
+  const symptomNames = mappedSymptom && mappedDiagnosis
+    ? [mappedSymptom, mappedDiagnosis]
+    : submittedSymptoms.map((symptom) => symptom.name).filter(Boolean);
   const providerAccount =
     illness.relevantAccounts?.find((account) => account.role === "provider") ??
     illness.relevantAccounts?.[0];
+  const providerName = submission.providerName ?? providerAccount?.name ?? providerAccount?.email;
+  const progressReport = submission.progressReport ?? draft.doctorNotes;
 
-  const claimInput = {
-    draftClaimId: draft.id,
-    patientId: patient.id,
-    illnessId: illness.id,
-    documentIds: draft.documentIds ?? [],
-    proofDocumentIds: draft.paymentProofDocumentIds ?? [],
-    treatmentIds: draft.documentIds ?? [],
+  return {
     claimType: submission.claimType ?? "Medical",
-    symptoms: resolvedSymptoms,
+    country: resolveCountry(submissionCountry),
+    symptoms: symptomNames,
+    symptomMatchMode: "exact",
+    ...(providerName && { providerName }),
+    ...(submission.providerAddress && { providerAddress: submission.providerAddress }),
+    providerCountry: submission.providerCountry ?? submissionCountry,
+    ...(progressReport && { progressReport }),
+    ...(draft.treatmentDate && {
+      treatmentDate: new Date(draft.treatmentDate).toISOString().slice(0, 10),
+    }),
     totalAmount: draft.payment.amount,
     currency: draft.payment.currency,
-    country: resolveCountry(submissionCountry),
-    notes: draft.doctorNotes,
+    patientName: patient.name,
+    documents: attachments,
   };
+}
+
+routes.POST["/api/draft-claims/:id/submit"] = async (_req, _res, params, body) => {
+  const { cignaId, password, totpSecret } = resolveSubmitCredentials(body as SubmitRequestOptions);
+  const { draft, illness, patient } = await requireSubmittableDraft(params.id!);
+  const submissionInput = await buildDraftSubmissionInput(draft, illness, patient);
 
   // Don't create a claim record yet - it will be created when matched with scraped claim
   // Just run the submitter to fill the form and stop at the review page
-
-  void (async () => {
-    const submitter = new CignaSubmitter({
-      cignaId,
-      password,
-      ...(totpSecret && { totpSecret }),
-      headless: false, // Always visible for manual submission
-      pauseBeforeSubmit: true, // Will pause at review page
-    });
-
-    try {
-      await submitter.run({
-        claimType: claimInput.claimType,
-        country: claimInput.country,
-        symptoms: symptomNames,
-        symptomMatchMode: "exact",
-        providerName: submission.providerName ?? providerAccount?.name ?? providerAccount?.email,
-        providerAddress: submission.providerAddress,
-        providerCountry: submission.providerCountry ?? submissionCountry,
-        progressReport: submission.progressReport ?? draft.doctorNotes,
-        treatmentDate: draft.treatmentDate
-          ? new Date(draft.treatmentDate).toISOString().slice(0, 10)
-          : undefined,
-        totalAmount: claimInput.totalAmount,
-        currency: claimInput.currency,
-        patientName: patient.name,
-        documents: attachments,
+  const activeSubmit = findActiveJob("submit", draft.id);
+  if (activeSubmit) {
+    httpError(409, `Submission already running for this draft claim (job ${activeSubmit.id})`);
+  }
+
+  const job = startJob(
+    "submit",
+    {
+      trigger: "manual",
+      entityId: draft.id,
+      input: {
+        draftClaimId: draft.id,
+        patient: patient.name,
+        amount: draft.payment.amount,
+        currency: draft.payment.currency,
+        documents: submissionInput.documents.map((a) => a.fileName),
+      },
+    },
+    async (ctx) => {
+      const submitter = new CignaSubmitter({
+        cignaId,
+        password,
+        ...(totpSecret && { totpSecret }),
+        headless: false, // Always visible for manual submission
+        pauseBeforeSubmit: true, // Will pause at review page
+        onProgress: ctx.report,
+      });
+      ctx.signal.addEventListener("abort", () => {
+        void submitter.cleanup();
       });
 
-      // Browser stays open for manual submission - don't cleanup immediately
-      // Wait 30 minutes for human to complete, then cleanup
-      console.log("Browser ready for manual submission. Will auto-close in 30 minutes.");
-      setTimeout(async () => {
-        console.log("Auto-closing submission browser...");
+      try {
+        ctx.log(`Preparing submission for ${patient.name} (${draft.payment.amount} ${draft.payment.currency})`);
+        const result = await submitter.run(submissionInput);
+
+        // Browser stays open for manual submission - don't cleanup immediately
+        // Wait 30 minutes for human to complete, then cleanup
+        ctx.log("Browser ready for manual submission. Will auto-close in 30 minutes.");
+        setTimeout(async () => {
+          console.log("Auto-closing submission browser...");
+          await submitter.cleanup();
+        }, 30 * 60 * 1000);
+
+        return result;
+      } catch (err) {
         await submitter.cleanup();
-      }, 30 * 60 * 1000);
-
-    } catch (err) {
-      console.error("Submission preparation failed:", err);
-      await submitter.cleanup();
+        throw err;
+      }
     }
-  })();
+  );
 
   // Return the draft claim info - status stays "accepted" until matched with scraped claim
   return {
     message: "Browser opened for manual submission. Complete the submission on Cigna, then our scraper will match it.",
     draftId: draft.id,
     patient: patient.name,
-    amount: claimInput.totalAmount,
-    currency: claimInput.currency,
+    amount: draft.payment.amount,
+    currency: draft.payment.currency,
+    job,
+  };
+};
+
+/**
+ * Submit several accepted drafts in one logged-in browser session.
+ * Drafts are submitted automatically, one after another; a failing draft
+ * is recorded in the job result and the batch continues.
+ */
+routes.POST["/api/draft-claims/submit-batch"] = async (_req, _res, _params, body) => {
+  const { draftIds, ...options } = body as SubmitRequestOptions & { draftIds?: string[] };
+  const { cignaId, password, totpSecret } = resolveSubmitCredentials(options);
+
+  if (!Array.isArray(draftIds) || draftIds.length === 0) {
+    httpError(400, "draftIds must be a non-empty array");
+  }
+  const ids = dedupeIds(draftIds);
+
+  // Reject the batch up front for drafts that can never be submitted
+  const drafts = await Promise.all(ids.map((id) => requireSubmittableDraft(id)));
+  for (const id of ids) {
+    const activeSubmit = findActiveJob("submit", id);
+    if (activeSubmit) {
+      httpError(409, `Submission already running for draft claim ${id} (job ${activeSubmit.id})`);
+    }
+  }
+
+  const job = startJob(
+    "submit",
+    {
+      trigger: "manual",
+      entityIds: ids,
+      input: {
+        draftClaimIds: ids,
+        drafts: drafts.map(({ draft, patient }) => ({
+          draftClaimId: draft.id,
+          patient: patient.name,
+          amount: draft.payment.amount,
+          currency: draft.payment.currency,
+        })),
+      },
+    },
+    async (ctx) => {
+      const submitter = new CignaSubmitter({
+        cignaId,
+        password,
+        ...(totpSecret && { totpSecret }),
+        headless: options.headless ?? false,
+        pauseBeforeSubmit: false,
+        onProgress: ctx.report,
+      });
+      ctx.signal.addEventListener("abort", () => {
+        void submitter.cleanup();
+      });
+
+      ctx.log(`Submitting ${ids.length} draft claims in one session`);
+      const outcomes = await submitter.runBatch(
+        ids.map((id) => ({
+          key: id,
+          input: async () => {
+            // Re-check: the draft may have changed while earlier drafts were submitted
+            const { draft, illness, patient } = await requireSubmittableDraft(id).catch((err: HttpError) => {
+              throw new Error(err.message);
+            });
+            ctx.log(`Submitting ${draft.id} for ${patient.name} (${draft.payment.amount} ${draft.payment.currency})`);
+            return buildDraftSubmissionInput(draft, illness, patient);
+          },
+        })),
+        async (outcome) => {
+          if (outcome.error) {
+            ctx.log(`Draft ${outcome.key} failed: ${outcome.error}`, "error");
+            return;
+          }
+          const submissionNumber = outcome.result?.submissionNumber;
+          ctx.log(
+            submissionNumber
+              ? `Draft ${outcome.key} submitted (submission number ${submissionNumber})`
+              : `Draft ${outcome.key} submitted without a submission number; it stays accepted until matched`
+          );
+          await recordDraftClaimSubmission(outcome.key, submissionNumber);
+        },
+        ctx.signal
+      );
+      ctx.throwIfCancelled();
+
+      const failed = outcomes.filter((outcome) => outcome.error).length;
+      ctx.log(`Batch finished: ${outcomes.length - failed} submitted, ${failed} failed`);
+      return {
+        submitted: outcomes.length - failed,
+        failed,
+        results: outcomes.map((outcome) => ({
+          draftClaimId: outcome.key,
+          ...(outcome.result && { result: outcome.result }),
+          ...(outcome.error && { error: outcome.error }),
+        })),
+      };
+    }
+  );
+
+  return {
+    message: `Submitting ${ids.length} draft claims in one Cigna session`,
+    draftIds: ids,
+    job,
   };
 };
 
@@ -1165,7 +1461,7 @@ routes.POST["/api/draft-claims/:id/pending"] = async (_req, _res, params) => {
 };
 
 /** Partial update for draft claim (auto-save) */
-routes.PATCH["/api/draft-claims/:id"] = async (_req, _res, params, body) => {
+routes.PATCH["/api/draft-claims/:id"] = async (req, res, params, body) => {
   const {
     illnessId,
     doctorNotes,
@@ -1186,6 +1482,8 @@ routes.PATCH["/api/draft-claims/:id"] = async (_req, _res, params, body) => {
 
   const draft = await draftClaimsStorage.get(params.id!);
   requireEntity(draft, "Draft claim");
+  const saveOptions = ifMatchOptions(req);
+  assertVersion(draft.id, draft, saveOptions.expectedVersion);
 
   // Rejected drafts are read-only
   if (draft.status === "rejected") {
@@ -1333,8 +1631,9 @@ routes.PATCH["/api/draft-claims/:id"] = async (_req, _res, params, body) => {
     updates.documentIds = nextDocumentIds;
   }
 
-  const updated = await updateDraftClaim(params.id!, updates);
+  const updated = await updateDraftClaim(params.id!, updates, saveOptions);
   requireEntity(updated, "Draft claim");
+  setEntityTag(res, updated);
   return updated;
 };
 
@@ -1353,6 +1652,21 @@ routes.GET["/api/draft-claims/archived"] = async () => getArchivedDraftClaims();
 
 routes.GET["/api/draft-claims/active"] = async () => getActiveDraftClaims();
 
+/** Filing deadlines of drafts not yet submitted, most urgent first */
+routes.GET["/api/draft-claims/deadlines"] = async () => getDraftClaimDeadlines();
+
+/** Suggest submission details from history; ?illnessId= overrides the draft's illness */
+routes.GET["/api/draft-claims/:id/submission-suggestion"] = async (req, _res, params) => {
+  const { query } = url.parse(req.url ?? "", true);
+  const illnessId = typeof query.illnessId === "string" && query.illnessId ? query.illnessId : undefined;
+  if (illnessId) {
+    requireEntity(await illnessesStorage.get(illnessId), "Illness");
+  }
+  const suggestion = await getSubmissionSuggestion(params.id!, illnessId);
+  requireEntity(suggestion, "Draft claim");
+  return suggestion;
+};
+
 /** Archive or unarchive a draft claim */
 routes.PUT["/api/draft-claims/:id/archive"] = async (_req, _res, params, body) => {
   const { archived } = body as { archived?: boolean };
@@ -1380,8 +1694,26 @@ routes.PUT["/api/draft-claims/:id/archive"] = async (_req, _res, params, body) =
 // =============================================
 
 routes.POST["/api/process/documents"] = async () => {
-  const docs = await runDocumentProcessing("manual");
-  return { processed: docs.length, documents: docs };
+  const job = startDocumentProcessingJob("manual");
+  if (!job) {
+    httpError(409, "Document processing is already running");
+  }
+  return job;
+};
+
+/** Ingest new files from the drop folder (DROP_FOLDER) now */
+routes.POST["/api/process/drop-folder"] = async () => {
+  const dir = getDropFolder();
+  if (!dir) {
+    httpError(400, "No drop folder configured; set DROP_FOLDER");
+  }
+  try {
+    const result = await scanDropFolder(dir);
+    if (result.documents.length > 0) invalidateCache("docs:");
+    return { ...result, processed: result.documents.length, documents: result.documents.map(slimDocument) };
+  } catch (err) {
+    httpError(400, err instanceof Error ? err.message : String(err));
+  }
 };
 
 routes.POST["/api/process/match"] = async () => {
@@ -1495,29 +1827,304 @@ routes.POST["/api/process/scrape"] = async (_req, _res, _params, body) => {
     httpError(400, "cignaId and password required (via body or CIGNA_ID/CIGNA_PASSWORD env vars)");
   }
 
-  console.log(`Starting Cigna scrape (headless: ${headless})...`);
+  const activeScrape = findActiveJob("scrape");
+  if (activeScrape) {
+    httpError(409, `Scrape already running (job ${activeScrape.id})`);
+  }
+
+  return startJob("scrape", { trigger: "manual", input: { headless } }, async (ctx) => {
+    ctx.log(`Starting Cigna scrape (headless: ${headless})...`);
+
+    const scraper = new CignaScraper({
+      cignaId,
+      password,
+      ...(totpSecret && { totpSecret }),
+      headless,
+      onProgress: ctx.report,
+    });
+    ctx.signal.addEventListener("abort", () => {
+      void scraper.close();
+    });
+
+    const claims = await scraper.run();
+    ctx.throwIfCancelled();
+    ctx.log(`Scraped ${claims.length} claims from Cigna`);
+
+    const fxRatesRecorded = await seedFxRatesFromClaims(claims);
+    if (fxRatesRecorded > 0) {
+      ctx.log(`Recorded ${fxRatesRecorded} exchange rates from claim conversions`);
+    }
+
+    // AUTO-LINK: After scraping, automatically link any draft claims
+    // 1. First by exact submission number (guaranteed)
+    const linkedBySubmission = await autoLinkBySubmissionNumber();
+    // 2. Then by high-confidence heuristic (amount + currency + patient + date)
+    const linkedByHeuristic = await autoLinkHighConfidenceMatches();
+    const totalLinked = linkedBySubmission + linkedByHeuristic;
+    if (totalLinked > 0) {
+      ctx.log(`Auto-linked ${totalLinked} draft claims (${linkedBySubmission} by submission, ${linkedByHeuristic} by heuristic)`);
+    }
+
+    return {
+      scraped: claims.length,
+      claimIds: claims.map((claim) => claim.id),
+      autoLinked: totalLinked,
+    };
+  });
+};
+
+// =============================================
+// EXCHANGE RATE ROUTES
+// =============================================
+
+routes.GET["/api/fx-rates"] = async () => {
+  const rateSets = await fxRatesStorage.getAll();
+  return rateSets.sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+/** Import an ECB reference rate CSV (eurofxref-hist.csv or Data Portal export) */
+routes.POST["/api/fx-rates/import-ecb"] = async (_req, _res, _params, body) => {
+  const { csv, currencies, since } = body as {
+    csv?: string;
+    currencies?: string[];
+    since?: string;
+  };
+  if (!csv?.trim()) {
+    httpError(400, "csv is required");
+  }
+  const sinceDate = since ? new Date(since) : undefined;
+  if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+    httpError(400, "since must be a valid date");
+  }
+
+  try {
+    const imported = await importEcbCsv(csv, {
+      ...(currencies && { currencies }),
+      ...(sinceDate && { since: sinceDate }),
+    });
+    return { imported };
+  } catch (err) {
+    httpError(400, err instanceof Error ? err.message : String(err));
+  }
+};
+
+/** Record exchange rates observed on all scraped claims */
+routes.POST["/api/fx-rates/seed-from-claims"] = async () => {
+  const recorded = await seedFxRatesFromClaims(await scrapedClaimsStorage.getAll());
+  return { recorded };
+};
 
-  const scraper = new CignaScraper({
-    cignaId,
-    password,
-    ...(totpSecret && { totpSecret }),
-    headless,
+// =============================================
+// JOB ROUTES
+// =============================================
+
+routes.GET["/api/jobs"] = async (req) => {
+  const { query } = url.parse(req.url ?? "", true);
+  const type = typeof query.type === "string" ? query.type : undefined;
+  if (type && !JOB_TYPES.includes(type as JobType)) {
+    httpError(400, `Unknown job type: ${type}`);
+  }
+  const jobs = await getJobs(type as JobType | undefined);
+  // Prefer live records for running jobs; omit logs from the list view
+  const live = await Promise.all(jobs.map((job) => getJob(job.id)));
+  return live
+    .filter((job): job is Job => !!job)
+    .map(({ logs, ...job }) => ({ ...job, logCount: logs.length }));
+};
+
+routes.GET["/api/jobs/:id"] = async (_req, _res, params) => {
+  const job = await getJob(params.id!);
+  requireEntity(job, "Job");
+  return job;
+};
+
+routes.POST["/api/jobs/:id/cancel"] = async (_req, _res, params) => {
+  const existing = await getJob(params.id!);
+  requireEntity(existing, "Job");
+  if (isTerminalJobStatus(existing.status)) {
+    httpError(400, `Job already ${existing.status}`);
+  }
+  const job = await cancelJob(existing.id);
+  requireEntity(job, "Job");
+  return job;
+};
+
+// =============================================
+// REPORT ROUTES
+// =============================================
+
+/** Parse an optional YYYY-MM-DD query parameter */
+function parseDateQuery(value: unknown, name: string): Date | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    httpError(400, `${name} must be a valid date`);
+  }
+  return date;
+}
+
+routes.GET["/api/reports/reimbursement"] = async (req) => {
+  const { query } = url.parse(req.url ?? "", true);
+  const from = parseDateQuery(query.from, "from");
+  const to = parseDateQuery(query.to, "to");
+  if (from && to && from > to) {
+    httpError(400, "from must not be after to");
+  }
+  return getReimbursementReport({
+    ...(from && { from }),
+    ...(to && { to }),
   });
+};
+
+// =============================================
+// SEARCH ROUTE
+// =============================================
 
-  const claims = await scraper.run();
-  console.log(`Scraped ${claims.length} claims from Cigna`);
+/** Upper bound for ?limit= on search */
+const MAX_SEARCH_LIMIT = 100;
 
-  // AUTO-LINK: After scraping, automatically link any draft claims
-  // 1. First by exact submission number (guaranteed)
-  const linkedBySubmission = await autoLinkBySubmissionNumber();
-  // 2. Then by high-confidence heuristic (amount + currency + patient + date)
-  const linkedByHeuristic = await autoLinkHighConfidenceMatches();
-  const totalLinked = linkedBySubmission + linkedByHeuristic;
-  if (totalLinked > 0) {
-    console.log(`Auto-linked ${totalLinked} draft claims (${linkedBySubmission} by submission, ${linkedByHeuristic} by heuristic)`);
+routes.GET["/api/search"] = async (req) => {
+  const { query } = url.parse(req.url ?? "", true);
+  const q = typeof query.q === "string" ? query.q.trim() : "";
+  if (!q) {
+    httpError(400, "q is required");
+  }
+
+  let limit = DEFAULT_SEARCH_LIMIT;
+  if (typeof query.limit === "string" && query.limit) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      httpError(400, `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+  }
+
+  return { query: q, hits: await search(q, limit) };
+};
+
+// =============================================
+// AUDIT ROUTES
+// =============================================
+
+routes.GET["/api/audit"] = async (req) => {
+  const { query } = url.parse(req.url ?? "", true);
+  const entity = typeof query.entity === "string" ? query.entity : "";
+  if (!AUDIT_ENTITY_TYPES.includes(entity as AuditEntityType)) {
+    httpError(400, `entity must be one of: ${AUDIT_ENTITY_TYPES.join(", ")}`);
+  }
+  const id = typeof query.id === "string" && query.id ? query.id : undefined;
+
+  return getAuditEntries({ entityType: entity as AuditEntityType, ...(id && { entityId: id }) });
+};
+
+// =============================================
+// BACKUP ROUTE
+// =============================================
+
+/**
+ * Write a backup bundle to data/backups/. Restore with `pnpm backup restore`.
+ */
+routes.POST["/api/backup"] = async () => {
+  return createBackup();
+};
+
+// =============================================
+// INTEGRITY ROUTES
+// =============================================
+
+/**
+ * Report broken references, orphans and duplicates. Changes nothing.
+ */
+routes.GET["/api/admin/integrity"] = async () => {
+  return checkIntegrity();
+};
+
+/**
+ * Repair issues from the report by ID. Issues without a safe repair are skipped.
+ */
+routes.POST["/api/admin/integrity/repair"] = async (_req, _res, _params, body) => {
+  const { issueIds } = (body ?? {}) as { issueIds?: unknown };
+  if (!Array.isArray(issueIds) || !issueIds.every((id) => typeof id === "string")) {
+    httpError(400, "issueIds must be an array of issue IDs");
+  }
+  return repairIntegrityIssues(issueIds as string[]);
+};
+
+// =============================================
+// DUPLICATE REVIEW ROUTES
+// =============================================
+
+/** Documents flagged as possible duplicates, each with its original */
+routes.GET["/api/duplicates"] = async () => {
+  const items = await getDuplicateReviewQueue();
+  return items.map((item) => ({
+    ...item,
+    document: slimDocument(item.document),
+    original: slimDocument(item.original),
+  }));
+};
+
+/** Hash documents processed before duplicate detection and re-check all of them */
+routes.POST["/api/duplicates/scan"] = async () => {
+  const result = await scanForDuplicates();
+  invalidateCache("docs:");
+  return result;
+};
+
+async function requireFlaggedDocument(id: string): Promise<void> {
+  const document = await documentsStorage.get(id);
+  requireEntity(document, "Document");
+  if (!document.duplicateCandidate) {
+    httpError(400, "Document is not flagged as a duplicate");
   }
+}
 
-  return { scraped: claims.length, claims, autoLinked: totalLinked };
+/** Confirm a flagged duplicate; drafts move to the original document */
+routes.POST["/api/documents/:id/duplicate/merge"] = async (_req, _res, params) => {
+  await requireFlaggedDocument(params.id!);
+  const merged = await mergeDuplicate(params.id!);
+  invalidateCache("docs:");
+  return merged;
+};
+
+/** Reject a flagged duplicate; the pair is not flagged again */
+routes.POST["/api/documents/:id/duplicate/dismiss"] = async (_req, _res, params) => {
+  await requireFlaggedDocument(params.id!);
+  const dismissed = await dismissDuplicate(params.id!);
+  invalidateCache("docs:");
+  return dismissed;
+};
+
+// =============================================
+// CLASSIFIER ROUTES
+// =============================================
+
+/** Model summary without the token tables */
+function summarizeModel(model: ClassifierModel) {
+  const { tokenCounts, tokenTotals, ...summary } = model;
+  return summary;
+}
+
+/** Current classifier model, or null before the first training */
+routes.GET["/api/classifier"] = async () => {
+  const model = await getClassifierModel();
+  return { model: model && summarizeModel(model), confidentProbability: CONFIDENT_PROBABILITY };
+};
+
+/** Train a new model version and refresh document predictions */
+routes.POST["/api/classifier/train"] = async () => {
+  try {
+    const result = await retrainClassifier();
+    invalidateCache("docs:");
+    return { ...result, model: summarizeModel(result.model) };
+  } catch (err) {
+    httpError(400, err instanceof Error ? err.message : String(err));
+  }
+};
+
+/** Documents whose predicted classification is uncertain, least confident first */
+routes.GET["/api/classification-review"] = async () => {
+  const items = await getClassificationReviewQueue();
+  return items.map((item) => ({ ...item, document: slimDocument(item.document) }));
 };
 
 // =============================================
@@ -1712,6 +2319,7 @@ async function handleFileUpload(
     sourceType: "manual_upload",
     filename: uniqueFilename,
     attachmentPath: filePath,
+    contentHash: hashContent(buffer),
     mimeType,
     fileSize: buffer.length,
     classification,
@@ -1831,6 +2439,44 @@ function matchRoute(
   return parameterizedMatch;
 }
 
+/** Interval between SSE keep-alive comments */
+const EVENT_STREAM_HEARTBEAT_MS = 25_000;
+
+/**
+ * Stream live progress events as Server-Sent Events.
+ * Optional ?jobId= limits the stream to one job.
+ */
+function handleEventStream(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  jobId: string | undefined
+): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.write(": connected\n\n");
+
+  const unsubscribe = subscribeLiveEvents((event) => {
+    if (jobId) {
+      const eventJobId = event.kind === "job" ? event.job.id : event.jobId;
+      if (eventJobId !== jobId) return;
+    }
+    res.write(formatSseMessage(event));
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, EVENT_STREAM_HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
 async function handleRequest(
   req: http.IncomingMessage,
   res: http.ServerResponse
@@ -1840,7 +2486,7 @@ async function handleRequest(
     res.writeHead(204, {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers": "Content-Type, If-Match",
     });
     res.end();
     return;
@@ -1863,6 +2509,13 @@ async function handleRequest(
       return;
     }
 
+    // Long-lived Server-Sent Events stream
+    if (pathname === "/api/events" && method === "GET") {
+      const jobId = typeof parsedUrl.query.jobId === "string" ? parsedUrl.query.jobId : undefined;
+      handleEventStream(req, res, jobId);
+      return;
+    }
+
     // Special handling for file uploads (multipart/form-data)
     if (pathname === "/api/proof-upload" && method === "POST") {
       await handleProofUpload(req, res);
@@ -1884,6 +2537,12 @@ async function handleRequest(
     const result = await route.handler(req, res, route.params, body);
     json(res, result);
   } catch (err) {
+    if (isVersionConflict(err)) {
+      // Stale If-Match: send the stored entity so the client can merge
+      if (err.current) setEntityTag(res, err.current);
+      json(res, { error: err.message, current: err.current }, 409);
+      return;
+    }
     const error = err as { status?: number; message?: string };
     console.error("Error:", error);
     json(
@@ -1918,16 +2577,71 @@ function validateRequiredSecrets(): void {
   }
 }
 
+/**
+ * Unlock encrypted storage with STORAGE_PASSPHRASE before serving requests.
+ * Exits if the passphrase is missing or wrong.
+ */
+function unlockEncryptedStorage(): void {
+  if (!isEncryptionEnabled()) return;
+
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (!passphrase) {
+    console.error(`❌ Storage is encrypted. Set ${PASSPHRASE_ENV} to unlock it.`);
+    process.exit(1);
+  }
+  try {
+    unlockStorage(passphrase);
+    console.log("Encrypted storage unlocked");
+  } catch (err) {
+    console.error("❌ Could not unlock storage:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+/**
+ * Bring the SQLite schema up to date before serving requests.
+ * Exits if the database was migrated by a newer version.
+ */
+function checkDatabaseSchema(): void {
+  if (getStorageBackend() !== "sqlite") return;
+
+  try {
+    const status = getMigrationStatus(getDatabase());
+    console.log(`SQLite schema at version ${status.currentVersion} (latest ${status.latestVersion})`);
+  } catch (err) {
+    console.error("❌ SQLite database check failed:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+/**
+ * Finish unit-of-work commits interrupted by a crash before serving requests.
+ */
+function replayInterruptedCommits(): void {
+  const replayed = replayJournals();
+  if (replayed > 0) {
+    console.log(`Replayed ${replayed} interrupted storage commit(s)`);
+  }
+}
+
 export function startServer(port = PORT) {
   validateRequiredSecrets();
+  unlockEncryptedStorage();
   ensureStorageDirs();
+  replayInterruptedCommits();
+  checkDatabaseSchema();
 
-  const server = http.createServer(handleRequest);
+  // Storage changes made while handling a request are attributed to it in the audit log
+  const server = http.createServer((req, res) => {
+    const source = `${req.method ?? "GET"} ${url.parse(req.url ?? "/").pathname ?? "/"}`;
+    return runAsActor({ actor: "api", source }, () => handleRequest(req, res));
+  });
 
   server.listen(port, () => {
     console.log(`API server running at http://localhost:${port}`);
     console.log("\nAvailable endpoints:");
     console.log("  GET  /api/stats");
+    console.log("  GET  /api/search?q=           - Full-text search");
     console.log("  GET  /api/claims");
     console.log("  GET  /api/documents");
     console.log("  PUT  /api/documents/:id/archive");
@@ -1944,13 +2658,23 @@ export function startServer(port = PORT) {
     console.log("  GET  /api/assignments");
     console.log("  POST /api/assignments/:id/confirm  - Requires illnessId");
     console.log("  GET  /api/assignments/:id/preview-accounts");
-    console.log("  POST /api/process/documents  - Process email/calendar");
+    console.log("  POST /api/process/documents  - Process email/calendar (job)");
     console.log("  POST /api/process/match      - Run auto-matching");
-    console.log("  POST /api/process/scrape     - Scrape claims from Cigna");
+    console.log("  POST /api/process/scrape     - Scrape claims from Cigna (job)");
+    console.log("  GET  /api/jobs");
+    console.log("  GET  /api/jobs/:id");
+    console.log("  POST /api/jobs/:id/cancel");
+    console.log("  GET  /api/events             - Live progress (SSE)");
   });
 
-  // Background full-history scans every 3 hours
-  startDocumentProcessingSchedule();
+  // Jobs still marked running belong to a previous process
+  void recoverInterruptedJobs()
+    .catch((err) => console.error("Failed to recover interrupted jobs:", err))
+    .finally(() => {
+      // Background full-history scans every 3 hours
+      startDocumentProcessingSchedule();
+      startDropFolderWatcher();
+    });
 
   return server;
 }
@@ -0,0 +1,628 @@
+/**
+ * Mock Cigna Envoy Portal
+ *
+ * A small local imitation of the Cigna Envoy "submit a claim" wizard, so
+ * CignaSubmitter can be driven end-to-end without submitting real claims.
+ *
+ * The wizard mirrors the steps, labels and widgets the submitter relies on:
+ *   patient cards, country/claim type/currency comboboxes with listboxes,
+ *   outpatient details, symptom search (with "not on the list"), the
+ *   other-insurer question, an upload dialog with a hidden file input, a
+ *   review page with the portal's "Progress: N%" bar, and a confirmation
+ *   page showing the assigned submission number.
+ *
+ * Submitted claims are recorded in memory for assertions.
+ */
+
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** Paths mirrored from the live portal */
+const NEW_CLAIM_PATH = "/s/new-submitclaim";
+const CLAIMS_PATH = "/s/claiminvoicesummary";
+const SUBMISSIONS_PATH = "/s/api/submissions";
+
+/**
+ * A person offered on the "Who are you claiming for?" step.
+ */
+export interface MockPortalPatient {
+  name: string;
+  /** "Employee" (main insured) or "Member" (dependent) */
+  role: string;
+  /** Date of birth as shown on the card (DD MMM YYYY) */
+  dateOfBirth: string;
+}
+
+/**
+ * Everything the wizard collected for one submitted claim.
+ */
+export interface MockPortalSubmission {
+  submissionNumber: string;
+  patient: string;
+  country: string;
+  claimType: string;
+  stay: string;
+  treatmentTypes: string[];
+  currency: string;
+  cost: string;
+  treatmentDate: string;
+  symptoms: string[];
+  otherInsurer: string;
+  documents: string[];
+  submittedAt: Date;
+}
+
+export interface MockPortalOptions {
+  /** Patients shown on the first step */
+  patients?: MockPortalPatient[];
+  /** Submission number assigned to the first claim (default: 37600001) */
+  firstSubmissionNumber?: number;
+  /** Port to listen on (default: random free port) */
+  port?: number;
+}
+
+export interface MockCignaPortal {
+  /** Base URL to pass as SubmitterConfig.portalBaseUrl */
+  baseUrl: string;
+  /** Claims submitted so far, oldest first */
+  submissions: MockPortalSubmission[];
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+const DEFAULT_PATIENTS: MockPortalPatient[] = [
+  { name: "JOHN SMITH", role: "Employee", dateOfBirth: "01 Jan 1980" },
+  { name: "JANE SMITH", role: "Member", dateOfBirth: "15 Jun 1985" },
+];
+
+/** Lists offered by the wizard's comboboxes and symptom search */
+const PORTAL_LISTS = {
+  countries: ["France", "Germany", "Spain", "United Kingdom", "United States"],
+  claimTypes: ["Medical", "Dental", "Vision"],
+  stays: ["Outpatient", "Inpatient"],
+  treatmentTypes: [
+    "Consultation with medical practitioner and specialist",
+    "Psychotherapy",
+    "Physiotherapy",
+    "Prescribed medication",
+    "Laboratory tests",
+  ],
+  currencies: [
+    "Euro (EUR)",
+    "UK pound sterling (GBP)",
+    "United States dollar (USD)",
+    "Swiss franc (CHF)",
+  ],
+  symptoms: [
+    "Anxiety",
+    "Back pain",
+    "Cough",
+    "Depression",
+    "Fever",
+    "Headache",
+    "Insomnia",
+    "Migraine",
+    "Sore throat",
+  ],
+} as const;
+
+const STYLES = `
+body { font-family: sans-serif; margin: 0; }
+header { padding: 12px 24px; border-bottom: 1px solid #ccc; }
+main { padding: 24px; max-width: 720px; }
+.nds-form-element { margin: 16px 0; }
+.nds-form-element__label { display: block; margin-bottom: 4px; }
+.patient-card { border: 1px solid #999; padding: 12px; margin: 8px 0; cursor: pointer; }
+.combobox { min-width: 240px; text-align: left; }
+[role="listbox"] { border: 1px solid #999; margin: 0; padding: 0; list-style: none; max-height: 200px; overflow: auto; }
+[role="option"] { padding: 6px 8px; cursor: pointer; }
+.chip { display: inline-block; border: 1px solid #999; padding: 2px 8px; margin: 2px; }
+[role="dialog"] { border: 2px solid #000; padding: 16px; margin: 16px 0; background: #fff; }
+.slds-assistive-text { position: absolute; width: 1px; height: 1px; margin: -1px; overflow: hidden; clip: rect(0 0 0 0); }
+.error { color: #b00; }
+`;
+
+/**
+ * Client-side wizard. Step content is built once per step and then mutated in
+ * place, so element handles held by Selenium stay valid within a step.
+ */
+const WIZARD_SCRIPT = String.raw`
+(function () {
+  var config = window.__MOCK_PORTAL__;
+  var LISTS = config.lists;
+  var PROGRESS = { patient: 0, country: 14, claimType: 28, details: 42, symptoms: 57, insurer: 71, upload: 85, review: 100 };
+  var state = {
+    step: "patient",
+    patient: "", country: "", claimType: "", stay: "", treatmentTypes: [],
+    currency: "", cost: "", treatmentDate: "", symptoms: [], otherInsurer: "", documents: []
+  };
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === "text") node.textContent = attrs[key];
+      else if (key === "style") node.setAttribute("style", attrs[key]);
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) { if (child) node.appendChild(child); });
+    return node;
+  }
+
+  function setProgress(value) {
+    var bar = document.getElementById("progress");
+    bar.setAttribute("aria-valuenow", String(value));
+    bar.textContent = "Progress: " + value + "%";
+  }
+
+  function show(step, nodes) {
+    state.step = step;
+    setProgress(PROGRESS[step]);
+    var app = document.getElementById("app");
+    app.innerHTML = "";
+    // Separate blocks with whitespace like server-rendered markup, so
+    // body.textContent doesn't run adjacent texts together
+    nodes.forEach(function (node) {
+      app.appendChild(node);
+      app.appendChild(document.createTextNode("\n"));
+    });
+  }
+
+  // The submitter fires both click() and a synthetic click event, so
+  // handlers must be idempotent and ignore clicks from a previous step.
+  function continueButton(step, isValid, next) {
+    var button = el("button", { type: "button", class: "continue", text: "Continue" });
+    button.disabled = !isValid();
+    button.addEventListener("click", function () {
+      if (state.step !== step || !isValid()) return;
+      next();
+    });
+    return {
+      node: button,
+      refresh: function () { button.disabled = !isValid(); }
+    };
+  }
+
+  function combobox(id, label, options, onSelect) {
+    var labelId = id + "-label";
+    var listId = id + "-listbox";
+    var button = el("button", {
+      type: "button", class: "combobox", role: "combobox",
+      "aria-haspopup": "listbox", "aria-expanded": "false",
+      "aria-controls": listId, "aria-labelledby": labelId, text: "Select an option"
+    });
+    var list = el("ul", { role: "listbox", id: listId, "aria-labelledby": labelId });
+    list.hidden = true;
+    options.forEach(function (option) {
+      var item = el("li", { role: "option", "data-value": option, text: option });
+      item.addEventListener("click", function () {
+        button.textContent = option;
+        button.setAttribute("aria-expanded", "false");
+        list.hidden = true;
+        onSelect(option);
+      });
+      list.appendChild(item);
+    });
+    button.addEventListener("click", function () {
+      list.hidden = !list.hidden;
+      button.setAttribute("aria-expanded", String(!list.hidden));
+    });
+    return el("div", { class: "nds-form-element" }, [
+      el("label", { id: labelId, class: "nds-form-element__label", text: label }),
+      button,
+      list
+    ]);
+  }
+
+  function textField(label, placeholder, onInput) {
+    var input = el("input", { type: "text", placeholder: placeholder });
+    input.addEventListener("input", function () { onInput(input.value.trim()); });
+    input.addEventListener("change", function () { onInput(input.value.trim()); });
+    return el("div", { class: "nds-form-element" }, [
+      el("label", { class: "nds-form-element__label", text: label }),
+      input
+    ]);
+  }
+
+  function patientStep() {
+    var cards = config.patients.map(function (patient) {
+      var card = el("div", { class: "patient-card", style: "cursor: pointer" }, [
+        el("p", { text: patient.role }),
+        el("p", { text: patient.name.toUpperCase() }),
+        el("p", { text: patient.dateOfBirth })
+      ]);
+      card.addEventListener("click", function () {
+        if (state.step !== "patient") return;
+        state.patient = patient.name.toUpperCase();
+        countryStep();
+      });
+      return card;
+    });
+    show("patient", [el("h1", { text: "Who are you claiming for?" })].concat(cards));
+  }
+
+  function countryStep() {
+    var next = continueButton("country", function () { return !!state.country; }, claimTypeStep);
+    show("country", [
+      el("h1", { text: "Where did you receive care?" }),
+      combobox("country", "Select a country/area", LISTS.countries, function (value) {
+        state.country = value;
+        next.refresh();
+      }),
+      next.node
+    ]);
+  }
+
+  function claimTypeStep() {
+    var next = continueButton("claimType", function () { return !!state.claimType; }, detailsStep);
+    show("claimType", [
+      el("h1", { text: "What are you claiming for?" }),
+      combobox("claim-type", "Claim type", LISTS.claimTypes, function (value) {
+        state.claimType = value;
+        next.refresh();
+      }),
+      next.node
+    ]);
+  }
+
+  function detailsStep() {
+    var next = continueButton("details", function () {
+      return state.stay === "Outpatient" &&
+        state.treatmentTypes.length > 0 &&
+        !!state.currency &&
+        parseFloat(state.cost) > 0 &&
+        /^\d{1,2} [A-Za-z]{3} \d{4}$/.test(state.treatmentDate);
+    }, symptomsStep);
+
+    var treatments = LISTS.treatmentTypes.map(function (type) {
+      var checkbox = el("input", { type: "checkbox", value: type });
+      checkbox.addEventListener("change", function () {
+        state.treatmentTypes = state.treatmentTypes.filter(function (t) { return t !== type; });
+        if (checkbox.checked) state.treatmentTypes.push(type);
+        next.refresh();
+      });
+      return el("label", { class: "treatment-option", style: "display: block" }, [
+        checkbox,
+        document.createTextNode(" " + type)
+      ]);
+    });
+
+    // Extra fields appear once the stay type is chosen, as on the live portal
+    var extra = el("div", { id: "outpatient-fields" }, [
+      el("fieldset", {}, [el("legend", { text: "Type of treatment" })].concat(treatments)),
+      combobox("currency", "Currency", LISTS.currencies, function (value) {
+        state.currency = value;
+        next.refresh();
+      }),
+      textField("What was the cost?", "0.00", function (value) {
+        state.cost = value;
+        next.refresh();
+      }),
+      textField("What was the earliest treatment date?", "DD MMM YYYY", function (value) {
+        state.treatmentDate = value;
+        next.refresh();
+      })
+    ]);
+    extra.hidden = true;
+
+    var stayBox = combobox("stay", "Was the treatment outpatient or inpatient?", LISTS.stays, function (value) {
+      state.stay = value;
+      extra.hidden = false;
+      next.refresh();
+    });
+    stayBox.querySelector("[role='combobox']").setAttribute("aria-label", "Outpatient or inpatient");
+
+    show("details", [el("h1", { text: "Claim details" }), stayBox, extra, next.node]);
+  }
+
+  function symptomsStep() {
+    var next = continueButton("symptoms", function () { return state.symptoms.length > 0; }, insurerStep);
+    var chips = el("div", { class: "selected-symptoms" });
+    var results = el("ul", { role: "listbox", "aria-label": "Search results" });
+    var input = el("input", { type: "text", placeholder: "Search symptoms or diagnosis", "aria-label": "Search symptoms" });
+    var freeText = el("div", { class: "free-text" });
+    freeText.hidden = true;
+
+    function addSymptom(name) {
+      if (!name || state.symptoms.indexOf(name) !== -1 || state.symptoms.length >= 3) return;
+      state.symptoms.push(name);
+      chips.appendChild(el("span", { class: "chip", text: name }));
+      input.value = "";
+      results.innerHTML = "";
+      next.refresh();
+    }
+
+    function search() {
+      var query = input.value.trim().toLowerCase();
+      results.innerHTML = "";
+      if (!query) return;
+      LISTS.symptoms
+        .filter(function (name) { return name.toLowerCase().indexOf(query) !== -1; })
+        .forEach(function (name) {
+          var option = el("li", { role: "option", text: name });
+          option.addEventListener("click", function () { addSymptom(name); });
+          results.appendChild(option);
+        });
+      var notListed = el("li", { role: "option", text: "My symptom is not on the list" });
+      notListed.addEventListener("click", function () {
+        results.innerHTML = "";
+        freeText.hidden = false;
+      });
+      results.appendChild(notListed);
+    }
+
+    var description = el("textarea", { "aria-label": "Describe the condition" });
+    var addDescription = el("button", { type: "button", text: "Add" });
+    addDescription.addEventListener("click", function () {
+      addSymptom(description.value.trim());
+      description.value = "";
+      freeText.hidden = true;
+    });
+    freeText.appendChild(el("label", { class: "nds-form-element__label", text: "Please describe the condition" }));
+    freeText.appendChild(description);
+    freeText.appendChild(addDescription);
+
+    var searchButton = el("button", { type: "button", "aria-label": "Search", text: "Search" });
+    searchButton.addEventListener("click", search);
+    input.addEventListener("input", search);
+
+    show("symptoms", [
+      el("h1", { text: "What were the symptoms or diagnosis?" }),
+      el("div", { class: "nds-form-element symptom-search" }, [input, searchButton]),
+      results,
+      freeText,
+      chips,
+      next.node
+    ]);
+  }
+
+  function insurerStep() {
+    var next = continueButton("insurer", function () { return !!state.otherInsurer; }, uploadStep);
+    var yes = el("button", { type: "button", text: "Yes" });
+    var no = el("button", { type: "button", text: "No" });
+    var note = el("p", { text: "Please include the other insurer's statement with your documents." });
+    note.hidden = true;
+    yes.addEventListener("click", function () {
+      if (state.step !== "insurer") return;
+      state.otherInsurer = "Yes";
+      note.hidden = false;
+      next.refresh();
+    });
+    no.addEventListener("click", function () {
+      if (state.step !== "insurer") return;
+      state.otherInsurer = "No";
+      uploadStep();
+    });
+    show("insurer", [
+      el("h1", { text: "Could another insurer be liable for all or part of this claim?" }),
+      yes, no, note, next.node
+    ]);
+  }
+
+  function uploadStep() {
+    var next = continueButton("upload", function () { return state.documents.length > 0; }, reviewStep);
+    var files = el("div", { class: "uploaded-files" });
+    var dialogHost = el("div");
+    var openDialog = el("button", { type: "button", text: "Upload Files" });
+
+    openDialog.addEventListener("click", function () {
+      if (dialogHost.firstChild) return;
+      var input = el("input", { type: "file", class: "slds-assistive-text", accept: ".bmp,.pdf,.png,.jpg,.jpeg,.gif", multiple: "" });
+      var chosen = el("ul");
+      var done = el("button", { type: "button", text: "Done" });
+      input.addEventListener("change", function () {
+        Array.prototype.forEach.call(input.files, function (file) {
+          if (!/\.(bmp|pdf|png|jpe?g|gif)$/i.test(file.name)) {
+            chosen.appendChild(el("li", { class: "error", text: file.name + ": file type not allowed" }));
+            return;
+          }
+          if (state.documents.indexOf(file.name) !== -1) return;
+          state.documents.push(file.name);
+          chosen.appendChild(el("li", { text: file.name }));
+          files.appendChild(el("article", { class: "uploaded-file", "data-file-name": file.name, text: file.name }));
+        });
+        next.refresh();
+      });
+      done.addEventListener("click", function () { dialogHost.innerHTML = ""; });
+      dialogHost.appendChild(el("div", { role: "dialog", "aria-label": "Upload files" }, [
+        el("h2", { text: "Add files" }),
+        el("label", {}, [input, el("span", { text: "Choose files" })]),
+        chosen,
+        done
+      ]));
+    });
+
+    show("upload", [
+      el("h1", { text: "Please upload all documents related to this claim" }),
+      el("p", { text: "Allowed: .bmp .pdf .png .jpg .jpeg .gif (max 6 MB each)" }),
+      openDialog, dialogHost, files, next.node
+    ]);
+  }
+
+  function reviewStep() {
+    var rows = [
+      ["Patient", state.patient],
+      ["Country/area of treatment", state.country],
+      ["Claim type", state.claimType],
+      ["Outpatient or inpatient", state.stay],
+      ["Type of treatment", state.treatmentTypes.join(", ")],
+      ["Currency", state.currency],
+      ["Cost", state.cost],
+      ["Earliest treatment date", state.treatmentDate],
+      ["Symptoms or diagnosis", state.symptoms.join(", ")],
+      ["Another insurer liable", state.otherInsurer],
+      ["Documents", state.documents.join(", ")]
+    ];
+    var summary = el("dl", {}, []);
+    rows.forEach(function (row) {
+      summary.appendChild(el("dt", { text: row[0] }));
+      summary.appendChild(el("dd", { text: row[1] }));
+    });
+
+    var error = el("p", { class: "error" });
+    var submit = el("button", { type: "button", text: "Submit" });
+    var submitting = false;
+    submit.addEventListener("click", function () {
+      if (submitting) return;
+      submitting = true;
+      submit.disabled = true;
+      fetch(config.submissionsPath, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          patient: state.patient, country: state.country, claimType: state.claimType,
+          stay: state.stay, treatmentTypes: state.treatmentTypes, currency: state.currency,
+          cost: state.cost, treatmentDate: state.treatmentDate, symptoms: state.symptoms,
+          otherInsurer: state.otherInsurer, documents: state.documents
+        })
+      })
+        .then(function (res) { return res.json(); })
+        .then(function (data) { confirmationStep(data.submissionNumber); })
+        .catch(function (err) {
+          submitting = false;
+          submit.disabled = false;
+          error.textContent = "Something went wrong: " + err;
+        });
+    });
+
+    show("review", [el("h1", { text: "Review your claim" }), summary, error, submit]);
+  }
+
+  function confirmationStep(submissionNumber) {
+    show("review", [
+      el("h1", { text: "Thank you" }),
+      el("p", { text: "Your claim has been sent to Cigna." }),
+      el("p", { class: "confirmation", text: "Submission number: " + submissionNumber }),
+      el("a", { href: config.claimsPath, text: "View my claims" })
+    ]);
+    document.getElementById("progress").remove();
+  }
+
+  document.addEventListener("DOMContentLoaded", patientStep);
+})();
+`;
+
+/**
+ * Render the wizard page. Config is embedded as JSON with "<" escaped so
+ * patient names cannot break out of the script element.
+ */
+function renderWizardPage(patients: MockPortalPatient[]): string {
+  const config = JSON.stringify({
+    patients,
+    lists: PORTAL_LISTS,
+    submissionsPath: SUBMISSIONS_PATH,
+    claimsPath: CLAIMS_PATH,
+  }).replace(/</g, "\\u003c");
+
+  // Scripts live in <head> so they don't show up in document.body.textContent
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Submit a claim | Cigna Envoy (mock)</title>
+  <style>${STYLES}</style>
+  <script>window.__MOCK_PORTAL__ = ${config};</script>
+  <script>${WIZARD_SCRIPT}</script>
+</head>
+<body>
+  <header><div id="progress" role="progressbar" aria-valuemin="0" aria-valuemax="100"></div></header>
+  <main id="app"></main>
+</body>
+</html>`;
+}
+
+/**
+ * Read and parse a JSON request body.
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+const asString = (value: unknown): string => (typeof value === "string" ? value : "");
+const asStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+
+/**
+ * Start a local mock of the Cigna Envoy claim submission wizard.
+ */
+export async function startMockCignaPortal(options: MockPortalOptions = {}): Promise<MockCignaPortal> {
+  const patients = options.patients ?? DEFAULT_PATIENTS;
+  let nextSubmissionNumber = options.firstSubmissionNumber ?? 37600001;
+  const submissions: MockPortalSubmission[] = [];
+
+  const sendHtml = (res: http.ServerResponse, status: number, html: string) => {
+    res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(html);
+  };
+
+  const sendJson = (res: http.ServerResponse, status: number, data: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(data));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (req.method === "GET" && pathname === NEW_CLAIM_PATH) {
+      sendHtml(res, 200, renderWizardPage(patients));
+      return;
+    }
+
+    if (req.method === "POST" && pathname === SUBMISSIONS_PATH) {
+      try {
+        const body = await readJsonBody(req);
+        const submission: MockPortalSubmission = {
+          submissionNumber: String(nextSubmissionNumber++),
+          patient: asString(body.patient),
+          country: asString(body.country),
+          claimType: asString(body.claimType),
+          stay: asString(body.stay),
+          treatmentTypes: asStringArray(body.treatmentTypes),
+          currency: asString(body.currency),
+          cost: asString(body.cost),
+          treatmentDate: asString(body.treatmentDate),
+          symptoms: asStringArray(body.symptoms),
+          otherInsurer: asString(body.otherInsurer),
+          documents: asStringArray(body.documents),
+          submittedAt: new Date(),
+        };
+        submissions.push(submission);
+        sendJson(res, 201, { submissionNumber: submission.submissionNumber });
+      } catch {
+        sendJson(res, 400, { error: "Invalid JSON body" });
+      }
+      return;
+    }
+
+    if (req.method === "GET" && pathname === CLAIMS_PATH) {
+      sendHtml(res, 200, "<html><body><h1>Claims</h1></body></html>");
+      return;
+    }
+
+    sendHtml(res, 404, "<html><body>Not found</body></html>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${address.port}`,
+    submissions,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
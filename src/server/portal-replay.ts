@@ -0,0 +1,158 @@
+/**
+ * Cigna Portal Replay Server
+ *
+ * Serves saved Cigna Envoy pages (claim list + claim details) from a fixtures
+ * directory so CignaScraper can run offline against known HTML.
+ *
+ * Fixture directory layout:
+ *   manifest.json   { "claimsList": "claims.html", "claimDetails": ["claim-1.html", ...] }
+ *   *.html          Captured page HTML (e.g. page.html from data/debug artifacts)
+ *
+ * Captured pages are served with their scripts removed (the DOM is already
+ * rendered). A small script is injected into the claim list so opening the
+ * Nth claim card navigates to the Nth detail page, as the real SPA does.
+ */
+
+import * as http from "node:http";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AddressInfo } from "node:net";
+
+/** Paths mirrored from the live portal */
+const CLAIMS_PATH = "/s/claiminvoicesummary";
+const LOGIN_PATH = "/CustomLogin";
+const DETAILS_PREFIX = "/s/claim-details/";
+
+/**
+ * Fixture manifest describing which saved page backs each portal view.
+ */
+export interface PortalReplayManifest {
+  /** Claim list page HTML file */
+  claimsList: string;
+  /** Claim detail page HTML files, in card order */
+  claimDetails: string[];
+}
+
+export interface PortalReplayServer {
+  /** Base URL to pass as ScraperConfig.portalBaseUrl */
+  baseUrl: string;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+/**
+ * Remove <script> elements so captured pages stay static.
+ */
+export function stripScripts(html: string): string {
+  return html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "");
+}
+
+/**
+ * Script that opens the Nth claim detail page when the Nth card is activated.
+ * Uses the same card selector as CignaScraper.viewClaimDetailsByIndex.
+ */
+const CARD_NAVIGATION_SCRIPT = `
+<script>
+(function () {
+  var cards = Array.prototype.filter.call(
+    document.querySelectorAll("div[data-style-id='state0element0']"),
+    function (el) { return (el.getAttribute("style") || "").indexOf("box-shadow") !== -1; }
+  );
+  cards.forEach(function (card, index) {
+    var open = function () { window.location.href = "${DETAILS_PREFIX}" + index; };
+    card.addEventListener("click", open);
+    card.addEventListener("keydown", function (event) {
+      if (event.key === "Enter") open();
+    });
+  });
+})();
+</script>`;
+
+/**
+ * Inject the card navigation script before </body> (or at the end).
+ */
+export function injectCardNavigation(html: string): string {
+  const index = html.toLowerCase().lastIndexOf("</body>");
+  if (index === -1) return html + CARD_NAVIGATION_SCRIPT;
+  return html.slice(0, index) + CARD_NAVIGATION_SCRIPT + html.slice(index);
+}
+
+/**
+ * Load and validate a fixture manifest.
+ */
+export function loadReplayManifest(fixturesDir: string): PortalReplayManifest {
+  const manifestPath = path.join(fixturesDir, "manifest.json");
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Replay manifest not found: ${manifestPath}`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as Partial<PortalReplayManifest>;
+  if (typeof manifest.claimsList !== "string" || !Array.isArray(manifest.claimDetails)) {
+    throw new Error(`Invalid replay manifest: ${manifestPath} (needs claimsList and claimDetails)`);
+  }
+
+  for (const file of [manifest.claimsList, ...manifest.claimDetails]) {
+    if (!fs.existsSync(path.join(fixturesDir, file))) {
+      throw new Error(`Replay fixture not found: ${file}`);
+    }
+  }
+
+  return { claimsList: manifest.claimsList, claimDetails: manifest.claimDetails };
+}
+
+/**
+ * Start a local server replaying the fixtures in a directory.
+ *
+ * @param fixturesDir - Directory containing manifest.json and HTML files
+ * @param port - Port to listen on (default: random free port)
+ */
+export async function startPortalReplayServer(
+  fixturesDir: string,
+  port = 0
+): Promise<PortalReplayServer> {
+  const manifest = loadReplayManifest(fixturesDir);
+
+  const readPage = (file: string) =>
+    stripScripts(fs.readFileSync(path.join(fixturesDir, file), "utf-8"));
+
+  const send = (res: http.ServerResponse, status: number, html: string) => {
+    res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(html);
+  };
+
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (pathname === CLAIMS_PATH) {
+      send(res, 200, injectCardNavigation(readPage(manifest.claimsList)));
+      return;
+    }
+
+    if (pathname.startsWith(DETAILS_PREFIX)) {
+      const index = Number(pathname.slice(DETAILS_PREFIX.length));
+      const file = Number.isInteger(index) ? manifest.claimDetails[index] : undefined;
+      if (file) {
+        send(res, 200, readPage(file));
+        return;
+      }
+    }
+
+    if (pathname === LOGIN_PATH) {
+      send(res, 200, "<html><body><main>Replay mode: no login required</main></body></html>");
+      return;
+    }
+
+    send(res, 404, "<html><body>Not found</body></html>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${address.port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
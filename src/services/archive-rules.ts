@@ -1,59 +1,227 @@
 /**
  * Archive rule helpers.
  *
- * Match email/attachment metadata against archive rules and apply them.
+ * Evaluates archive rule conditions against documents and applies the
+ * rule actions. Ingestion and applyArchiveRuleToExistingDocuments share
+ * this engine: matchesArchiveRule decides, applyArchiveRuleActions acts.
  */
 
-import type { ArchiveRule } from "../types/archive-rule.js";
-import type { MedicalDocument } from "../types/medical-document.js";
+import type {
+  ArchiveRule,
+  ArchiveRuleAction,
+  ArchiveRuleActionKind,
+  ArchiveRuleCondition,
+  ArchiveRuleTextField,
+} from "../types/archive-rule.js";
+import {
+  ARCHIVE_RULE_ACTION_KINDS,
+  ARCHIVE_RULE_TEXT_FIELDS,
+  ARCHIVE_RULE_TEXT_OPERATORS,
+} from "../types/archive-rule.js";
+import {
+  DOCUMENT_CLASSIFICATIONS,
+  type DocumentClassification,
+  type MedicalDocument,
+} from "../types/medical-document.js";
 import { archiveRulesStorage } from "../storage/archive-rules.js";
-import { documentsStorage, updateMedicalDocument } from "../storage/documents.js";
+import {
+  documentsStorage,
+  setClassificationOverride,
+  updateMedicalDocument,
+} from "../storage/documents.js";
+import { getCurrentActor, runAsActor } from "../storage/audit-log.js";
+import { getPrimaryPaymentSignal } from "./payment-signal.js";
+import { promoteDocumentToDraftClaim } from "./draft-claim-promoter.js";
 
+/**
+ * What a rule is matched against. Fields that are not known yet (e.g. OCR
+ * text before OCR) are left out.
+ */
 export interface ArchiveRuleMatchInput {
   fromAddress?: string;
+  toAddress?: string;
   subject?: string;
   attachmentName?: string;
+  account?: string;
+  ocrText?: string;
+  classification?: DocumentClassification;
+  amount?: { value: number; currency: string };
+  date?: Date;
+  calendarSummary?: string;
+  calendarDescription?: string;
+  calendarLocation?: string;
+  calendarOrganizer?: string;
+  calendarAttendees?: string;
+}
+
+/**
+ * Result of applying a rule to a document.
+ */
+export interface ArchiveRuleOutcome {
+  document: MedicalDocument;
+  /** Actions that changed something */
+  applied: ArchiveRuleActionKind[];
 }
 
+/** The parts of a rule that decide what it matches */
+type ArchiveRuleCriteria = Pick<
+  ArchiveRule,
+  "fromContains" | "subjectContains" | "attachmentNameContains" | "conditions"
+>;
+
+/** Text fields only known once a document has been OCR'd */
+const CONTENT_TEXT_FIELDS = new Set<ArchiveRuleTextField>(["ocrText"]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 function normalize(value?: string): string {
   return (value ?? "").toLowerCase().trim();
 }
 
-function hasCriteria(rule: ArchiveRule): boolean {
-  return (
-    !!rule.fromContains ||
-    !!rule.subjectContains ||
-    !!rule.attachmentNameContains
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+}
+
+/**
+ * The rule's conditions, with the legacy "contains" fields as text conditions.
+ */
+function ruleConditions(rule: ArchiveRuleCriteria): ArchiveRuleCondition[] {
+  const legacy: Array<[ArchiveRuleTextField, string | undefined]> = [
+    ["fromAddress", rule.fromContains],
+    ["subject", rule.subjectContains],
+    ["attachmentName", rule.attachmentNameContains],
+  ];
+  const conditions: ArchiveRuleCondition[] = legacy
+    .filter((entry): entry is [ArchiveRuleTextField, string] => !!entry[1])
+    .map(([field, value]) => ({ kind: "text", field, operator: "contains", value }));
+  if (rule.conditions) conditions.push(rule.conditions);
+  return conditions;
+}
+
+function countLeaves(condition: ArchiveRuleCondition): number {
+  return condition.kind === "group"
+    ? condition.conditions.reduce((sum, child) => sum + countLeaves(child), 0)
+    : 1;
+}
+
+function hasCriteria(rule: ArchiveRuleCriteria): boolean {
+  return ruleConditions(rule).some((condition) => countLeaves(condition) > 0);
+}
+
+/**
+ * Actions of a rule in application order; rules without actions archive.
+ */
+export function getArchiveRuleActions(rule: ArchiveRule): ArchiveRuleAction[] {
+  const actions = rule.actions && rule.actions.length > 0 ? rule.actions : [{ kind: "archive" as const }];
+  return [...actions].sort(
+    (a, b) => ARCHIVE_RULE_ACTION_KINDS.indexOf(a.kind) - ARCHIVE_RULE_ACTION_KINDS.indexOf(b.kind)
   );
 }
 
+function matchesCondition(condition: ArchiveRuleCondition, input: ArchiveRuleMatchInput): boolean {
+  switch (condition.kind) {
+    case "group":
+      return condition.match === "all"
+        ? condition.conditions.every((child) => matchesCondition(child, input))
+        : condition.conditions.some((child) => matchesCondition(child, input));
+    case "text": {
+      const text = normalize(input[condition.field]);
+      if (condition.operator === "regex") {
+        return compileRegex(condition.value)?.test(input[condition.field] ?? "") ?? false;
+      }
+      const value = normalize(condition.value);
+      return condition.operator === "equals" ? text === value : text.includes(value);
+    }
+    case "classification":
+      return !!input.classification && condition.classifications.includes(input.classification);
+    case "amount": {
+      const amount = input.amount;
+      if (!amount) return false;
+      if (condition.currency && condition.currency.toUpperCase() !== amount.currency.toUpperCase()) return false;
+      if (condition.min !== undefined && amount.value < condition.min) return false;
+      if (condition.max !== undefined && amount.value > condition.max) return false;
+      return true;
+    }
+    case "date": {
+      if (!input.date) return false;
+      const day = input.date.toISOString().slice(0, 10);
+      if (condition.after && day < condition.after) return false;
+      if (condition.before && day >= condition.before) return false;
+      return true;
+    }
+  }
+}
+
+/**
+ * Check if an enabled rule with at least one condition matches.
+ */
 export function matchesArchiveRule(
   rule: ArchiveRule,
   input: ArchiveRuleMatchInput
 ): boolean {
   if (!rule.enabled || !hasCriteria(rule)) return false;
+  return ruleConditions(rule).every((condition) => matchesCondition(condition, input));
+}
 
-  const from = normalize(input.fromAddress);
-  const subject = normalize(input.subject);
-  const attachment = normalize(input.attachmentName);
-
-  if (rule.fromContains && !from.includes(normalize(rule.fromContains))) {
-    return false;
-  }
-  if (
-    rule.subjectContains &&
-    !subject.includes(normalize(rule.subjectContains))
-  ) {
-    return false;
-  }
-  if (
-    rule.attachmentNameContains &&
-    !attachment.includes(normalize(rule.attachmentNameContains))
-  ) {
-    return false;
+function usesContent(condition: ArchiveRuleCondition): boolean {
+  switch (condition.kind) {
+    case "group":
+      return condition.conditions.some(usesContent);
+    case "text":
+      return CONTENT_TEXT_FIELDS.has(condition.field);
+    default:
+      return true;
   }
+}
 
-  return true;
+/**
+ * Check if a rule can be decided from email/file metadata alone,
+ * i.e. before a document is OCR'd and classified.
+ */
+export function isMetadataRule(rule: ArchiveRule): boolean {
+  return !ruleConditions(rule).some(usesContent);
+}
+
+function joinParticipants(names: Array<[name: string | undefined, email: string | undefined]>): string {
+  return names.map((parts) => parts.filter(Boolean).join(" ")).join(", ");
+}
+
+/**
+ * The fields of a stored document that rules match against.
+ */
+export function archiveRuleInputFromDocument(document: MedicalDocument): ArchiveRuleMatchInput {
+  const signal = getPrimaryPaymentSignal(document);
+  return {
+    ...(document.fromAddress !== undefined && { fromAddress: document.fromAddress }),
+    ...(document.toAddress !== undefined && { toAddress: document.toAddress }),
+    ...(document.subject !== undefined && { subject: document.subject }),
+    ...(document.filename !== undefined && { attachmentName: document.filename }),
+    ...(document.account !== undefined && { account: document.account }),
+    ...(document.ocrText !== undefined && { ocrText: document.ocrText }),
+    classification: document.classification,
+    ...(signal && { amount: { value: signal.amount, currency: signal.currency } }),
+    ...(document.date && { date: new Date(document.date) }),
+    ...(document.calendarSummary !== undefined && { calendarSummary: document.calendarSummary }),
+    ...(document.calendarDescription !== undefined && { calendarDescription: document.calendarDescription }),
+    ...(document.calendarLocation !== undefined && { calendarLocation: document.calendarLocation }),
+    ...(document.calendarOrganizer && {
+      calendarOrganizer: joinParticipants([
+        [document.calendarOrganizer.displayName, document.calendarOrganizer.email],
+      ]),
+    }),
+    ...(document.calendarAttendees && {
+      calendarAttendees: joinParticipants(document.calendarAttendees.map((a) => [a.name, a.email])),
+    }),
+  };
 }
 
 export function buildArchiveReason(rule: ArchiveRule): string {
@@ -77,16 +245,91 @@ export function applyArchiveRuleToDocument(
   };
 }
 
+/**
+ * Apply a rule's actions to a document it matches. Actions that would not
+ * change anything are skipped: a user's classification override is kept,
+ * and archived documents are not promoted. Changes are audited as the rule.
+ */
+export function applyArchiveRuleActions(
+  document: MedicalDocument,
+  rule: ArchiveRule
+): Promise<ArchiveRuleOutcome> {
+  const { source } = getCurrentActor();
+  return runAsActor({ actor: `archive-rule:${rule.id}`, ...(source && { source }) }, () =>
+    applyActions(document, rule)
+  );
+}
+
+async function applyActions(document: MedicalDocument, rule: ArchiveRule): Promise<ArchiveRuleOutcome> {
+  let current = document;
+  const applied: ArchiveRuleActionKind[] = [];
+  const save = async (updates: Partial<MedicalDocument>, kind: ArchiveRuleActionKind) => {
+    current = (await updateMedicalDocument(current.id, updates)) ?? current;
+    applied.push(kind);
+  };
+
+  for (const action of getArchiveRuleActions(rule)) {
+    switch (action.kind) {
+      case "set_classification":
+        if (!current.classificationOverride && current.classification !== action.classification) {
+          current =
+            (await setClassificationOverride(current.id, {
+              classification: action.classification,
+              note: buildArchiveReason(rule),
+            })) ?? current;
+          applied.push(action.kind);
+        }
+        break;
+      case "tag":
+        if (!current.tags?.includes(action.tag)) {
+          await save({ tags: [...(current.tags ?? []), action.tag] }, action.kind);
+        }
+        break;
+      case "link_illness":
+        if (current.illnessId !== action.illnessId) {
+          await save({ illnessId: action.illnessId }, action.kind);
+        }
+        break;
+      case "archive":
+        if (!current.archivedAt) {
+          await save(
+            { archivedAt: new Date(), archivedByRuleId: rule.id, archivedReason: buildArchiveReason(rule) },
+            action.kind
+          );
+        }
+        break;
+      case "promote_to_draft":
+        if (!current.archivedAt && !current.duplicateOf && !current.duplicateCandidate) {
+          const { created, expanded } = await promoteDocumentToDraftClaim(current);
+          if (created || expanded) applied.push(action.kind);
+        }
+        break;
+    }
+  }
+
+  return { document: current, applied };
+}
+
+async function getEnabledRules(): Promise<ArchiveRule[]> {
+  const rules = await archiveRulesStorage.getAll();
+  return rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * First rule that archives and matches on metadata alone. Ingestion uses
+ * it to archive before OCR; content rules run later via applyArchiveRules.
+ */
 export async function findMatchingArchiveRule(
   input: ArchiveRuleMatchInput
 ): Promise<ArchiveRule | null> {
-  const rules = await archiveRulesStorage.getAll();
-  const sorted = [...rules].sort(
-    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
-  );
-
-  for (const rule of sorted) {
-    if (matchesArchiveRule(rule, input)) {
+  for (const rule of await getEnabledRules()) {
+    if (
+      isMetadataRule(rule) &&
+      getArchiveRuleActions(rule).some((action) => action.kind === "archive") &&
+      matchesArchiveRule(rule, input)
+    ) {
       return rule;
     }
   }
@@ -94,6 +337,20 @@ export async function findMatchingArchiveRule(
   return null;
 }
 
+/**
+ * Evaluate all enabled rules, oldest first, against an ingested document
+ * and apply the actions of each match. Stops once the document is archived.
+ */
+export async function applyArchiveRules(document: MedicalDocument): Promise<MedicalDocument> {
+  let current = document;
+  for (const rule of await getEnabledRules()) {
+    if (current.archivedAt) break;
+    if (!matchesArchiveRule(rule, archiveRuleInputFromDocument(current))) continue;
+    current = (await applyArchiveRuleActions(current, rule)).document;
+  }
+  return current;
+}
+
 export async function applyArchiveRuleToExistingDocuments(
   rule: ArchiveRule
 ): Promise<MedicalDocument[]> {
@@ -102,22 +359,115 @@ export async function applyArchiveRuleToExistingDocuments(
 
   for (const doc of docs) {
     if (doc.archivedAt) continue;
-    const matches = matchesArchiveRule(rule, {
-      fromAddress: doc.fromAddress,
-      subject: doc.subject,
-      attachmentName: doc.filename,
-    });
-    if (!matches) continue;
-    const archived = applyArchiveRuleToDocument(doc, rule);
-    const saved = await updateMedicalDocument(doc.id, {
-      archivedAt: archived.archivedAt,
-      archivedByRuleId: archived.archivedByRuleId,
-      archivedReason: archived.archivedReason,
-    });
-    if (saved) {
-      updatedDocs.push(saved);
+    if (!matchesArchiveRule(rule, archiveRuleInputFromDocument(doc))) continue;
+    const { document, applied } = await applyArchiveRuleActions(doc, rule);
+    if (applied.length > 0) {
+      updatedDocs.push(document);
     }
   }
 
   return updatedDocs;
 }
+
+function validateCondition(condition: ArchiveRuleCondition, path: string): void {
+  switch (condition?.kind) {
+    case "group":
+      if (condition.match !== "all" && condition.match !== "any") {
+        throw new Error(`${path}: match must be "all" or "any"`);
+      }
+      if (!Array.isArray(condition.conditions)) {
+        throw new Error(`${path}: conditions must be an array`);
+      }
+      condition.conditions.forEach((child, index) => validateCondition(child, `${path}.conditions[${index}]`));
+      return;
+    case "text":
+      if (!ARCHIVE_RULE_TEXT_FIELDS.includes(condition.field)) {
+        throw new Error(`${path}: unknown field "${condition.field}"`);
+      }
+      if (!ARCHIVE_RULE_TEXT_OPERATORS.includes(condition.operator)) {
+        throw new Error(`${path}: unknown operator "${condition.operator}"`);
+      }
+      if (typeof condition.value !== "string" || !condition.value.trim()) {
+        throw new Error(`${path}: value is required`);
+      }
+      if (condition.operator === "regex" && !compileRegex(condition.value)) {
+        throw new Error(`${path}: invalid regular expression "${condition.value}"`);
+      }
+      return;
+    case "classification":
+      if (
+        !Array.isArray(condition.classifications) ||
+        condition.classifications.length === 0 ||
+        !condition.classifications.every((value) => DOCUMENT_CLASSIFICATIONS.includes(value))
+      ) {
+        throw new Error(`${path}: classifications must list known classifications`);
+      }
+      return;
+    case "amount":
+      if (condition.min === undefined && condition.max === undefined) {
+        throw new Error(`${path}: min or max is required`);
+      }
+      if (
+        [condition.min, condition.max].some((value) => value !== undefined && !Number.isFinite(value)) ||
+        (condition.min !== undefined && condition.max !== undefined && condition.min > condition.max)
+      ) {
+        throw new Error(`${path}: invalid amount range`);
+      }
+      return;
+    case "date":
+      if (!condition.after && !condition.before) {
+        throw new Error(`${path}: after or before is required`);
+      }
+      if ([condition.after, condition.before].some((value) => value !== undefined && !DATE_PATTERN.test(value))) {
+        throw new Error(`${path}: dates must be YYYY-MM-DD`);
+      }
+      return;
+    default:
+      throw new Error(`${path}: unknown condition kind`);
+  }
+}
+
+function validateAction(action: ArchiveRuleAction, path: string): void {
+  switch (action?.kind) {
+    case "archive":
+    case "promote_to_draft":
+      return;
+    case "set_classification":
+      if (!DOCUMENT_CLASSIFICATIONS.includes(action.classification)) {
+        throw new Error(`${path}: unknown classification "${action.classification}"`);
+      }
+      return;
+    case "tag":
+      if (typeof action.tag !== "string" || !action.tag.trim()) {
+        throw new Error(`${path}: tag is required`);
+      }
+      return;
+    case "link_illness":
+      if (typeof action.illnessId !== "string" || !action.illnessId) {
+        throw new Error(`${path}: illnessId is required`);
+      }
+      return;
+    default:
+      throw new Error(`${path}: unknown action kind`);
+  }
+}
+
+/**
+ * Check a rule's conditions and actions. Throws with the offending path
+ * (e.g. "conditions.conditions[1]: invalid regular expression").
+ */
+export function validateArchiveRule(rule: ArchiveRuleCriteria & Pick<ArchiveRule, "actions">): void {
+  if (rule.conditions) {
+    if (rule.conditions.kind !== "group") {
+      throw new Error('conditions must be a group ({ kind: "group", match, conditions })');
+    }
+    validateCondition(rule.conditions, "conditions");
+  }
+  if (rule.actions !== undefined) {
+    if (!Array.isArray(rule.actions)) throw new Error("actions must be an array");
+    rule.actions.forEach((action, index) => validateAction(action, `actions[${index}]`));
+  }
+  if (!hasCriteria(rule)) {
+    throw new Error("At least one match condition is required");
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Backup and Restore
+ *
+ * Writes every stored entity, the attachment files documents point to and
+ * the generated PDFs into one .tar.gz bundle. The bundle opens with a
+ * manifest listing each entry with its SHA-256 checksum.
+ *
+ * Entities are read and written through the storage layer, so a bundle made
+ * with the JSON backend restores into SQLite and the other way round.
+ *
+ * Files are stored content-addressed (`files/<sha256>`). On restore, an
+ * attachment whose original path still holds the same content is reused;
+ * otherwise it is written under `data/restored-attachments/` and the
+ * documents pointing to it are updated.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { dateReviver, type StorageOperations } from "../storage/base.js";
+import { getStorageBackend, type StorageBackend } from "../storage/repository.js";
+import { patientsStorage } from "../storage/patients.js";
+import { illnessesStorage } from "../storage/illnesses.js";
+import { documentsStorage } from "../storage/documents.js";
+import { claimsStorage } from "../storage/claims.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { submittedClaimsStorage } from "../storage/submitted-claims.js";
+import { assignmentsStorage } from "../storage/assignments.js";
+import { archiveRulesStorage } from "../storage/archive-rules.js";
+import { attachmentProcessingStorage } from "../storage/attachment-processing.js";
+import { fxRatesStorage } from "../storage/fx-rates.js";
+import { classifierModelsStorage } from "../storage/classifier-models.js";
+import { auditLogStorage, runAsActor } from "../storage/audit-log.js";
+import { readStoredFile, writeStoredFile } from "../storage/encryption.js";
+import { createTarGzWriter, readTarGz } from "./tar-archive.js";
+import type { MedicalDocument } from "../types/medical-document.js";
+
+/** Identifies a backup bundle */
+export const BACKUP_FORMAT = "cignaenvoy-tracker-backup";
+
+/** Bumped when the bundle layout changes; restore rejects newer bundles */
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_ENTRY = "manifest.json";
+
+/** Default location for bundles written by the API and CLI */
+export const BACKUPS_DIR = path.join(process.cwd(), "data", "backups");
+
+/** Doctor-notes PDFs rendered for submissions */
+const GENERATED_DIR = path.join(process.cwd(), "data", "generated");
+
+/** Where attachments are restored when their original path is unusable */
+const RESTORED_ATTACHMENTS_DIR = path.join(process.cwd(), "data", "restored-attachments");
+
+/**
+ * Storages included in a bundle, in restore order.
+ * Job history is left out: it only describes runs on the original machine.
+ */
+const ENTITY_SETS: Array<{ name: string; storage: StorageOperations<{ id: string }> }> = [
+  { name: "patients", storage: patientsStorage },
+  { name: "illnesses", storage: illnessesStorage },
+  { name: "documents", storage: documentsStorage },
+  { name: "attachment-processing", storage: attachmentProcessingStorage },
+  { name: "claims", storage: claimsStorage },
+  { name: "draft-claims", storage: draftClaimsStorage },
+  { name: "submitted-claims", storage: submittedClaimsStorage },
+  { name: "assignments", storage: assignmentsStorage },
+  { name: "archive-rules", storage: archiveRulesStorage },
+  { name: "fx-rates", storage: fxRatesStorage },
+  { name: "classifier-models", storage: classifierModelsStorage },
+  { name: "audit-log", storage: auditLogStorage },
+];
+
+/**
+ * One entity storage in the bundle.
+ */
+export interface BackupEntitySet {
+  name: string;
+  /** Archive entry holding a JSON array of the entities */
+  path: string;
+  count: number;
+  sha256: string;
+}
+
+/**
+ * One file in the bundle.
+ */
+export interface BackupFile {
+  /** Archive entry, `files/<sha256>` */
+  path: string;
+  kind: "attachment" | "generated";
+  /** Path on the machine the backup was made on */
+  originalPath: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * First entry of every bundle.
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  storageBackend: StorageBackend;
+  entities: BackupEntitySet[];
+  files: BackupFile[];
+  /** Attachment paths referenced by documents but missing when the backup ran */
+  missingFiles: string[];
+}
+
+export interface BackupResult {
+  path: string;
+  manifest: BackupManifest;
+}
+
+export interface RestoreResult {
+  manifest: BackupManifest;
+  /** Entities written per storage */
+  entities: Record<string, number>;
+  /** Audit entries already present and left untouched */
+  skippedAuditEntries: number;
+  /** Files written to disk */
+  filesRestored: number;
+  /** Attachments whose original path already held the same content */
+  filesReused: number;
+  /** Documents whose attachment path was changed */
+  remappedDocuments: number;
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function backupFileName(date: Date): string {
+  return `cigna-tracker-backup-${date.toISOString().replace(/[:.]/g, "-")}.tar.gz`;
+}
+
+/**
+ * Files to include: every attachment a document points to, plus generated PDFs.
+ */
+function collectFiles(
+  documents: MedicalDocument[]
+): { files: Array<{ kind: BackupFile["kind"]; originalPath: string }>; missing: string[] } {
+  const files: Array<{ kind: BackupFile["kind"]; originalPath: string }> = [];
+  const missing: string[] = [];
+  const seen = new Set<string>();
+
+  for (const document of documents) {
+    const filePath = document.attachmentPath;
+    if (!filePath || seen.has(filePath)) continue;
+    seen.add(filePath);
+    if (fs.existsSync(filePath)) {
+      files.push({ kind: "attachment", originalPath: filePath });
+    } else {
+      missing.push(filePath);
+    }
+  }
+
+  if (fs.existsSync(GENERATED_DIR)) {
+    for (const name of fs.readdirSync(GENERATED_DIR).sort()) {
+      const filePath = path.join(GENERATED_DIR, name);
+      if (fs.statSync(filePath).isFile()) {
+        files.push({ kind: "generated", originalPath: path.relative(process.cwd(), filePath) });
+      }
+    }
+  }
+
+  return { files, missing };
+}
+
+/**
+ * File contents as they go into the bundle. Generated PDFs are decrypted
+ * when storage is encrypted; bundles always hold plaintext.
+ */
+function readBackupSource(source: Pick<BackupFile, "kind" | "originalPath">): Promise<Buffer> {
+  const absolute = path.resolve(source.originalPath);
+  return source.kind === "generated" ? readStoredFile(absolute) : fs.promises.readFile(absolute);
+}
+
+/**
+ * Write a backup bundle. Defaults to a timestamped file in `data/backups/`.
+ */
+export async function createBackup(outputPath?: string): Promise<BackupResult> {
+  const createdAt = new Date();
+  const target = outputPath ?? path.join(BACKUPS_DIR, backupFileName(createdAt));
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+
+  const entityData = new Map<string, Buffer>();
+  const entities: BackupEntitySet[] = [];
+  let documents: MedicalDocument[] = [];
+
+  for (const { name, storage } of ENTITY_SETS) {
+    const all = await storage.getAll();
+    if (name === "documents") documents = all as MedicalDocument[];
+    const entryPath = `entities/${name}.json`;
+    const data = Buffer.from(JSON.stringify(all, null, 2), "utf-8");
+    entityData.set(entryPath, data);
+    entities.push({ name, path: entryPath, count: all.length, sha256: sha256(data) });
+  }
+
+  // Hash files first so the manifest can lead the archive
+  const { files: sources, missing } = collectFiles(documents);
+  const files: BackupFile[] = [];
+  for (const source of sources) {
+    const data = await readBackupSource(source);
+    const hash = sha256(data);
+    files.push({
+      path: `files/${hash}`,
+      kind: source.kind,
+      originalPath: source.originalPath,
+      size: data.length,
+      sha256: hash,
+    });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: createdAt.toISOString(),
+    storageBackend: getStorageBackend(),
+    entities,
+    files,
+    missingFiles: missing,
+  };
+
+  const writer = createTarGzWriter(target);
+  try {
+    await writer.add(MANIFEST_ENTRY, Buffer.from(JSON.stringify(manifest, null, 2), "utf-8"));
+    for (const [entryPath, data] of entityData) {
+      await writer.add(entryPath, data);
+    }
+
+    // Identical files share one entry
+    const written = new Set<string>();
+    for (const file of files) {
+      if (written.has(file.path)) continue;
+      written.add(file.path);
+      const data = await readBackupSource(file);
+      if (sha256(data) !== file.sha256) {
+        throw new Error(`File changed while backing up: ${file.originalPath}`);
+      }
+      await writer.add(file.path, data);
+    }
+  } finally {
+    await writer.finish();
+  }
+
+  return { path: target, manifest };
+}
+
+/**
+ * Check the manifest's shape and version.
+ */
+function parseManifest(data: Buffer): BackupManifest {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(data.toString("utf-8")) as BackupManifest;
+  } catch {
+    throw new Error("Backup manifest is not valid JSON");
+  }
+
+  if (manifest?.format !== BACKUP_FORMAT) {
+    throw new Error("Not a Cigna tracker backup (unknown manifest format)");
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error(`Invalid backup version: ${String(manifest.version)}`);
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(
+      `Backup version ${manifest.version} is newer than supported version ${BACKUP_VERSION}`
+    );
+  }
+  if (!Array.isArray(manifest.entities) || !Array.isArray(manifest.files)) {
+    throw new Error("Backup manifest is missing entity or file lists");
+  }
+
+  const known = new Set(ENTITY_SETS.map((set) => set.name));
+  for (const set of manifest.entities) {
+    if (!known.has(set.name)) {
+      throw new Error(`Backup contains unknown entity set: ${set.name}`);
+    }
+  }
+  for (const file of manifest.files) {
+    if (file.path !== `files/${file.sha256}` || !/^[0-9a-f]{64}$/.test(file.sha256)) {
+      throw new Error(`Invalid file entry in manifest: ${file.path}`);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Read and verify a bundle without changing anything. File contents are
+ * staged in `stagingDir`; entities are returned parsed.
+ */
+async function readBackup(
+  archivePath: string,
+  stagingDir: string
+): Promise<{ manifest: BackupManifest; entities: Map<string, Array<{ id: string }>> }> {
+  let manifest: BackupManifest | null = null;
+  const expected = new Map<string, string>();
+  const seen = new Set<string>();
+  const entities = new Map<string, Array<{ id: string }>>();
+
+  await readTarGz(archivePath, async (name, data) => {
+    if (!manifest) {
+      if (name !== MANIFEST_ENTRY) {
+        throw new Error(`Backup must start with ${MANIFEST_ENTRY}, found ${name}`);
+      }
+      manifest = parseManifest(data);
+      for (const set of manifest.entities) expected.set(set.path, set.sha256);
+      for (const file of manifest.files) expected.set(file.path, file.sha256);
+      return;
+    }
+
+    const checksum = expected.get(name);
+    if (!checksum) {
+      throw new Error(`Backup contains an entry not listed in the manifest: ${name}`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Backup contains ${name} twice`);
+    }
+    if (sha256(data) !== checksum) {
+      throw new Error(`Checksum mismatch for ${name}`);
+    }
+    seen.add(name);
+
+    const set = manifest.entities.find((candidate) => candidate.path === name);
+    if (set) {
+      const parsed = JSON.parse(data.toString("utf-8"), dateReviver) as unknown;
+      if (!Array.isArray(parsed) || parsed.length !== set.count) {
+        throw new Error(`${name} does not hold ${set.count} entities`);
+      }
+      if (parsed.some((entity) => typeof (entity as { id?: unknown })?.id !== "string")) {
+        throw new Error(`${name} contains an entity without an id`);
+      }
+      entities.set(set.name, parsed as Array<{ id: string }>);
+    } else {
+      await fs.promises.writeFile(path.join(stagingDir, path.basename(name)), data);
+    }
+  });
+
+  if (!manifest) {
+    throw new Error("Backup is empty");
+  }
+  const missing = [...expected.keys()].filter((name) => !seen.has(name));
+  if (missing.length > 0) {
+    throw new Error(`Backup is missing entries: ${missing.join(", ")}`);
+  }
+
+  return { manifest, entities };
+}
+
+/**
+ * Put restored files in place.
+ * Returns the new location of every attachment that moved.
+ */
+async function placeFiles(
+  manifest: BackupManifest,
+  stagingDir: string,
+  result: RestoreResult
+): Promise<Map<string, string>> {
+  const remapped = new Map<string, string>();
+
+  for (const file of manifest.files) {
+    const staged = path.join(stagingDir, file.sha256);
+
+    if (file.kind === "generated") {
+      const target = path.join(GENERATED_DIR, path.basename(file.originalPath));
+      fs.mkdirSync(GENERATED_DIR, { recursive: true });
+      await writeStoredFile(target, fs.readFileSync(staged));
+      result.filesRestored++;
+      continue;
+    }
+
+    if (
+      fs.existsSync(file.originalPath) &&
+      sha256(fs.readFileSync(file.originalPath)) === file.sha256
+    ) {
+      result.filesReused++;
+      continue;
+    }
+
+    const target = path.join(
+      RESTORED_ATTACHMENTS_DIR,
+      file.sha256.slice(0, 16),
+      path.basename(file.originalPath)
+    );
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(staged, target);
+    remapped.set(file.originalPath, target);
+    result.filesRestored++;
+  }
+
+  return remapped;
+}
+
+/**
+ * Restore a bundle into the current storage backend.
+ *
+ * The whole bundle is verified before anything is written. Entities are
+ * saved over existing ones with the same ID; entities not in the bundle are
+ * kept. Audit entries already present are not rewritten.
+ */
+export async function restoreBackup(archivePath: string): Promise<RestoreResult> {
+  const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), "cigna-restore-"));
+
+  try {
+    const { manifest, entities } = await readBackup(archivePath, stagingDir);
+    const result: RestoreResult = {
+      manifest,
+      entities: {},
+      skippedAuditEntries: 0,
+      filesRestored: 0,
+      filesReused: 0,
+      remappedDocuments: 0,
+    };
+
+    const remapped = await placeFiles(manifest, stagingDir, result);
+
+    await runAsActor({ actor: "restore", source: path.basename(archivePath) }, async () => {
+      for (const { name, storage } of ENTITY_SETS) {
+        const items = entities.get(name);
+        if (!items) continue;
+        let written = 0;
+
+        for (const item of items) {
+          let entity = item;
+          if (name === "audit-log" && (await storage.exists(item.id))) {
+            result.skippedAuditEntries++;
+            continue;
+          }
+          if (name === "documents") {
+            const attachmentPath = (item as MedicalDocument).attachmentPath;
+            const newPath = attachmentPath ? remapped.get(attachmentPath) : undefined;
+            if (newPath) {
+              entity = { ...item, attachmentPath: newPath } as MedicalDocument;
+              result.remappedDocuments++;
+            }
+          }
+          await storage.save(entity);
+          written++;
+        }
+
+        result.entities[name] = written;
+      }
+    });
+
+    return result;
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
@@ -22,13 +22,23 @@ import {
   updateScrapedClaim,
 } from "../storage/claims.js";
 import { ensureStorageDirs } from "../storage/index.js";
+import type { ProgressReporter, ScrapeProgressStep } from "../types/progress-event.js";
 
-/** Cigna Envoy portal URLs */
-const CIGNA_URLS = {
-  login: "https://customer.cignaenvoy.com/CustomLogin",
-  home: "https://customer.cignaenvoy.com/s/",
-  claims: "https://customer.cignaenvoy.com/s/claiminvoicesummary",
-} as const;
+/** Live Cigna Envoy portal */
+const DEFAULT_PORTAL_BASE_URL = "https://customer.cignaenvoy.com";
+
+/**
+ * Cigna Envoy portal URLs relative to a base URL.
+ * The base is overridable so the scraper can replay saved pages locally.
+ */
+function buildCignaUrls(baseUrl: string) {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    login: `${base}/CustomLogin`,
+    home: `${base}/s/`,
+    claims: `${base}/s/claiminvoicesummary`,
+  } as const;
+}
 
 /** Default timeouts */
 const TIMEOUTS = {
@@ -208,6 +218,14 @@ export interface ScraperConfig {
   totpSecret?: string;
   /** Run in headless mode */
   headless?: boolean;
+  /** Receives per-claim progress */
+  onProgress?: ProgressReporter<ScrapeProgressStep>;
+  /** Portal base URL (default: live Cigna Envoy); point at a replay server for fixtures */
+  portalBaseUrl?: string;
+  /** Skip the login step (replayed pages need no session) */
+  skipLogin?: boolean;
+  /** Multiplier for fixed SPA settle waits (default: 1; 0 for static replay pages) */
+  delayScale?: number;
 }
 
 /**
@@ -255,12 +273,21 @@ interface ClaimDetails {
 export class CignaScraper {
   private driver: WebDriver | null = null;
   private config: ScraperConfig;
+  private urls: ReturnType<typeof buildCignaUrls>;
 
   constructor(config: ScraperConfig) {
     this.config = {
       ...config,
       headless: config.headless ?? true,
     };
+    this.urls = buildCignaUrls(config.portalBaseUrl ?? DEFAULT_PORTAL_BASE_URL);
+  }
+
+  /**
+   * Fixed wait for the SPA to settle, scaled by delayScale.
+   */
+  private pause(ms: number): Promise<void> {
+    return sleep(ms * (this.config.delayScale ?? 1));
   }
 
   /**
@@ -351,7 +378,7 @@ export class CignaScraper {
       "arguments[0].scrollIntoView({block:'center', inline:'center'});",
       el
     );
-    await sleep(500); // Let scroll settle
+    await this.pause(500); // Let scroll settle
 
     // Wait for element to be visible and enabled
     await this.driver.wait(until.elementIsVisible(el), TIMEOUTS.elementWait);
@@ -445,7 +472,7 @@ export class CignaScraper {
           if (await btn.isDisplayed()) {
             console.log(`Found consent button: ${selector}, clicking...`);
             await this.safeClick(btn);
-            await sleep(1000);
+            await this.pause(1000);
             return;
           }
         } catch {
@@ -460,7 +487,7 @@ export class CignaScraper {
           if (await btn.isDisplayed()) {
             console.log(`Found consent button via XPath, clicking...`);
             await this.safeClick(btn);
-            await sleep(1000);
+            await this.pause(1000);
             return;
           }
         } catch {
@@ -482,8 +509,8 @@ export class CignaScraper {
     if (!this.driver) throw new Error("Driver not initialized");
 
     try {
-      console.log(`Navigating to ${CIGNA_URLS.login}...`);
-      await this.driver.get(CIGNA_URLS.login);
+      console.log(`Navigating to ${this.urls.login}...`);
+      await this.driver.get(this.urls.login);
 
       // Wait for login form to appear (not just any element)
       await this.waitSpinnersGone();
@@ -558,7 +585,7 @@ export class CignaScraper {
 
           // Click to focus the input first
           await totpInput.click();
-          await sleep(200);
+          await this.pause(200);
 
           // Clear and send keys
           await totpInput.clear();
@@ -644,12 +671,12 @@ export class CignaScraper {
   async navigateToClaims(): Promise<void> {
     if (!this.driver) throw new Error("Driver not initialized");
 
-    console.log(`Navigating to claims page: ${CIGNA_URLS.claims}`);
-    await this.driver.get(CIGNA_URLS.claims);
+    console.log(`Navigating to claims page: ${this.urls.claims}`);
+    await this.driver.get(this.urls.claims);
 
     // Salesforce needs extra patience - wait for initial load
     console.log("  Waiting for Salesforce to initialize...");
-    await sleep(5000);
+    await this.pause(5000);
 
     // Wait for spinners to finish
     await this.waitSpinnersGone(TIMEOUTS.spinnerWait);
@@ -691,7 +718,7 @@ export class CignaScraper {
 
     // Extra wait for Salesforce SPA to fully render cards
     console.log("  Giving Salesforce extra time to render cards...");
-    await sleep(5000);
+    await this.pause(5000);
     await this.waitSpinnersGone(TIMEOUTS.spinnerWait);
 
     // Take a screenshot for debugging
@@ -760,7 +787,7 @@ export class CignaScraper {
 
     // Give Salesforce SPA LOTS of time to render claim cards
     console.log("  Waiting for claim cards to render (Salesforce is slow)...");
-    await sleep(8000);
+    await this.pause(8000);
 
     // Try waiting specifically for claim number elements
     try {
@@ -1190,7 +1217,7 @@ export class CignaScraper {
     }
 
     // Extra wait for Vlocity components to render
-    await sleep(3000);
+    await this.pause(3000);
   }
 
   /**
@@ -1281,7 +1308,7 @@ export class CignaScraper {
     }
 
     // Extra wait for Vlocity components to render
-    await sleep(3000);
+    await this.pause(3000);
   }
 
   /**
@@ -1573,14 +1600,14 @@ export class CignaScraper {
       }
 
       console.log(`    Expanded ${expandedThisRound} sections in attempt ${attempt + 1}`);
-      await sleep(1500); // Wait for animations
+      await this.pause(1500); // Wait for animations
       await this.waitSpinnersGone(5000);
     }
 
     console.log(`  Total expanded: ${expandedCount} sections`);
 
     // Give time for all content to fully render
-    await sleep(2000);
+    await this.pause(2000);
   }
 
   /**
@@ -1680,7 +1707,7 @@ export class CignaScraper {
           if (clicked) {
             console.log(`    Clicked chevron-down (actionKey: ${info.actionKey || 'none'})`);
             expandedCount++;
-            await sleep(800); // Brief wait between clicks
+            await this.pause(800); // Brief wait between clicks
           }
         } catch (err) {
           console.log(`    Failed to click chevron: ${err}`);
@@ -1744,7 +1771,7 @@ export class CignaScraper {
             await this.driver!.executeScript("arguments[0].click();", el);
             console.log(`      Clicked via XPath/JS`);
             expandedCount++;
-            await sleep(800);
+            await this.pause(800);
           } catch {
             // Try next element
           }
@@ -1792,7 +1819,7 @@ export class CignaScraper {
             if (isDisplayed) {
               console.log(`    Clicking back button...`);
               await this.safeClick(el);
-              await sleep(2000);
+              await this.pause(2000);
               await this.waitSpinnersGone(TIMEOUTS.spinnerWait);
               return true;
             }
@@ -1873,7 +1900,7 @@ export class CignaScraper {
       // CRITICAL: Give the SPA time to fully populate ALL expanded fields
       // The DOM updates progressively, so we need to wait for everything
       console.log("  Waiting for all expanded fields to populate...");
-      await sleep(4000);
+      await this.pause(4000);
 
       // Find the main content area
       const body = await this.driver.findElement(By.tagName("body"));
@@ -2182,6 +2209,12 @@ export class CignaScraper {
     // Get summaries from list page - used for count and fallback data
     const summaries = await this.extractClaimSummaries();
     console.log(`\nFound ${summaries.length} claims to process`);
+    this.config.onProgress?.({
+      step: "claims_list",
+      message: `Found ${summaries.length} claims to process`,
+      current: 0,
+      total: summaries.length,
+    });
 
     // Process by INDEX, not by identifier (workaround for Vlocity SPA bug)
     for (let idx = 0; idx < summaries.length; idx++) {
@@ -2189,6 +2222,12 @@ export class CignaScraper {
       try {
         console.log(`\n${"=".repeat(50)}`);
         console.log(`Processing claim #${idx + 1} (${summary.claimNumber} from summary)...`);
+        this.config.onProgress?.({
+          step: "claim",
+          message: `Processing claim ${summary.claimNumber}`,
+          current: idx + 1,
+          total: summaries.length,
+        });
 
         // Check if already exists
         const existing = await findClaimByCignaNumber(summary.claimNumber);
@@ -2355,13 +2394,22 @@ export class CignaScraper {
     try {
       await this.init();
 
-      const loggedIn = await this.login();
-      if (!loggedIn) {
-        throw new Error("Failed to log in to Cigna Envoy");
+      if (!this.config.skipLogin) {
+        const loggedIn = await this.login();
+        if (!loggedIn) {
+          throw new Error("Failed to log in to Cigna Envoy");
+        }
+        this.config.onProgress?.({ step: "login", message: "Logged in to Cigna Envoy" });
       }
 
       await this.navigateToClaims();
       const claims = await this.scrapeAllClaims();
+      this.config.onProgress?.({
+        step: "complete",
+        message: `Scraped ${claims.length} claims`,
+        current: claims.length,
+        total: claims.length,
+      });
 
       return claims;
     } finally {
@@ -13,13 +13,23 @@ import crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { ensureStorageDirs } from "../storage/index.js";
+import type { ProgressReporter, SubmitProgressStep } from "../types/progress-event.js";
 
-/** Cigna Envoy portal URLs */
-const CIGNA_URLS = {
-  login: "https://customer.cignaenvoy.com/CustomLogin",
-  home: "https://customer.cignaenvoy.com/s/",
-  newClaim: "https://customer.cignaenvoy.com/s/new-submitclaim?LanguageCode=en_GB&language=en_GB",
-} as const;
+/** Live Cigna Envoy portal */
+const DEFAULT_PORTAL_BASE_URL = "https://customer.cignaenvoy.com";
+
+/**
+ * Cigna Envoy portal URLs relative to a base URL.
+ * The base is overridable so the wizard can be driven against a local mock portal.
+ */
+function buildCignaUrls(baseUrl: string) {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    login: `${base}/CustomLogin`,
+    home: `${base}/s/`,
+    newClaim: `${base}/s/new-submitclaim?LanguageCode=en_GB&language=en_GB`,
+  } as const;
+}
 
 /**
  * Timeouts and delays - Cigna site is EXTREMELY SLOW
@@ -54,8 +64,17 @@ export interface SubmitterConfig {
   password: string;
   totpSecret?: string;
   headless?: boolean;
+  /** Stop at the review page for a human to submit (default: true) */
   pauseBeforeSubmit?: boolean;
   pauseTimeoutMs?: number;
+  /** Receives step-level progress (portal progress bar as current/100) */
+  onProgress?: ProgressReporter<SubmitProgressStep>;
+  /** Portal base URL (default: live Cigna Envoy); point at a mock portal for tests */
+  portalBaseUrl?: string;
+  /** Skip the login step (the mock portal needs no session) */
+  skipLogin?: boolean;
+  /** Multiplier for fixed waits between steps (default: 1; 0 for the mock portal) */
+  delayScale?: number;
 }
 
 export interface ClaimSubmissionDocument {
@@ -88,6 +107,24 @@ export interface SubmissionResult {
   paused?: boolean;
 }
 
+/**
+ * One claim in a batch. `input` is resolved just before the claim is
+ * submitted, so preparation errors only fail that claim.
+ */
+export interface BatchSubmissionItem<K extends string = string> {
+  key: K;
+  input: () => Promise<ClaimSubmissionInput>;
+}
+
+/**
+ * Outcome of one claim in a batch: a result, or the error that stopped it.
+ */
+export interface BatchSubmissionOutcome<K extends string = string> {
+  key: K;
+  result?: SubmissionResult;
+  error?: string;
+}
+
 type SubmissionPageContext = {
   html: string;
   text: string;
@@ -140,14 +177,23 @@ export class CignaSubmitter {
   private driver: WebDriver | null = null;
   private config: SubmitterConfig;
   private runDir: string | null = null;
+  private urls: ReturnType<typeof buildCignaUrls>;
 
   constructor(config: SubmitterConfig) {
     this.config = {
       ...config,
       headless: config.headless ?? false,
-      pauseBeforeSubmit: config.pauseBeforeSubmit ?? false,
+      pauseBeforeSubmit: config.pauseBeforeSubmit ?? true,
       pauseTimeoutMs: config.pauseTimeoutMs ?? 30 * 60 * 1000,
     };
+    this.urls = buildCignaUrls(config.portalBaseUrl ?? DEFAULT_PORTAL_BASE_URL);
+  }
+
+  /**
+   * Fixed wait for the portal to settle, scaled by delayScale.
+   */
+  private async pause(ms: number): Promise<void> {
+    await sleep(ms * (this.config.delayScale ?? 1));
   }
 
   async init(): Promise<void> {
@@ -248,6 +294,19 @@ export class CignaSubmitter {
     console.log(`  ✓ Saved HTML snapshot: ${filename}`);
   }
 
+  /**
+   * Report a completed wizard step, with the portal's progress bar value.
+   */
+  private async reportStep(step: SubmitProgressStep, message: string): Promise<void> {
+    if (!this.config.onProgress) return;
+    const progress = await this.getProgress();
+    this.config.onProgress({
+      step,
+      message,
+      ...(progress >= 0 && { current: progress, total: 100 }),
+    });
+  }
+
   private async capturePageContext(): Promise<SubmissionPageContext> {
     if (!this.driver) throw new Error("Driver not initialized");
     const context = await this.driver.executeScript(
@@ -316,7 +375,7 @@ export class CignaSubmitter {
         const text = await this.driver!.executeScript(
           "return document.body?.textContent || '';"
         ) as string;
-        return /submission\\s*number|claim\\s*number/i.test(text);
+        return /submission\s*number|claim\s*number/i.test(text);
       },
       CIGNA_TIMING.pageLoad * 2
     );
@@ -335,7 +394,7 @@ export class CignaSubmitter {
         );
         if (hasText) return true;
       } catch { }
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     return false;
   }
@@ -359,7 +418,7 @@ export class CignaSubmitter {
           if (bodyText.includes("Loading")) sawLoading = true;
         }
       } catch { }
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     if (!sawLoading) return false;
     const extraStart = Date.now();
@@ -370,7 +429,7 @@ export class CignaSubmitter {
         );
         if (hasText) return true;
       } catch { }
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     return false;
   }
@@ -403,7 +462,7 @@ export class CignaSubmitter {
       if (progress >= expected - tolerance && progress <= expected + tolerance + 20) {
         return true;
       }
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     return false;
   }
@@ -683,10 +742,10 @@ export class CignaSubmitter {
 
         if (combobox) {
           await combobox.click();
-          await sleep(CIGNA_TIMING.afterDropdown);
+          await this.pause(CIGNA_TIMING.afterDropdown);
           return combobox;
         }
-        await sleep(CIGNA_TIMING.pollInterval);
+        await this.pause(CIGNA_TIMING.pollInterval);
       }
 
       await this.captureDebugContext("combobox-not-found", { labelText });
@@ -1183,7 +1242,7 @@ export class CignaSubmitter {
         `
       ) as WebElement | null;
       if (input) return input;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
 
     await this.captureDebugContext("symptom-input-not-found");
@@ -1294,7 +1353,7 @@ export class CignaSubmitter {
         matchMode
       ) as { ok: boolean };
       if (result.ok) return;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     await this.captureDebugContext("symptom-option-not-found", { label });
     throw new Error(`Symptom option "${label}" not found`);
@@ -1344,7 +1403,7 @@ export class CignaSubmitter {
         `
       ) as boolean;
       if (clicked) return;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     await this.captureDebugContext("symptom-option-not-found");
     throw new Error('Symptom option "not on the list" not found');
@@ -1444,7 +1503,7 @@ export class CignaSubmitter {
       } catch { }
       const progress = await this.getProgress();
       if (progress >= STEP_PROGRESS.symptoms - 3) return true;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     if (!sawLoading) return false;
     const extraStart = Date.now();
@@ -1459,7 +1518,7 @@ export class CignaSubmitter {
       } catch { }
       const progress = await this.getProgress();
       if (progress >= STEP_PROGRESS.symptoms - 3) return true;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     return false;
   }
@@ -1530,7 +1589,7 @@ export class CignaSubmitter {
   private async typeSlowly(element: WebElement, text: string): Promise<void> {
     for (const char of text) {
       await element.sendKeys(char);
-      await sleep(50);
+      await this.pause(50);
     }
   }
 
@@ -1553,7 +1612,7 @@ export class CignaSubmitter {
     console.log("  Checking for cookie consent dialog...");
 
     // Wait a bit for the dialog to appear
-    await sleep(3000);
+    await this.pause(3000);
 
     try {
       // Try multiple strategies to dismiss cookie consent using JavaScript clicks
@@ -1594,11 +1653,11 @@ export class CignaSubmitter {
 
         if (dismissed) {
           console.log(`    Cookie consent: ${dismissed}`);
-          await sleep(2000);
+          await this.pause(2000);
           return;
         }
 
-        await sleep(1000);
+        await this.pause(1000);
       }
 
       // Last resort: press Escape key to close any modal
@@ -1606,7 +1665,7 @@ export class CignaSubmitter {
         const body = await this.driver.findElement(By.css('body'));
         await body.sendKeys('\uE00C'); // Escape key
         console.log("    Sent Escape key to dismiss dialog");
-        await sleep(1000);
+        await this.pause(1000);
       } catch { }
 
       console.log("    No cookie dialog found or dismissed via Escape");
@@ -1622,12 +1681,12 @@ export class CignaSubmitter {
     if (!this.driver) throw new Error("Driver not initialized");
     console.log("  Logging in to Cigna Envoy...");
 
-    await this.driver.get(CIGNA_URLS.login);
-    await sleep(5000);  // Extra wait for slow page
+    await this.driver.get(this.urls.login);
+    await this.pause(5000);  // Extra wait for slow page
 
     // Handle cookie consent popup first - may need multiple attempts
     await this.dismissCookieConsent();
-    await sleep(2000);
+    await this.pause(2000);
     await this.dismissCookieConsent();  // Second attempt in case first failed
 
     // Also try clicking outside any modal
@@ -1648,7 +1707,7 @@ export class CignaSubmitter {
         }
       `);
     } catch { }
-    await sleep(1000);
+    await this.pause(1000);
 
     // Enter credentials using JavaScript to avoid element not interactable errors
     console.log("  Entering credentials...");
@@ -1683,7 +1742,7 @@ export class CignaSubmitter {
       await idInput.sendKeys(this.config.cignaId);
     }
 
-    await sleep(500);
+    await this.pause(500);
 
     // Click login button using JavaScript
     console.log("  Clicking login button...");
@@ -1703,7 +1762,7 @@ export class CignaSubmitter {
       }
     `);
     console.log("  Credentials entered, waiting for response...");
-    await sleep(8000);  // Longer wait for slow site
+    await this.pause(8000);  // Longer wait for slow site
 
     // Handle TOTP if needed - check for various MFA/2FA URL patterns
     const currentUrl = await this.driver.getCurrentUrl();
@@ -1720,10 +1779,10 @@ export class CignaSubmitter {
     if (needsTOTP) {
       if (!this.config.totpSecret) {
         console.log("  No TOTP secret provided, waiting 60s for manual input...");
-        await sleep(60000);
+        await this.pause(60000);
       } else {
         console.log("  Entering TOTP code...");
-        await sleep(3000);  // Wait for page to fully load
+        await this.pause(3000);  // Wait for page to fully load
 
         // Generate TOTP code
         const totpCode = generateTOTP(this.config.totpSecret);
@@ -1746,7 +1805,7 @@ export class CignaSubmitter {
           await totpInput.clear();
           await this.typeSlowly(totpInput, totpCode);
           await this.dispatchInputEvents(totpInput);
-          await sleep(1000);
+          await this.pause(1000);
         } else {
           // Try using JavaScript to enter the code
           await this.driver.executeScript(`
@@ -1761,7 +1820,7 @@ export class CignaSubmitter {
               }
             }
           `);
-          await sleep(1000);
+          await this.pause(1000);
         }
 
         // Click verify button using JavaScript (more reliable)
@@ -1776,12 +1835,12 @@ export class CignaSubmitter {
             }
           }
         `);
-        await sleep(15000);  // Wait for verification and redirect
+        await this.pause(15000);  // Wait for verification and redirect
       }
     }
 
     // Wait for home page
-    await this.driver.wait(until.urlContains(CIGNA_URLS.home), CIGNA_TIMING.pageLoad);
+    await this.driver.wait(until.urlContains(this.urls.home), CIGNA_TIMING.pageLoad);
     console.log("  ✓ Logged in successfully");
     return true;
   }
@@ -1793,8 +1852,8 @@ export class CignaSubmitter {
     if (!this.driver) throw new Error("Driver not initialized");
     console.log("  Navigating to new claim form...");
 
-    await this.driver.get(CIGNA_URLS.newClaim);
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.driver.get(this.urls.newClaim);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     // Wait for patient selection page to load
     const loaded = await this.waitForPageText("Who are you claiming for");
@@ -1817,7 +1876,7 @@ export class CignaSubmitter {
     if (!this.driver) throw new Error("Driver not initialized");
     console.log(`  Step 1: Selecting patient "${patientName}"...`);
 
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const normalizedName = patientName.toUpperCase();
     const loaded = await this.waitForPageText(normalizedName);
@@ -1827,7 +1886,7 @@ export class CignaSubmitter {
     }
 
     await this.clickCardByText(patientName);
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const moved = await this.waitForPageText("Where did you receive care");
     if (!moved) {
@@ -1844,7 +1903,7 @@ export class CignaSubmitter {
     if (!this.driver) throw new Error("Driver not initialized");
     console.log(`  Step 2: Selecting country "${country}"...`);
 
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const onPage = await this.waitForPageText("Where did you receive care");
     if (!onPage) {
@@ -1861,7 +1920,7 @@ export class CignaSubmitter {
       "Select a country/area"
     );
     await this.clickContinueButton("country");
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const moved = await this.waitForPageText("Claim type");
     if (!moved) {
@@ -1887,7 +1946,7 @@ export class CignaSubmitter {
       "Claim type"
     );
     await this.clickContinueButton("claim-type");
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const moved = await this.waitForPageText("outpatient or inpatient");
     if (!moved) {
@@ -1912,14 +1971,14 @@ export class CignaSubmitter {
       "equals",
       "outpatient"
     );
-    await sleep(3000); // Wait for additional fields to appear
+    await this.pause(3000); // Wait for additional fields to appear
 
     // Select treatment type by clicking label
     const treatmentType =
       input.treatmentType || "Consultation with medical practitioner and specialist";
     console.log(`    Selecting treatment type: ${treatmentType}`);
     await this.checkCheckboxByLabel(treatmentType);
-    await sleep(1000);
+    await this.pause(1000);
 
     // Select currency
     if (input.currency) {
@@ -1932,19 +1991,19 @@ export class CignaSubmitter {
         "contains",
         "Currency"
       );
-      await sleep(1000);
+      await this.pause(1000);
     }
 
     // Enter cost
     if (input.totalAmount) {
       console.log(`    Entering cost: ${input.totalAmount}`);
       await this.fillInputByLabel("What was the cost?", String(input.totalAmount));
-      await sleep(500);
+      await this.pause(500);
       const costValue = await this.readInputValueByLabel("What was the cost?");
       if (!costValue) {
         console.log("    Cost value missing after fill, retrying...");
         await this.fillInputByLabel("What was the cost?", String(input.totalAmount));
-        await sleep(500);
+        await this.pause(500);
       }
     }
 
@@ -1953,12 +2012,12 @@ export class CignaSubmitter {
       const formattedDate = this.formatDateForCigna(input.treatmentDate);
       console.log(`    Entering date: ${formattedDate}`);
       await this.fillInputByLabel("What was the earliest treatment date?", formattedDate);
-      await sleep(1000);
+      await this.pause(1000);
       const dateValue = await this.readInputValueByLabel("What was the earliest treatment date?");
       if (!dateValue) {
         console.log("    Date value missing after fill, retrying...");
         await this.fillInputByLabel("What was the earliest treatment date?", formattedDate);
-        await sleep(1000);
+        await this.pause(1000);
       }
     }
 
@@ -1967,10 +2026,10 @@ export class CignaSubmitter {
       const heading = document.querySelector('h1, h2, h3, .nds-card__header');
       if (heading) heading.click();
     `);
-    await sleep(500);
+    await this.pause(500);
 
     await this.clickContinueButton("details");
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const moved = await this.waitForSymptomsStep(CIGNA_TIMING.pageLoad * 2);
     if (!moved) {
@@ -2016,13 +2075,13 @@ export class CignaSubmitter {
       await this.typeSlowly(input, symptom);
       await this.dispatchInputEvents(input);
       await this.clickSymptomSearchButton(input);
-      await sleep(600);
+      await this.pause(600);
       await this.selectSymptomOption(symptom, "exact");
-      await sleep(1500);
+      await this.pause(1500);
     }
 
     await this.clickContinueButton("symptoms");
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     const moved = await this.waitForPageText("another insurer");
     if (!moved) {
@@ -2085,14 +2144,14 @@ export class CignaSubmitter {
       console.log("    Warning: No button not found");
     }
 
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
 
     // Some flows require hitting Continue after selecting No.
     const movedDirect = await this.waitForPageText("upload all documents", 8000);
     if (!movedDirect) {
       try {
         await this.clickContinueButton("other-insurer");
-        await sleep(CIGNA_TIMING.afterNavigation);
+        await this.pause(CIGNA_TIMING.afterNavigation);
       } catch (err) {
         await this.captureDebugContext("other-insurer-continue-failed");
         throw err;
@@ -2191,7 +2250,7 @@ export class CignaSubmitter {
       `) as { ok: boolean; reason?: string; buttons?: unknown; selected?: unknown };
 
       if (result.ok) return;
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
 
     await this.captureDebugContext(`continue-${context}`, { context });
@@ -2248,7 +2307,7 @@ export class CignaSubmitter {
         if (!fileInput) {
           console.log("    Upload input not visible yet, clicking Upload Files...");
           await this.clickUploadFilesButton();
-          await sleep(1000);
+          await this.pause(1000);
           fileInput = await this.findFileInputElement();
         }
 
@@ -2265,17 +2324,17 @@ export class CignaSubmitter {
         console.log(`    ✓ Uploaded: ${fileName}`);
 
         // Wait for upload to process and close the modal dialog if it appears.
-        await sleep(3000);
+        await this.pause(3000);
         const closeStart = Date.now();
         let closed = false;
         while (Date.now() - closeStart < CIGNA_TIMING.elementWait) {
           const clicked = await this.clickUploadDialogDone();
           if (clicked) {
             closed = true;
-            await sleep(1000);
+            await this.pause(1000);
             break;
           }
-          await sleep(CIGNA_TIMING.pollInterval);
+          await this.pause(CIGNA_TIMING.pollInterval);
         }
 
         if (!closed) {
@@ -2313,20 +2372,33 @@ export class CignaSubmitter {
         console.log(`  ✓ Review page loaded (progress: ${progress}%)`);
         return;
       }
-      await sleep(CIGNA_TIMING.pollInterval);
+      await this.pause(CIGNA_TIMING.pollInterval);
     }
     throw new Error("Review page did not load within timeout (stuck at upload step)");
   }
 
   /**
-   * Final review - STOPS here for human to complete submission manually
+   * Final review - STOPS here for human to complete submission manually,
+   * unless pauseBeforeSubmit is disabled.
    */
   private async reviewAndSubmit(): Promise<SubmissionResult> {
     if (!this.driver) throw new Error("Driver not initialized");
-    console.log("  Final review - browser will stay open for manual submission");
     await this.waitForReviewPage();
     await this.recordStepHtml("010", "review");
 
+    if (!this.config.pauseBeforeSubmit) {
+      console.log("  Submitting claim...");
+      await this.clickSubmitButton();
+      await this.waitForSubmissionConfirmation();
+      const context = await this.capturePageContext();
+      await this.recordStepHtml("011", "confirmation", context.html);
+      const result = this.extractSubmissionIds(context);
+      console.log(`  ✓ Claim submitted (submission number: ${result.submissionNumber ?? "unknown"})`);
+      return result;
+    }
+
+    console.log("  Final review - browser will stay open for manual submission");
+
     // DO NOT auto-submit - let human click Submit and finish
     console.log("");
     console.log("  ╔════════════════════════════════════════════════════════════╗");
@@ -2353,30 +2425,57 @@ export class CignaSubmitter {
 
     await this.navigateToNewClaim();
     await this.recordStepHtml("002", "navigate");
+    await this.reportStep("navigate", "Claim form opened");
     await this.selectPatient(input.patientName);
     await this.recordStepHtml("003", "patient");
+    await this.reportStep("patient", "Patient selected");
     await this.selectCountry(input.country);
     await this.recordStepHtml("004", "country");
+    await this.reportStep("country", `Country selected: ${input.country}`);
     await this.selectClaimType(input.claimType);
     await this.recordStepHtml("005", "claim_type");
+    await this.reportStep("claim_type", `Claim type selected: ${input.claimType}`);
     await this.fillClaimDetails(input);
     await this.recordStepHtml("006", "details");
+    await this.reportStep("details", "Claim details filled");
     await this.enterSymptoms(input.symptoms);
     await this.recordStepHtml("007", "symptoms");
+    await this.reportStep("symptoms", "Symptoms entered");
     await this.handleOtherInsurer();
     await this.recordStepHtml("008", "other_insurer");
+    await this.reportStep("other_insurer", "Other insurer question answered");
 
     // Document upload step
     if (input.documents.length > 0) {
       await this.uploadDocuments(input.documents);
     }
     await this.recordStepHtml("009", "upload");
+    await this.reportStep("upload", `${input.documents.length} document(s) uploaded`);
 
     // Click Continue to go to review page
     await this.clickContinueButton("upload");
-    await sleep(CIGNA_TIMING.afterNavigation);
+    await this.pause(CIGNA_TIMING.afterNavigation);
+
+    const result = await this.reviewAndSubmit();
+    await this.reportStep(
+      "review",
+      this.config.pauseBeforeSubmit
+        ? "Ready for manual submission on the review page"
+        : `Submitted (submission number ${result.submissionNumber ?? "unknown"})`
+    );
+    return result;
+  }
 
-    return await this.reviewAndSubmit();
+  /**
+   * Open the browser and log in
+   */
+  async openSession(): Promise<void> {
+    await this.init();
+    if (!this.config.skipLogin) {
+      await this.login();
+      await this.recordStepHtml("001", "login");
+      await this.reportStep("login", "Logged in to Cigna Envoy");
+    }
   }
 
   /**
@@ -2384,13 +2483,58 @@ export class CignaSubmitter {
    */
   async run(input: ClaimSubmissionInput): Promise<SubmissionResult> {
     try {
-      await this.init();
-      await this.login();
-      await this.recordStepHtml("001", "login");
+      await this.openSession();
       return await this.submitClaim(input);
     } finally {
       await this.close();
     }
   }
+
+  /**
+   * Submit several claims in one logged-in session, one after another.
+   *
+   * A failing claim is recorded and the next one starts from a fresh claim
+   * form. Requires pauseBeforeSubmit: false, since a paused claim would
+   * hold the browser on its review page.
+   *
+   * @param onOutcome - Called after each claim, before the next starts
+   * @param signal - Stops before the next claim when aborted
+   */
+  async runBatch<K extends string>(
+    items: BatchSubmissionItem<K>[],
+    onOutcome?: (outcome: BatchSubmissionOutcome<K>) => Promise<void> | void,
+    signal?: AbortSignal
+  ): Promise<BatchSubmissionOutcome<K>[]> {
+    if (this.config.pauseBeforeSubmit) {
+      throw new Error("Batch submission requires pauseBeforeSubmit: false");
+    }
+
+    const outcomes: BatchSubmissionOutcome<K>[] = [];
+    try {
+      await this.openSession();
+
+      for (const [index, item] of items.entries()) {
+        if (signal?.aborted) break;
+        console.log(`\n[Batch ${index + 1}/${items.length}] ${item.key}`);
+
+        let outcome: BatchSubmissionOutcome<K>;
+        try {
+          const result = await this.submitClaim(await item.input());
+          outcome = { key: item.key, result };
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(`  ✗ ${item.key} failed: ${message}`);
+          await this.takeDebugScreenshot(`batch-${index + 1}-failed`);
+          outcome = { key: item.key, error: message };
+        }
+
+        outcomes.push(outcome);
+        await onOutcome?.(outcome);
+      }
+    } finally {
+      await this.close();
+    }
+    return outcomes;
+  }
 }
 
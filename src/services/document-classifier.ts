@@ -0,0 +1,273 @@
+/**
+ * Document Classifier
+ *
+ * A local multinomial naive Bayes model that learns document
+ * classifications from the user: documents with a classification override,
+ * and documents confirmed as evidence for a claim (labelled by the keyword
+ * classifier, never by the model's own predictions). Each training run
+ * stores a new model version.
+ *
+ * Predictions carry a probability. Confident predictions replace the
+ * keyword classification; the rest wait in a review queue until the user
+ * confirms or corrects them with an override.
+ */
+
+import type {
+  ClassificationOverride,
+  ClassificationPrediction,
+  DocumentClassification,
+  MedicalDocument,
+} from "../types/medical-document.js";
+import type { ClassifierModel } from "../types/classifier-model.js";
+import { documentsStorage, getActiveDocuments } from "../storage/documents.js";
+import { getConfirmedAssignments } from "../storage/assignments.js";
+import {
+  classifierModelId,
+  classifierModelsStorage,
+  getLatestClassifierModel,
+} from "../storage/classifier-models.js";
+import { foldText } from "./locale-extraction.js";
+import { classifyDocument } from "./keyword-classifier.js";
+
+/** Predictions below this probability are not applied and go to review */
+export const CONFIDENT_PROBABILITY = 0.6;
+
+/** Tokens read per document; long OCR texts add little beyond this */
+const MAX_TOKENS = 2000;
+
+/**
+ * Result of a training run.
+ */
+export interface ClassifierTrainingResult {
+  model: ClassifierModel;
+  /** Documents whose predicted class changed with the new model */
+  predicted: number;
+  /** Documents whose classification changed */
+  reclassified: number;
+}
+
+/**
+ * A document waiting for the user to confirm or correct its classification.
+ */
+export interface ClassificationReviewItem {
+  document: MedicalDocument;
+  prediction: ClassificationPrediction;
+}
+
+/**
+ * Distinct words of a document (lowercased, without diacritics).
+ * Counting each word once per document keeps long texts from dominating.
+ */
+function tokenize(text: string): string[] {
+  const words = foldText(text)
+    .split(/[^\p{L}]+/u)
+    .filter((word) => word.length >= 3 && word.length <= 30)
+    .slice(0, MAX_TOKENS);
+  return [...new Set(words)];
+}
+
+/**
+ * Text a document is classified by: the subject plus OCR text or email body.
+ */
+function documentText(document: MedicalDocument): string {
+  return `${document.subject ?? ""} ${document.ocrText ?? document.bodySnippet ?? ""}`;
+}
+
+/**
+ * Labelled training documents: overrides, and documents with a confirmed
+ * claim assignment. Confirmed documents take their keyword classification;
+ * their stored one may be a prediction, which would train the model on itself.
+ */
+async function getTrainingExamples(): Promise<Array<{ label: DocumentClassification; tokens: string[] }>> {
+  const confirmedIds = new Set((await getConfirmedAssignments()).map((assignment) => assignment.documentId));
+  const documents = await documentsStorage.find(
+    (document) =>
+      document.sourceType !== "calendar" &&
+      (!!document.classificationOverride || confirmedIds.has(document.id))
+  );
+
+  const examples: Array<{ label: DocumentClassification; tokens: string[] }> = [];
+  for (const document of documents) {
+    const text = documentText(document);
+    const label = document.classificationOverride?.classification ?? classifyDocument(text);
+    // Keywords found nothing to learn from
+    if (!document.classificationOverride && label === "unknown") continue;
+
+    const tokens = tokenize(text);
+    if (tokens.length > 0) examples.push({ label, tokens });
+  }
+  return examples;
+}
+
+let latestModel: Promise<ClassifierModel | null> | null = null;
+
+/**
+ * The model used for predictions (the newest version), cached until retrained.
+ */
+export function getClassifierModel(): Promise<ClassifierModel | null> {
+  latestModel ??= getLatestClassifierModel();
+  return latestModel;
+}
+
+/**
+ * Train a new model version from the current corrections.
+ * Throws if there are not enough labelled documents.
+ */
+export async function trainClassifierModel(): Promise<ClassifierModel> {
+  const examples = await getTrainingExamples();
+  const classes = new Set(examples.map((example) => example.label));
+  if (classes.size < 2) {
+    throw new Error(
+      "Training needs labelled documents of at least two classifications; override some document classifications first"
+    );
+  }
+
+  const classCounts: ClassifierModel["classCounts"] = {};
+  const tokenCounts: ClassifierModel["tokenCounts"] = {};
+  const tokenTotals: ClassifierModel["tokenTotals"] = {};
+  const vocabulary = new Set<string>();
+
+  for (const { label, tokens } of examples) {
+    classCounts[label] = (classCounts[label] ?? 0) + 1;
+    const counts = (tokenCounts[label] ??= {});
+    for (const token of tokens) {
+      counts[token] = (counts[token] ?? 0) + 1;
+      vocabulary.add(token);
+    }
+    tokenTotals[label] = (tokenTotals[label] ?? 0) + tokens.length;
+  }
+
+  const previous = await getLatestClassifierModel();
+  const modelVersion = (previous?.modelVersion ?? 0) + 1;
+  const model = await classifierModelsStorage.save({
+    id: classifierModelId(modelVersion),
+    modelVersion,
+    exampleCount: examples.length,
+    classCounts,
+    tokenCounts,
+    tokenTotals,
+    vocabularySize: vocabulary.size,
+    trainedAt: new Date(),
+  });
+
+  latestModel = Promise.resolve(model);
+  return model;
+}
+
+/**
+ * Predict a classification with a model. Returns undefined when the text
+ * has no words the model has seen.
+ */
+export function predictWithModel(
+  model: ClassifierModel,
+  text: string,
+  subject?: string
+): ClassificationPrediction | undefined {
+  const tokens = tokenize(`${subject ?? ""} ${text}`).filter((token) =>
+    Object.values(model.tokenCounts).some((counts) => counts[token] !== undefined)
+  );
+  if (tokens.length === 0) return undefined;
+
+  const classes = Object.keys(model.classCounts) as DocumentClassification[];
+
+  // Log posterior per class with Laplace smoothing
+  const scores = classes.map((label) => {
+    const counts = model.tokenCounts[label] ?? {};
+    const denominator = (model.tokenTotals[label] ?? 0) + model.vocabularySize;
+    let score = Math.log(((model.classCounts[label] ?? 0) + 1) / (model.exampleCount + classes.length));
+    for (const token of tokens) {
+      score += Math.log(((counts[token] ?? 0) + 1) / denominator);
+    }
+    return { label, score };
+  });
+
+  // Normalize to probabilities (softmax over log scores)
+  const max = Math.max(...scores.map((entry) => entry.score));
+  const weights = scores.map((entry) => ({ label: entry.label, weight: Math.exp(entry.score - max) }));
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  const best = weights.reduce((a, b) => (b.weight > a.weight ? b : a));
+
+  return {
+    classification: best.label,
+    probability: Math.round((best.weight / total) * 1000) / 1000,
+    modelVersion: model.modelVersion,
+    predictedAt: new Date(),
+  };
+}
+
+/**
+ * Predict a classification with the current model, if one is trained.
+ */
+export async function predictClassification(
+  text: string,
+  subject?: string
+): Promise<ClassificationPrediction | undefined> {
+  const model = await getClassifierModel();
+  return model ? predictWithModel(model, text, subject) : undefined;
+}
+
+/**
+ * The classification a document should have: the user's override, else a
+ * confident prediction, else the fallback (keyword) classification.
+ */
+export function chooseClassification(
+  fallback: DocumentClassification,
+  prediction?: ClassificationPrediction,
+  override?: ClassificationOverride
+): DocumentClassification {
+  if (override) return override.classification;
+  if (prediction && prediction.probability >= CONFIDENT_PROBABILITY) return prediction.classification;
+  return fallback;
+}
+
+/**
+ * Train a new model version and refresh the predictions of all active documents.
+ * Documents fall back to their keyword classification, and are only saved
+ * when their classification or predicted class changes.
+ */
+export async function retrainClassifier(): Promise<ClassifierTrainingResult> {
+  const model = await trainClassifierModel();
+  const result: ClassifierTrainingResult = { model, predicted: 0, reclassified: 0 };
+
+  const documents = (await getActiveDocuments()).filter((document) => document.sourceType !== "calendar");
+  for (const document of documents) {
+    const text = documentText(document);
+    const prediction = predictWithModel(model, text);
+    if (!prediction) continue;
+
+    const classification = chooseClassification(
+      classifyDocument(text),
+      prediction,
+      document.classificationOverride
+    );
+    const reclassified = classification !== document.classification;
+    if (!reclassified && prediction.classification === document.classificationPrediction?.classification) {
+      continue;
+    }
+
+    await documentsStorage.save({ ...document, classification, classificationPrediction: prediction });
+    result.predicted++;
+    if (reclassified) result.reclassified++;
+  }
+
+  return result;
+}
+
+/**
+ * Documents whose prediction is below CONFIDENT_PROBABILITY and that the
+ * user has not classified, least confident first.
+ */
+export async function getClassificationReviewQueue(): Promise<ClassificationReviewItem[]> {
+  const documents = await documentsStorage.find(
+    (document) =>
+      !document.archivedAt &&
+      !document.duplicateOf &&
+      !document.classificationOverride &&
+      !!document.classificationPrediction &&
+      document.classificationPrediction.probability < CONFIDENT_PROBABILITY
+  );
+
+  return documents
+    .map((document) => ({ document, prediction: document.classificationPrediction! }))
+    .sort((a, b) => a.prediction.probability - b.prediction.probability);
+}
@@ -6,18 +6,22 @@
  * - Full-history: Longer interval, processes all matching emails
  *
  * Set STORAGE_BACKEND=sqlite to enable incremental processing with state tracking.
+ * Each run is recorded as a "document_processing" job, which also warns
+ * about draft claims close to their filing deadline.
  */
 
 import type { MedicalDocument } from "../types/medical-document.js";
+import type { Job } from "../types/job.js";
 import { DocumentProcessor } from "./document-processor.js";
+import { findActiveJob, startJob, waitForJob } from "./job-queue.js";
 import { getStorageBackend } from "../storage/repository.js";
+import { documentsStorage } from "../storage/documents.js";
+import { describeDeadline, getDraftClaimDeadlines } from "./filing-deadlines.js";
 
 const DEFAULT_INCREMENTAL_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
 const DEFAULT_FULL_SCAN_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
 const STARTUP_DELAY_MS = 60_000; // wait 60s before first scan so server is responsive
 
-let isRunning = false;
-
 export type ProcessingMode = "incremental" | "full";
 
 export interface ProcessingOptions {
@@ -25,48 +29,80 @@ export interface ProcessingOptions {
 }
 
 /**
- * Run document processing.
+ * Start document processing as a background job.
  *
  * @param trigger - What triggered this run
  * @param options - Processing options
+ * @returns The started job, or null if a processing job is already running
  */
-export async function runDocumentProcessing(
+export function startDocumentProcessingJob(
   trigger: "manual" | "scheduled" | "startup",
   options: ProcessingOptions = {}
-): Promise<MedicalDocument[]> {
-  if (isRunning) {
-    console.log(`[DocumentProcessing] Skipping (${trigger}) - already running`);
-    return [];
+): Job | null {
+  const active = findActiveJob("document_processing");
+  if (active) {
+    console.log(`[DocumentProcessing] Skipping (${trigger}) - already running as job ${active.id}`);
+    return null;
   }
 
   // Determine mode: use SQLite for incremental if available
   const backend = getStorageBackend();
   const mode = options.mode ?? (backend === "sqlite" ? "incremental" : "full");
 
-  isRunning = true;
-  try {
-    console.log(`[DocumentProcessing] Starting (${trigger}, ${mode} mode)...`);
+  return startJob(
+    "document_processing",
+    { trigger, input: { mode } },
+    async (job) => {
+      job.log(`Starting (${trigger}, ${mode} mode)`);
+
+      const processor = new DocumentProcessor({
+        fullHistory: mode === "full",
+        incremental: mode === "incremental",
+        skipExisting: true,
+        processCalendar: true,
+        // Higher concurrency for incremental (less data)
+        emailConcurrency: mode === "incremental" ? 16 : 8,
+        signal: job.signal,
+        onProgress: job.report,
+      });
+
+      const documents = await processor.run(trigger);
+      job.log(`Completed (${trigger}): ${documents.length} documents`);
+
+      const expiring = (await getDraftClaimDeadlines()).filter((d) => d.urgency !== "ok");
+      for (const deadline of expiring) {
+        job.log(describeDeadline(deadline), "warn");
+      }
+      return {
+        processed: documents.length,
+        documentIds: documents.map((doc) => doc.id),
+      };
+    }
+  );
+}
 
-    const processor = new DocumentProcessor({
-      fullHistory: mode === "full",
-      incremental: mode === "incremental",
-      skipExisting: true,
-      processCalendar: true,
-      // Higher concurrency for incremental (less data)
-      emailConcurrency: mode === "incremental" ? 16 : 8,
-    });
+/**
+ * Run document processing and wait for it to finish.
+ *
+ * @param trigger - What triggered this run
+ * @param options - Processing options
+ */
+export async function runDocumentProcessing(
+  trigger: "manual" | "scheduled" | "startup",
+  options: ProcessingOptions = {}
+): Promise<MedicalDocument[]> {
+  const job = startDocumentProcessingJob(trigger, options);
+  if (!job) return [];
 
-    const documents = await processor.run(trigger);
-    console.log(
-      `[DocumentProcessing] Completed (${trigger}): ${documents.length} documents`
-    );
-    return documents;
-  } catch (err) {
-    console.error(`[DocumentProcessing] Failed (${trigger}):`, err);
+  const finished = await waitForJob(job.id);
+  if (finished?.status !== "succeeded") {
+    console.error(`[DocumentProcessing] Failed (${trigger}):`, finished?.error ?? finished?.status);
     return [];
-  } finally {
-    isRunning = false;
   }
+
+  const { documentIds } = finished.result as { documentIds: string[] };
+  const documents = await Promise.all(documentIds.map((id) => documentsStorage.get(id)));
+  return documents.filter((doc): doc is MedicalDocument => !!doc);
 }
 
 /**
@@ -93,17 +129,17 @@ export function startDocumentProcessingSchedule(
 
     // Incremental scan at startup
     setTimeout(() => {
-      void runDocumentProcessing("startup", { mode: "incremental" });
+      startDocumentProcessingJob("startup", { mode: "incremental" });
     }, STARTUP_DELAY_MS);
 
     // Regular incremental scans
     setInterval(() => {
-      void runDocumentProcessing("scheduled", { mode: "incremental" });
+      startDocumentProcessingJob("scheduled", { mode: "incremental" });
     }, incrementalIntervalMs);
 
     // Periodic full rescans
     setInterval(() => {
-      void runDocumentProcessing("scheduled", { mode: "full" });
+      startDocumentProcessingJob("scheduled", { mode: "full" });
     }, fullScanIntervalMs);
   } else {
     // Legacy: full scans every 3 hours
@@ -113,11 +149,11 @@ export function startDocumentProcessingSchedule(
     );
 
     setTimeout(() => {
-      void runDocumentProcessing("startup", { mode: "full" });
+      startDocumentProcessingJob("startup", { mode: "full" });
     }, STARTUP_DELAY_MS);
 
     setInterval(() => {
-      void runDocumentProcessing("scheduled", { mode: "full" });
+      startDocumentProcessingJob("scheduled", { mode: "full" });
     }, legacyInterval);
   }
 }
@@ -1,15 +1,14 @@
 /**
  * Document Processor Service
  *
- * Processes email/attachment/calendar dumps using QweN OCR API
- * to extract and classify medical documents.
+ * Processes email/attachment/calendar dumps from a DocumentSource
+ * (QweN daemon or local mail/calendar files) to extract and classify
+ * medical documents.
  */
 
 import * as path from "node:path";
 import * as fs from "node:fs";
 import {
-  QwenClient,
-  qwenClient,
   canOcr,
   OCR_CAPABILITIES_VERSION,
   type EmailSearchResult,
@@ -17,17 +16,19 @@ import {
   type EmailFTSSearchResponse,
   type CalendarEventSearchResult,
 } from "./qwen-client.js";
+import { createDocumentSourceFromEnv, type DocumentSource } from "./document-source.js";
 import type {
   MedicalDocument,
   CreateMedicalDocumentInput,
-  DocumentClassification,
-  DetectedAmount,
   CalendarAttendee,
 } from "../types/medical-document.js";
 import { MEDICAL_KEYWORDS } from "../types/medical-document.js";
+import type {
+  ProgressReporter,
+  ProcessingProgressStep,
+} from "../types/progress-event.js";
 import {
   createMedicalDocument,
-  archiveDocument,
   findDocumentByEmailId,
   findDocumentByAttachmentPath,
   findDocumentByCalendarEventId,
@@ -38,8 +39,18 @@ import {
   upsertAttachmentProcessingRecord,
 } from "../storage/attachment-processing.js";
 import { ensureStorageDirs } from "../storage/index.js";
-import { buildArchiveReason, findMatchingArchiveRule } from "./archive-rules.js";
+import {
+  applyArchiveRuleActions,
+  applyArchiveRules,
+  buildArchiveReason,
+  findMatchingArchiveRule,
+} from "./archive-rules.js";
 import { PAYMENT_PROOF_KEYWORDS } from "./payment-proof.js";
+import { extractAmounts } from "./locale-extraction.js";
+import { extractInvoiceFields } from "./invoice-fields.js";
+import { chooseClassification, predictClassification } from "./document-classifier.js";
+import { classifyDocument } from "./keyword-classifier.js";
+import { detectDuplicate, hashFile } from "./duplicate-detection.js";
 import {
   TimingCollector,
   formatRunMetrics,
@@ -57,220 +68,23 @@ import {
 } from "../storage/processing-state.js";
 
 /**
- * Amount extraction patterns.
- * Matches various currency formats.
+ * Classify document content with the trained model when one exists,
+ * falling back to keywords. A user override on the existing document wins.
  */
-const AMOUNT_PATTERNS = [
-  // EUR 80.00, USD 160.00, GBP 145.07 (decimal optional)
-  /\b(EUR|USD|GBP|CHF|CAD|AUD)\s*([0-9]{1,3}(?:[,.]?[0-9]{3})*(?:[.,][0-9]{2})?)\b/gi,
-  // €80.00, $160.00, £145.07 (decimal optional)
-  /([€$£])\s*([0-9]{1,3}(?:[,.]?[0-9]{3})*(?:[.,][0-9]{2})?)\b/g,
-  // 80.00 EUR, 160.00 USD (decimal optional)
-  /\b([0-9]{1,3}(?:[,.]?[0-9]{3})*(?:[.,][0-9]{2})?)\s*(EUR|USD|GBP|CHF|CAD|AUD)\b/gi,
-  // 160 € or 80 € (whole number with currency symbol after - European format)
-  // Note: no trailing \b since € is not a word char
-  /\b([0-9]{1,3}(?:[,.]?[0-9]{3})*)\s*([€$£])(?![0-9])/g,
-  // Generic amounts with context (Total: 80.00)
-  /(?:total|amount|sum|fee|charge|cost|price|bill)[:\s]*([0-9]{1,3}(?:[,.]?[0-9]{3})*(?:[.,][0-9]{2})?)/gi,
-];
-
-/**
- * Currency symbol to code mapping.
- */
-const CURRENCY_SYMBOLS: Record<string, string> = {
-  "€": "EUR",
-  "$": "USD",
-  "£": "GBP",
-};
-
-
-/**
- * Extract amounts from text.
- */
-export function extractAmounts(text: string): DetectedAmount[] {
-  const amounts: DetectedAmount[] = [];
-  const seen = new Set<string>();
-
-  for (const pattern of AMOUNT_PATTERNS) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      let value: number;
-      let currency: string;
-      let rawText = match[0];
-
-      if (match[1] && CURRENCY_SYMBOLS[match[1]]) {
-        // Symbol format (€80.00)
-        currency = CURRENCY_SYMBOLS[match[1]]!;
-        value = parseFloat(match[2]!.replace(",", ""));
-      } else if (match[2] && CURRENCY_SYMBOLS[match[2]]) {
-        // European format: number then symbol (160 €)
-        currency = CURRENCY_SYMBOLS[match[2]]!;
-        value = parseFloat(match[1]!.replace(",", ""));
-      } else if (match[1] && match[1].match(/[A-Z]{3}/)) {
-        // Currency code first (EUR 80.00)
-        currency = match[1].toUpperCase();
-        value = parseFloat(match[2]!.replace(",", ""));
-      } else if (match[2] && match[2].match(/[A-Z]{3}/i)) {
-        // Currency code last (80.00 EUR)
-        currency = match[2].toUpperCase();
-        value = parseFloat(match[1]!.replace(",", ""));
-      } else {
-        // Generic amount without currency
-        currency = "EUR"; // Default
-        value = parseFloat(match[1]!.replace(",", ""));
-      }
-
-      // Deduplicate
-      const key = `${value}-${currency}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-
-      // Get context (surrounding text)
-      const start = Math.max(0, match.index - 50);
-      const end = Math.min(text.length, match.index + match[0].length + 50);
-      const context = text.slice(start, end).replace(/\s+/g, " ").trim();
-
-      amounts.push({
-        value,
-        currency,
-        rawText,
-        context,
-        confidence: currency !== "EUR" ? 90 : 70, // Higher confidence if currency is explicit
-      });
-    }
-  }
-
-  // Sort by value descending
-  return amounts.sort((a, b) => b.value - a.value);
-}
-
-/**
- * Classify document based on content.
- */
-export function classifyDocument(
+export async function classifyWithModel(
   text: string,
   subject?: string,
-  isCalendarEvent: boolean = false
-): DocumentClassification {
-  // Calendar events are appointments by default
-  if (isCalendarEvent) {
-    return "appointment";
-  }
-
-  const combined = `${subject ?? ""} ${text}`.toLowerCase();
-
-  // Check for specific document types
-  const classifications: Array<{
-    type: DocumentClassification;
-    keywords: string[];
-    score: number;
-  }> = [
-      {
-        type: "medical_bill",
-        keywords: [
-          "invoice",
-          "bill",
-          "rechnung",
-          "facture",
-          "amount due",
-          "total due",
-          "payment due",
-          "please pay",
-          "account statement",
-        ],
-        score: 0,
-      },
-      {
-        type: "receipt",
-        keywords: [
-          "receipt",
-          "quittung",
-          "paid",
-          "payment received",
-          "thank you for your payment",
-          "reçu",
-        ],
-        score: 0,
-      },
-      {
-        type: "prescription",
-        keywords: [
-          "prescription",
-          "rx",
-          "dosage",
-          "medication",
-          "drug",
-          "pharmacy",
-          "rezept",
-        ],
-        score: 0,
-      },
-      {
-        type: "lab_result",
-        keywords: [
-          "lab result",
-          "test result",
-          "blood test",
-          "analysis",
-          "laboratory",
-          "laborbefund",
-        ],
-        score: 0,
-      },
-      {
-        type: "insurance_statement",
-        keywords: [
-          "explanation of benefits",
-          "eob",
-          "claim summary",
-          "insurance statement",
-          "coverage",
-          "reimbursement",
-        ],
-        score: 0,
-      },
-      {
-        type: "appointment",
-        keywords: [
-          "appointment",
-          "termin",
-          "rendez-vous",
-          "session",
-          "visit",
-          "consultation",
-          "meeting with doctor",
-        ],
-        score: 0,
-      },
-      {
-        type: "correspondence",
-        keywords: [
-          "dear",
-          "confirmation",
-          "reminder",
-          "follow-up",
-          "referral",
-        ],
-        score: 0,
-      },
-    ];
-
-  // Score each classification
-  for (const cls of classifications) {
-    for (const keyword of cls.keywords) {
-      if (combined.includes(keyword)) {
-        cls.score += 1;
-      }
-    }
-  }
-
-  // Find highest scoring
-  classifications.sort((a, b) => b.score - a.score);
-  if (classifications[0]!.score > 0) {
-    return classifications[0]!.type;
-  }
-
-  return "unknown";
+  existing?: Pick<MedicalDocument, "classificationOverride"> | null
+): Promise<Pick<MedicalDocument, "classification" | "classificationPrediction">> {
+  const prediction = await predictClassification(text, subject);
+  return {
+    classification: chooseClassification(
+      classifyDocument(text, subject),
+      prediction,
+      existing?.classificationOverride
+    ),
+    ...(prediction && { classificationPrediction: prediction }),
+  };
 }
 
 /**
@@ -293,6 +107,28 @@ export function extractMedicalKeywords(text: string): string[] {
   );
 }
 
+/**
+ * MIME types of the scans accepted from the drop folder (PDFs and images).
+ */
+const DROPPED_FILE_MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".tiff": "image/tiff",
+  ".tif": "image/tiff",
+};
+
+/**
+ * Check if a drop-folder file is a PDF or image the processor accepts.
+ */
+export function isDroppableFile(filename: string): boolean {
+  return path.extname(filename).toLowerCase() in DROPPED_FILE_MIME_TYPES && canOcr(filename);
+}
+
 /**
  * Check if text looks like proof-of-payment content.
  */
@@ -305,8 +141,8 @@ function isPaymentProofRelated(text: string, subject?: string): boolean {
  * Document processor configuration.
  */
 export interface ProcessorConfig {
-  /** QweN API client */
-  client?: QwenClient;
+  /** OCR and search backend (default: selected by DOCUMENT_SOURCE) */
+  source?: DocumentSource;
   /** Accounts to process (empty = all) */
   accounts?: string[];
   /** Search queries for finding medical emails */
@@ -333,6 +169,10 @@ export interface ProcessorConfig {
   incremental?: boolean;
   /** Window size in days for incremental processing (default: 30) */
   windowDays?: number;
+  /** Stops the run early when aborted (e.g., job cancellation) */
+  signal?: AbortSignal;
+  /** Receives phase and per-email progress */
+  onProgress?: ProgressReporter<ProcessingProgressStep>;
 }
 
 const DEFAULT_SEARCH_QUERIES = [
@@ -378,19 +218,21 @@ const ATTACHMENT_PROCESSOR_VERSION = 2;
 const DEFAULT_QUERY_CONCURRENCY = 2;
 const DEFAULT_EMAIL_CONCURRENCY = 8;
 const DEFAULT_OCR_CONCURRENCY = 2;
+/** Emails between progress reports */
+const EMAIL_PROGRESS_INTERVAL = 25;
 
 /**
  * Document processor service.
  */
 export class DocumentProcessor {
-  private client: QwenClient;
+  private source: DocumentSource;
   private config: ProcessorConfig;
   private timing: TimingCollector | null = null;
   private lastRunMetrics: RunMetrics | null = null;
   private ocrSemaphore: Semaphore;
 
   constructor(config: ProcessorConfig = {}) {
-    this.client = config.client ?? qwenClient;
+    this.source = config.source ?? createDocumentSourceFromEnv();
     this.config = {
       searchQueries: config.searchQueries ?? DEFAULT_SEARCH_QUERIES,
       calendarQueries: config.calendarQueries ?? DEFAULT_CALENDAR_QUERIES,
@@ -413,6 +255,12 @@ export class DocumentProcessor {
     if (config.maxCalendarEventsPerQuery !== undefined) {
       this.config.maxCalendarEventsPerQuery = config.maxCalendarEventsPerQuery;
     }
+    if (config.signal) {
+      this.config.signal = config.signal;
+    }
+    if (config.onProgress) {
+      this.config.onProgress = config.onProgress;
+    }
 
     // OCR semaphore to limit concurrent OCR operations
     this.ocrSemaphore = new Semaphore(this.config.ocrConcurrency!);
@@ -431,7 +279,9 @@ export class DocumentProcessor {
     const emailText = `${email.subject} ${email.body ?? email.snippet}`;
     const archiveRule = await findMatchingArchiveRule({
       fromAddress: email.from,
+      toAddress: email.to,
       subject: email.subject,
+      account: email.account,
     });
 
     if (archiveRule) {
@@ -440,11 +290,7 @@ export class DocumentProcessor {
         : null;
 
       if (existing) {
-        const archived = await archiveDocument(existing.id, {
-          reason: buildArchiveReason(archiveRule),
-          ruleId: archiveRule.id,
-        });
-        documents.push(archived ?? existing);
+        documents.push((await applyArchiveRuleActions(existing, archiveRule)).document);
       } else {
         const emailDoc: CreateMedicalDocumentInput = {
           sourceType: "email",
@@ -465,7 +311,7 @@ export class DocumentProcessor {
           archivedReason: buildArchiveReason(archiveRule),
         };
         const doc = await createMedicalDocument(emailDoc);
-        documents.push(doc);
+        documents.push((await applyArchiveRuleActions(doc, archiveRule)).document);
       }
     } else if (isMedicalRelated(emailText) || isPaymentProofRelated(emailText, email.subject)) {
       // Check if already processed - only skip the email body, NOT attachments
@@ -491,12 +337,12 @@ export class DocumentProcessor {
           ocrText: email.body ?? email.snippet,
           ocrCharCount: (email.body ?? email.snippet).length,
           detectedAmounts: extractAmounts(emailText),
-          classification: classifyDocument(email.body ?? email.snippet, email.subject),
+          ...(await classifyWithModel(email.body ?? email.snippet, email.subject)),
           medicalKeywords: extractMedicalKeywords(emailText),
         };
 
         const doc = await createMedicalDocument(emailDoc);
-        documents.push(doc);
+        documents.push(await applyArchiveRules(doc));
       }
     }
 
@@ -505,8 +351,8 @@ export class DocumentProcessor {
       try {
         // Fetch full email to get attachment details
         const fullEmail = this.timing
-          ? await this.timing.time("getEmail", () => this.client.getEmail(email.id, email.account))
-          : await this.client.getEmail(email.id, email.account);
+          ? await this.timing.time("getEmail", () => this.source.getEmail(email.id, email.account))
+          : await this.source.getEmail(email.id, email.account);
         if (fullEmail.status === "success" && fullEmail.email?.attachments) {
           for (const attachment of fullEmail.email.attachments) {
             try {
@@ -558,8 +404,10 @@ export class DocumentProcessor {
 
     const archiveRule = await findMatchingArchiveRule({
       fromAddress: email.from,
+      toAddress: email.to,
       subject: email.subject,
       attachmentName: attachment.filename,
+      account: email.account,
     });
 
     // Check if file exists
@@ -571,11 +419,7 @@ export class DocumentProcessor {
     if (archiveRule) {
       const existing = await findDocumentByAttachmentPath(attachmentPath);
       if (existing) {
-        const archived = await archiveDocument(existing.id, {
-          reason: buildArchiveReason(archiveRule),
-          ruleId: archiveRule.id,
-        });
-        return archived ?? existing;
+        return (await applyArchiveRuleActions(existing, archiveRule)).document;
       }
 
       const archivedDoc: CreateMedicalDocumentInput = {
@@ -598,7 +442,8 @@ export class DocumentProcessor {
         archivedReason: buildArchiveReason(archiveRule),
       };
 
-      return createMedicalDocument(archivedDoc);
+      const doc = await createMedicalDocument(archivedDoc);
+      return (await applyArchiveRuleActions(doc, archiveRule)).document;
     }
 
     // Check if file can be OCR'd
@@ -636,8 +481,8 @@ export class DocumentProcessor {
     // OCR the attachment (rate-limited via semaphore)
     const ocrResult = await this.ocrSemaphore.withPermit(async () => {
       return this.timing
-        ? await this.timing.time("ocrDocument", () => this.client.ocrDocument(attachmentPath), { attachmentPath })
-        : await this.client.ocrDocument(attachmentPath);
+        ? await this.timing.time("ocrDocument", () => this.source.ocrDocument(attachmentPath), { attachmentPath })
+        : await this.source.ocrDocument(attachmentPath);
     });
 
     if (ocrResult.status !== "success" || !ocrResult.text) {
@@ -676,11 +521,13 @@ export class DocumentProcessor {
     }
 
     // Create/update document
+    const contentHash = await hashFile(attachmentPath);
     const docInput: CreateMedicalDocumentInput = {
       sourceType: "attachment",
       emailId: email.id,
       account: email.account,
       attachmentPath,
+      ...(contentHash && { contentHash }),
       filename: attachment.filename,
       mimeType: attachment.mime_type,
       fileSize: attachment.size,
@@ -691,15 +538,15 @@ export class DocumentProcessor {
       ocrText,
       ocrCharCount: ocrResult.char_count ?? ocrText.length,
       detectedAmounts: extractAmounts(ocrText),
-      classification: classifyDocument(ocrText, email.subject),
+      extractedFields: extractInvoiceFields(ocrText),
+      ...(await classifyWithModel(ocrText, email.subject, existing)),
       medicalKeywords: extractMedicalKeywords(ocrText),
     };
 
-    if (existing) {
-      return updateMedicalDocument(existing.id, docInput);
-    }
-
-    return createMedicalDocument(docInput);
+    const doc = existing
+      ? await updateMedicalDocument(existing.id, docInput)
+      : await createMedicalDocument(docInput);
+    return doc && applyArchiveRules(await detectDuplicate(doc));
   }
 
   /**
@@ -732,10 +579,10 @@ export class DocumentProcessor {
 
       const searchResult = this.timing
         ? await this.timing.time("searchEmailsFTS", () =>
-          this.client.searchEmailsFTS(query, options),
+          this.source.searchEmailsFTS(query, options),
           { query, afterDate, beforeDate }
         )
-        : await this.client.searchEmailsFTS(query, options);
+        : await this.source.searchEmailsFTS(query, options);
 
       if (searchResult.status !== "success" || !searchResult.results) {
         console.warn(`Search failed for query "${query}":`, searchResult.error);
@@ -804,10 +651,10 @@ export class DocumentProcessor {
 
       let searchResult = this.timing
         ? await this.timing.time("searchEmailsFTS", () =>
-          this.client.searchEmailsFTS(query, { ...baseOptions, limit: initialLimit }),
+          this.source.searchEmailsFTS(query, { ...baseOptions, limit: initialLimit }),
           { query }
         )
-        : await this.client.searchEmailsFTS(query, { ...baseOptions, limit: initialLimit });
+        : await this.source.searchEmailsFTS(query, { ...baseOptions, limit: initialLimit });
 
       const totalMatches = searchResult.total_matches ?? searchResult.count ?? 0;
       const desiredLimit = this.config.fullHistory
@@ -823,10 +670,10 @@ export class DocumentProcessor {
       ) {
         searchResult = this.timing
           ? await this.timing.time("searchEmailsFTS", () =>
-            this.client.searchEmailsFTS(query, { ...baseOptions, limit: desiredLimit }),
+            this.source.searchEmailsFTS(query, { ...baseOptions, limit: desiredLimit }),
             { query, fullHistory: true }
           )
-          : await this.client.searchEmailsFTS(query, { ...baseOptions, limit: desiredLimit });
+          : await this.source.searchEmailsFTS(query, { ...baseOptions, limit: desiredLimit });
       }
 
       if (searchResult.status !== "success" || !searchResult.results) {
@@ -860,15 +707,37 @@ export class DocumentProcessor {
     });
 
     console.log(`[FTS] Processing ${uniqueEmails.length} unique emails (concurrency: ${this.config.emailConcurrency})`);
+    this.config.onProgress?.({
+      step: "emails",
+      message: `Processing ${uniqueEmails.length} emails`,
+      current: 0,
+      total: uniqueEmails.length,
+    });
 
     // Process emails with higher concurrency
+    let emailsDone = 0;
     const allDocuments = await flatMapWithConcurrencySettled(
       uniqueEmails,
       this.config.emailConcurrency!,
       async (email) => {
-        return this.timing
-          ? await this.timing.time("processEmail", () => this.processEmail(email))
-          : await this.processEmail(email);
+        // Skip remaining emails once cancelled; run() throws afterwards
+        if (this.config.signal?.aborted) return [];
+        try {
+          return this.timing
+            ? await this.timing.time("processEmail", () => this.processEmail(email))
+            : await this.processEmail(email);
+        } finally {
+          emailsDone++;
+          // Report in batches; thousands of emails would flood the event stream
+          if (emailsDone % EMAIL_PROGRESS_INTERVAL === 0 || emailsDone === uniqueEmails.length) {
+            this.config.onProgress?.({
+              step: "emails",
+              message: `Processed ${emailsDone}/${uniqueEmails.length} emails`,
+              current: emailsDone,
+              total: uniqueEmails.length,
+            });
+          }
+        }
       },
       (email, err) => console.error(`Failed to process email ${email.id}:`, err)
     );
@@ -937,7 +806,7 @@ export class DocumentProcessor {
           }
 
           // OCR the file
-          const ocrResult = await this.client.ocrDocument(attachmentPath);
+          const ocrResult = await this.source.ocrDocument(attachmentPath);
 
           if (ocrResult.status !== "success" || !ocrResult.text) {
             await upsertAttachmentProcessingRecord({
@@ -973,16 +842,23 @@ export class DocumentProcessor {
             continue;
           }
 
+          const contentHash = await hashFile(attachmentPath);
+          // No email to take the date from; use the one printed on the invoice
+          const extractedFields = extractInvoiceFields(ocrText);
+          const invoiceDate = extractedFields.invoiceDate?.value;
           const docInput: CreateMedicalDocumentInput = {
             sourceType: "attachment",
             emailId,
             account,
             attachmentPath,
+            ...(contentHash && { contentHash }),
+            ...(invoiceDate && { date: invoiceDate }),
             filename,
             ocrText,
             ocrCharCount: ocrResult.char_count ?? ocrText.length,
             detectedAmounts: extractAmounts(ocrText),
-            classification: classifyDocument(ocrText),
+            extractedFields,
+            ...(await classifyWithModel(ocrText, undefined, existing)),
             medicalKeywords: extractMedicalKeywords(ocrText),
           };
 
@@ -990,7 +866,7 @@ export class DocumentProcessor {
             ? await updateMedicalDocument(existing.id, docInput)
             : await createMedicalDocument(docInput);
           if (doc) {
-            documents.push(doc);
+            documents.push(await applyArchiveRules(await detectDuplicate(doc)));
           }
         } catch (err) {
           console.error(`Failed to process ${attachmentPath}:`, err);
@@ -1001,6 +877,80 @@ export class DocumentProcessor {
     return documents;
   }
 
+  /**
+   * Process a file dropped into the watched drop folder (e.g. a scanned
+   * paper receipt). Runs the same archive-rule, OCR, amount extraction and
+   * classification steps as email attachments, but without the medical
+   * keyword filter: dropping a file is a deliberate choice.
+   *
+   * Each file becomes exactly one manual_upload document, keyed by its path;
+   * returns null if the file was handled before or cannot be OCR'd.
+   */
+  async processDroppedFile(filePath: string): Promise<MedicalDocument | null> {
+    const filename = path.basename(filePath);
+    if (!isDroppableFile(filename)) return null;
+
+    if (await findDocumentByAttachmentPath(filePath)) {
+      return null;
+    }
+
+    const fileStats = fs.statSync(filePath);
+    const contentHash = await hashFile(filePath);
+    const fileInput = {
+      sourceType: "manual_upload" as const,
+      attachmentPath: filePath,
+      ...(contentHash && { contentHash }),
+      filename,
+      mimeType: DROPPED_FILE_MIME_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream",
+      fileSize: fileStats.size,
+    };
+
+    const archiveRule = await findMatchingArchiveRule({ attachmentName: filename });
+    if (archiveRule) {
+      const doc = await createMedicalDocument({
+        ...fileInput,
+        date: fileStats.mtime,
+        detectedAmounts: [],
+        classification: "unknown",
+        medicalKeywords: [],
+        archivedAt: new Date(),
+        archivedByRuleId: archiveRule.id,
+        archivedReason: buildArchiveReason(archiveRule),
+      });
+      return (await applyArchiveRuleActions(doc, archiveRule)).document;
+    }
+
+    const ocrResult = await this.ocrSemaphore.withPermit(() => this.source.ocrDocument(filePath));
+
+    // Keep unreadable scans as documents too, so they are not retried on every scan
+    if (ocrResult.status !== "success" || !ocrResult.text) {
+      console.warn(`OCR failed for ${filename}:`, ocrResult.error);
+      const doc = await createMedicalDocument({
+        ...fileInput,
+        date: fileStats.mtime,
+        detectedAmounts: [],
+        classification: "unknown",
+        medicalKeywords: [],
+      });
+      return applyArchiveRules(await detectDuplicate(doc));
+    }
+
+    const ocrText = ocrResult.text;
+    // The file date is when it was scanned; prefer the one printed on the invoice
+    const extractedFields = extractInvoiceFields(ocrText);
+    const doc = await createMedicalDocument({
+      ...fileInput,
+      date: extractedFields.invoiceDate?.value ?? fileStats.mtime,
+      ocrText,
+      ocrCharCount: ocrResult.char_count ?? ocrText.length,
+      detectedAmounts: extractAmounts(ocrText),
+      extractedFields,
+      ...(await classifyWithModel(ocrText)),
+      medicalKeywords: extractMedicalKeywords(ocrText),
+    });
+    return applyArchiveRules(await detectDuplicate(doc));
+  }
+
   /**
    * Process a single calendar event.
    */
@@ -1073,7 +1023,7 @@ export class DocumentProcessor {
       subject: event.summary,
     };
 
-    return createMedicalDocument(docInput);
+    return applyArchiveRules(await createMedicalDocument(docInput));
   }
 
   /**
@@ -1099,10 +1049,10 @@ export class DocumentProcessor {
 
       let searchResult = this.timing
         ? await this.timing.time("searchCalendarFTS", () =>
-          this.client.searchCalendarFTS(query, { ...baseOptions, limit: initialLimit }),
+          this.source.searchCalendarFTS(query, { ...baseOptions, limit: initialLimit }),
           { query }
         )
-        : await this.client.searchCalendarFTS(query, { ...baseOptions, limit: initialLimit });
+        : await this.source.searchCalendarFTS(query, { ...baseOptions, limit: initialLimit });
 
       const totalMatches = searchResult.total_matches ?? searchResult.count ?? 0;
       const desiredLimit = this.config.fullHistory
@@ -1118,10 +1068,10 @@ export class DocumentProcessor {
       ) {
         searchResult = this.timing
           ? await this.timing.time("searchCalendarFTS", () =>
-            this.client.searchCalendarFTS(query, { ...baseOptions, limit: desiredLimit }),
+            this.source.searchCalendarFTS(query, { ...baseOptions, limit: desiredLimit }),
             { query, fullHistory: true }
           )
-          : await this.client.searchCalendarFTS(query, { ...baseOptions, limit: desiredLimit });
+          : await this.source.searchCalendarFTS(query, { ...baseOptions, limit: desiredLimit });
       }
 
       if (searchResult.status !== "success" || !searchResult.results) {
@@ -1199,19 +1149,28 @@ export class DocumentProcessor {
       () => this.processEmailsFromSearch()
     );
     console.log(`Processed ${emailDocs.length} email/attachment documents`);
+    this.config.signal?.throwIfAborted();
 
     // Process calendar events if enabled
     let calendarDocs: MedicalDocument[] = [];
     if (this.config.processCalendar) {
+      this.config.onProgress?.({ step: "calendar", message: "Processing calendar events" });
       calendarDocs = await this.timing.time(
         "processCalendarEventsFromSearch",
         () => this.processCalendarEventsFromSearch()
       );
       console.log(`Processed ${calendarDocs.length} calendar documents`);
+      this.config.signal?.throwIfAborted();
     }
 
     const allDocs = [...emailDocs, ...calendarDocs];
     console.log(`Total: ${allDocs.length} medical documents processed`);
+    this.config.onProgress?.({
+      step: "complete",
+      message: `${allDocs.length} medical documents processed`,
+      current: allDocs.length,
+      total: allDocs.length,
+    });
 
     // Finalize and log metrics
     this.lastRunMetrics = this.timing.finalize(allDocs.length);
@@ -0,0 +1,109 @@
+/**
+ * Document Source
+ *
+ * Provider interface for the OCR and email/calendar search backend used by
+ * the document processor. Implementations:
+ * - QwenClient: the local QweN daemon (default)
+ * - LocalDocumentSource: Maildir/mbox and .ics files on disk, OCR via tesseract
+ */
+
+import * as path from "node:path";
+import {
+  qwenClient,
+  type OcrDocumentResponse,
+  type EmailFTSSearchResponse,
+  type CalendarFTSSearchResponse,
+  type GetEmailResponse,
+} from "./qwen-client.js";
+import { LocalDocumentSource } from "./local-document-source.js";
+
+/**
+ * Search options shared by email and calendar search.
+ * Dates are YYYY-MM-DD; afterDate is inclusive, beforeDate exclusive.
+ */
+export interface DocumentSearchOptions {
+  account?: string;
+  afterDate?: string;
+  beforeDate?: string;
+  limit?: number;
+}
+
+/**
+ * Backend providing OCR and email/calendar search.
+ */
+export interface DocumentSource {
+  /** Backend identifier (e.g. "qwen", "local") */
+  readonly name: string;
+
+  /**
+   * OCR a document (image or PDF).
+   *
+   * @param filePath - Path to the file to OCR
+   * @param pages - For PDFs, which pages to process (default: "all")
+   * @param dpi - DPI for PDF rendering (default: 200)
+   */
+  ocrDocument(filePath: string, pages?: string, dpi?: number): Promise<OcrDocumentResponse>;
+
+  /** BM25-ranked email search returning full entities */
+  searchEmailsFTS(query: string, options?: DocumentSearchOptions): Promise<EmailFTSSearchResponse>;
+
+  /** Fetch a full email; attachments carry a local `path` when available */
+  getEmail(emailId: string, account?: string): Promise<GetEmailResponse>;
+
+  /** BM25-ranked calendar search returning full entities */
+  searchCalendarFTS(query: string, options?: DocumentSearchOptions): Promise<CalendarFTSSearchResponse>;
+}
+
+/**
+ * Split a path list env var (":" separated, ";" on Windows).
+ */
+function envPathList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(path.delimiter)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Create the document source selected by DOCUMENT_SOURCE.
+ *
+ * - `qwen` (default): the QweN daemon client
+ * - `local`: LOCAL_MAIL_PATHS (Maildir dirs or mbox files), LOCAL_CALENDAR_PATHS
+ *   (.ics files or dirs), LOCAL_ATTACHMENTS_DIR, TESSERACT_BIN, TESSERACT_LANG
+ *
+ * Mail paths may be prefixed with `account=` to name the account.
+ */
+export function createDocumentSourceFromEnv(): DocumentSource {
+  const kind = (process.env.DOCUMENT_SOURCE ?? "qwen").trim().toLowerCase();
+
+  switch (kind) {
+    case "qwen":
+      return qwenClient;
+    case "local": {
+      const mailPaths = envPathList(process.env.LOCAL_MAIL_PATHS);
+      const calendarPaths = envPathList(process.env.LOCAL_CALENDAR_PATHS);
+      if (mailPaths.length === 0 && calendarPaths.length === 0) {
+        throw new Error("DOCUMENT_SOURCE=local requires LOCAL_MAIL_PATHS or LOCAL_CALENDAR_PATHS");
+      }
+
+      const attachmentsDir = process.env.LOCAL_ATTACHMENTS_DIR;
+      const tesseractBin = process.env.TESSERACT_BIN;
+      const tesseractLang = process.env.TESSERACT_LANG;
+
+      return new LocalDocumentSource({
+        mail: mailPaths.map((entry) => {
+          const eq = entry.indexOf("=");
+          return eq > 0
+            ? { path: entry.slice(eq + 1), account: entry.slice(0, eq) }
+            : { path: entry };
+        }),
+        calendars: calendarPaths,
+        ...(attachmentsDir && { attachmentsDir }),
+        ...(tesseractBin && { tesseractBin }),
+        ...(tesseractLang && { tesseractLang }),
+      });
+    }
+    default:
+      throw new Error(`Unknown DOCUMENT_SOURCE: ${kind} (expected "qwen" or "local")`);
+  }
+}
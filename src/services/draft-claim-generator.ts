@@ -20,10 +20,11 @@ import {
 import { toDraftClaimPayment, createEmptyPayment } from "./draft-claim-payments.js";
 import { dedupeIds } from "./ids.js";
 import { resolvePaymentProofDocuments } from "./payment-proof.js";
+import { draftPrefillFromDocument } from "./invoice-fields.js";
 
 /**
  * Get all documents from the same email thread as the primary document.
- * Excludes calendar documents and archived documents.
+ * Excludes calendar documents, archived documents and merged duplicates.
  */
 function getEmailThreadDocuments(
     primaryDocument: MedicalDocument,
@@ -35,6 +36,7 @@ function getEmailThreadDocuments(
     return allDocuments.filter(
         (doc) =>
             !doc.archivedAt &&
+            !doc.duplicateOf &&
             doc.emailId === emailId &&
             doc.sourceType !== "calendar"
     );
@@ -102,10 +104,16 @@ export async function generateDraftClaims(
     // Filter candidates: bill-like attachments, not already assigned or drafted.
     // medical_bill documents pass even without a detected payment signal —
     // the classification itself is evidence of an invoice.
+    // Duplicates (merged or awaiting review) never start a draft.
+    // Manual uploads count once OCR'd (drop-folder scans); plain uploads
+    // are proof files for existing drafts.
     const candidates = documents.filter(
         (document) =>
-            document.sourceType === "attachment" &&
+            (document.sourceType === "attachment" ||
+                (document.sourceType === "manual_upload" && !!document.ocrText)) &&
             !document.archivedAt &&
+            !document.duplicateOf &&
+            !document.duplicateCandidate &&
             billLikeClasses.has(document.classification) &&
             (hasPaymentSignal(document) || document.classification === "medical_bill") &&
             !assignedDocumentIds.has(document.id) &&
@@ -140,6 +148,8 @@ export async function generateDraftClaims(
             documentIds,
             payment,
             ...(proofIds.length > 0 && { paymentProofDocumentIds: proofIds }),
+            ...draftPrefillFromDocument(document),
+            ...(document.illnessId && { illnessId: document.illnessId }),
         });
 
         createdDrafts.push(draft);
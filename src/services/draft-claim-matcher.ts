@@ -9,6 +9,9 @@
  * 3. HEURISTIC - Match by amount + currency + patient + date (high confidence)
  * 4. HEURISTIC - Match by amount + currency + patient (medium confidence)
  *
+ * Amounts in different currencies are compared after converting at the
+ * treatment-date exchange rate; such matches are at most medium confidence.
+ *
  * The key insight: when a draft claim is submitted to Cigna, we can capture
  * the submissionNumber. When we scrape claims from Cigna, they have submissionNumbers.
  * Matching on submissionNumber is GUARANTEED to be correct.
@@ -23,6 +26,8 @@ import { draftClaimsStorage, updateDraftClaim } from "../storage/draft-claims.js
 import { documentsStorage } from "../storage/documents.js";
 import { patientsStorage } from "../storage/patients.js";
 import { illnessesStorage } from "../storage/illnesses.js";
+import { runInTransaction } from "../storage/unit-of-work.js";
+import { loadFxRateTable, type FxRateTable, type FxConversion } from "./fx-rates.js";
 
 // =============================================================================
 // TYPES
@@ -61,6 +66,10 @@ export interface DraftClaimMatch {
     scrapedCurrency?: string;
     scrapedPatient?: string;
     scrapedTreatmentDate?: string;
+    /** Draft amount in the scraped claim currency (cross-currency only) */
+    convertedDraftAmount?: number;
+    exchangeRate?: number;
+    exchangeRateDate?: string;
   };
 }
 
@@ -136,11 +145,50 @@ function treatmentDatesMatch(draftDate: Date | null, scraped: ScrapedClaim): boo
 }
 
 /**
- * Check if amounts match within tolerance.
- * Allows for small rounding differences (0.01 tolerance).
+ * Relative tolerance for amounts compared through an exchange rate.
+ * Cigna's conversion rate rarely equals the reference rate exactly.
+ */
+const FX_AMOUNT_TOLERANCE = 0.02;
+
+/**
+ * Check if a draft amount matches a scraped claim amount.
+ * Same currency: 0.01 tolerance for rounding. Different currencies: the
+ * draft amount is converted at the rate nearest the treatment date and
+ * must be within FX_AMOUNT_TOLERANCE.
  */
-function amountsMatch(amount1: number, amount2: number): boolean {
-  return Math.abs(amount1 - amount2) < 0.01;
+function compareDraftAmount(
+  draftAmount: number,
+  draftCurrency: string,
+  scrapedAmount: number,
+  scrapedCurrency: string,
+  treatmentDate: Date,
+  fxRates: FxRateTable
+): { match: boolean; conversion?: FxConversion } {
+  if (draftCurrency === scrapedCurrency) {
+    return { match: Math.abs(draftAmount - scrapedAmount) < 0.01 };
+  }
+
+  const conversion = fxRates.convert(draftAmount, draftCurrency, scrapedCurrency, treatmentDate);
+  if (!conversion || scrapedAmount <= 0) return { match: false };
+
+  return {
+    match: Math.abs(conversion.amount - scrapedAmount) / scrapedAmount <= FX_AMOUNT_TOLERANCE,
+    conversion,
+  };
+}
+
+/**
+ * Check if a draft's payment matches a scraped claim amount.
+ */
+function amountsMatch(draft: DraftClaim, scraped: ScrapedClaim, fxRates: FxRateTable): boolean {
+  return compareDraftAmount(
+    draft.payment.amount,
+    draft.payment.currency,
+    scraped.claimAmount,
+    scraped.claimCurrency,
+    scraped.treatmentDate,
+    fxRates
+  ).match;
 }
 
 /**
@@ -166,7 +214,8 @@ async function getDraftPatientName(draft: DraftClaim): Promise<string | null> {
  */
 async function findDirectMatch(
   scraped: ScrapedClaim,
-  drafts: DraftClaim[]
+  drafts: DraftClaim[],
+  fxRates: FxRateTable
 ): Promise<DraftClaimMatch | null> {
   // Strategy 1: Find draft with matching submissionNumber
   if (scraped.submissionNumber) {
@@ -182,7 +231,7 @@ async function findDirectMatch(
         matchDetails: {
           submissionNumberMatch: true,
           scrapedClaimIdMatch: false,
-          amountMatch: amountsMatch(matchingDraft.payment.amount, scraped.claimAmount),
+          amountMatch: amountsMatch(matchingDraft, scraped, fxRates),
           currencyMatch: matchingDraft.payment.currency === scraped.claimCurrency,
           patientMatch: true, // Assumed true for direct match
           treatmentDateMatch: true, // Assumed true for direct match
@@ -202,7 +251,7 @@ async function findDirectMatch(
       matchDetails: {
         submissionNumberMatch: false,
         scrapedClaimIdMatch: true,
-        amountMatch: amountsMatch(matchingDraft.payment.amount, scraped.claimAmount),
+        amountMatch: amountsMatch(matchingDraft, scraped, fxRates),
         currencyMatch: matchingDraft.payment.currency === scraped.claimCurrency,
         patientMatch: true,
         treatmentDateMatch: true,
@@ -219,7 +268,8 @@ async function findDirectMatch(
  */
 async function findHeuristicMatches(
   scraped: ScrapedClaim,
-  drafts: DraftClaim[]
+  drafts: DraftClaim[],
+  fxRates: FxRateTable
 ): Promise<DraftClaimMatch[]> {
   const matches: DraftClaimMatch[] = [];
 
@@ -230,19 +280,28 @@ async function findHeuristicMatches(
     const patientName = await getDraftPatientName(draft);
     const draftTreatmentDate = draft.treatmentDate ? new Date(draft.treatmentDate) : null;
 
-    // Core matching criteria
-    const amountMatch = amountsMatch(draft.payment.amount, scraped.claimAmount);
+    // Core matching criteria (amounts in other currencies are converted)
+    const amountComparison = compareDraftAmount(
+      draft.payment.amount,
+      draft.payment.currency,
+      scraped.claimAmount,
+      scraped.claimCurrency,
+      scraped.treatmentDate,
+      fxRates
+    );
+    const amountMatch = amountComparison.match;
     const currencyMatch = draft.payment.currency === scraped.claimCurrency;
     const patientMatch = patientName ? patientNamesMatch(patientName, scraped.memberName) : false;
     const dateMatch = treatmentDatesMatch(draftTreatmentDate, scraped);
 
-    // Determine confidence level
+    // Determine confidence level. Converted amounts are approximate, so
+    // cross-currency matches stop at "medium" and are never auto-linked.
     let confidence: MatchConfidence;
     if (amountMatch && currencyMatch && patientMatch && dateMatch) {
       confidence = "high";
-    } else if (amountMatch && currencyMatch && patientMatch) {
+    } else if (amountMatch && patientMatch) {
       confidence = "medium";
-    } else if (amountMatch && currencyMatch) {
+    } else if (amountMatch) {
       confidence = "low";
     } else {
       // Not enough match criteria
@@ -265,6 +324,11 @@ async function findHeuristicMatches(
       scrapedTreatmentDate: scraped.treatmentDate.toISOString().slice(0, 10),
     };
     if (patientName) matchDetails.draftPatient = patientName;
+    if (amountComparison.conversion) {
+      matchDetails.convertedDraftAmount = amountComparison.conversion.amount;
+      matchDetails.exchangeRate = amountComparison.conversion.rate;
+      matchDetails.exchangeRateDate = amountComparison.conversion.rateDate.toISOString().slice(0, 10);
+    }
     if (draftTreatmentDate) matchDetails.draftTreatmentDate = draftTreatmentDate.toISOString().slice(0, 10);
 
     matches.push({
@@ -293,7 +357,8 @@ async function findHeuristicMatches(
  * Returns matches sorted by confidence.
  */
 export async function matchScrapedClaimToDrafts(
-  scrapedClaim: ScrapedClaim
+  scrapedClaim: ScrapedClaim,
+  fxRates?: FxRateTable
 ): Promise<DraftClaimMatch[]> {
   // Get all draft claims that could potentially match:
   // - "accepted" status (ready for submission)
@@ -304,14 +369,16 @@ export async function matchScrapedClaimToDrafts(
     d => (d.status === "accepted" || d.status === "submitted") && !d.archivedAt
   );
 
+  const rates = fxRates ?? (await loadFxRateTable());
+
   // First, try direct match (guaranteed)
-  const directMatch = await findDirectMatch(scrapedClaim, eligibleDrafts);
+  const directMatch = await findDirectMatch(scrapedClaim, eligibleDrafts, rates);
   if (directMatch) {
     return [directMatch];
   }
 
   // Fall back to heuristic matching
-  return findHeuristicMatches(scrapedClaim, eligibleDrafts);
+  return findHeuristicMatches(scrapedClaim, eligibleDrafts, rates);
 }
 
 /**
@@ -322,11 +389,12 @@ export async function matchAllScrapedClaimsToDrafts(): Promise<DraftClaimMatch[]
 
   const scrapedClaims = await scrapedClaimsStorage.getAll();
   const activeClaims = scrapedClaims.filter(c => !c.archivedAt);
+  const fxRates = await loadFxRateTable();
 
   console.log(`Matching ${activeClaims.length} scraped claims to draft claims...`);
 
   for (const scraped of activeClaims) {
-    const matches = await matchScrapedClaimToDrafts(scraped);
+    const matches = await matchScrapedClaimToDrafts(scraped, fxRates);
 
     if (matches.length > 0) {
       const best = matches[0]!;
@@ -349,27 +417,31 @@ export async function matchAllScrapedClaimsToDrafts(): Promise<DraftClaimMatch[]
 /**
  * Confirm a match and create the definitive link.
  * This updates the DraftClaim with the scraped claim reference.
+ * Runs as one unit of work, so the link and its audit entry are stored together.
  */
 export async function confirmMatch(
   draftClaimId: string,
   scrapedClaimId: string
 ): Promise<DraftClaim | null> {
-  const draft = await draftClaimsStorage.get(draftClaimId);
-  if (!draft) return null;
-
-  const scraped = await scrapedClaimsStorage.get(scrapedClaimId);
-  if (!scraped) return null;
-
-  // Update draft with the link
-  const updated = await updateDraftClaim(draftClaimId, {
-    status: "submitted",
-    scrapedClaimId: scraped.id,
-    submissionNumber: scraped.submissionNumber,
-    cignaClaimNumber: scraped.cignaClaimNumber,
-    linkedAt: new Date(),
+  const { scraped, updated } = await runInTransaction(async () => {
+    const draft = await draftClaimsStorage.get(draftClaimId);
+    if (!draft) return { scraped: null, updated: null };
+
+    const scraped = await scrapedClaimsStorage.get(scrapedClaimId);
+    if (!scraped) return { scraped: null, updated: null };
+
+    // Update draft with the link
+    const updated = await updateDraftClaim(draftClaimId, {
+      status: "submitted",
+      scrapedClaimId: scraped.id,
+      submissionNumber: scraped.submissionNumber,
+      cignaClaimNumber: scraped.cignaClaimNumber,
+      linkedAt: new Date(),
+    });
+    return { scraped, updated };
   });
 
-  if (updated) {
+  if (updated && scraped) {
     console.log(
       `Linked draft ${draftClaimId} → scraped ${scraped.submissionNumber} (${scrapedClaimId})`
     );
@@ -386,12 +458,14 @@ export async function linkDraftToSubmissionNumber(
   draftClaimId: string,
   submissionNumber: string
 ): Promise<DraftClaim | null> {
-  const draft = await draftClaimsStorage.get(draftClaimId);
-  if (!draft) return null;
+  const updated = await runInTransaction(async () => {
+    const draft = await draftClaimsStorage.get(draftClaimId);
+    if (!draft) return null;
 
-  const updated = await updateDraftClaim(draftClaimId, {
-    submissionNumber,
-    // Don't change status yet - wait for scraped claim to appear
+    return updateDraftClaim(draftClaimId, {
+      submissionNumber,
+      // Don't change status yet - wait for scraped claim to appear
+    });
   });
 
   if (updated) {
@@ -28,7 +28,9 @@ import {
 } from "./draft-claim-payments.js";
 import { getPrimaryPaymentSignal } from "./payment-signal.js";
 import { dedupeIds } from "./ids.js";
+import { draftPrefillFromDocument } from "./invoice-fields.js";
 import { resolvePaymentProofDocuments } from "./payment-proof.js";
+import { runInTransaction } from "../storage/unit-of-work.js";
 
 const DEFAULT_CURRENCY = "EUR";
 const EMPTY_PAYMENT_CONTEXT = "Manual promotion — no payment signal detected";
@@ -86,10 +88,19 @@ function buildGroupPayment(
  *
  * Slow path (new draft or force=true): loads only the email-thread group
  * via findActiveDocumentsByEmailId (indexed query) rather than all documents.
+ *
+ * Runs as one unit of work, so the draft and its audit entry are stored together.
  */
 export async function promoteDocumentToDraftClaim(
   selectedDocument: MedicalDocument,
   options?: { force?: boolean }
+): Promise<PromoteDraftResult> {
+  return runInTransaction(() => promote(selectedDocument, options));
+}
+
+async function promote(
+  selectedDocument: MedicalDocument,
+  options?: { force?: boolean }
 ): Promise<PromoteDraftResult> {
   const force = options?.force ?? false;
 
@@ -179,6 +190,8 @@ export async function promoteDocumentToDraftClaim(
     documentIds: dedupeIds([...groupIds, ...proofIds]),
     payment,
     ...(proofIds.length > 0 && { paymentProofDocumentIds: proofIds }),
+    ...draftPrefillFromDocument(primaryDocument),
+    ...(primaryDocument.illnessId && { illnessId: primaryDocument.illnessId }),
   });
 
   return { draft, created: true, expanded: false };
@@ -194,10 +207,16 @@ export async function promoteDocumentToDraftClaim(
  * Only upgrades: a draft whose payment already has a real amount
  * is left untouched unless the new signal is strictly better
  * (higher priority source or higher confidence).
+ *
+ * All drafts are updated in one unit of work.
  */
 export async function propagateDocumentPaymentToDrafts(
   documentId: string
 ): Promise<DraftClaim[]> {
+  return runInTransaction(() => propagatePayment(documentId));
+}
+
+async function propagatePayment(documentId: string): Promise<DraftClaim[]> {
   const drafts = await getDraftClaimsForDocument(documentId);
   if (drafts.length === 0) return [];
 
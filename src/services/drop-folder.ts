@@ -0,0 +1,143 @@
+/**
+ * Drop Folder
+ *
+ * Watches a directory (e.g. a scanner's output folder) for PDFs and images
+ * and ingests each new file once through DocumentProcessor.processDroppedFile.
+ * Files stay where they are; the document's attachmentPath remembers that a
+ * file has been handled.
+ *
+ * Configure with DROP_FOLDER (directory) and DROP_FOLDER_INTERVAL_MS
+ * (poll interval, default 60s).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { MedicalDocument } from "../types/medical-document.js";
+import { documentsStorage } from "../storage/documents.js";
+import { DocumentProcessor, isDroppableFile } from "./document-processor.js";
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+/** Files modified more recently than this may still be written by the scanner */
+const SETTLE_MS = 10_000;
+
+/**
+ * Result of a drop folder scan.
+ */
+export interface DropFolderScanResult {
+  dir: string;
+  /** Documents created from new files */
+  documents: MedicalDocument[];
+  /** Files not yet settled, left for the next scan */
+  pending: number;
+  /** Files that failed to process */
+  failed: number;
+}
+
+/**
+ * The configured drop folder, or undefined when ingestion is disabled.
+ */
+export function getDropFolder(): string | undefined {
+  const dir = process.env.DROP_FOLDER?.trim();
+  return dir ? path.resolve(dir) : undefined;
+}
+
+/**
+ * PDFs and images below a directory, skipping hidden files and folders.
+ */
+function listDroppedFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listDroppedFiles(entryPath));
+    } else if (entry.isFile() && isDroppableFile(entry.name)) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+let activeScan: Promise<DropFolderScanResult> | null = null;
+
+async function runScan(
+  dir: string,
+  processor: DocumentProcessor,
+  now: Date
+): Promise<DropFolderScanResult> {
+  const result: DropFolderScanResult = { dir, documents: [], pending: 0, failed: 0 };
+
+  // One lookup per scan, so files ingested long ago cost nothing on later polls
+  const ingested = new Set(
+    (await documentsStorage.find((doc) => doc.sourceType === "manual_upload" && !!doc.attachmentPath)).map(
+      (doc) => doc.attachmentPath
+    )
+  );
+
+  for (const filePath of listDroppedFiles(dir)) {
+    if (ingested.has(filePath)) continue;
+
+    try {
+      if (now.getTime() - fs.statSync(filePath).mtime.getTime() < SETTLE_MS) {
+        result.pending++;
+        continue;
+      }
+
+      const doc = await processor.processDroppedFile(filePath);
+      if (doc) result.documents.push(doc);
+    } catch (err) {
+      // Moved or deleted since the folder was listed
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+      console.error(`[DropFolder] Failed to process ${filePath}:`, err);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ingest new files from a drop folder.
+ * A scan already in progress is joined rather than started twice, so
+ * overlapping triggers never process the same file concurrently.
+ *
+ * @throws If the directory does not exist
+ */
+export function scanDropFolder(
+  dir: string,
+  processor: DocumentProcessor = new DocumentProcessor(),
+  now: Date = new Date()
+): Promise<DropFolderScanResult> {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    return Promise.reject(new Error(`Drop folder not found: ${dir}`));
+  }
+
+  activeScan ??= runScan(dir, processor, now).finally(() => {
+    activeScan = null;
+  });
+  return activeScan;
+}
+
+/**
+ * Poll the configured drop folder. Does nothing when DROP_FOLDER is unset.
+ */
+export function startDropFolderWatcher(): void {
+  const dir = getDropFolder();
+  if (!dir) return;
+
+  const intervalMs = Number(process.env.DROP_FOLDER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+  console.log(`[DropFolder] Watching ${dir} every ${intervalMs / 1000}s`);
+
+  const scan = () => {
+    scanDropFolder(dir)
+      .then((result) => {
+        if (result.documents.length > 0) {
+          console.log(`[DropFolder] Ingested ${result.documents.length} file(s)`);
+        }
+      })
+      .catch((err) => console.error("[DropFolder] Scan failed:", err));
+  };
+
+  setInterval(scan, intervalMs);
+}
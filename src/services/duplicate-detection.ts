@@ -0,0 +1,379 @@
+/**
+ * Duplicate Detection
+ *
+ * The same invoice often arrives more than once: forwarded, re-sent as a
+ * reminder, or uploaded again. Attachment documents are flagged as possible
+ * duplicates of an earlier document when
+ * - their files have the same SHA-256 content hash, or
+ * - their normalized OCR text is nearly the same and their amounts match.
+ *
+ * Flagged documents wait in a review queue and are left out of draft
+ * generation until the user merges them (sets `duplicateOf`) or dismisses
+ * the match (remembered in `notDuplicateOf`).
+ */
+
+import * as fs from "node:fs";
+import { createHash } from "node:crypto";
+import type { DuplicateCandidate, MedicalDocument } from "../types/medical-document.js";
+import type { DraftClaim } from "../types/draft-claim.js";
+import {
+  documentsStorage,
+  findDocumentsByContentHash,
+  getActiveDocuments,
+} from "../storage/documents.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { runInTransaction } from "../storage/unit-of-work.js";
+import { getPrimaryPaymentSignal } from "./payment-signal.js";
+import { dedupeIds } from "./ids.js";
+
+/** Minimum text similarity (Jaccard over word shingles) of a near-duplicate */
+export const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+/** Words per shingle */
+const SHINGLE_SIZE = 3;
+
+/** Texts with fewer words are too short to compare reliably */
+const MIN_WORDS = 20;
+
+/**
+ * A document in the review queue, with the document it appears to duplicate.
+ */
+export interface DuplicateReviewItem {
+  document: MedicalDocument;
+  original: MedicalDocument;
+  candidate: DuplicateCandidate;
+}
+
+/**
+ * Result of scanning all documents.
+ */
+export interface DuplicateScanResult {
+  /** Documents whose content hash was filled in */
+  hashed: number;
+  /** Documents newly flagged as possible duplicates */
+  flagged: number;
+}
+
+/**
+ * SHA-256 (hex) of file content.
+ */
+export function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * SHA-256 (hex) of a file, or undefined if it cannot be read.
+ */
+export async function hashFile(filePath: string): Promise<string | undefined> {
+  try {
+    return hashContent(await fs.promises.readFile(filePath));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize OCR text for comparison: lowercase, letters and digits only,
+ * single spaces. OCR runs of the same scan differ mostly in punctuation
+ * and whitespace.
+ */
+export function normalizeOcrText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function shingles(text: string): Set<string> | null {
+  const words = normalizeOcrText(text).split(" ").filter(Boolean);
+  if (words.length < MIN_WORDS) return null;
+
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  // Cheap upper bound first: the similarity cannot exceed the size ratio
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  if (small.size / large.size < NEAR_DUPLICATE_THRESHOLD) return 0;
+
+  let shared = 0;
+  for (const shingle of small) {
+    if (large.has(shingle)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Key of a document's primary amount; documents are only near-duplicates
+ * when their keys are equal (including both having no amount).
+ */
+function amountKey(document: MedicalDocument): string {
+  const signal = getPrimaryPaymentSignal(document);
+  return signal ? `${signal.amount.toFixed(2)} ${signal.currency}` : "none";
+}
+
+/**
+ * Comparable form of a document, computed once per scan.
+ */
+interface Fingerprint {
+  document: MedicalDocument;
+  amountKey: string;
+  shingles: Set<string> | null;
+}
+
+function fingerprint(document: MedicalDocument): Fingerprint {
+  return {
+    document,
+    amountKey: amountKey(document),
+    shingles: document.ocrText ? shingles(document.ocrText) : null,
+  };
+}
+
+function isComparable(document: MedicalDocument): boolean {
+  return document.sourceType !== "calendar" && !document.archivedAt && !document.duplicateOf;
+}
+
+/** Earlier documents come first; a document can only duplicate an earlier one */
+function byProcessedAt(a: MedicalDocument, b: MedicalDocument): number {
+  return a.processedAt.getTime() - b.processedAt.getTime() || a.id.localeCompare(b.id);
+}
+
+function canDuplicate(document: MedicalDocument, original: MedicalDocument): boolean {
+  return (
+    original.id !== document.id &&
+    isComparable(original) &&
+    byProcessedAt(original, document) < 0 &&
+    !document.notDuplicateOf?.includes(original.id) &&
+    !original.notDuplicateOf?.includes(document.id)
+  );
+}
+
+/**
+ * Find the best earlier match of a document: an identical file first,
+ * then the most similar text. The pool is in processing order, so ties
+ * go to the earliest document.
+ */
+function findCandidate(
+  target: Fingerprint,
+  pool: Iterable<Fingerprint>,
+  sameHash: MedicalDocument[]
+): DuplicateCandidate | undefined {
+  const { document } = target;
+  const identical = sameHash.filter((original) => canDuplicate(document, original)).sort(byProcessedAt)[0];
+  if (identical) {
+    return { documentId: identical.id, reason: "content_hash", similarity: 1, detectedAt: new Date() };
+  }
+
+  if (!target.shingles) return undefined;
+
+  let best: { original: MedicalDocument; similarity: number } | undefined;
+  for (const other of pool) {
+    if (!other.shingles || other.amountKey !== target.amountKey) continue;
+    if (!canDuplicate(document, other.document)) continue;
+
+    const similarity = jaccard(target.shingles, other.shingles);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && similarity > (best?.similarity ?? 0)) {
+      best = { original: other.document, similarity };
+    }
+  }
+
+  return best
+    ? {
+        documentId: best.original.id,
+        reason: "near_duplicate",
+        similarity: Math.round(best.similarity * 1000) / 1000,
+        detectedAt: new Date(),
+      }
+    : undefined;
+}
+
+/**
+ * Store a document's candidate if it changed. Returns true when newly flagged.
+ */
+async function saveCandidate(
+  document: MedicalDocument,
+  candidate: DuplicateCandidate | undefined
+): Promise<{ document: MedicalDocument; flagged: boolean }> {
+  const current = document.duplicateCandidate;
+  if (current?.documentId === candidate?.documentId && current?.reason === candidate?.reason) {
+    return { document, flagged: false };
+  }
+
+  const { duplicateCandidate: _, ...rest } = document;
+  const updated = await documentsStorage.save({
+    ...rest,
+    ...(candidate && { duplicateCandidate: candidate }),
+  } as MedicalDocument);
+  return { document: updated, flagged: !!candidate };
+}
+
+/**
+ * Check a newly processed document against the earlier documents and flag
+ * it if it looks like a duplicate. Returns the (possibly updated) document.
+ */
+export async function detectDuplicate(document: MedicalDocument): Promise<MedicalDocument> {
+  if (!isComparable(document)) return document;
+
+  const sameHash = document.contentHash ? await findDocumentsByContentHash(document.contentHash) : [];
+  const target = fingerprint(document);
+
+  // Only scan all documents when there is text to compare and no identical file
+  const pool =
+    sameHash.some((original) => canDuplicate(document, original)) || !target.shingles
+      ? []
+      : (await getActiveDocuments())
+          .filter((other) => other.sourceType !== "calendar")
+          .sort(byProcessedAt)
+          .map(fingerprint);
+
+  return (await saveCandidate(document, findCandidate(target, pool, sameHash))).document;
+}
+
+/**
+ * Fill in missing content hashes, then re-check every active document.
+ * Used for documents processed before duplicate detection existed.
+ */
+export async function scanForDuplicates(): Promise<DuplicateScanResult> {
+  const result: DuplicateScanResult = { hashed: 0, flagged: 0 };
+  const documents = (await getActiveDocuments())
+    .filter((document) => document.sourceType !== "calendar")
+    .sort(byProcessedAt);
+
+  for (const [index, document] of documents.entries()) {
+    if (document.contentHash || !document.attachmentPath) continue;
+
+    const contentHash = await hashFile(document.attachmentPath);
+    if (!contentHash) continue;
+    documents[index] = await documentsStorage.save({ ...document, contentHash });
+    result.hashed++;
+  }
+
+  const byHash = new Map<string, MedicalDocument[]>();
+  const seen: Fingerprint[] = [];
+  for (const document of documents) {
+    const target = fingerprint(document);
+    if (isComparable(document)) {
+      const sameHash = document.contentHash ? (byHash.get(document.contentHash) ?? []) : [];
+      const { flagged } = await saveCandidate(document, findCandidate(target, seen, sameHash));
+      if (flagged) result.flagged++;
+    }
+
+    seen.push(target);
+    if (document.contentHash) {
+      byHash.set(document.contentHash, [...(byHash.get(document.contentHash) ?? []), document]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Documents flagged as possible duplicates, newest first.
+ */
+export async function getDuplicateReviewQueue(): Promise<DuplicateReviewItem[]> {
+  const flagged = await documentsStorage.find(
+    (document) => !!document.duplicateCandidate && isComparable(document)
+  );
+
+  const items: DuplicateReviewItem[] = [];
+  for (const document of flagged) {
+    const candidate = document.duplicateCandidate!;
+    const original = await documentsStorage.get(candidate.documentId);
+    if (original) items.push({ document, original, candidate });
+  }
+
+  return items.sort(
+    (a, b) => b.candidate.detectedAt.getTime() - a.candidate.detectedAt.getTime()
+  );
+}
+
+function draftReferences(draft: DraftClaim, documentId: string): boolean {
+  return [draft.primaryDocumentId, ...draft.documentIds, ...(draft.paymentProofDocumentIds ?? [])].includes(
+    documentId
+  );
+}
+
+function replaceDocumentId(draft: DraftClaim, from: string, to: string): DraftClaim | null {
+  const replace = (ids: string[]) => dedupeIds(ids.map((id) => (id === from ? to : id)));
+  if (!draftReferences(draft, from)) return null;
+
+  return {
+    ...draft,
+    primaryDocumentId: draft.primaryDocumentId === from ? to : draft.primaryDocumentId,
+    documentIds: replace(draft.documentIds),
+    ...(draft.paymentProofDocumentIds && {
+      paymentProofDocumentIds: replace(draft.paymentProofDocumentIds),
+    }),
+  };
+}
+
+/**
+ * Confirm a flagged document as a duplicate: it becomes `duplicateOf` the
+ * original, and drafts that reference it point to the original instead.
+ * When the original already has a live draft, the duplicate's drafts are
+ * archived rather than repointed, so the bill keeps a single draft.
+ * Returns null if the document does not exist.
+ */
+export async function mergeDuplicate(id: string): Promise<MedicalDocument | null> {
+  return runInTransaction(async () => {
+    const document = await documentsStorage.get(id);
+    if (!document) return null;
+
+    const candidate = document.duplicateCandidate;
+    if (!candidate) {
+      throw new Error(`Document ${id} is not flagged as a duplicate`);
+    }
+
+    // Live drafts of the original, including duplicate drafts repointed below
+    const originalDraftIds = new Set(
+      (
+        await draftClaimsStorage.find(
+          (draft) => !draft.archivedAt && draftReferences(draft, candidate.documentId)
+        )
+      ).map((draft) => draft.id)
+    );
+
+    const drafts = await draftClaimsStorage.find((draft) => draftReferences(draft, id));
+    for (const draft of drafts) {
+      const hasOtherDraft = [...originalDraftIds].some((draftId) => draftId !== draft.id);
+      if (!draft.archivedAt && hasOtherDraft) {
+        const now = new Date();
+        await draftClaimsStorage.save({ ...draft, archivedAt: now, updatedAt: now });
+        originalDraftIds.delete(draft.id);
+        continue;
+      }
+
+      const updated = replaceDocumentId(draft, id, candidate.documentId);
+      if (!updated) continue;
+      await draftClaimsStorage.save(updated);
+      if (!updated.archivedAt) originalDraftIds.add(updated.id);
+    }
+
+    const { duplicateCandidate: _, ...rest } = document;
+    return documentsStorage.save({ ...rest, duplicateOf: candidate.documentId } as MedicalDocument);
+  });
+}
+
+/**
+ * Reject a flagged match. The pair is remembered and not flagged again.
+ * Returns null if the document does not exist.
+ */
+export async function dismissDuplicate(id: string): Promise<MedicalDocument | null> {
+  const document = await documentsStorage.get(id);
+  if (!document) return null;
+
+  const candidate = document.duplicateCandidate;
+  if (!candidate) {
+    throw new Error(`Document ${id} is not flagged as a duplicate`);
+  }
+
+  const { duplicateCandidate: _, ...rest } = document;
+  return documentsStorage.save({
+    ...rest,
+    notDuplicateOf: dedupeIds([...(document.notDuplicateOf ?? []), candidate.documentId]),
+  } as MedicalDocument);
+}
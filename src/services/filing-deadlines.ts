@@ -0,0 +1,157 @@
+/**
+ * Filing Deadlines
+ *
+ * Cigna only accepts claims filed within a window after the treatment date.
+ * Computes the deadline for every draft claim that has not been submitted yet.
+ *
+ * The window comes from the patient (`filingWindowDays`), falling back to
+ * CLAIM_FILING_WINDOW_DAYS, then to DEFAULT_FILING_WINDOW_DAYS.
+ */
+
+import type { DraftClaim } from "../types/draft-claim.js";
+import type { Illness } from "../types/illness.js";
+import type { Patient } from "../types/patient.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { illnessesStorage } from "../storage/illnesses.js";
+import { patientsStorage } from "../storage/patients.js";
+
+/** Policy filing window when neither patient nor environment set one */
+export const DEFAULT_FILING_WINDOW_DAYS = 365;
+
+/** Days before the deadline at which a draft needs attention */
+export const FILING_WARNING_DAYS = 30;
+
+/** Days before the deadline at which a draft is urgent */
+export const FILING_CRITICAL_DAYS = 7;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * How close a draft is to its filing deadline.
+ */
+export type FilingUrgency = "expired" | "critical" | "warning" | "ok";
+
+/**
+ * Filing deadline of one draft claim.
+ */
+export interface DraftClaimDeadline {
+  draftClaimId: string;
+  status: DraftClaim["status"];
+  patientId?: string;
+  patientName?: string;
+  illnessId?: string;
+  amount: number;
+  currency: string;
+  treatmentDate: Date;
+  filingWindowDays: number;
+  deadline: Date;
+
+  /** Whole days until the deadline (negative once expired) */
+  daysRemaining: number;
+
+  urgency: FilingUrgency;
+}
+
+/**
+ * Filing window from CLAIM_FILING_WINDOW_DAYS, or the default.
+ */
+export function getDefaultFilingWindowDays(): number {
+  const configured = Number(process.env.CLAIM_FILING_WINDOW_DAYS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_FILING_WINDOW_DAYS;
+}
+
+/**
+ * Last day a treatment can be filed: the treatment day plus the window.
+ */
+export function computeFilingDeadline(treatmentDate: Date, windowDays: number): Date {
+  const date = new Date(treatmentDate);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + windowDays));
+}
+
+/**
+ * Classify the days left before a deadline.
+ */
+export function getFilingUrgency(daysRemaining: number): FilingUrgency {
+  if (daysRemaining < 0) return "expired";
+  if (daysRemaining <= FILING_CRITICAL_DAYS) return "critical";
+  if (daysRemaining <= FILING_WARNING_DAYS) return "warning";
+  return "ok";
+}
+
+/**
+ * Drafts still waiting to be filed.
+ */
+function isAwaitingFiling(draft: DraftClaim): draft is DraftClaim & { treatmentDate: Date } {
+  return (
+    (draft.status === "pending" || draft.status === "accepted") &&
+    !draft.archivedAt &&
+    !draft.submissionNumber &&
+    !draft.scrapedClaimId &&
+    !!draft.treatmentDate
+  );
+}
+
+/**
+ * Compute deadlines for unfiled drafts, most urgent first.
+ */
+export function buildDraftClaimDeadlines(
+  draftClaims: DraftClaim[],
+  illnesses: Illness[],
+  patients: Patient[],
+  now: Date = new Date()
+): DraftClaimDeadline[] {
+  const illnessById = new Map(illnesses.map((illness) => [illness.id, illness]));
+  const patientById = new Map(patients.map((patient) => [patient.id, patient]));
+  const defaultWindow = getDefaultFilingWindowDays();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  return draftClaims
+    .filter(isAwaitingFiling)
+    .map((draft) => {
+      const illness = draft.illnessId ? illnessById.get(draft.illnessId) : undefined;
+      const patient = illness ? patientById.get(illness.patientId) : undefined;
+      const filingWindowDays = patient?.filingWindowDays ?? defaultWindow;
+      const deadline = computeFilingDeadline(draft.treatmentDate, filingWindowDays);
+      const daysRemaining = Math.round((deadline.getTime() - today) / MS_PER_DAY);
+
+      return {
+        draftClaimId: draft.id,
+        status: draft.status,
+        ...(patient && { patientId: patient.id, patientName: patient.name }),
+        ...(draft.illnessId && { illnessId: draft.illnessId }),
+        amount: draft.payment.amount,
+        currency: draft.payment.currency,
+        treatmentDate: new Date(draft.treatmentDate),
+        filingWindowDays,
+        deadline,
+        daysRemaining,
+        urgency: getFilingUrgency(daysRemaining),
+      };
+    })
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+}
+
+/**
+ * Compute deadlines for unfiled drafts from storage, most urgent first.
+ */
+export async function getDraftClaimDeadlines(now: Date = new Date()): Promise<DraftClaimDeadline[]> {
+  const [draftClaims, illnesses, patients] = await Promise.all([
+    draftClaimsStorage.getAll(),
+    illnessesStorage.getAll(),
+    patientsStorage.getAll(),
+  ]);
+  return buildDraftClaimDeadlines(draftClaims, illnesses, patients, now);
+}
+
+/**
+ * Describe a deadline for log output.
+ */
+export function describeDeadline(deadline: DraftClaimDeadline): string {
+  const who = deadline.patientName ? ` for ${deadline.patientName}` : "";
+  const amount = `${deadline.amount.toFixed(2)} ${deadline.currency}`;
+  const when =
+    deadline.daysRemaining < 0
+      ? `expired ${-deadline.daysRemaining} days ago`
+      : `expires in ${deadline.daysRemaining} days`;
+  return `Draft ${deadline.draftClaimId}${who} (${amount}) ${when} (${deadline.deadline.toISOString().slice(0, 10)})`;
+}
@@ -0,0 +1,392 @@
+/**
+ * Exchange Rate Service
+ *
+ * Local FX rate store used to compare amounts across currencies.
+ * Rates come from conversions observed on scraped Cigna claims and from
+ * ECB reference rate CSV imports. Lookups use the rate nearest to the
+ * requested date, via a pivot currency when no direct pair is known.
+ */
+
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+import type { FxRateSet, FxRateSource, CreateFxRateSetInput } from "../types/fx-rate.js";
+import { fxRatesStorage, upsertFxRateSet } from "../storage/fx-rates.js";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** Rates further than this from the requested date are not used */
+export const DEFAULT_MAX_RATE_AGE_DAYS = 14;
+
+/** Preferred source when two rates are equally close (Cigna's own rate first) */
+const SOURCE_PRIORITY: Record<FxRateSource, number> = {
+  cigna_claim: 0,
+  manual: 1,
+  ecb: 2,
+};
+
+/**
+ * A rate resolved for a currency pair and date.
+ */
+export interface FxRateQuote {
+  /** Units of `to` per unit of `from` */
+  rate: number;
+  /** Date of the (oldest) rate used */
+  rateDate: Date;
+  source: FxRateSource;
+  /** Pivot currency for cross rates */
+  via?: string;
+}
+
+/**
+ * An amount converted between currencies.
+ */
+export interface FxConversion extends FxRateQuote {
+  amount: number;
+}
+
+interface RatePoint {
+  time: number;
+  rate: number;
+  source: FxRateSource;
+}
+
+/**
+ * Normalize a currency code for lookups.
+ */
+function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * UTC midnight of a date.
+ */
+function utcDay(date: Date): Date {
+  const d = new Date(date);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/**
+ * In-memory rate lookup built from stored rate sets.
+ */
+export class FxRateTable {
+  private pairs = new Map<string, RatePoint[]>();
+  private cache = new Map<string, FxRateQuote | null>();
+  private maxAgeMs: number;
+
+  constructor(rateSets: FxRateSet[], options: { maxAgeDays?: number } = {}) {
+    this.maxAgeMs = (options.maxAgeDays ?? DEFAULT_MAX_RATE_AGE_DAYS) * MS_PER_DAY;
+
+    for (const set of rateSets) {
+      const base = normalizeCurrency(set.baseCurrency);
+      const time = utcDay(set.date).getTime();
+      for (const [quoteCode, rate] of Object.entries(set.rates)) {
+        const quote = normalizeCurrency(quoteCode);
+        if (quote === base || !Number.isFinite(rate) || rate <= 0) continue;
+        this.addPoint(base, quote, { time, rate, source: set.source });
+        this.addPoint(quote, base, { time, rate: 1 / rate, source: set.source });
+      }
+    }
+
+    for (const points of this.pairs.values()) {
+      points.sort((a, b) => a.time - b.time);
+    }
+  }
+
+  /** Number of known currency pairs (each direction counted once) */
+  get size(): number {
+    return this.pairs.size / 2;
+  }
+
+  /**
+   * Find the rate from one currency to another nearest to a date.
+   * Returns null when no rate within the maximum age is known.
+   */
+  getRate(from: string, to: string, date: Date): FxRateQuote | null {
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+    const time = utcDay(date).getTime();
+
+    if (source === target) {
+      return { rate: 1, rateDate: new Date(time), source: "manual" };
+    }
+
+    // Matching asks for the same pair and day many times
+    const cacheKey = `${source}/${target}/${time}`;
+    if (!this.cache.has(cacheKey)) {
+      this.cache.set(cacheKey, this.lookup(source, target, time));
+    }
+    return this.cache.get(cacheKey) ?? null;
+  }
+
+  /**
+   * Convert an amount at the rate nearest to a date.
+   */
+  convert(amount: number, from: string, to: string, date: Date): FxConversion | null {
+    const quote = this.getRate(from, to, date);
+    if (!quote) return null;
+    return { ...quote, amount: Math.round(amount * quote.rate * 100) / 100 };
+  }
+
+  private lookup(source: string, target: string, time: number): FxRateQuote | null {
+    const direct = this.nearest(source, target, time);
+    if (direct) {
+      return { rate: direct.rate, rateDate: new Date(direct.time), source: direct.source };
+    }
+
+    // Cross rate through any currency quoted against both sides
+    let best: { quote: FxRateQuote; distance: number } | null = null;
+    for (const key of this.pairs.keys()) {
+      const [pairFrom, pivot] = key.split("/") as [string, string];
+      if (pairFrom !== source || pivot === target) continue;
+
+      const first = this.nearest(source, pivot, time);
+      const second = this.nearest(pivot, target, time);
+      if (!first || !second) continue;
+
+      const distance = Math.max(Math.abs(first.time - time), Math.abs(second.time - time));
+      if (!best || distance < best.distance) {
+        best = {
+          distance,
+          quote: {
+            rate: first.rate * second.rate,
+            rateDate: new Date(Math.min(first.time, second.time)),
+            source: SOURCE_PRIORITY[first.source] >= SOURCE_PRIORITY[second.source] ? first.source : second.source,
+            via: pivot,
+          },
+        };
+      }
+    }
+
+    return best?.quote ?? null;
+  }
+
+  private addPoint(from: string, to: string, point: RatePoint): void {
+    const key = `${from}/${to}`;
+    const points = this.pairs.get(key) ?? [];
+    points.push(point);
+    this.pairs.set(key, points);
+  }
+
+  private nearest(from: string, to: string, time: number): RatePoint | null {
+    const points = this.pairs.get(`${from}/${to}`);
+    if (!points) return null;
+
+    // Binary search for the first point on or after `time`
+    let lo = 0;
+    let hi = points.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid]!.time < time) lo = mid + 1;
+      else hi = mid;
+    }
+
+    // Candidates: the closest day on each side, plus same-day points from other sources
+    let best: RatePoint | null = null;
+    const consider = (point: RatePoint | undefined) => {
+      if (!point) return;
+      const distance = Math.abs(point.time - time);
+      if (distance > this.maxAgeMs) return;
+      const bestDistance = best ? Math.abs(best.time - time) : Infinity;
+      if (
+        distance < bestDistance ||
+        (distance === bestDistance && SOURCE_PRIORITY[point.source] < SOURCE_PRIORITY[best!.source])
+      ) {
+        best = point;
+      }
+    };
+    for (let i = lo - 1; i >= 0 && points[i]!.time === points[lo - 1]!.time; i--) consider(points[i]);
+    for (let i = lo; i < points.length && points[i]!.time === points[lo]!.time; i++) consider(points[i]);
+    return best;
+  }
+}
+
+/**
+ * Load all stored rates into a lookup table.
+ */
+export async function loadFxRateTable(options: { maxAgeDays?: number } = {}): Promise<FxRateTable> {
+  return new FxRateTable(await fxRatesStorage.getAll(), options);
+}
+
+// =============================================================================
+// SEEDING FROM SCRAPED CLAIMS
+// =============================================================================
+
+/**
+ * Extract the conversions Cigna applied on a claim and its line items.
+ *
+ * The rate is derived from the converted amount when present (it is what
+ * Cigna actually paid out), falling back to the stated exchange rate.
+ */
+export function ratesFromScrapedClaim(claim: ScrapedClaim): CreateFxRateSetInput[] {
+  const observations = [
+    {
+      amount: claim.claimAmount,
+      currency: claim.claimCurrency,
+      convertedAmount: claim.convertedAmount,
+      convertedCurrency: claim.convertedCurrency,
+      exchangeRate: claim.exchangeRate,
+      date: claim.treatmentDate,
+    },
+    ...claim.lineItems.map((item) => ({
+      amount: item.claimAmount,
+      currency: item.claimCurrency,
+      convertedAmount: item.convertedAmount,
+      convertedCurrency: item.convertedCurrency,
+      exchangeRate: item.exchangeRate,
+      date: item.currencyDate ?? item.treatmentDate,
+    })),
+  ];
+
+  const inputs: CreateFxRateSetInput[] = [];
+  for (const observation of observations) {
+    if (!observation.convertedCurrency) continue;
+    const base = normalizeCurrency(observation.currency);
+    const quote = normalizeCurrency(observation.convertedCurrency);
+    if (!base || base === quote) continue;
+
+    const rate =
+      observation.convertedAmount !== undefined && observation.amount > 0
+        ? observation.convertedAmount / observation.amount
+        : observation.exchangeRate;
+    if (rate === undefined || !Number.isFinite(rate) || rate <= 0) continue;
+
+    inputs.push({
+      source: "cigna_claim",
+      baseCurrency: base,
+      date: utcDay(observation.date),
+      rates: { [quote]: rate },
+      claimIds: [claim.id],
+    });
+  }
+
+  return inputs;
+}
+
+/**
+ * Record the conversions observed on scraped claims.
+ * Returns the number of rates recorded.
+ */
+export async function seedFxRatesFromClaims(claims: ScrapedClaim[]): Promise<number> {
+  let recorded = 0;
+  for (const claim of claims) {
+    for (const input of ratesFromScrapedClaim(claim)) {
+      await upsertFxRateSet(input);
+      recorded++;
+    }
+  }
+  return recorded;
+}
+
+// =============================================================================
+// ECB CSV IMPORT
+// =============================================================================
+
+/**
+ * Split one CSV line, honouring double-quoted fields.
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === "," && !inQuotes) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse an ECB reference rate CSV into daily rate sets.
+ *
+ * Supports both published layouts:
+ * - eurofxref-hist.csv: `Date,USD,JPY,...` with one row per day (EUR base)
+ * - ECB Data Portal series export: `...,CURRENCY,CURRENCY_DENOM,...,TIME_PERIOD,OBS_VALUE`
+ *
+ * @param options.currencies - Only keep these quote currencies
+ * @param options.since - Skip rates before this date
+ */
+export function parseEcbCsv(
+  content: string,
+  options: { currencies?: string[]; since?: Date } = {}
+): CreateFxRateSetInput[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim());
+  const header = lines.shift();
+  if (!header) return [];
+
+  const columns = splitCsvLine(header).map((c) => c.toUpperCase());
+  const wanted = options.currencies?.map(normalizeCurrency);
+  const since = options.since ? utcDay(options.since).getTime() : undefined;
+  const sets = new Map<string, CreateFxRateSetInput>();
+
+  const addRate = (base: string, dateText: string, quote: string, valueText: string) => {
+    const date = new Date(`${dateText}T00:00:00Z`);
+    const value = Number(valueText);
+    if (Number.isNaN(date.getTime()) || !Number.isFinite(value) || value <= 0) return;
+    if (since !== undefined && date.getTime() < since) return;
+    if (wanted && !wanted.includes(quote)) return;
+
+    const key = `${base}|${dateText}`;
+    const set = sets.get(key) ?? { source: "ecb" as const, baseCurrency: base, date, rates: {} };
+    set.rates[quote] = value;
+    sets.set(key, set);
+  };
+
+  const periodIndex = columns.indexOf("TIME_PERIOD");
+  const valueIndex = columns.indexOf("OBS_VALUE");
+  const currencyIndex = columns.indexOf("CURRENCY");
+  const denomIndex = columns.indexOf("CURRENCY_DENOM");
+
+  if (periodIndex !== -1 && valueIndex !== -1 && currencyIndex !== -1) {
+    // Data Portal export: one observation per row
+    for (const line of lines) {
+      const fields = splitCsvLine(line);
+      const base = denomIndex !== -1 ? normalizeCurrency(fields[denomIndex] ?? "") : "EUR";
+      addRate(
+        base || "EUR",
+        fields[periodIndex] ?? "",
+        normalizeCurrency(fields[currencyIndex] ?? ""),
+        fields[valueIndex] ?? ""
+      );
+    }
+  } else if (columns[0] === "DATE") {
+    // Historical reference rates: one column per currency, EUR base
+    for (const line of lines) {
+      const fields = splitCsvLine(line);
+      columns.forEach((column, i) => {
+        if (i === 0 || !/^[A-Z]{3}$/.test(column)) return;
+        addRate("EUR", fields[0] ?? "", column, fields[i] ?? "");
+      });
+    }
+  } else {
+    throw new Error("Unrecognized ECB CSV format (expected a Date column or TIME_PERIOD/OBS_VALUE columns)");
+  }
+
+  return [...sets.values()].filter((set) => Object.keys(set.rates).length > 0);
+}
+
+/**
+ * Import an ECB reference rate CSV into the rate store.
+ * Returns the number of daily rate sets imported.
+ */
+export async function importEcbCsv(
+  content: string,
+  options: { currencies?: string[]; since?: Date } = {}
+): Promise<number> {
+  const sets = parseEcbCsv(content, options);
+  for (const set of sets) {
+    await upsertFxRateSet(set);
+  }
+  return sets.length;
+}
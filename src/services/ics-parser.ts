@@ -0,0 +1,289 @@
+/**
+ * iCalendar Parser
+ *
+ * Minimal RFC 5545 parser for local .ics files. Extracts VEVENT components
+ * with their times, attendees and organizer. Recurring events are returned
+ * once (RRULEs are not expanded).
+ */
+
+/**
+ * A content line property with its parameters.
+ */
+interface IcsProperty {
+  name: string;
+  params: Map<string, string>;
+  value: string;
+}
+
+/**
+ * A person attached to an event (ATTENDEE / ORGANIZER).
+ */
+export interface IcsPerson {
+  email: string;
+  name?: string;
+  response?: string;
+}
+
+/**
+ * A parsed calendar event.
+ */
+export interface IcsEvent {
+  uid: string;
+  /** RECURRENCE-ID for overridden instances of a recurring event */
+  recurrenceId?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone?: string;
+  status?: string;
+  url?: string;
+  organizer?: IcsPerson;
+  attendees: IcsPerson[];
+}
+
+/**
+ * A parsed calendar file.
+ */
+export interface IcsCalendar {
+  name?: string;
+  timezone?: string;
+  events: IcsEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Unfold continuation lines and split into content lines.
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Parse `NAME;PARAM=value;PARAM="quoted":VALUE`.
+ */
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside quoted parameter values
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]+|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params = new Map<string, string>();
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params.set(param.slice(0, eq).toUpperCase(), param.slice(eq + 1).replace(/^"|"$/g, ""));
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Unescape a TEXT value.
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/**
+ * Offset (ms) of an IANA time zone from UTC at a given instant.
+ */
+function timeZoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - utcMs;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value.
+ *
+ * - `20250312` → all-day date (UTC midnight)
+ * - `20250312T140000Z` → UTC
+ * - `20250312T140000` with TZID → wall time in that zone
+ * - `20250312T140000` without TZID → floating; treated as server local time
+ */
+export function parseIcsDate(
+  value: string,
+  tzid?: string
+): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, z] = match;
+  const year = Number(y);
+  const month = Number(mo) - 1;
+  const day = Number(d);
+
+  if (h === undefined) {
+    return { date: new Date(Date.UTC(year, month, day)), allDay: true };
+  }
+
+  const wallMs = Date.UTC(year, month, day, Number(h), Number(mi), Number(s ?? 0));
+  if (z) return { date: new Date(wallMs), allDay: false };
+
+  if (tzid) {
+    try {
+      // Two passes settle DST transitions
+      let utcMs = wallMs - timeZoneOffset(wallMs, tzid);
+      utcMs = wallMs - timeZoneOffset(utcMs, tzid);
+      return { date: new Date(utcMs), allDay: false };
+    } catch {
+      // Unknown (e.g. Windows-style) zone name: fall through to floating time
+    }
+  }
+
+  return {
+    date: new Date(year, month, day, Number(h), Number(mi), Number(s ?? 0)),
+    allDay: false,
+  };
+}
+
+/**
+ * Parse an ISO 8601 duration like `PT1H30M` or `P1D` to milliseconds.
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    Number(w ?? 0) * 7 * DAY_MS +
+    Number(d ?? 0) * DAY_MS +
+    Number(h ?? 0) * 3600_000 +
+    Number(m ?? 0) * 60_000 +
+    Number(s ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Parse an ATTENDEE/ORGANIZER property.
+ */
+function parsePerson(property: IcsProperty): IcsPerson {
+  const email = property.value.replace(/^mailto:/i, "").trim();
+  const name = property.params.get("CN");
+  const response = property.params.get("PARTSTAT")?.toLowerCase();
+  return {
+    email,
+    ...(name && { name }),
+    ...(response && { response }),
+  };
+}
+
+/**
+ * Build an event from the properties of one VEVENT.
+ */
+function buildEvent(properties: IcsProperty[], calendarTimezone?: string): IcsEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const text = (name: string) => {
+    const prop = get(name);
+    return prop ? unescapeText(prop.value).trim() : undefined;
+  };
+
+  const dtStart = get("DTSTART");
+  if (!dtStart) return null;
+  const timezone = dtStart.params.get("TZID") ?? calendarTimezone;
+  const start = parseIcsDate(dtStart.value, timezone);
+  if (!start) return null;
+
+  let end: Date | undefined;
+  const dtEnd = get("DTEND");
+  if (dtEnd) {
+    end = parseIcsDate(dtEnd.value, dtEnd.params.get("TZID") ?? calendarTimezone)?.date;
+  }
+  if (!end) {
+    const duration = get("DURATION");
+    const ms = duration ? parseIcsDuration(duration.value) : null;
+    end = new Date(start.date.getTime() + (ms ?? (start.allDay ? DAY_MS : 0)));
+  }
+
+  const uid = text("UID") ?? `${dtStart.value}-${text("SUMMARY") ?? ""}`;
+  const recurrenceId = get("RECURRENCE-ID")?.value;
+  const description = text("DESCRIPTION");
+  const location = text("LOCATION");
+  const status = text("STATUS")?.toLowerCase();
+  const url = text("URL");
+  const organizer = get("ORGANIZER");
+
+  return {
+    uid,
+    ...(recurrenceId && { recurrenceId }),
+    summary: text("SUMMARY") ?? "",
+    ...(description && { description }),
+    ...(location && { location }),
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    ...(timezone && { timezone }),
+    ...(status && { status }),
+    ...(url && { url }),
+    ...(organizer && { organizer: parsePerson(organizer) }),
+    attendees: properties.filter((p) => p.name === "ATTENDEE").map(parsePerson),
+  };
+}
+
+/**
+ * Parse the contents of an .ics file.
+ */
+export function parseIcs(content: string): IcsCalendar {
+  const calendar: IcsCalendar = { events: [] };
+  // Component stack; properties are collected only for the innermost VEVENT
+  const stack: string[] = [];
+  let eventProps: IcsProperty[] | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const component = property.value.toUpperCase();
+      stack.push(component);
+      if (component === "VEVENT") eventProps = [];
+      continue;
+    }
+
+    if (property.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && eventProps) {
+        const event = buildEvent(eventProps, calendar.timezone);
+        if (event) calendar.events.push(event);
+        eventProps = null;
+      }
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === "VEVENT" && eventProps) {
+      eventProps.push(property);
+    } else if (current === "VCALENDAR") {
+      if (property.name === "X-WR-CALNAME") calendar.name = unescapeText(property.value);
+      if (property.name === "X-WR-TIMEZONE") calendar.timezone = property.value.trim();
+    }
+  }
+
+  return calendar;
+}
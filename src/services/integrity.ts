@@ -0,0 +1,494 @@
+/**
+ * Integrity Checker
+ *
+ * fsck for the entity store. Finds references to entities (or files) that
+ * no longer exist, uploads and search index rows nothing points to, and
+ * duplicate records, e.g. after a delete, a restore or a JSON/SQLite mix-up.
+ *
+ * Issues with a safe fix can be repaired: dropping a dangling id from a list,
+ * clearing a dangling optional link, deleting an assignment whose document or
+ * claim is gone or that duplicates another, and removing stale search index
+ * rows. Everything else is reported for manual review.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { StorageOperations } from "../storage/base.js";
+import { getStorageBackend } from "../storage/repository.js";
+import { isEncryptionEnabled } from "../storage/encryption.js";
+import { documentsStorage } from "../storage/documents.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { claimsStorage } from "../storage/claims.js";
+import { submittedClaimsStorage } from "../storage/submitted-claims.js";
+import { assignmentsStorage } from "../storage/assignments.js";
+import { patientsStorage } from "../storage/patients.js";
+import { illnessesStorage } from "../storage/illnesses.js";
+import { archiveRulesStorage } from "../storage/archive-rules.js";
+import type { SearchEntityType } from "../storage/search-index.js";
+import type { AuditEntityType } from "../types/audit-entry.js";
+import type { MedicalDocument } from "../types/medical-document.js";
+import type { DraftClaim } from "../types/draft-claim.js";
+import type { Claim } from "../types/claim.js";
+import type { DocumentClaimAssignment } from "../types/assignment.js";
+import type { Illness } from "../types/illness.js";
+import type { Patient } from "../types/patient.js";
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+import type { ArchiveRule } from "../types/archive-rule.js";
+
+/** Manually uploaded files (see the attachment upload route) */
+const UPLOADS_DIR = path.join(process.cwd(), "data", "uploads");
+
+export type IntegrityIssueKind = "broken_reference" | "orphan" | "duplicate";
+
+/** What an issue is about: an entity, a file, or a search index row */
+export type IntegritySubject = AuditEntityType | "file" | "search_index";
+
+/**
+ * One problem found by a check.
+ */
+export interface IntegrityIssue {
+  /** Stable while the issue persists; used to pick issues to repair */
+  id: string;
+  kind: IntegrityIssueKind;
+  entityType: IntegritySubject;
+  entityId: string;
+  /** Field holding the reference */
+  field?: string;
+  targetType?: IntegritySubject;
+  targetId?: string;
+  message: string;
+  /** What a repair does; absent when the issue needs manual review */
+  repair?: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  /** Records checked per entity type */
+  checked: Partial<Record<AuditEntityType, number>>;
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityRepairResult {
+  /** IDs of the issues repaired */
+  repaired: string[];
+  /** Requested issues that no longer exist or have no safe repair */
+  skipped: string[];
+  /** Report after the repairs */
+  report: IntegrityReport;
+}
+
+/**
+ * A reference from one entity type to another.
+ */
+interface Reference<T> {
+  field: string;
+  target: AuditEntityType;
+  ids: (entity: T) => Array<string | undefined>;
+  /** Safe fix: the entity without the dangling id, or null to delete it */
+  repair?: { description: string; apply: (entity: T, id: string) => T | null };
+}
+
+interface EntitySet<T extends { id: string }> {
+  type: AuditEntityType;
+  storage: StorageOperations<T>;
+  references: Reference<T>[];
+}
+
+/** An issue plus the fix applied on repair */
+interface FoundIssue {
+  issue: IntegrityIssue;
+  fix?: () => Promise<void>;
+}
+
+function without(ids: string[] | undefined, id: string): string[] {
+  return (ids ?? []).filter((value) => value !== id);
+}
+
+function dropId<T>(field: keyof T & string, description = `Remove the id from ${field}`): NonNullable<Reference<T>["repair"]> {
+  return {
+    description,
+    apply: (entity, id) => ({ ...entity, [field]: without(entity[field] as string[] | undefined, id) }),
+  };
+}
+
+function clearField<T>(field: keyof T & string): NonNullable<Reference<T>["repair"]> {
+  return {
+    description: `Clear ${field}`,
+    apply: (entity) => {
+      const { [field]: _, ...rest } = entity;
+      return rest as T;
+    },
+  };
+}
+
+const deleteEntity = { description: "Delete the assignment", apply: () => null };
+
+function defineSet<T extends { id: string }>(set: EntitySet<T>): EntitySet<{ id: string }> {
+  return set as unknown as EntitySet<{ id: string }>;
+}
+
+/**
+ * Entity types and the references they hold.
+ */
+const ENTITY_SETS = [
+  defineSet<Patient>({ type: "patient", storage: patientsStorage, references: [] }),
+  defineSet<Illness>({
+    type: "illness",
+    storage: illnessesStorage,
+    references: [
+      { field: "patientId", target: "patient", ids: (i) => [i.patientId] },
+      {
+        field: "relevantAccounts.sourceDocumentId",
+        target: "document",
+        ids: (i) => i.relevantAccounts.map((account) => account.sourceDocumentId),
+        repair: {
+          description: "Clear the account's source document",
+          apply: (illness, id) => ({
+            ...illness,
+            relevantAccounts: illness.relevantAccounts.map((account) => {
+              if (account.sourceDocumentId !== id) return account;
+              const { sourceDocumentId: _, ...rest } = account;
+              return rest;
+            }),
+          }),
+        },
+      },
+    ],
+  }),
+  defineSet<MedicalDocument>({
+    type: "document",
+    storage: documentsStorage,
+    references: [
+      {
+        field: "archivedByRuleId",
+        target: "archive_rule",
+        ids: (d) => [d.archivedByRuleId],
+        repair: clearField("archivedByRuleId"),
+      },
+      { field: "illnessId", target: "illness", ids: (d) => [d.illnessId], repair: clearField("illnessId") },
+    ],
+  }),
+  defineSet<ScrapedClaim>({ type: "scraped_claim", storage: claimsStorage, references: [] }),
+  defineSet<DraftClaim>({
+    type: "draft_claim",
+    storage: draftClaimsStorage,
+    references: [
+      { field: "primaryDocumentId", target: "document", ids: (d) => [d.primaryDocumentId] },
+      { field: "documentIds", target: "document", ids: (d) => d.documentIds, repair: dropId("documentIds") },
+      {
+        field: "calendarDocumentIds",
+        target: "document",
+        ids: (d) => d.calendarDocumentIds ?? [],
+        repair: dropId("calendarDocumentIds"),
+      },
+      {
+        field: "paymentProofDocumentIds",
+        target: "document",
+        ids: (d) => d.paymentProofDocumentIds ?? [],
+        repair: dropId("paymentProofDocumentIds"),
+      },
+      { field: "illnessId", target: "illness", ids: (d) => [d.illnessId], repair: clearField("illnessId") },
+      {
+        field: "scrapedClaimId",
+        target: "scraped_claim",
+        ids: (d) => [d.scrapedClaimId],
+        repair: clearField("scrapedClaimId"),
+      },
+    ],
+  }),
+  defineSet<Claim>({
+    type: "claim",
+    storage: submittedClaimsStorage,
+    references: [
+      { field: "patientId", target: "patient", ids: (c) => [c.patientId] },
+      { field: "draftClaimId", target: "draft_claim", ids: (c) => [c.draftClaimId], repair: clearField("draftClaimId") },
+      { field: "illnessId", target: "illness", ids: (c) => [c.illnessId], repair: clearField("illnessId") },
+      { field: "documentIds", target: "document", ids: (c) => c.documentIds ?? [], repair: dropId("documentIds") },
+      {
+        field: "proofDocumentIds",
+        target: "document",
+        ids: (c) => c.proofDocumentIds ?? [],
+        repair: dropId("proofDocumentIds"),
+      },
+    ],
+  }),
+  defineSet<DocumentClaimAssignment>({
+    type: "assignment",
+    storage: assignmentsStorage,
+    references: [
+      { field: "documentId", target: "document", ids: (a) => [a.documentId], repair: deleteEntity },
+      { field: "claimId", target: "scraped_claim", ids: (a) => [a.claimId], repair: deleteEntity },
+      { field: "illnessId", target: "illness", ids: (a) => [a.illnessId], repair: clearField("illnessId") },
+    ],
+  }),
+  defineSet<ArchiveRule>({
+    type: "archive_rule",
+    storage: archiveRulesStorage,
+    references: [
+      {
+        field: "actions.illnessId",
+        target: "illness",
+        ids: (r) => (r.actions ?? []).map((action) => (action.kind === "link_illness" ? action.illnessId : undefined)),
+      },
+    ],
+  }),
+];
+
+type LoadedEntities = Map<AuditEntityType, Map<string, { id: string }>>;
+
+function issueId(parts: Array<string | undefined>): string {
+  return parts.map((part) => part ?? "").join(":");
+}
+
+/**
+ * Re-read an entity, apply a fix and save (or delete) it.
+ */
+function entityFix<T extends { id: string }>(
+  set: EntitySet<T>,
+  entityId: string,
+  apply: (entity: T) => T | null
+): () => Promise<void> {
+  return async () => {
+    const current = await set.storage.get(entityId);
+    if (!current) return;
+    const fixed = apply(current);
+    if (fixed) {
+      await set.storage.save(fixed);
+    } else {
+      await set.storage.delete(entityId);
+    }
+  };
+}
+
+function findBrokenReferences(entities: LoadedEntities): FoundIssue[] {
+  const found: FoundIssue[] = [];
+
+  for (const set of ENTITY_SETS) {
+    for (const entity of entities.get(set.type)!.values()) {
+      for (const reference of set.references) {
+        const targets = entities.get(reference.target)!;
+        for (const targetId of new Set(reference.ids(entity))) {
+          if (!targetId || targets.has(targetId)) continue;
+
+          const repair = reference.repair;
+          found.push({
+            issue: {
+              id: issueId(["broken_reference", set.type, entity.id, reference.field, targetId]),
+              kind: "broken_reference",
+              entityType: set.type,
+              entityId: entity.id,
+              field: reference.field,
+              targetType: reference.target,
+              targetId,
+              message: `${set.type} ${entity.id} references missing ${reference.target} ${targetId} in ${reference.field}`,
+              ...(repair && { repair: repair.description }),
+            },
+            ...(repair && { fix: entityFix(set, entity.id, (current) => repair.apply(current, targetId)) }),
+          });
+        }
+      }
+    }
+  }
+
+  // Attachments whose file is gone
+  for (const document of entities.get("document")!.values() as Iterable<MedicalDocument>) {
+    if (!document.attachmentPath || fs.existsSync(document.attachmentPath)) continue;
+    found.push({
+      issue: {
+        id: issueId(["broken_reference", "document", document.id, "attachmentPath"]),
+        kind: "broken_reference",
+        entityType: "document",
+        entityId: document.id,
+        field: "attachmentPath",
+        targetType: "file",
+        targetId: document.attachmentPath,
+        message: `document ${document.id} points to missing file ${document.attachmentPath}`,
+      },
+    });
+  }
+
+  return found;
+}
+
+async function findOrphans(entities: LoadedEntities): Promise<FoundIssue[]> {
+  const found: FoundIssue[] = [];
+
+  // Uploaded files no document points to
+  if (fs.existsSync(UPLOADS_DIR)) {
+    const attached = new Set(
+      [...(entities.get("document")!.values() as Iterable<MedicalDocument>)]
+        .map((document) => document.attachmentPath)
+        .filter((filePath): filePath is string => !!filePath)
+        .map((filePath) => path.resolve(filePath))
+    );
+    for (const name of fs.readdirSync(UPLOADS_DIR).sort()) {
+      const filePath = path.join(UPLOADS_DIR, name);
+      if (attached.has(filePath) || !fs.statSync(filePath).isFile()) continue;
+      found.push({
+        issue: {
+          id: issueId(["orphan", "file", filePath]),
+          kind: "orphan",
+          entityType: "file",
+          entityId: filePath,
+          message: `Uploaded file ${name} is not attached to any document`,
+        },
+      });
+    }
+  }
+
+  // Search index rows left behind by deleted entities
+  if (getStorageBackend() === "sqlite" && !isEncryptionEnabled()) {
+    const { getDatabase } = await import("../storage/sqlite.js");
+    const { removeSearchEntry } = await import("../storage/search-index.js");
+    const db = getDatabase();
+    const rows = db.prepare("SELECT entity_type, entity_id FROM search_index").all() as Array<{
+      entity_type: SearchEntityType;
+      entity_id: string;
+    }>;
+    for (const row of rows) {
+      if (entities.get(row.entity_type)?.has(row.entity_id)) continue;
+      found.push({
+        issue: {
+          id: issueId(["orphan", "search_index", row.entity_type, row.entity_id]),
+          kind: "orphan",
+          entityType: "search_index",
+          entityId: `${row.entity_type}:${row.entity_id}`,
+          targetType: row.entity_type,
+          targetId: row.entity_id,
+          message: `Search index row for missing ${row.entity_type} ${row.entity_id}`,
+          repair: "Remove the search index row",
+        },
+        fix: async () => removeSearchEntry(db, row.entity_type, row.entity_id),
+      });
+    }
+  }
+
+  return found;
+}
+
+/** Assignment kept when a pair is duplicated: confirmed first, then oldest */
+const ASSIGNMENT_STATUS_RANK: Record<DocumentClaimAssignment["status"], number> = {
+  confirmed: 0,
+  candidate: 1,
+  rejected: 2,
+};
+
+/**
+ * Report every entity but the first of each group sharing a key.
+ */
+function duplicatesByKey<T extends { id: string }>(
+  set: EntitySet<{ id: string }>,
+  entities: T[],
+  key: (entity: T) => string | undefined,
+  describeKey: string,
+  fix?: EntitySet<{ id: string }>
+): FoundIssue[] {
+  const groups = new Map<string, T[]>();
+  for (const entity of entities) {
+    const value = key(entity);
+    if (!value) continue;
+    groups.set(value, [...(groups.get(value) ?? []), entity]);
+  }
+
+  const found: FoundIssue[] = [];
+  for (const [value, group] of groups) {
+    const [kept, ...extras] = group;
+    for (const extra of extras) {
+      found.push({
+        issue: {
+          id: issueId(["duplicate", set.type, extra.id, kept!.id]),
+          kind: "duplicate",
+          entityType: set.type,
+          entityId: extra.id,
+          targetType: set.type,
+          targetId: kept!.id,
+          message: `${set.type} ${extra.id} duplicates ${kept!.id} (same ${describeKey} ${value})`,
+          ...(fix && { repair: `Delete the duplicate ${set.type}` }),
+        },
+        ...(fix && { fix: entityFix(fix, extra.id, () => null) }),
+      });
+    }
+  }
+  return found;
+}
+
+function findDuplicates(entities: LoadedEntities): FoundIssue[] {
+  const setOf = (type: AuditEntityType) => ENTITY_SETS.find((set) => set.type === type)!;
+  const all = <T>(type: AuditEntityType) => [...entities.get(type)!.values()] as T[];
+
+  const documents = all<MedicalDocument>("document").sort(
+    (a, b) => new Date(a.processedAt).getTime() - new Date(b.processedAt).getTime()
+  );
+  const assignments = all<DocumentClaimAssignment>("assignment").sort(
+    (a, b) =>
+      ASSIGNMENT_STATUS_RANK[a.status] - ASSIGNMENT_STATUS_RANK[b.status] ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  return [
+    // Documents are deduplicated on import by these keys
+    ...duplicatesByKey(setOf("document"), documents, (d) => {
+      if (d.sourceType === "calendar") return d.calendarEventId && `calendar:${d.calendarEventId}`;
+      if (d.sourceType === "email") return d.emailId && `email:${d.emailId}`;
+      return d.attachmentPath && `file:${path.resolve(d.attachmentPath)}`;
+    }, "source"),
+    ...duplicatesByKey(setOf("scraped_claim"), all<ScrapedClaim>("scraped_claim"), (c) => c.cignaClaimNumber || undefined, "Cigna claim number"),
+    ...duplicatesByKey(setOf("patient"), all<Patient>("patient"), (p) => p.cignaId || undefined, "Cigna ID"),
+    ...duplicatesByKey(
+      setOf("assignment"),
+      assignments,
+      (a) => `${a.documentId}/${a.claimId}`,
+      "document/claim pair",
+      setOf("assignment")
+    ),
+  ];
+}
+
+async function findIssues(): Promise<{ checked: IntegrityReport["checked"]; found: FoundIssue[] }> {
+  const entities: LoadedEntities = new Map();
+  const checked: IntegrityReport["checked"] = {};
+  for (const set of ENTITY_SETS) {
+    const all = await set.storage.getAll();
+    entities.set(set.type, new Map(all.map((entity) => [entity.id, entity])));
+    checked[set.type] = all.length;
+  }
+
+  const found = [
+    ...findBrokenReferences(entities),
+    ...(await findOrphans(entities)),
+    ...findDuplicates(entities),
+  ];
+  return { checked, found };
+}
+
+/**
+ * Check all entities and return the issues found. Changes nothing.
+ */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const { checked, found } = await findIssues();
+  return { checkedAt: new Date(), checked, issues: found.map(({ issue }) => issue) };
+}
+
+/**
+ * Repair the given issues (by ID) that have a safe fix.
+ * Issues are looked up in a fresh check, so a stale ID is skipped.
+ */
+export async function repairIntegrityIssues(issueIds: string[]): Promise<IntegrityRepairResult> {
+  const { found } = await findIssues();
+  const byId = new Map(found.map((entry) => [entry.issue.id, entry]));
+
+  const repaired: string[] = [];
+  const skipped: string[] = [];
+  for (const id of new Set(issueIds)) {
+    const fix = byId.get(id)?.fix;
+    if (!fix) {
+      skipped.push(id);
+      continue;
+    }
+    // One at a time: fixes of the same entity re-read it
+    await fix();
+    repaired.push(id);
+  }
+
+  return { repaired, skipped, report: await checkIntegrity() };
+}
@@ -0,0 +1,259 @@
+/**
+ * Invoice Field Extraction
+ *
+ * Reads the details a claim submission needs from an invoice's OCR text:
+ * provider name and address, invoice number and date, service dates,
+ * patient name, IBAN and payment terms. Each field carries a confidence
+ * (0-100); labelled values ("Rechnung Nr.", "Patient:", "Leistungsdatum")
+ * score higher than values found by position or shape alone.
+ *
+ * Fields at or above PREFILL_MIN_CONFIDENCE prefill new draft claims.
+ */
+
+import type { ExtractedField, ExtractedInvoiceFields, MedicalDocument } from "../types/medical-document.js";
+import type { CreateDraftClaimInput, DraftClaimSubmission } from "../types/draft-claim.js";
+import { extractAmounts, extractDates, findInvoiceDate, foldText, labelPattern, lineBefore } from "./locale-extraction.js";
+
+/** Fields below this confidence are shown but not copied into drafts */
+export const PREFILL_MIN_CONFIDENCE = 60;
+
+/** Lines at the top of an invoice searched for the provider letterhead */
+const LETTERHEAD_LINES = 12;
+
+const INVOICE_NUMBER_LABELS = labelPattern([
+  "rechnung nr", "rechnungsnummer", "rechnungs nr", "rechnung", "invoice no", "invoice number", "invoice",
+  "facture n", "facture no", "numero de facture", "rekina nr", "rekins nr", "rekins",
+  "faktura nr", "faktura vat nr", "numer faktury", "cislo faktury", "faktura c", "fakturanummer", "fakturanr",
+]);
+
+const SERVICE_DATE_LABELS = labelPattern([
+  "behandlung", "behandlungsdatum", "behandlungszeitraum", "leistungsdatum", "leistungszeitraum", "zeitraum",
+  "date of service", "service date", "treatment date", "date of treatment", "period",
+  "date de soins", "date des soins", "pakalpojuma datums", "pakalpojuma sniegsanas datums",
+  "data wykonania", "data uslugi", "datum poskytnuti", "behandlingsdatum",
+]);
+
+const PATIENT_LABELS = labelPattern([
+  "patient", "patientin", "patient name", "name des patienten", "patient in", "pacients", "pacientes vards",
+  "pacjent", "pacient", "beneficiaire",
+]);
+
+const PAYMENT_TERMS_LABELS = labelPattern([
+  "zahlbar", "zahlungsziel", "zahlungsbedingungen", "faellig", "fallig", "payable", "payment terms", "due within",
+  "due date", "payment due", "a regler", "apmaksas termins", "apmaksat lidz", "termin platnosci",
+  "splatnost", "betalningsvillkor", "forfallodatum",
+]);
+
+/** Words that mark a line as a practice, clinic or company name */
+const PROVIDER_KEYWORDS = labelPattern([
+  "praxis", "dr", "dr med", "klinik", "klinikum", "clinic", "clinique", "hospital", "krankenhaus", "zahnarzt",
+  "zahnarztpraxis", "apotheke", "pharmacy", "pharmacie", "labor", "medical", "medizinisches", "gmbh", "mvz",
+  "sia", "klinika", "aptieka", "sp z o o", "s r o", "ab", "centre", "center", "zentrum", "therapie", "physiotherapie",
+]);
+
+/** Document titles and labels that are never the provider name */
+const NOT_PROVIDER = labelPattern([
+  "rechnung", "invoice", "facture", "rekins", "faktura", "receipt", "quittung", "seite", "page", "datum", "date",
+]);
+
+const POSTAL_CODE_LINE = /^(?:[A-Z]{1,2}-?\s?)?\d{2,5}(?:[\s-]\d{2,3})?\s+\p{L}[\p{L}\s.-]+$/u;
+const STREET_LINE = /^(?:\p{L}[\p{L}.\s-]*\s\d+[a-z]?(?:[/-]\d+)?|\d+[a-z]?\s\p{L}[\p{L}.\s-]*|ul\.\s.+|iela\s.+)$/iu;
+
+const IBAN_PATTERN = /\b([A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?)\b/g;
+
+function field<T>(value: T, confidence: number): ExtractedField<T> {
+  return { value, confidence };
+}
+
+function lines(text: string): string[] {
+  return text.split("\n").map((line) => line.trim());
+}
+
+/**
+ * Text after the first label match on a line, or null.
+ */
+function afterLabel(line: string, pattern: RegExp): string | null {
+  const match = pattern.exec(foldText(line));
+  if (!match) return null;
+  // Folding keeps lengths for Latin text, so the index maps back to the line
+  return line.slice(match.index + match[0].length).replace(/^[\s:.#°º-]+/, "");
+}
+
+/**
+ * True if an IBAN's mod-97 checksum is valid.
+ */
+export function isValidIban(iban: string): boolean {
+  const compact = iban.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function extractIban(text: string): ExtractedField<string> | undefined {
+  for (const match of text.matchAll(IBAN_PATTERN)) {
+    const compact = match[1]!.replace(/\s/g, "");
+    if (isValidIban(compact)) return field(compact, 99);
+  }
+  return undefined;
+}
+
+function extractInvoiceNumber(text: string): ExtractedField<string> | undefined {
+  for (const line of lines(text)) {
+    const rest = afterLabel(line, INVOICE_NUMBER_LABELS);
+    if (rest === null) continue;
+
+    // Skip words like "vom", "Nr." and "No." between label and number
+    const match = /^(?:(?:nr|no|n°|num(?:ber)?|vom|date)\.?:?\s+)*([A-Z0-9][A-Z0-9\-/.]*\d[A-Z0-9\-/]*)/i.exec(rest);
+    if (match) return field(match[1]!.replace(/\.$/, ""), 90);
+  }
+  return undefined;
+}
+
+function extractServiceDates(text: string, invoiceDate?: Date): ExtractedField<Date[]> | undefined {
+  const labelled: Date[] = [];
+  const onAmountLines: Date[] = [];
+
+  for (const { date, index } of extractDates(text)) {
+    const lineEnd = text.indexOf("\n", index);
+    const line = `${lineBefore(text, index)}${text.slice(index, lineEnd < 0 ? undefined : lineEnd)}`;
+
+    if (SERVICE_DATE_LABELS.test(foldText(line))) {
+      labelled.push(date);
+    } else if (date.getTime() !== invoiceDate?.getTime() && extractAmounts(line).length > 0) {
+      // A dated line item: "03.03.2025  Beratung  10,72 €"
+      onAmountLines.push(date);
+    }
+  }
+
+  const [dates, confidence] = labelled.length > 0 ? [labelled, 85] : [onAmountLines, 60];
+  if (dates.length === 0) return undefined;
+
+  const unique = [...new Map(dates.map((date) => [date.getTime(), date])).values()];
+  return field(unique.sort((a, b) => a.getTime() - b.getTime()), confidence);
+}
+
+function extractPatientName(text: string): ExtractedField<string> | undefined {
+  for (const line of lines(text)) {
+    const rest = afterLabel(line, PATIENT_LABELS);
+    if (!rest) continue;
+
+    // Stop at a birth date or the next label on the same line
+    const name = rest.split(/\s{2,}|,?\s*(?:geb\.|geboren|born|dob|\d)/i)[0]!.trim();
+    if (/^\p{L}[\p{L}.' -]{2,60}$/u.test(name) && name.includes(" ")) return field(name, 85);
+  }
+  return undefined;
+}
+
+function extractPaymentTerms(text: string): ExtractedField<string> | undefined {
+  const line = lines(text).find((candidate) => PAYMENT_TERMS_LABELS.test(foldText(candidate)));
+  return line ? field(line.slice(0, 200), 70) : undefined;
+}
+
+/**
+ * Provider name and address from the letterhead: the first line naming a
+ * practice or company (else the first plain text line), followed by its
+ * street and postal code lines.
+ */
+function extractProvider(text: string): Pick<ExtractedInvoiceFields, "providerName" | "providerAddress"> {
+  const top = lines(text).slice(0, LETTERHEAD_LINES);
+  const isNameLine = (line: string) =>
+    /\p{L}{2,}/u.test(line) &&
+    !/\d{3,}/.test(line) &&
+    !NOT_PROVIDER.test(foldText(line)) &&
+    !STREET_LINE.test(line) &&
+    !POSTAL_CODE_LINE.test(line);
+
+  let nameIndex = top.findIndex((line) => isNameLine(line) && PROVIDER_KEYWORDS.test(foldText(line)));
+  const keyword = nameIndex >= 0;
+  if (!keyword) nameIndex = top.findIndex(isNameLine);
+  if (nameIndex < 0) return {};
+
+  const result: Pick<ExtractedInvoiceFields, "providerName" | "providerAddress"> = {
+    providerName: field(top[nameIndex]!.replace(/\s{2,}/g, " "), keyword ? 80 : 40),
+  };
+
+  // Address lines follow the name, possibly after a second name line ("Dr. med. ...")
+  const address: string[] = [];
+  let hasPostalCode = false;
+  for (const line of top.slice(nameIndex + 1, nameIndex + 5)) {
+    if (!line) continue;
+    if (POSTAL_CODE_LINE.test(line)) {
+      address.push(line);
+      hasPostalCode = true;
+      break;
+    }
+    if (STREET_LINE.test(line)) {
+      address.push(line);
+    } else if (address.length > 0) {
+      break;
+    }
+  }
+
+  if (address.length > 0) {
+    result.providerAddress = field(address.join(", "), hasPostalCode ? 75 : 50);
+  }
+  return result;
+}
+
+/**
+ * Extract invoice fields from OCR text. Fields that are not found are omitted.
+ */
+export function extractInvoiceFields(text: string): ExtractedInvoiceFields {
+  const invoiceDate = findInvoiceDate(text);
+  const fields: ExtractedInvoiceFields = {
+    ...extractProvider(text),
+    extractedAt: new Date(),
+  };
+
+  const invoiceNumber = extractInvoiceNumber(text);
+  const serviceDates = extractServiceDates(text, invoiceDate?.date);
+  const patientName = extractPatientName(text);
+  const iban = extractIban(text);
+  const paymentTerms = extractPaymentTerms(text);
+
+  return {
+    ...fields,
+    ...(invoiceNumber && { invoiceNumber }),
+    ...(invoiceDate && { invoiceDate: field(invoiceDate.date, invoiceDate.labelled ? 90 : 50) }),
+    ...(serviceDates && { serviceDates }),
+    ...(patientName && { patientName }),
+    ...(iban && { iban }),
+    ...(paymentTerms && { paymentTerms }),
+  };
+}
+
+function confident<T>(extracted?: ExtractedField<T>): T | undefined {
+  return extracted && extracted.confidence >= PREFILL_MIN_CONFIDENCE ? extracted.value : undefined;
+}
+
+/**
+ * Draft claim details taken from a document's extracted fields:
+ * provider name and address, and the earliest service date as treatment date.
+ */
+export function draftPrefillFromDocument(
+  document: MedicalDocument
+): Pick<CreateDraftClaimInput, "submission" | "treatmentDate" | "treatmentDateSource"> {
+  const fields = document.extractedFields;
+  if (!fields) return {};
+
+  const providerName = confident(fields.providerName);
+  const providerAddress = confident(fields.providerAddress);
+  const treatmentDate = confident(fields.serviceDates)?.[0];
+  const submission: DraftClaimSubmission = {
+    ...(providerName && { providerName }),
+    ...(providerAddress && { providerAddress }),
+  };
+
+  return {
+    ...(Object.keys(submission).length > 0 && { submission }),
+    ...(treatmentDate && { treatmentDate, treatmentDateSource: "document" as const }),
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Background job runner.
+ *
+ * Runs long-lived work (Cigna scrapes, claim submissions, document processing)
+ * outside the HTTP request. Status, progress, log lines and the result are
+ * persisted so a run can be inspected after the tab closes or the server restarts.
+ */
+
+import type {
+  Job,
+  JobType,
+  JobLogLevel,
+  JobProgress,
+} from "../types/job.js";
+import { TERMINAL_JOB_STATUSES } from "../types/job.js";
+import type { ProgressEvent, ProgressUpdate } from "../types/progress-event.js";
+import { publishLiveEvent } from "./live-events.js";
+import { generateId } from "../storage/base.js";
+import { runAsActor } from "../storage/audit-log.js";
+import {
+  jobsStorage,
+  updateJob,
+  getUnfinishedJobs,
+} from "../storage/jobs.js";
+
+/** Keep job records bounded; older lines are dropped first */
+const MAX_LOG_ENTRIES = 500;
+
+/**
+ * Handle passed to a running job handler.
+ */
+export interface JobContext {
+  /** ID of the running job */
+  jobId: string;
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  /** Append a log line to the job record */
+  log(message: string, level?: JobLogLevel): void;
+  /** Replace the job's progress */
+  setProgress(progress: JobProgress): void;
+  /** Record a service progress update: sets progress, logs it and publishes a live event */
+  report(update: ProgressUpdate): void;
+  /** Throw if cancellation was requested */
+  throwIfCancelled(): void;
+}
+
+export type JobHandler<T> = (context: JobContext) => Promise<T>;
+
+export interface StartJobOptions {
+  /** What started the job (e.g., "manual", "scheduled") */
+  trigger: string;
+  /** Non-secret input parameters to record */
+  input?: Record<string, unknown>;
+  /** Entity the job operates on */
+  entityId?: string;
+  /** Entities a job covering several operates on (e.g., a batch submission) */
+  entityIds?: string[];
+}
+
+interface ActiveJob {
+  job: Job;
+  /** Entities the job operates on (entityId or entityIds) */
+  entityIds: string[];
+  controller: AbortController;
+  /** Serialized persistence chain so saves never interleave */
+  writes: Promise<void>;
+  /** Resolves with the final job record */
+  done: Promise<Job>;
+}
+
+const activeJobs = new Map<string, ActiveJob>();
+
+function persist(active: ActiveJob): void {
+  const snapshot: Job = { ...active.job, logs: [...active.job.logs] };
+  active.writes = active.writes
+    .then(async () => {
+      await jobsStorage.save(snapshot);
+    })
+    .catch((err) => {
+      console.error(`[Jobs] Failed to persist job ${snapshot.id}:`, err);
+    });
+}
+
+function appendLog(active: ActiveJob, message: string, level: JobLogLevel): void {
+  const logs = [...active.job.logs, { at: new Date(), level, message }];
+  active.job = {
+    ...active.job,
+    logs: logs.slice(-MAX_LOG_ENTRIES),
+    updatedAt: new Date(),
+  };
+  publishLiveEvent({
+    kind: "log",
+    jobId: active.job.id,
+    entry: active.job.logs[active.job.logs.length - 1]!,
+    at: new Date(),
+  });
+  const prefix = `[Job:${active.job.type}]`;
+  if (level === "error") console.error(prefix, message);
+  else if (level === "warn") console.warn(prefix, message);
+  else console.log(prefix, message);
+  persist(active);
+}
+
+function patch(active: ActiveJob, updates: Partial<Job>): void {
+  active.job = { ...active.job, ...updates, updatedAt: new Date() };
+  persist(active);
+  const { logs: _logs, ...job } = active.job;
+  publishLiveEvent({ kind: "job", job, at: new Date() });
+}
+
+function report(active: ActiveJob, update: ProgressUpdate): void {
+  patch(active, {
+    progress: {
+      current: update.current ?? 0,
+      ...(update.total !== undefined && { total: update.total }),
+      message: update.message,
+    },
+  });
+  appendLog(active, update.message, "info");
+  publishLiveEvent({
+    kind: "progress",
+    source: active.job.type,
+    jobId: active.job.id,
+    at: new Date(),
+    ...update,
+  } as ProgressEvent);
+}
+
+/**
+ * Check whether a job status is terminal.
+ */
+export function isTerminalJobStatus(status: Job["status"]): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Find the running job of a type in this process.
+ *
+ * When entityId is given, only a job for that entity (or covering it) matches.
+ */
+export function findActiveJob(type: JobType, entityId?: string): Job | null {
+  for (const active of activeJobs.values()) {
+    if (active.job.type !== type) continue;
+    if (entityId !== undefined && !active.entityIds.includes(entityId)) continue;
+    return active.job;
+  }
+  return null;
+}
+
+/**
+ * Create a job record and run the handler in the background.
+ *
+ * Only one job per type (and entity, when given) runs at a time; callers should
+ * check findActiveJob() first to report a conflict. A job with several
+ * entities conflicts with any running job for one of them.
+ *
+ * @returns The job record as started (status "running")
+ */
+export function startJob<T>(
+  type: JobType,
+  options: StartJobOptions,
+  handler: JobHandler<T>
+): Job {
+  const entityIds = options.entityIds ?? (options.entityId ? [options.entityId] : []);
+  const existing =
+    entityIds.length > 0
+      ? entityIds.map((entityId) => findActiveJob(type, entityId)).find((job) => job !== null)
+      : findActiveJob(type);
+  if (existing) {
+    throw new Error(`A ${type} job is already running (${existing.id})`);
+  }
+
+  // Register synchronously so concurrent callers see the job immediately
+  const now = new Date();
+  const created: Job = {
+    id: generateId(),
+    type,
+    status: "queued",
+    trigger: options.trigger,
+    ...(options.input && { input: options.input }),
+    ...(options.entityId && { entityId: options.entityId }),
+    logs: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  let resolveDone!: (job: Job) => void;
+  const active: ActiveJob = {
+    job: created,
+    entityIds,
+    controller: new AbortController(),
+    writes: Promise.resolve(),
+    done: new Promise<Job>((resolve) => {
+      resolveDone = resolve;
+    }),
+  };
+  activeJobs.set(created.id, active);
+
+  const context: JobContext = {
+    jobId: created.id,
+    signal: active.controller.signal,
+    log: (message, level = "info") => appendLog(active, message, level),
+    setProgress: (progress) => patch(active, { progress }),
+    report: (update) => report(active, update),
+    throwIfCancelled: () => {
+      if (active.controller.signal.aborted) {
+        throw new Error("Job cancelled");
+      }
+    },
+  };
+
+  patch(active, { status: "running", startedAt: new Date() });
+
+  void (async () => {
+    try {
+      // Storage changes made by the job are attributed to it in the audit log
+      const result = await runAsActor({ actor: `job:${type}`, source: created.id }, () =>
+        handler(context)
+      );
+      if (active.controller.signal.aborted) {
+        patch(active, { status: "cancelled", finishedAt: new Date() });
+      } else {
+        patch(active, { status: "succeeded", result, finishedAt: new Date() });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (active.controller.signal.aborted) {
+        appendLog(active, `Stopped after cancellation: ${message}`, "warn");
+        patch(active, { status: "cancelled", finishedAt: new Date() });
+      } else {
+        appendLog(active, message, "error");
+        patch(active, { status: "failed", error: message, finishedAt: new Date() });
+      }
+    } finally {
+      await active.writes;
+      activeJobs.delete(created.id);
+      resolveDone(active.job);
+    }
+  })();
+
+  return active.job;
+}
+
+/**
+ * Get a job by ID, preferring the live in-memory record.
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const active = activeJobs.get(id);
+  if (active) return active.job;
+  return jobsStorage.get(id);
+}
+
+/**
+ * Wait for a job to reach a terminal status.
+ *
+ * Returns null if the job is not running in this process and is not stored.
+ */
+export async function waitForJob(id: string): Promise<Job | null> {
+  const active = activeJobs.get(id);
+  if (active) return active.done;
+  return jobsStorage.get(id);
+}
+
+/**
+ * Request cancellation of a job.
+ *
+ * Running jobs are signalled and finish as "cancelled" once their handler
+ * returns. Stale unfinished records (no live handler) are cancelled directly.
+ *
+ * @returns The updated job, or null if not found
+ */
+export async function cancelJob(id: string): Promise<Job | null> {
+  const active = activeJobs.get(id);
+  if (active) {
+    if (!active.controller.signal.aborted) {
+      patch(active, { cancelRequestedAt: new Date() });
+      appendLog(active, "Cancellation requested", "warn");
+      active.controller.abort();
+    }
+    return active.job;
+  }
+
+  const job = await jobsStorage.get(id);
+  if (!job || isTerminalJobStatus(job.status)) return job;
+
+  const now = new Date();
+  return updateJob(id, {
+    status: "cancelled",
+    cancelRequestedAt: now,
+    finishedAt: now,
+  });
+}
+
+/**
+ * Mark jobs left unfinished by a previous server process as failed.
+ *
+ * Call once at startup, before any new jobs are started.
+ *
+ * @returns Number of jobs marked as interrupted
+ */
+export async function recoverInterruptedJobs(): Promise<number> {
+  const unfinished = await getUnfinishedJobs();
+  let recovered = 0;
+
+  for (const job of unfinished) {
+    if (activeJobs.has(job.id)) continue;
+    const now = new Date();
+    await updateJob(job.id, {
+      status: "failed",
+      error: "Interrupted by server restart",
+      finishedAt: now,
+      logs: [
+        ...job.logs,
+        { at: now, level: "error", message: "Interrupted by server restart" },
+      ],
+    });
+    recovered++;
+  }
+
+  if (recovered > 0) {
+    console.log(`[Jobs] Marked ${recovered} interrupted job(s) as failed`);
+  }
+  return recovered;
+}
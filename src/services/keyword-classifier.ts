@@ -0,0 +1,138 @@
+/**
+ * Keyword Classifier
+ *
+ * Classifies documents by keywords in their text. Used when no trained
+ * model exists or its prediction is not confident, and to label confirmed
+ * documents when training the model.
+ */
+
+import type { DocumentClassification } from "../types/medical-document.js";
+
+/**
+ * Classify document based on content.
+ */
+export function classifyDocument(
+  text: string,
+  subject?: string,
+  isCalendarEvent: boolean = false
+): DocumentClassification {
+  // Calendar events are appointments by default
+  if (isCalendarEvent) {
+    return "appointment";
+  }
+
+  const combined = `${subject ?? ""} ${text}`.toLowerCase();
+
+  // Check for specific document types
+  const classifications: Array<{
+    type: DocumentClassification;
+    keywords: string[];
+    score: number;
+  }> = [
+      {
+        type: "medical_bill",
+        keywords: [
+          "invoice",
+          "bill",
+          "rechnung",
+          "facture",
+          "amount due",
+          "total due",
+          "payment due",
+          "please pay",
+          "account statement",
+        ],
+        score: 0,
+      },
+      {
+        type: "receipt",
+        keywords: [
+          "receipt",
+          "quittung",
+          "paid",
+          "payment received",
+          "thank you for your payment",
+          "reçu",
+        ],
+        score: 0,
+      },
+      {
+        type: "prescription",
+        keywords: [
+          "prescription",
+          "rx",
+          "dosage",
+          "medication",
+          "drug",
+          "pharmacy",
+          "rezept",
+        ],
+        score: 0,
+      },
+      {
+        type: "lab_result",
+        keywords: [
+          "lab result",
+          "test result",
+          "blood test",
+          "analysis",
+          "laboratory",
+          "laborbefund",
+        ],
+        score: 0,
+      },
+      {
+        type: "insurance_statement",
+        keywords: [
+          "explanation of benefits",
+          "eob",
+          "claim summary",
+          "insurance statement",
+          "coverage",
+          "reimbursement",
+        ],
+        score: 0,
+      },
+      {
+        type: "appointment",
+        keywords: [
+          "appointment",
+          "termin",
+          "rendez-vous",
+          "session",
+          "visit",
+          "consultation",
+          "meeting with doctor",
+        ],
+        score: 0,
+      },
+      {
+        type: "correspondence",
+        keywords: [
+          "dear",
+          "confirmation",
+          "reminder",
+          "follow-up",
+          "referral",
+        ],
+        score: 0,
+      },
+    ];
+
+  // Score each classification
+  for (const cls of classifications) {
+    for (const keyword of cls.keywords) {
+      if (combined.includes(keyword)) {
+        cls.score += 1;
+      }
+    }
+  }
+
+  // Find highest scoring
+  classifications.sort((a, b) => b.score - a.score);
+  if (classifications[0]!.score > 0) {
+    return classifications[0]!.type;
+  }
+
+  return "unknown";
+}
@@ -0,0 +1,39 @@
+/**
+ * In-process live event bus.
+ *
+ * Services and the job runner publish here; the API streams events to
+ * connected browsers via Server-Sent Events.
+ */
+
+import { EventEmitter } from "node:events";
+import type { LiveEvent } from "../types/progress-event.js";
+
+const emitter = new EventEmitter();
+// One listener per open browser tab; don't warn on many tabs
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to all subscribers.
+ */
+export function publishLiveEvent(event: LiveEvent): void {
+  emitter.emit("event", event);
+}
+
+/**
+ * Subscribe to live events.
+ *
+ * @returns Function that removes the subscription
+ */
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
+
+/**
+ * Format an event as a Server-Sent Events message.
+ */
+export function formatSseMessage(event: LiveEvent): string {
+  return `event: ${event.kind}\ndata: ${JSON.stringify(event)}\n\n`;
+}
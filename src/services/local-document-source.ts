@@ -0,0 +1,618 @@
+/**
+ * Local Document Source
+ *
+ * DocumentSource backed by files on disk instead of the QweN daemon:
+ * - Email from Maildir directories and mbox files
+ * - Calendar events from .ics files
+ * - OCR through a local tesseract binary (pdftotext/pdftoppm for PDFs)
+ *
+ * Messages and events are indexed in memory on first search. Only header
+ * fields and text bodies are kept; attachments are decoded on demand by
+ * getEmail and written under attachmentsDir so they can be OCR'd by path.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { DocumentSearchOptions, DocumentSource } from "./document-source.js";
+import type {
+  OcrDocumentResponse,
+  EmailAttachment,
+  EmailSearchResult,
+  EmailFTSSearchResponse,
+  CalendarEventSearchResult,
+  CalendarFTSSearchResponse,
+  GetEmailResponse,
+} from "./qwen-client.js";
+import { OCR_IMAGE_EXTENSIONS, OCR_PDF_EXTENSIONS } from "./qwen-client.js";
+import {
+  listMaildirMessages,
+  listMboxMessages,
+  parseMessage,
+  readRawMessage,
+  type RawMessageRef,
+} from "./mail-parser.js";
+import { parseIcs } from "./ics-parser.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Default directory for extracted attachments */
+const DEFAULT_ATTACHMENTS_DIR = path.join(process.cwd(), "data", "local-attachments");
+
+/** Default result limit, matching the QweN FTS endpoints */
+const DEFAULT_LIMIT = 1000;
+
+/** pdftotext output shorter than this is treated as a scanned PDF */
+const MIN_PDF_TEXT_CHARS = 20;
+
+/** BM25 parameters */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Output buffer for OCR tools (large multi-page PDFs) */
+const EXEC_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * A local mail store.
+ */
+export interface LocalMailStore {
+  /** Maildir directory or mbox file */
+  path: string;
+  /** Account name reported on results (default: basename of path) */
+  account?: string;
+}
+
+/**
+ * Local document source configuration.
+ */
+export interface LocalSourceConfig {
+  /** Maildir directories and mbox files */
+  mail?: LocalMailStore[];
+  /** .ics files, or directories containing them */
+  calendars?: string[];
+  /** Where getEmail writes attachments (default: data/local-attachments) */
+  attachmentsDir?: string;
+  /** tesseract binary (default: "tesseract") */
+  tesseractBin?: string;
+  /** tesseract language(s), e.g. "eng+fra" (default: "eng") */
+  tesseractLang?: string;
+  /** pdftotext binary (default: "pdftotext") */
+  pdftotextBin?: string;
+  /** pdftoppm binary (default: "pdftoppm") */
+  pdftoppmBin?: string;
+}
+
+/**
+ * Term statistics for one indexed item.
+ */
+interface IndexedText {
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface IndexedEmail extends IndexedText {
+  result: Omit<EmailSearchResult, "rank" | "score">;
+  ref: RawMessageRef;
+  date: Date;
+}
+
+interface IndexedEvent extends IndexedText {
+  result: Omit<CalendarEventSearchResult, "rank" | "score">;
+  start: Date;
+}
+
+/**
+ * Split text into lowercase search terms.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Term frequencies for a text.
+ */
+function indexText(text: string): IndexedText {
+  const terms = new Map<string, number>();
+  const tokens = tokenize(text);
+  for (const token of tokens) {
+    terms.set(token, (terms.get(token) ?? 0) + 1);
+  }
+  return { terms, length: tokens.length };
+}
+
+/**
+ * Rank items containing every query term by BM25.
+ */
+function bm25Search<T extends IndexedText>(
+  items: T[],
+  query: string
+): Array<{ item: T; score: number }> {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || items.length === 0) return [];
+
+  const avgLength = items.reduce((sum, item) => sum + item.length, 0) / items.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = items.filter((item) => item.terms.has(term)).length;
+    idf.set(term, Math.log(1 + (items.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const results: Array<{ item: T; score: number }> = [];
+  for (const item of items) {
+    if (!queryTerms.every((term) => item.terms.has(term))) continue;
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = item.terms.get(term)!;
+      const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * item.length) / avgLength);
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / norm);
+    }
+    results.push({ item, score });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Whether a date falls in [afterDate, beforeDate).
+ */
+function inDateRange(date: Date, options: DocumentSearchOptions): boolean {
+  if (options.afterDate && date < new Date(options.afterDate)) return false;
+  if (options.beforeDate && date >= new Date(options.beforeDate)) return false;
+  return true;
+}
+
+/**
+ * Make a string safe to use as a single path segment.
+ */
+function safeSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._@+-]/g, "_").replace(/^\.+/, "_") || "_";
+}
+
+/**
+ * Expand a page spec ("all", "2", "1-3", "1,4-5") to 1-based page numbers.
+ * Returns null for "all".
+ */
+function parsePageSpec(pages: string): number[] | null {
+  if (pages.trim().toLowerCase() === "all") return null;
+  const numbers = new Set<number>();
+  for (const part of pages.split(",")) {
+    const range = /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(part);
+    if (!range) continue;
+    const from = Number(range[1]);
+    const to = Number(range[2] ?? range[1]);
+    for (let page = from; page <= to; page++) numbers.add(page);
+  }
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * Local filesystem document source.
+ */
+export class LocalDocumentSource implements DocumentSource {
+  readonly name = "local";
+
+  private config: LocalSourceConfig;
+  private attachmentsDir: string;
+  private emails: IndexedEmail[] | null = null;
+  private events: IndexedEvent[] | null = null;
+
+  constructor(config: LocalSourceConfig = {}) {
+    this.config = config;
+    this.attachmentsDir = config.attachmentsDir ?? DEFAULT_ATTACHMENTS_DIR;
+  }
+
+  /**
+   * Search emails by BM25 over subject, addresses, body and attachment names.
+   * All query terms must match.
+   */
+  async searchEmailsFTS(
+    query: string,
+    options: DocumentSearchOptions = {}
+  ): Promise<EmailFTSSearchResponse> {
+    const index = this.loadEmails();
+    const candidates = index.filter(
+      (email) =>
+        (!options.account || email.result.account === options.account) &&
+        inDateRange(email.date, options)
+    );
+    const matches = bm25Search(candidates, query);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    return {
+      status: "success",
+      query,
+      count: Math.min(matches.length, limit),
+      total_matches: matches.length,
+      index_size: index.length,
+      results: matches.slice(0, limit).map(({ item, score }, i) => ({
+        rank: i + 1,
+        score,
+        ...item.result,
+      })),
+    };
+  }
+
+  /**
+   * Get a full email, extracting its attachments to disk.
+   */
+  async getEmail(emailId: string, account?: string): Promise<GetEmailResponse> {
+    const entry = this.loadEmails().find(
+      (email) => email.result.id === emailId && (!account || email.result.account === account)
+    );
+    if (!entry) {
+      return { status: "error", error: `Email not found: ${emailId}` };
+    }
+
+    const message = parseMessage(readRawMessage(entry.ref));
+    const emailDir = path.join(
+      this.attachmentsDir,
+      safeSegment(entry.result.account),
+      safeSegment(emailId)
+    );
+
+    const attachments: EmailAttachment[] = [];
+    if (message.attachments.length > 0) {
+      fs.mkdirSync(emailDir, { recursive: true });
+    }
+    for (const attachment of message.attachments) {
+      const filePath = path.join(emailDir, safeSegment(attachment.filename));
+      fs.writeFileSync(filePath, attachment.content);
+      attachments.push({
+        filename: attachment.filename,
+        size: attachment.content.length,
+        mime_type: attachment.mimeType,
+        path: filePath,
+      });
+    }
+
+    return {
+      status: "success",
+      email: {
+        ...entry.result,
+        has_attachments: attachments.length > 0,
+        attachments,
+      },
+    };
+  }
+
+  /**
+   * Search calendar events by BM25 over summary, description, location and people.
+   * All query terms must match.
+   */
+  async searchCalendarFTS(
+    query: string,
+    options: DocumentSearchOptions = {}
+  ): Promise<CalendarFTSSearchResponse> {
+    const index = this.loadEvents();
+    const candidates = index.filter(
+      (event) =>
+        (!options.account || event.result.account === options.account) &&
+        inDateRange(event.start, options)
+    );
+    const matches = bm25Search(candidates, query);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    return {
+      status: "success",
+      query,
+      count: Math.min(matches.length, limit),
+      total_matches: matches.length,
+      index_size: index.length,
+      results: matches.slice(0, limit).map(({ item, score }, i) => ({
+        rank: i + 1,
+        score,
+        ...item.result,
+      })),
+    };
+  }
+
+  /**
+   * OCR an image or PDF with tesseract.
+   *
+   * PDFs with a text layer are read with pdftotext; scanned PDFs are
+   * rendered with pdftoppm and each page is OCR'd.
+   */
+  async ocrDocument(
+    filePath: string,
+    pages: string = "all",
+    dpi: number = 200
+  ): Promise<OcrDocumentResponse> {
+    const ext = path.extname(filePath).toLowerCase();
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        return { status: "error", file: filePath, error: `File not found: ${filePath}` };
+      }
+
+      if (OCR_IMAGE_EXTENSIONS.has(ext)) {
+        const text = await this.tesseract(filePath);
+        return {
+          status: "success",
+          file: filePath,
+          type: "image",
+          text,
+          char_count: text.length,
+        };
+      }
+
+      if (OCR_PDF_EXTENSIONS.has(ext)) {
+        return await this.ocrPdf(filePath, pages, dpi);
+      }
+
+      return { status: "error", file: filePath, error: `Unsupported file type: ${ext || filePath}` };
+    } catch (err) {
+      const error = err as NodeJS.ErrnoException & { path?: string };
+      return {
+        status: "error",
+        file: filePath,
+        error:
+          error.code === "ENOENT"
+            ? `OCR tool not found: ${error.path ?? "unknown"}`
+            : error.message,
+      };
+    }
+  }
+
+  /**
+   * Drop the in-memory index so the next search rescans the mail stores.
+   */
+  refresh(): void {
+    this.emails = null;
+    this.events = null;
+  }
+
+  private async ocrPdf(filePath: string, pages: string, dpi: number): Promise<OcrDocumentResponse> {
+    const selected = parsePageSpec(pages);
+
+    // Text layer first: much faster and exact for generated invoices
+    const text = await this.pdfText(filePath, selected);
+    if (text !== null) {
+      // pdftotext ends every page with a form feed
+      const firstPage = selected?.[0] ?? 1;
+      const pageDetails = text
+        .split("\f")
+        .slice(0, -1)
+        .map((page, i) => ({ page: firstPage + i, text: page.trim() }))
+        .filter(({ page }) => !selected || selected.includes(page));
+      const chars = pageDetails.reduce((sum, page) => sum + page.text.replace(/\s/g, "").length, 0);
+      if (chars >= MIN_PDF_TEXT_CHARS) {
+        return this.pdfResponse(filePath, pageDetails);
+      }
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-ocr-"));
+    try {
+      const rangeArgs =
+        selected && selected.length > 0
+          ? ["-f", String(selected[0]), "-l", String(selected[selected.length - 1])]
+          : [];
+      await execFileAsync(
+        this.config.pdftoppmBin ?? "pdftoppm",
+        ["-r", String(dpi), "-png", ...rangeArgs, filePath, path.join(tempDir, "page")],
+        { maxBuffer: EXEC_MAX_BUFFER }
+      );
+
+      // pdftoppm names pages page-1.png, page-01.png, ... depending on page count
+      const images = fs
+        .readdirSync(tempDir)
+        .map((name) => ({ name, page: Number(/-(\d+)\.png$/.exec(name)?.[1]) }))
+        .filter(({ page }) => Number.isFinite(page) && (!selected || selected.includes(page)))
+        .sort((a, b) => a.page - b.page);
+
+      const pageDetails: Array<{ page: number; text: string }> = [];
+      for (const image of images) {
+        pageDetails.push({ page: image.page, text: await this.tesseract(path.join(tempDir, image.name)) });
+      }
+      return this.pdfResponse(filePath, pageDetails);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Extract the PDF text layer; null when pdftotext is unavailable or fails.
+   */
+  private async pdfText(filePath: string, selected: number[] | null): Promise<string | null> {
+    try {
+      const rangeArgs =
+        selected && selected.length > 0
+          ? ["-f", String(selected[0]), "-l", String(selected[selected.length - 1])]
+          : [];
+      const { stdout } = await execFileAsync(
+        this.config.pdftotextBin ?? "pdftotext",
+        ["-layout", ...rangeArgs, filePath, "-"],
+        { maxBuffer: EXEC_MAX_BUFFER }
+      );
+      return stdout;
+    } catch {
+      return null;
+    }
+  }
+
+  private pdfResponse(
+    filePath: string,
+    pages: Array<{ page: number; text: string }>
+  ): OcrDocumentResponse {
+    const text = pages.map((page) => page.text).join("\n\n");
+    return {
+      status: "success",
+      file: filePath,
+      type: "pdf",
+      text,
+      char_count: text.length,
+      total_pages: pages.length,
+      pages_processed: pages.length,
+      page_details: pages.map((page) => ({ ...page, char_count: page.text.length })),
+    };
+  }
+
+  private async tesseract(imagePath: string): Promise<string> {
+    const { stdout } = await execFileAsync(
+      this.config.tesseractBin ?? "tesseract",
+      [imagePath, "stdout", "-l", this.config.tesseractLang ?? "eng"],
+      { maxBuffer: EXEC_MAX_BUFFER }
+    );
+    return stdout.trim();
+  }
+
+  /**
+   * Build (or return) the email index.
+   */
+  private loadEmails(): IndexedEmail[] {
+    if (this.emails) return this.emails;
+
+    const emails: IndexedEmail[] = [];
+    const seen = new Set<string>();
+
+    for (const store of this.config.mail ?? []) {
+      if (!fs.existsSync(store.path)) {
+        console.warn(`Local mail store not found: ${store.path}`);
+        continue;
+      }
+      const account = store.account ?? path.basename(store.path).replace(/\.mbox$/i, "");
+      const refs = fs.statSync(store.path).isDirectory()
+        ? listMaildirMessages(store.path)
+        : listMboxMessages(store.path);
+
+      for (const ref of refs) {
+        try {
+          const message = parseMessage(readRawMessage(ref));
+          const id =
+            message.messageId ??
+            crypto
+              .createHash("sha1")
+              .update(`${ref.file}:${ref.offset ?? 0}`)
+              .digest("hex")
+              .slice(0, 16);
+          // The same message can appear in several folders
+          const key = `${account}\0${id}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          const date = message.date ?? ref.fallbackDate;
+          const attachmentNames = message.attachments.map((a) => a.filename);
+          const searchable = [
+            message.subject,
+            message.from,
+            message.to,
+            message.cc ?? "",
+            message.body,
+            ...attachmentNames,
+          ].join("\n");
+
+          emails.push({
+            ...indexText(searchable),
+            ref,
+            date,
+            result: {
+              id,
+              account,
+              from: message.from,
+              to: message.to,
+              ...(message.cc && { cc: message.cc }),
+              subject: message.subject,
+              date: date.toISOString(),
+              body: message.body,
+              snippet: message.body.replace(/\s+/g, " ").trim().slice(0, 200),
+              has_attachments: message.attachments.length > 0,
+              attachments: message.attachments.map((a) => ({
+                filename: a.filename,
+                size: a.content.length,
+                mime_type: a.mimeType,
+              })),
+            },
+          });
+        } catch (err) {
+          console.warn(`Failed to parse message ${ref.file}:`, err);
+        }
+      }
+    }
+
+    this.emails = emails;
+    return emails;
+  }
+
+  /**
+   * Build (or return) the calendar index.
+   */
+  private loadEvents(): IndexedEvent[] {
+    if (this.events) return this.events;
+
+    const files: string[] = [];
+    for (const entry of this.config.calendars ?? []) {
+      if (!fs.existsSync(entry)) {
+        console.warn(`Local calendar not found: ${entry}`);
+        continue;
+      }
+      if (fs.statSync(entry).isDirectory()) {
+        for (const name of fs.readdirSync(entry).sort()) {
+          if (name.toLowerCase().endsWith(".ics")) files.push(path.join(entry, name));
+        }
+      } else {
+        files.push(entry);
+      }
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const file of files) {
+      try {
+        const calendar = parseIcs(fs.readFileSync(file, "utf-8"));
+        const calendarId = path.basename(file, path.extname(file));
+        const account = calendar.name ?? calendarId;
+
+        for (const event of calendar.events) {
+          const id = event.recurrenceId ? `${event.uid}_${event.recurrenceId}` : event.uid;
+          const attendees = event.attendees.map((attendee) => ({
+            email: attendee.email,
+            ...(attendee.name && { name: attendee.name }),
+            ...(attendee.response && { response: attendee.response }),
+            ...(event.organizer?.email === attendee.email && { organizer: true }),
+          }));
+          const searchable = [
+            event.summary,
+            event.description ?? "",
+            event.location ?? "",
+            ...event.attendees.flatMap((a) => [a.name ?? "", a.email]),
+            event.organizer?.name ?? "",
+          ].join("\n");
+
+          events.push({
+            ...indexText(searchable),
+            start: event.start,
+            result: {
+              id,
+              account,
+              calendar_id: calendarId,
+              ...(calendar.name && { calendar_name: calendar.name }),
+              summary: event.summary,
+              ...(event.description && { description: event.description }),
+              ...(event.location && { location: event.location }),
+              start: event.start.toISOString(),
+              end: event.end.toISOString(),
+              all_day: event.allDay,
+              ...(event.timezone && { timezone: event.timezone }),
+              ...(event.status && { status: event.status }),
+              ...(event.url && { html_link: event.url }),
+              ...(event.organizer && {
+                organizer: {
+                  email: event.organizer.email,
+                  ...(event.organizer.name && { display_name: event.organizer.name }),
+                },
+              }),
+              ...(attendees.length > 0 && { attendees }),
+              ...(event.recurrenceId && { recurring_event_id: event.uid }),
+            },
+          });
+        }
+      } catch (err) {
+        console.warn(`Failed to parse calendar ${file}:`, err);
+      }
+    }
+
+    this.events = events;
+    return events;
+  }
+}
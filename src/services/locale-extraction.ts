@@ -0,0 +1,390 @@
+/**
+ * Locale-Aware Amount and Date Extraction
+ *
+ * Parses amounts and dates from OCR text of invoices in English, German,
+ * French, Latvian, Polish, Czech and Swedish formats:
+ * - numbers with decimal point or decimal comma and any thousands grouping
+ *   ("1,234.56", "1.234,56", "1 234,56", "1'234.50", "80,-")
+ * - currency codes and symbols before or after the number (EUR, €, CHF, Fr.,
+ *   PLN, zł, CZK, Kč, SEK, kr, ...)
+ * - labels that say what an amount is ("Total", "Summe", "Kopā", "MwSt", ...)
+ *
+ * The label on an amount's line decides its role (total, subtotal, VAT or
+ * line item), and the role and whether the currency was explicit decide
+ * its confidence, so the invoice total becomes the primary payment signal.
+ */
+
+import type { AmountRole, DetectedAmount } from "../types/medical-document.js";
+
+/** Currency assumed when no amount in the text names one */
+const DEFAULT_CURRENCY = "EUR";
+
+const CURRENCY_CODES = ["EUR", "USD", "GBP", "CHF", "PLN", "CZK", "SEK", "NOK", "DKK", "HUF", "CAD", "AUD"];
+
+/**
+ * Currency symbols and local abbreviations to ISO code.
+ * "kr" is ambiguous across Scandinavia; Swedish providers are the common case.
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "€": "EUR",
+  "$": "USD",
+  "£": "GBP",
+  "fr.": "CHF",
+  "sfr.": "CHF",
+  "zł": "PLN",
+  "zl": "PLN",
+  "kč": "CZK",
+  "kc": "CZK",
+  "kr": "SEK",
+  "kr.": "SEK",
+};
+
+const CURRENCY_PATTERN =
+  `(?:\\b(?:${CURRENCY_CODES.join("|")})\\b|[€$£]|\\bs?fr\\.|\\bz[łl](?![\\p{L}])|\\bk[čc](?![\\p{L}])|\\bkr\\.?(?![\\p{L}]))`;
+
+/** Currency right before a number (end of the text before it) */
+const CURRENCY_BEFORE = new RegExp(`(${CURRENCY_PATTERN})[^\\S\\n]?$`, "iu");
+
+/** Currency right after a number (start of the text after it) */
+const CURRENCY_AFTER = new RegExp(`^[^\\S\\n]?(${CURRENCY_PATTERN})`, "iu");
+
+/**
+ * A number as printed on an invoice. Grouped by a plain space only when it
+ * has decimals, so "2 100,00" is one amount but "Qty 2 100" is not.
+ * Digits, separators or a decimal part on either side mean the match is part
+ * of something else (a date, an IBAN, an invoice number).
+ */
+const NUMBER_PATTERN =
+  /(?<![\d.,'’])(\d{1,3}(?:[.,'’\u00A0\u202F]\d{3})+(?:[.,]\d{1,2}|,-{1,2})?|\d{1,3}(?: \d{3})+(?:[.,]\d{1,2})|\d+(?:[.,]\d{1,2}|,-{1,2})?)(?![\d'’]|[.,]\d)/g;
+
+/**
+ * Labels by role, matched on whole words of diacritic-free lowercase text.
+ */
+const TOTAL_LABELS = [
+  "total", "grand total", "amount due", "total due", "balance due", "to pay",
+  "gesamt", "gesamtbetrag", "summe", "rechnungsbetrag", "endbetrag", "zu zahlen", "zahlbetrag",
+  "montant total", "total ttc", "a payer", "net a payer",
+  "kopa", "kopa apmaksai", "summa apmaksai", "apmaksai",
+  "razem", "do zaplaty", "celkem", "k uhrade", "att betala", "summa", "totalt", "totaal",
+];
+const SUBTOTAL_LABELS = [
+  "subtotal", "sub total", "zwischensumme", "netto", "nettobetrag", "net amount", "total net", "total ht",
+  "summa bez pvn", "kopa bez pvn", "netto razem", "bez dph", "exkl moms",
+];
+const VAT_LABELS = [
+  "vat", "tax", "mwst", "ust", "umsatzsteuer", "mehrwertsteuer", "tva", "pvn", "btw", "dph", "moms", "iva", "vat amount",
+];
+/** Qualifiers that turn a total label into a subtotal ("Total excl. VAT") */
+const NET_QUALIFIERS = ["bez", "ohne", "excl", "exkl", "excluding", "netto", "ht", "before tax"];
+
+/** Confidence by role when the currency is printed next to the amount */
+const ROLE_CONFIDENCE: Record<AmountRole, number> = {
+  total: 95,
+  unknown: 70,
+  line_item: 55,
+  subtotal: 50,
+  vat: 25,
+};
+
+/** Confidence lost when the currency had to be inferred */
+const INFERRED_CURRENCY_PENALTY = 20;
+
+/** Confidence gained by the largest amount when no total is labelled */
+const LARGEST_AMOUNT_BONUS = 10;
+
+/**
+ * Lowercase and strip diacritics, so "Kopā" and an OCR'd "Kopa" both match.
+ */
+export function foldText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Regex matching any of the labels as whole words of folded text.
+ */
+export function labelPattern(labels: string[]): RegExp {
+  const alternatives = labels.map((label) => label.replace(/ /g, "\\s+")).join("|");
+  return new RegExp(`(?<![\\p{L}])(?:${alternatives})(?![\\p{L}])`, "u");
+}
+
+const TOTAL_PATTERN = labelPattern(TOTAL_LABELS);
+const SUBTOTAL_PATTERN = labelPattern(SUBTOTAL_LABELS);
+const VAT_PATTERN = labelPattern(VAT_LABELS);
+const NET_QUALIFIER_PATTERN = labelPattern(NET_QUALIFIERS);
+
+/**
+ * Role of an amount from the label text in front of it.
+ */
+export function classifyAmountLabel(label: string): AmountRole {
+  const folded = foldText(label);
+  if (SUBTOTAL_PATTERN.test(folded)) return "subtotal";
+  if (TOTAL_PATTERN.test(folded)) {
+    // "inkl. MwSt" keeps a total a total; "bez PVN" makes it a net amount
+    return NET_QUALIFIER_PATTERN.test(folded) ? "subtotal" : "total";
+  }
+  if (VAT_PATTERN.test(folded)) return "vat";
+  return /\p{L}{3,}/u.test(folded) ? "line_item" : "unknown";
+}
+
+/**
+ * Parse a number in any common locale format. Returns null if it is not one.
+ *
+ * With both "." and "," present, the last one is the decimal separator.
+ * A single separator followed by exactly three digits groups thousands;
+ * followed by one or two digits it is the decimal separator.
+ */
+export function parseLocaleNumber(raw: string): number | null {
+  let text = raw.trim().replace(/,-{1,2}$/, "").replace(/[\s'’\u00A0\u202F]/g, "");
+  if (!/^\d[\d.,]*$/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const grouping = decimal === "." ? "," : ".";
+    text = text.split(grouping).join("").replace(decimal, ".");
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? "." : ",";
+    const parts = text.split(separator);
+    const last = parts[parts.length - 1]!;
+    text = parts.length > 2 || last.length === 3 ? parts.join("") : `${parts.slice(0, -1).join("")}.${last}`;
+  }
+
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+function currencyCode(token: string): string {
+  const upper = token.toUpperCase();
+  if (CURRENCY_CODES.includes(upper)) return upper;
+  return CURRENCY_SYMBOLS[token.toLowerCase()] ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * Text in front of an amount on its line, after any earlier amount; for an
+ * amount alone on its line (a label column OCR'd above the value), the
+ * previous non-empty line if it is only text.
+ */
+function labelBefore(text: string, index: number, previousEnd: number): string {
+  const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+  const label = text.slice(Math.max(lineStart, previousEnd), index);
+  if (/\p{L}/u.test(label.replace(new RegExp(CURRENCY_PATTERN, "giu"), ""))) return label;
+
+  // A line with numbers of its own is another amount, not a label
+  const previous = text.slice(0, Math.max(0, lineStart - 1)).split("\n").reverse().find((line) => line.trim());
+  return previous && !/\d/.test(previous) ? `${previous} ${label}` : label;
+}
+
+interface AmountMatch {
+  value: number;
+  /** Undefined when no currency is printed next to the amount */
+  currency: string | undefined;
+  role: AmountRole;
+  start: number;
+  end: number;
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  const matches: AmountMatch[] = [];
+  let previousEnd = 0;
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const number = match[1]!;
+    let start = match.index;
+    let end = start + match[0].length;
+
+    const after = text.slice(end, end + 8);
+    if (/^\s?%/.test(after)) continue;
+
+    const before = CURRENCY_BEFORE.exec(text.slice(Math.max(0, start - 8), start));
+    const following = CURRENCY_AFTER.exec(after);
+    const token = before?.[1] ?? following?.[1];
+    if (before) start -= before[0].length;
+    if (following) end += following[0].length;
+
+    const label = labelBefore(text, start, previousEnd);
+    const role = classifyAmountLabel(label);
+
+    // Without a currency only a labelled amount with decimals counts
+    if (!token && (role === "line_item" || role === "unknown" || !/[.,](?:\d{1,2}|-{1,2})$/.test(number))) {
+      continue;
+    }
+
+    const value = parseLocaleNumber(number);
+    if (value === null || value === 0) continue;
+
+    matches.push({ value, currency: token ? currencyCode(token) : undefined, role, start, end });
+    previousEnd = end;
+  }
+
+  return matches;
+}
+
+/**
+ * Extract amounts from text, highest value first.
+ * Amounts without a printed currency take the currency most used in the text.
+ */
+export function extractAmounts(text: string): DetectedAmount[] {
+  const matches = findAmounts(text);
+
+  const currencyCounts = new Map<string, number>();
+  for (const { currency } of matches) {
+    if (currency) currencyCounts.set(currency, (currencyCounts.get(currency) ?? 0) + 1);
+  }
+  const dominantCurrency =
+    [...currencyCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? DEFAULT_CURRENCY;
+
+  const hasTotal = matches.some((match) => match.role === "total");
+  const largest = Math.max(0, ...matches.map((match) => match.value));
+
+  // The same amount can appear several times (line item and total); keep the strongest
+  const amounts = new Map<string, DetectedAmount>();
+  for (const match of matches) {
+    const currency = match.currency ?? dominantCurrency;
+    let confidence = ROLE_CONFIDENCE[match.role];
+    if (!match.currency) confidence -= INFERRED_CURRENCY_PENALTY;
+    if (!hasTotal && match.value === largest) confidence += LARGEST_AMOUNT_BONUS;
+
+    const key = `${match.value}-${currency}`;
+    const existing = amounts.get(key);
+    if (existing && existing.confidence >= confidence) continue;
+
+    const contextStart = Math.max(0, match.start - 50);
+    const contextEnd = Math.min(text.length, match.end + 50);
+    amounts.set(key, {
+      value: match.value,
+      currency,
+      rawText: text.slice(match.start, match.end).trim(),
+      context: text.slice(contextStart, contextEnd).replace(/\s+/g, " ").trim(),
+      confidence: Math.min(confidence, 100),
+      role: match.role,
+    });
+  }
+
+  return [...amounts.values()].sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Month names (diacritic-free, lowercase) to month number.
+ * Prefixes of four letters or more match too ("Sept.", "März" → "marz").
+ */
+const MONTH_NAMES: Array<[number, string[]]> = [
+  [1, ["january", "januar", "janvier", "janvaris", "jan", "jänner", "janner", "styczen", "leden", "januari"]],
+  [2, ["february", "februar", "fevrier", "februaris", "feb", "luty", "unor", "februari"]],
+  [3, ["march", "marz", "maerz", "mars", "marts", "mar", "marzec", "brezen"]],
+  [4, ["april", "avril", "aprilis", "apr", "kwiecien", "duben"]],
+  [5, ["may", "mai", "maijs", "maj", "kveten"]],
+  [6, ["june", "juni", "juin", "junijs", "jun", "czerwiec", "cerven"]],
+  [7, ["july", "juli", "juillet", "julijs", "jul", "lipiec", "cervenec"]],
+  [8, ["august", "aout", "augusts", "aug", "sierpien", "srpen", "augusti"]],
+  [9, ["september", "septembre", "septembris", "sep", "sept", "wrzesien", "zari"]],
+  [10, ["october", "oktober", "octobre", "oktobris", "oct", "okt", "pazdziernik", "rijen"]],
+  [11, ["november", "novembre", "novembris", "nov", "listopad"]],
+  [12, ["december", "dezember", "decembre", "decembris", "dec", "dez", "grudzien", "prosinec"]],
+];
+
+function monthFromName(name: string): number | null {
+  const folded = foldText(name).replace(/\.$/, "");
+  for (const [month, names] of MONTH_NAMES) {
+    if (names.some((candidate) => foldText(candidate) === folded)) return month;
+    if (folded.length >= 4 && names.some((candidate) => candidate.startsWith(folded))) return month;
+  }
+  return null;
+}
+
+function toDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; parse: (m: RegExpExecArray) => Date | null }> = [
+  // 2025-03-10 (ISO)
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    parse: (m) => toDate(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  // 2025. gada 10. marts (Latvian)
+  {
+    pattern: /\b(\d{4})\.\s*gada\s+(\d{1,2})\.\s*(\p{L}+)/giu,
+    parse: (m) => {
+      const month = monthFromName(m[3]!);
+      return month ? toDate(Number(m[1]), month, Number(m[2])) : null;
+    },
+  },
+  // 10.03.2025, 10/03/2025, 10-03-25 (day first, as on European invoices)
+  {
+    pattern: /(?<![\d.])(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})(?![\d])/g,
+    parse: (m) => toDate(Number(m[3]), Number(m[2]), Number(m[1])),
+  },
+  // 10. März 2025, 10 March 2025, 10 mars 2025
+  {
+    pattern: /\b(\d{1,2})\.?\s+(\p{L}{3,}\.?)\s+(\d{4})\b/gu,
+    parse: (m) => {
+      const month = monthFromName(m[2]!);
+      return month ? toDate(Number(m[3]), month, Number(m[1])) : null;
+    },
+  },
+  // March 10, 2025
+  {
+    pattern: /\b(\p{L}{3,}\.?)\s+(\d{1,2}),?\s+(\d{4})\b/gu,
+    parse: (m) => {
+      const month = monthFromName(m[1]!);
+      return month ? toDate(Number(m[3]), month, Number(m[2])) : null;
+    },
+  },
+];
+
+/**
+ * Parse a single date in any supported format. Returns null if it is not one.
+ */
+export function parseLocaleDate(raw: string): Date | null {
+  return extractDates(raw)[0]?.date ?? null;
+}
+
+/**
+ * All dates in text, in order of appearance.
+ */
+export function extractDates(text: string): Array<{ date: Date; index: number; rawText: string }> {
+  const found: Array<{ date: Date; index: number; rawText: string }> = [];
+  const covered: Array<[number, number]> = [];
+
+  for (const { pattern, parse } of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (covered.some(([from, to]) => start < to && end > from)) continue;
+
+      const date = parse(match as RegExpExecArray);
+      if (!date) continue;
+      covered.push([start, end]);
+      found.push({ date, index: start, rawText: match[0] });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+const INVOICE_DATE_PATTERN = labelPattern([
+  "invoice date", "date of invoice", "date", "rechnungsdatum", "datum", "date de facture",
+  "datums", "rekina datums", "data wystawienia", "data", "datum vystaveni", "fakturadatum",
+]);
+
+/**
+ * Text from the start of a line up to an index.
+ */
+export function lineBefore(text: string, index: number): string {
+  return text.slice(text.lastIndexOf("\n", index - 1) + 1, index);
+}
+
+/**
+ * Date of an invoice: the first date on a line labelled as such,
+ * else the first date in the text.
+ */
+export function findInvoiceDate(text: string): { date: Date; labelled: boolean } | undefined {
+  const dates = extractDates(text);
+  const labelled = dates.find(({ index }) => INVOICE_DATE_PATTERN.test(foldText(lineBefore(text, index))));
+  if (labelled) return { date: labelled.date, labelled: true };
+  return dates[0] && { date: dates[0].date, labelled: false };
+}
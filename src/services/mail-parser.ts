@@ -0,0 +1,393 @@
+/**
+ * Mail Parser
+ *
+ * Minimal RFC 5322/MIME parser for local mail stores (Maildir and mbox).
+ * Handles multipart bodies, base64 and quoted-printable transfer encodings,
+ * RFC 2047 encoded-word headers and RFC 2231 filenames - enough to pull the
+ * text body and attachments out of ordinary invoices and appointment emails.
+ *
+ * Messages are handled as "binary" (latin1) strings so byte offsets and
+ * attachment bytes survive untouched until a part is decoded.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * A decoded MIME attachment.
+ */
+export interface ParsedAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * A parsed email message.
+ */
+export interface ParsedMessage {
+  headers: Map<string, string>;
+  messageId?: string;
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  date?: Date;
+  /** Plain-text body (HTML bodies are converted to text) */
+  body: string;
+  attachments: ParsedAttachment[];
+}
+
+/**
+ * Location of a raw message inside a local mail store.
+ */
+export interface RawMessageRef {
+  file: string;
+  /** Byte offset within an mbox file (absent for Maildir files) */
+  offset?: number;
+  length?: number;
+  /** Date from the mbox "From " separator or file mtime, for messages without a Date header */
+  fallbackDate: Date;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+/**
+ * Split a raw message into unfolded headers and body.
+ */
+function splitHeaders(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index + match[0].length) : "";
+
+  const headers = new Map<string, string>();
+  const unfolded = headerBlock.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Keep the first occurrence; later duplicates are usually trace headers
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Decode bytes in a declared charset, falling back to UTF-8.
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset ?? "utf-8").trim().toLowerCase();
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString("utf-8");
+  }
+}
+
+/**
+ * Decode a quoted-printable string to bytes.
+ */
+export function decodeQuotedPrintable(input: string): Buffer {
+  const softBreaksRemoved = input.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < softBreaksRemoved.length; i++) {
+    const char = softBreaksRemoved[i]!;
+    if (char === "=" && /^[0-9A-Fa-f]{2}$/.test(softBreaksRemoved.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(softBreaksRemoved.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(softBreaksRemoved.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value.
+ */
+export function decodeHeaderValue(value: string): string {
+  // Whitespace between adjacent encoded words is not significant
+  const joined = decodeRawHeaderBytes(value)
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1");
+  return joined.replace(
+    /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+    (_match, charset: string, encoding: string, text: string) => {
+      const bytes =
+        encoding.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      // RFC 2231 allows a language suffix: =?utf-8*en?...
+      return decodeCharset(bytes, charset.replace(/\*.*$/, ""));
+    }
+  );
+}
+
+/**
+ * Raw 8-bit header bytes (read as latin1) are usually UTF-8; decode them
+ * when they form valid UTF-8.
+ */
+function decodeRawHeaderBytes(value: string): string {
+  if (!/[\x80-\xff]/.test(value) || /[^\x00-\xff]/.test(value)) return value;
+  const utf8 = Buffer.from(value, "latin1").toString("utf-8");
+  return utf8.includes("\uFFFD") ? value : utf8;
+}
+
+/**
+ * Parse a structured header like `text/plain; charset="utf-8"` into its value and parameters.
+ * Supports RFC 2231 extended (`name*=utf-8''...`) and continued (`name*0=`) parameters.
+ */
+export function parseHeaderParams(value: string): { value: string; params: Map<string, string> } {
+  const params = new Map<string, string>();
+  const parts = value.match(/(?:[^;"]+|"(?:\\.|[^"])*")+/g) ?? [];
+  const main = (parts.shift() ?? "").trim().toLowerCase();
+
+  const continuations = new Map<string, Array<{ index: number; text: string; extended: boolean }>>();
+  for (const part of parts) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    const rawKey = part.slice(0, eq).trim().toLowerCase();
+    let text = part.slice(eq + 1).trim();
+    if (text.startsWith('"') && text.endsWith('"')) {
+      text = text.slice(1, -1).replace(/\\(.)/g, "$1");
+    }
+
+    const keyMatch = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawKey);
+    if (!keyMatch) continue;
+    const [, key, index, star] = keyMatch;
+    const list = continuations.get(key!) ?? [];
+    list.push({ index: index ? Number(index) : 0, text, extended: !!star });
+    continuations.set(key!, list);
+  }
+
+  for (const [key, list] of continuations) {
+    list.sort((a, b) => a.index - b.index);
+    let charset: string | undefined;
+    const bytes: Buffer[] = [];
+    for (const [i, piece] of list.entries()) {
+      let text = piece.text;
+      if (piece.extended) {
+        if (i === 0) {
+          const ext = /^([^']*)'[^']*'(.*)$/.exec(text);
+          if (ext) {
+            charset = ext[1] || undefined;
+            text = ext[2]!;
+          }
+        }
+        bytes.push(Buffer.from(decodeURIComponentBytes(text)));
+      } else {
+        bytes.push(Buffer.from(text, "latin1"));
+      }
+    }
+    const joined = Buffer.concat(bytes);
+    params.set(key, charset ? decodeCharset(joined, charset) : decodeHeaderValue(joined.toString("latin1")));
+  }
+
+  return { value: main, params };
+}
+
+/**
+ * Percent-decode to raw bytes (RFC 2231 values may not be valid UTF-8).
+ */
+function decodeURIComponentBytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decode a part body according to its Content-Transfer-Encoding.
+ */
+function decodeTransfer(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding ?? "").trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ""), "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
+
+/**
+ * Convert an HTML body to readable text.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Walk a MIME tree collecting text bodies and attachments.
+ */
+function collectParts(
+  part: MimePart,
+  texts: { plain: string[]; html: string[] },
+  attachments: ParsedAttachment[]
+): void {
+  const contentType = parseHeaderParams(part.headers.get("content-type") ?? "text/plain");
+  const disposition = parseHeaderParams(part.headers.get("content-disposition") ?? "");
+  const mimeType = contentType.value || "text/plain";
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = contentType.params.get("boundary");
+    if (!boundary) return;
+    const delimiter = `--${boundary}`;
+    const sections = part.body.split(delimiter);
+    // sections[0] is the preamble; a section starting with "--" is the epilogue
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      // The line break before each delimiter belongs to the delimiter
+      collectParts(splitHeaders(section.replace(/^\r?\n/, "").replace(/\r?\n$/, "")), texts, attachments);
+    }
+    return;
+  }
+
+  const filename = disposition.params.get("filename") ?? contentType.params.get("name");
+  const isAttachment = disposition.value === "attachment" || (!!filename && !mimeType.startsWith("text/"));
+  const content = decodeTransfer(part.body, part.headers.get("content-transfer-encoding"));
+
+  if (isAttachment || filename) {
+    attachments.push({
+      filename: path.basename(filename ?? `attachment-${attachments.length + 1}`),
+      mimeType,
+      content,
+    });
+    return;
+  }
+
+  if (mimeType === "text/plain") {
+    texts.plain.push(decodeCharset(content, contentType.params.get("charset")));
+  } else if (mimeType === "text/html") {
+    texts.html.push(htmlToText(decodeCharset(content, contentType.params.get("charset"))));
+  }
+}
+
+/**
+ * Parse a raw RFC 5322 message.
+ *
+ * @param raw - Message bytes as a latin1 string or Buffer
+ */
+export function parseMessage(raw: string | Buffer): ParsedMessage {
+  const source = typeof raw === "string" ? raw : raw.toString("latin1");
+  const root = splitHeaders(source);
+  const texts = { plain: [] as string[], html: [] as string[] };
+  const attachments: ParsedAttachment[] = [];
+  collectParts(root, texts, attachments);
+
+  const header = (name: string) => {
+    const value = root.headers.get(name);
+    return value === undefined ? undefined : decodeHeaderValue(value);
+  };
+
+  const dateHeader = root.headers.get("date");
+  const date = dateHeader ? new Date(dateHeader) : undefined;
+  const messageId = root.headers.get("message-id")?.replace(/^<|>$/g, "").trim();
+  const cc = header("cc");
+
+  return {
+    headers: root.headers,
+    ...(messageId && { messageId }),
+    from: header("from") ?? "",
+    to: header("to") ?? "",
+    ...(cc && { cc }),
+    subject: header("subject") ?? "",
+    ...(date && !Number.isNaN(date.getTime()) && { date }),
+    body: (texts.plain.length > 0 ? texts.plain : texts.html).join("\n\n").trim(),
+    attachments,
+  };
+}
+
+/**
+ * List messages in a Maildir (cur/ and new/).
+ */
+export function listMaildirMessages(dir: string): RawMessageRef[] {
+  const refs: RawMessageRef[] = [];
+  for (const sub of ["cur", "new"]) {
+    const subDir = path.join(dir, sub);
+    if (!fs.existsSync(subDir)) continue;
+    for (const name of fs.readdirSync(subDir).sort()) {
+      const file = path.join(subDir, name);
+      const stat = fs.statSync(file);
+      if (stat.isFile()) {
+        refs.push({ file, fallbackDate: stat.mtime });
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Split an mbox file into message locations.
+ *
+ * Messages are separated by lines starting with "From " (mboxo/mboxrd).
+ * The whole file is read into memory.
+ */
+export function listMboxMessages(file: string): RawMessageRef[] {
+  const content = fs.readFileSync(file).toString("latin1");
+  const refs: RawMessageRef[] = [];
+  const separator = /^From [^\r\n]*\r?\n/gm;
+  const starts: Array<{ headerStart: number; bodyStart: number; line: string }> = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(content)) !== null) {
+    starts.push({ headerStart: match.index, bodyStart: match.index + match[0].length, line: match[0] });
+  }
+
+  const mtime = fs.statSync(file).mtime;
+  starts.forEach((start, i) => {
+    const end = starts[i + 1]?.headerStart ?? content.length;
+    // "From sender@example.com Wed Mar 12 10:00:00 2025"
+    const separatorDate = new Date(start.line.replace(/^From \S+\s+/, "").trim());
+    refs.push({
+      file,
+      offset: start.bodyStart,
+      length: end - start.bodyStart,
+      fallbackDate: Number.isNaN(separatorDate.getTime()) ? mtime : separatorDate,
+    });
+  });
+
+  return refs;
+}
+
+/**
+ * Read the raw bytes of a referenced message.
+ */
+export function readRawMessage(ref: RawMessageRef): Buffer {
+  if (ref.offset === undefined || ref.length === undefined) {
+    return fs.readFileSync(ref.file);
+  }
+  const fd = fs.openSync(ref.file, "r");
+  try {
+    const buffer = Buffer.alloc(ref.length);
+    fs.readSync(fd, buffer, 0, ref.length, ref.offset);
+    // mboxrd escapes body lines starting with "From " as ">From "
+    return Buffer.from(buffer.toString("latin1").replace(/^>(>*From )/gm, "$1"), "latin1");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -26,6 +26,7 @@ import {
   hasPaymentSignal,
   type PaymentSignal,
 } from "./payment-signal.js";
+import { loadFxRateTable, type FxRateTable, type FxConversion } from "./fx-rates.js";
 
 /**
  * Match result from comparing a document to a claim.
@@ -42,6 +43,10 @@ interface MatchResult {
     claimCurrency: string;
     difference: number;
     differencePercent: number;
+    convertedAmount?: number;
+    exchangeRate?: number;
+    exchangeRateDate?: Date;
+    exchangeRateSource?: string;
   } | undefined;
   dateMatchDetails: {
     documentDate: Date;
@@ -60,25 +65,33 @@ interface MatchReason {
 }
 
 /**
- * Compare two amounts with currency conversion consideration.
- * Returns difference percentage (0 = exact match).
+ * Compare two amounts, converting the document amount into the claim
+ * currency at the rate nearest the treatment date when currencies differ.
+ * Returns difference (in claim currency) and percentage (0 = exact match).
  */
 function compareAmounts(
   docAmount: number,
   docCurrency: string,
   claimAmount: number,
-  claimCurrency: string
-): { difference: number; differencePercent: number } {
-  // For now, only compare same currency
-  // TODO: Add currency conversion rates
+  claimCurrency: string,
+  treatmentDate: Date,
+  fxRates: FxRateTable
+): { difference: number; differencePercent: number; conversion?: FxConversion } {
+  let comparableAmount = docAmount;
+  let conversion: FxConversion | null = null;
+
   if (docCurrency !== claimCurrency) {
-    return { difference: Infinity, differencePercent: Infinity };
+    conversion = fxRates.convert(docAmount, docCurrency, claimCurrency, treatmentDate);
+    if (!conversion) {
+      return { difference: Infinity, differencePercent: Infinity };
+    }
+    comparableAmount = conversion.amount;
   }
 
-  const difference = Math.abs(docAmount - claimAmount);
+  const difference = Math.abs(comparableAmount - claimAmount);
   const differencePercent = claimAmount > 0 ? difference / claimAmount : 1;
 
-  return { difference, differencePercent };
+  return { difference, differencePercent, ...(conversion && { conversion }) };
 }
 
 /**
@@ -97,7 +110,9 @@ function daysBetween(date1: Date, date2: Date): number {
 function findBestAmountMatch(
   signals: PaymentSignal[],
   claimAmount: number,
-  claimCurrency: string
+  claimCurrency: string,
+  treatmentDate: Date,
+  fxRates: FxRateTable
 ): PaymentSignal | null {
   let bestMatch: PaymentSignal | null = null;
   let bestDiff = Infinity;
@@ -107,7 +122,9 @@ function findBestAmountMatch(
       amount.amount,
       amount.currency,
       claimAmount,
-      claimCurrency
+      claimCurrency,
+      treatmentDate,
+      fxRates
     );
 
     if (differencePercent < bestDiff) {
@@ -124,7 +141,8 @@ function findBestAmountMatch(
  */
 function calculateMatchScore(
   document: MedicalDocument,
-  claim: ScrapedClaim
+  claim: ScrapedClaim,
+  fxRates: FxRateTable
 ): MatchResult | null {
   const reasons: MatchReason[] = [];
   let totalScore = 0;
@@ -137,16 +155,24 @@ function calculateMatchScore(
 
   const bestAmount = isCalendarEvent
     ? null
-    : findBestAmountMatch(paymentSignals, claim.claimAmount, claim.claimCurrency);
+    : findBestAmountMatch(
+      paymentSignals,
+      claim.claimAmount,
+      claim.claimCurrency,
+      claim.treatmentDate,
+      fxRates
+    );
 
   let amountMatchDetails: MatchResult["amountMatchDetails"];
 
   if (bestAmount) {
-    const { difference, differencePercent } = compareAmounts(
+    const { difference, differencePercent, conversion } = compareAmounts(
       bestAmount.amount,
       bestAmount.currency,
       claim.claimAmount,
-      claim.claimCurrency
+      claim.claimCurrency,
+      claim.treatmentDate,
+      fxRates
     );
 
     amountMatchDetails = {
@@ -156,23 +182,32 @@ function calculateMatchScore(
       claimCurrency: claim.claimCurrency,
       difference,
       differencePercent,
+      ...(conversion && {
+        convertedAmount: conversion.amount,
+        exchangeRate: conversion.rate,
+        exchangeRateDate: conversion.rateDate,
+        exchangeRateSource: conversion.source,
+      }),
     };
 
     const amountPrefix =
       bestAmount.source === "override" ? "Override amount match" : "Exact amount match";
+    const conversionNote = conversion
+      ? ` (converted ${claim.claimCurrency} ${conversion.amount.toFixed(2)} at ${conversion.rate.toFixed(4)}, ${conversion.rateDate.toISOString().split("T")[0]})`
+      : "";
 
     if (differencePercent <= MATCH_THRESHOLDS.EXACT_AMOUNT_TOLERANCE) {
       reasons.push({
         type: "exact_amount",
         score: MATCH_THRESHOLDS.EXACT_AMOUNT_SCORE,
-        description: `${amountPrefix}: ${bestAmount.currency} ${bestAmount.amount.toFixed(2)} matches claim ${claim.claimCurrency} ${claim.claimAmount.toFixed(2)}`,
+        description: `${amountPrefix}: ${bestAmount.currency} ${bestAmount.amount.toFixed(2)} matches claim ${claim.claimCurrency} ${claim.claimAmount.toFixed(2)}${conversionNote}`,
       });
       totalScore += MATCH_THRESHOLDS.EXACT_AMOUNT_SCORE;
     } else if (differencePercent <= MATCH_THRESHOLDS.APPROXIMATE_AMOUNT_TOLERANCE) {
       reasons.push({
         type: "approximate_amount",
         score: MATCH_THRESHOLDS.APPROXIMATE_AMOUNT_SCORE,
-        description: `Approximate amount match: ${bestAmount.currency} ${bestAmount.amount.toFixed(2)} ≈ claim ${claim.claimCurrency} ${claim.claimAmount.toFixed(2)} (${(differencePercent * 100).toFixed(1)}% diff)`,
+        description: `Approximate amount match: ${bestAmount.currency} ${bestAmount.amount.toFixed(2)} ≈ claim ${claim.claimCurrency} ${claim.claimAmount.toFixed(2)} (${(differencePercent * 100).toFixed(1)}% diff)${conversionNote}`,
       });
       totalScore += MATCH_THRESHOLDS.APPROXIMATE_AMOUNT_SCORE;
     }
@@ -182,7 +217,9 @@ function calculateMatchScore(
       const lineMatch = findBestAmountMatch(
         paymentSignals,
         lineItem.claimAmount,
-        lineItem.claimCurrency
+        lineItem.claimCurrency,
+        lineItem.treatmentDate,
+        fxRates
       );
 
       if (lineMatch) {
@@ -190,7 +227,9 @@ function calculateMatchScore(
           lineMatch.amount,
           lineMatch.currency,
           lineItem.claimAmount,
-          lineItem.claimCurrency
+          lineItem.claimCurrency,
+          lineItem.treatmentDate,
+          fxRates
         );
 
         if (lineDiff.differencePercent <= MATCH_THRESHOLDS.EXACT_AMOUNT_TOLERANCE) {
@@ -342,6 +381,8 @@ export interface MatcherConfig {
   maxCandidatesPerDocument?: number;
   /** Clear existing candidates before re-matching */
   clearExisting?: boolean;
+  /** Exchange rates for cross-currency amounts (default: loaded from the rate store) */
+  fxRates?: FxRateTable;
 }
 
 /**
@@ -349,6 +390,7 @@ export interface MatcherConfig {
  */
 export class Matcher {
   private config: MatcherConfig;
+  private fxRates: FxRateTable | null;
 
   constructor(config: MatcherConfig = {}) {
     this.config = {
@@ -356,10 +398,21 @@ export class Matcher {
       maxCandidatesPerDocument: config.maxCandidatesPerDocument ?? 5,
       clearExisting: config.clearExisting ?? true,
     };
+    this.fxRates = config.fxRates ?? null;
 
     ensureStorageDirs();
   }
 
+  /**
+   * Exchange rates, loaded once per matcher.
+   */
+  private async getFxRates(): Promise<FxRateTable> {
+    if (!this.fxRates) {
+      this.fxRates = await loadFxRateTable();
+    }
+    return this.fxRates;
+  }
+
   /**
    * Match a single document against all claims.
    */
@@ -380,12 +433,13 @@ export class Matcher {
 
     // Get all claims
     const claims = await claimsStorage.getAll();
+    const fxRates = await this.getFxRates();
 
     // Calculate match scores
     const matches: MatchResult[] = [];
 
     for (const claim of claims) {
-      const match = calculateMatchScore(document, claim);
+      const match = calculateMatchScore(document, claim, fxRates);
       if (match && match.score >= (this.config.minScore ?? 0)) {
         matches.push(match);
       }
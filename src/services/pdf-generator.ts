@@ -6,7 +6,9 @@
 
 import PDFDocument from "pdfkit";
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
+import { isEncryptionEnabled, writeStoredFile } from "../storage/encryption.js";
 
 const GENERATED_DIR = "./data/generated";
 
@@ -74,8 +76,8 @@ export async function generateDoctorNotesPdf(
       margins: { top: 72, bottom: 72, left: 72, right: 72 },
     });
 
-    const stream = fs.createWriteStream(filePath);
-    doc.pipe(stream);
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
 
     // Header
     doc
@@ -160,12 +162,39 @@ export async function generateDoctorNotesPdf(
         { align: "center" }
       );
 
-    doc.end();
-
-    stream.on("finish", () => {
-      resolve({ filePath, fileName });
+    doc.on("end", () => {
+      savePdf(Buffer.concat(chunks), filePath).then(resolve, reject);
     });
+    doc.on("error", reject);
 
-    stream.on("error", reject);
+    doc.end();
   });
 }
+
+/**
+ * Store a rendered PDF. With encrypted storage the copy in data/generated is
+ * encrypted, and the returned path points to a plaintext copy in a private
+ * temp directory (removed on exit) that the browser can upload.
+ */
+async function savePdf(pdf: Buffer, filePath: string): Promise<GeneratedPdf> {
+  const fileName = path.basename(filePath);
+  await writeStoredFile(filePath, pdf);
+  if (!isEncryptionEnabled()) {
+    return { filePath, fileName };
+  }
+
+  const uploadPath = path.join(getUploadScratchDir(), fileName);
+  await fs.promises.writeFile(uploadPath, pdf, { mode: 0o600 });
+  return { filePath: uploadPath, fileName };
+}
+
+let uploadScratchDir: string | null = null;
+
+function getUploadScratchDir(): string {
+  if (!uploadScratchDir) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cigna-pdf-"));
+    process.once("exit", () => fs.rmSync(dir, { recursive: true, force: true }));
+    uploadScratchDir = dir;
+  }
+  return uploadScratchDir;
+}
@@ -9,6 +9,8 @@
  * - search_calendar_fts: BM25-ranked calendar search returning full entities
  */
 
+import type { DocumentSource } from "./document-source.js";
+
 /** Base URL for QweN API */
 const QWEN_BASE_URL = "http://127.0.0.1:5997";
 
@@ -200,7 +202,8 @@ interface ToolInvokeResponse<T> {
 /**
  * QweN API client for OCR and email operations.
  */
-export class QwenClient {
+export class QwenClient implements DocumentSource {
+  readonly name = "qwen";
   private baseUrl: string;
 
   constructor(baseUrl: string = QWEN_BASE_URL) {
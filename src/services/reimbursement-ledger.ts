@@ -0,0 +1,366 @@
+/**
+ * Reimbursement Ledger
+ *
+ * Totals what was paid out of pocket, submitted, reimbursed and rejected,
+ * per patient, illness and currency.
+ *
+ * Draft claims are the source of out-of-pocket amounts. Reimbursement and
+ * rejection come from the scraped claim a draft is linked to. Scraped claims
+ * with no linked draft (filed directly in Cigna) count as paid and submitted
+ * at their claimed amount.
+ */
+
+import type { DraftClaim } from "../types/draft-claim.js";
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+import type { Illness } from "../types/illness.js";
+import type { Patient } from "../types/patient.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { claimsStorage } from "../storage/claims.js";
+import { illnessesStorage } from "../storage/illnesses.js";
+import { patientsStorage } from "../storage/patients.js";
+import { loadFxRateTable, type FxRateTable } from "./fx-rates.js";
+
+/**
+ * Money totals for one ledger row, all in the row currency.
+ */
+export interface ReimbursementTotals {
+  /** Paid to providers */
+  outOfPocket: number;
+
+  /** Filed with Cigna */
+  submitted: number;
+
+  /** Paid back by Cigna */
+  reimbursed: number;
+
+  /** Declined by Cigna */
+  rejected: number;
+
+  /** Submitted but not yet decided by Cigna */
+  awaiting: number;
+
+  /** Paid but not yet filed */
+  notSubmitted: number;
+}
+
+/**
+ * Ledger row for one patient, illness and currency.
+ */
+export interface ReimbursementLedgerRow extends ReimbursementTotals {
+  patientId?: string;
+  patientName: string;
+  illnessId?: string;
+  illnessName: string;
+  currency: string;
+  draftClaimCount: number;
+  scrapedClaimCount: number;
+}
+
+/**
+ * Reimbursement report over a treatment date range.
+ */
+export interface ReimbursementReport {
+  from?: Date;
+  to?: Date;
+  rows: ReimbursementLedgerRow[];
+
+  /** Sum of all rows per currency */
+  totals: Array<ReimbursementTotals & { currency: string }>;
+
+  generatedAt: Date;
+}
+
+/**
+ * Treatment date range filter (inclusive).
+ */
+export interface ReimbursementLedgerFilter {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Everything the ledger is computed from.
+ */
+export interface ReimbursementLedgerInput {
+  draftClaims: DraftClaim[];
+  scrapedClaims: ScrapedClaim[];
+  illnesses: Illness[];
+  patients: Patient[];
+  fxRates: FxRateTable;
+}
+
+const UNASSIGNED_PATIENT = "Unassigned patient";
+const UNASSIGNED_ILLNESS = "Unassigned illness";
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const TOTAL_KEYS: readonly (keyof ReimbursementTotals)[] = [
+  "outOfPocket",
+  "submitted",
+  "reimbursed",
+  "rejected",
+  "awaiting",
+  "notSubmitted",
+];
+
+function emptyTotals(): ReimbursementTotals {
+  return { outOfPocket: 0, submitted: 0, reimbursed: 0, rejected: 0, awaiting: 0, notSubmitted: 0 };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toUpperCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Check whether a date is within the filter range.
+ * `to` includes the whole day.
+ */
+function inRange(date: Date, filter: ReimbursementLedgerFilter): boolean {
+  const time = new Date(date).getTime();
+  if (filter.from && time < filter.from.getTime()) return false;
+  if (filter.to && time >= filter.to.getTime() + MS_PER_DAY) return false;
+  return true;
+}
+
+function isDraftSubmitted(draft: DraftClaim): boolean {
+  return draft.status === "submitted" || !!draft.scrapedClaimId || !!draft.submissionNumber;
+}
+
+/**
+ * What Cigna decided on a scraped claim, in its own currencies.
+ */
+interface ClaimOutcome {
+  reimbursed: number;
+  reimbursedCurrency: string;
+  rejected: number;
+  decided: boolean;
+}
+
+function claimOutcome(claim: ScrapedClaim): ClaimOutcome {
+  if (claim.status === "rejected") {
+    return {
+      reimbursed: 0,
+      reimbursedCurrency: claim.claimCurrency,
+      rejected: claim.claimAmount,
+      decided: true,
+    };
+  }
+
+  const rejectedItems = claim.lineItems
+    .filter((item) => item.status === "rejected")
+    .reduce((sum, item) => sum + item.claimAmount, 0);
+
+  return {
+    reimbursed: claim.amountPaid ?? 0,
+    reimbursedCurrency: claim.paymentCurrency ?? claim.claimCurrency,
+    rejected: Math.min(rejectedItems, claim.claimAmount),
+    decided: claim.status === "processed",
+  };
+}
+
+/**
+ * Convert an amount when a rate is known, otherwise keep it as is.
+ */
+function convertOrKeep(
+  fxRates: FxRateTable,
+  amount: number,
+  from: string,
+  to: string,
+  date: Date
+): number {
+  if (amount === 0 || from === to) return amount;
+  return fxRates.convert(amount, from, to, date)?.amount ?? amount;
+}
+
+/**
+ * Build the ledger from already loaded data.
+ */
+export function buildReimbursementLedger(
+  input: ReimbursementLedgerInput,
+  filter: ReimbursementLedgerFilter = {}
+): ReimbursementReport {
+  const illnessById = new Map(input.illnesses.map((illness) => [illness.id, illness]));
+  const patientById = new Map(input.patients.map((patient) => [patient.id, patient]));
+  const patientByName = new Map(input.patients.map((patient) => [normalizeName(patient.name), patient]));
+  const scrapedById = new Map(input.scrapedClaims.map((claim) => [claim.id, claim]));
+  const rows = new Map<string, ReimbursementLedgerRow>();
+
+  const getRow = (patient: Patient | undefined, illness: Illness | undefined, currency: string) => {
+    const key = `${patient?.id ?? ""}|${illness?.id ?? ""}|${currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        ...(patient && { patientId: patient.id }),
+        patientName: patient?.name ?? UNASSIGNED_PATIENT,
+        ...(illness && { illnessId: illness.id }),
+        illnessName: illness?.name ?? UNASSIGNED_ILLNESS,
+        currency,
+        ...emptyTotals(),
+        draftClaimCount: 0,
+        scrapedClaimCount: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  // Record a reimbursement in the row currency, or in its own row when no rate is known
+  const addReimbursed = (
+    row: ReimbursementLedgerRow,
+    patient: Patient | undefined,
+    illness: Illness | undefined,
+    amount: number,
+    currency: string,
+    date: Date
+  ) => {
+    if (amount === 0) return;
+    if (currency === row.currency) {
+      row.reimbursed += amount;
+      return;
+    }
+    const conversion = input.fxRates.convert(amount, currency, row.currency, date);
+    if (conversion) {
+      row.reimbursed += conversion.amount;
+    } else {
+      getRow(patient, illness, currency).reimbursed += amount;
+    }
+  };
+
+  const drafts = input.draftClaims.filter(
+    (draft) => !draft.archivedAt && draft.status !== "rejected"
+  );
+
+  // Several drafts can be filed as one Cigna claim; split its outcome by amount
+  const linkedDraftTotals = new Map<string, number>();
+  for (const draft of drafts) {
+    if (!draft.scrapedClaimId || !scrapedById.has(draft.scrapedClaimId)) continue;
+    linkedDraftTotals.set(
+      draft.scrapedClaimId,
+      (linkedDraftTotals.get(draft.scrapedClaimId) ?? 0) + draft.payment.amount
+    );
+  }
+
+  for (const draft of drafts) {
+    if (!inRange(draft.treatmentDate ?? draft.generatedAt, filter)) continue;
+
+    const illness = draft.illnessId ? illnessById.get(draft.illnessId) : undefined;
+    const linked = draft.scrapedClaimId ? scrapedById.get(draft.scrapedClaimId) : undefined;
+    const patient = illness
+      ? patientById.get(illness.patientId)
+      : linked && patientByName.get(normalizeName(linked.memberName));
+
+    const amount = draft.payment.amount;
+    const row = getRow(patient, illness, draft.payment.currency);
+    row.draftClaimCount++;
+    row.outOfPocket += amount;
+
+    if (!isDraftSubmitted(draft)) {
+      row.notSubmitted += amount;
+      continue;
+    }
+
+    row.submitted += amount;
+    if (!linked) {
+      row.awaiting += amount;
+      continue;
+    }
+
+    const outcome = claimOutcome(linked);
+    const linkedTotal = linkedDraftTotals.get(linked.id) ?? amount;
+    const share = linkedTotal > 0 ? amount / linkedTotal : 0;
+
+    const rejected = Math.min(
+      amount,
+      convertOrKeep(input.fxRates, outcome.rejected * share, linked.claimCurrency, row.currency, linked.treatmentDate)
+    );
+    row.rejected += rejected;
+    if (!outcome.decided) {
+      row.awaiting += amount - rejected;
+    }
+    addReimbursed(
+      row,
+      patient,
+      illness,
+      outcome.reimbursed * share,
+      outcome.reimbursedCurrency,
+      linked.paymentDate ?? linked.treatmentDate
+    );
+  }
+
+  // Claims filed in Cigna without a local draft
+  const linkedScrapedIds = new Set(linkedDraftTotals.keys());
+  for (const claim of input.scrapedClaims) {
+    if (claim.archivedAt || linkedScrapedIds.has(claim.id)) continue;
+    if (!inRange(claim.treatmentDate, filter)) continue;
+
+    const patient = patientByName.get(normalizeName(claim.memberName));
+    const row = getRow(patient, undefined, claim.claimCurrency);
+    const outcome = claimOutcome(claim);
+
+    row.scrapedClaimCount++;
+    row.outOfPocket += claim.claimAmount;
+    row.submitted += claim.claimAmount;
+    row.rejected += outcome.rejected;
+    if (!outcome.decided) {
+      row.awaiting += claim.claimAmount - outcome.rejected;
+    }
+    addReimbursed(
+      row,
+      patient,
+      undefined,
+      outcome.reimbursed,
+      outcome.reimbursedCurrency,
+      claim.paymentDate ?? claim.treatmentDate
+    );
+  }
+
+  const sortedRows = [...rows.values()]
+    .map((row) => {
+      for (const key of TOTAL_KEYS) row[key] = roundCents(row[key]);
+      return row;
+    })
+    .sort(
+      (a, b) =>
+        a.patientName.localeCompare(b.patientName) ||
+        a.illnessName.localeCompare(b.illnessName) ||
+        a.currency.localeCompare(b.currency)
+    );
+
+  const totalsByCurrency = new Map<string, ReimbursementTotals & { currency: string }>();
+  for (const row of sortedRows) {
+    const totals = totalsByCurrency.get(row.currency) ?? { currency: row.currency, ...emptyTotals() };
+    for (const key of TOTAL_KEYS) totals[key] = roundCents(totals[key] + row[key]);
+    totalsByCurrency.set(row.currency, totals);
+  }
+
+  return {
+    ...(filter.from && { from: filter.from }),
+    ...(filter.to && { to: filter.to }),
+    rows: sortedRows,
+    totals: [...totalsByCurrency.values()].sort((a, b) => a.currency.localeCompare(b.currency)),
+    generatedAt: new Date(),
+  };
+}
+
+/**
+ * Build the reimbursement report from storage.
+ */
+export async function getReimbursementReport(
+  filter: ReimbursementLedgerFilter = {}
+): Promise<ReimbursementReport> {
+  const [draftClaims, scrapedClaims, illnesses, patients, fxRates] = await Promise.all([
+    draftClaimsStorage.getAll(),
+    claimsStorage.getAll(),
+    illnessesStorage.getAll(),
+    patientsStorage.getAll(),
+    loadFxRateTable(),
+  ]);
+
+  return buildReimbursementLedger(
+    { draftClaims, scrapedClaims, illnesses, patients, fxRates },
+    filter
+  );
+}
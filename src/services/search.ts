@@ -0,0 +1,188 @@
+/**
+ * Search
+ *
+ * Ranked full-text search across documents, draft claims and scraped claims.
+ * With the SQLite backend this queries the FTS5 index; with JSON files or
+ * encrypted storage it scans the same searchable text in memory.
+ *
+ * Archived entities are not returned.
+ */
+
+import { getStorageBackend } from "../storage/repository.js";
+import { isEncryptionEnabled } from "../storage/encryption.js";
+import { documentsStorage } from "../storage/documents.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { claimsStorage } from "../storage/claims.js";
+import {
+  SNIPPET_OPEN,
+  SNIPPET_CLOSE,
+  TITLE_WEIGHT,
+  documentSearchEntry,
+  draftClaimSearchEntry,
+  scrapedClaimSearchEntry,
+  querySearchIndex,
+  tokenizeQuery,
+  type SearchEntityType,
+  type SearchEntry,
+  type SearchIndexRow,
+} from "../storage/search-index.js";
+
+/** Default number of hits returned */
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+/** Words of context around the first match in fallback snippets */
+const SNIPPET_CONTEXT_WORDS = 8;
+
+/**
+ * Part of a snippet; matched terms have `highlight` set.
+ */
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * One search result.
+ */
+export interface SearchHit {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  snippet: SearchSnippetPart[];
+  date?: Date;
+
+  /** Higher is more relevant; only comparable within one response */
+  score: number;
+}
+
+/**
+ * Split a marked snippet into plain and highlighted parts.
+ */
+export function parseSnippet(marked: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  let highlight = false;
+  let text = "";
+
+  for (const char of marked) {
+    if (char === SNIPPET_OPEN || char === SNIPPET_CLOSE) {
+      if (text) parts.push({ text, highlight });
+      text = "";
+      highlight = char === SNIPPET_OPEN;
+    } else {
+      text += char;
+    }
+  }
+  if (text) parts.push({ text, highlight });
+  return parts;
+}
+
+/**
+ * Whether a word matches a term; the last query term matches as a prefix.
+ */
+function wordMatches(word: string, terms: string[]): boolean {
+  const normalized = word.toLowerCase();
+  return terms.some((term, index) =>
+    index === terms.length - 1 ? normalized.startsWith(term) : normalized === term
+  );
+}
+
+/**
+ * Mark matched words in text, trimmed to a window around the first match.
+ */
+function markSnippet(text: string, terms: string[]): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const first = words.findIndex((word) =>
+    tokenizeQuery(word).some((token) => wordMatches(token, terms))
+  );
+  if (first < 0) return words.slice(0, SNIPPET_CONTEXT_WORDS * 2).join(" ");
+
+  const start = Math.max(0, first - SNIPPET_CONTEXT_WORDS);
+  const end = Math.min(words.length, first + SNIPPET_CONTEXT_WORDS + 1);
+  const marked = words.slice(start, end).map((word) =>
+    word.replace(/[\p{L}\p{N}]+/gu, (token) =>
+      wordMatches(token, terms) ? `${SNIPPET_OPEN}${token}${SNIPPET_CLOSE}` : token
+    )
+  );
+  return `${start > 0 ? "…" : ""}${marked.join(" ")}${end < words.length ? "…" : ""}`;
+}
+
+/**
+ * Score entries by term frequency, titles weighted higher.
+ * Every term must appear, matching the FTS5 query semantics.
+ */
+export function searchEntries(entries: SearchEntry[], query: string, limit: number): SearchIndexRow[] {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const rows: SearchIndexRow[] = [];
+  for (const entry of entries) {
+    if (entry.archived) continue;
+
+    const titleTokens = tokenizeQuery(entry.title);
+    const bodyTokens = tokenizeQuery(entry.body);
+    let score = 0;
+    let allFound = true;
+
+    for (const [index, term] of terms.entries()) {
+      const isLast = index === terms.length - 1;
+      const matches = (token: string) => (isLast ? token.startsWith(term) : token === term);
+      const inTitle = titleTokens.filter(matches).length;
+      const inBody = bodyTokens.filter(matches).length;
+      if (inTitle + inBody === 0) {
+        allFound = false;
+        break;
+      }
+      score += inTitle * TITLE_WEIGHT + inBody;
+    }
+    if (!allFound) continue;
+
+    const bodyHasMatch = bodyTokens.some((token) => wordMatches(token, terms));
+    rows.push({
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      title: entry.title,
+      date: entry.date ? new Date(entry.date).toISOString() : null,
+      snippet: markSnippet(bodyHasMatch ? entry.body : entry.title, terms),
+      score,
+    });
+  }
+
+  return rows.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Search documents, draft claims and scraped claims.
+ */
+export async function search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<SearchHit[]> {
+  let rows: SearchIndexRow[];
+
+  // Encrypted storage has no full-text index and is scanned like JSON files
+  if (getStorageBackend() === "sqlite" && !isEncryptionEnabled()) {
+    const { getDatabase } = await import("../storage/sqlite.js");
+    rows = querySearchIndex(getDatabase(), query, limit);
+  } else {
+    const [documents, draftClaims, scrapedClaims] = await Promise.all([
+      documentsStorage.getAll(),
+      draftClaimsStorage.getAll(),
+      claimsStorage.getAll(),
+    ]);
+    rows = searchEntries(
+      [
+        ...documents.map(documentSearchEntry),
+        ...draftClaims.map(draftClaimSearchEntry),
+        ...scrapedClaims.map(scrapedClaimSearchEntry),
+      ],
+      query,
+      limit
+    );
+  }
+
+  return rows.map((row) => ({
+    entityType: row.entityType,
+    id: row.entityId,
+    title: row.title,
+    snippet: parseSnippet(row.snippet),
+    ...(row.date && { date: new Date(row.date) }),
+    score: row.score,
+  }));
+}
@@ -0,0 +1,127 @@
+/**
+ * Storage Encryption Service
+ *
+ * Turns on encryption at rest and converts data already on disk: entity
+ * JSON files, generated PDFs and the data column of every SQLite table.
+ * See storage/encryption.ts for the key handling.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { STORAGE_DIRS } from "../storage/base.js";
+import {
+  PERSONAL_INDEX_COLUMNS,
+  encryptForStorage,
+  encryptTextForStorage,
+  initializeEncryption,
+  isEncryptedBuffer,
+} from "../storage/encryption.js";
+
+const GENERATED_DIR = path.join(process.cwd(), "data", "generated");
+const DB_PATH = path.join(process.cwd(), "data", "cigna-tracker.db");
+
+/** Marks an encrypted SQLite data value (see storage/encryption.ts) */
+const ENCRYPTED_TEXT_PATTERN = "enc:v1:%";
+
+export interface EncryptExistingResult {
+  files: number;
+  rows: number;
+}
+
+/**
+ * Encrypt every plaintext file in a directory.
+ */
+async function encryptDirectory(dir: string, filter: (name: string) => boolean): Promise<number> {
+  if (!fs.existsSync(dir)) return 0;
+
+  let encrypted = 0;
+  for (const name of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, name);
+    if (!filter(name) || !fs.statSync(filePath).isFile()) continue;
+
+    const content = await fs.promises.readFile(filePath);
+    if (isEncryptedBuffer(content)) continue;
+
+    // Write then rename, so an interrupted run never leaves a half-written file
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, encryptForStorage(content));
+    await fs.promises.rename(tmpPath, filePath);
+    encrypted++;
+  }
+  return encrypted;
+}
+
+/**
+ * Encrypt the data column of every table, clear personal index columns and
+ * drop the plaintext search index.
+ */
+async function encryptDatabase(): Promise<number> {
+  const { getDatabase } = await import("../storage/sqlite.js");
+  const { AUDIT_LOG_SCHEMA } = await import("../storage/migrations.js");
+  const db = getDatabase();
+
+  const tables = (
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]
+  )
+    .map((row) => row.name)
+    .filter((name) =>
+      (db.prepare(`PRAGMA table_info(${name})`).all() as { name: string }[]).some(
+        (column) => column.name === "data"
+      )
+    );
+
+  let encrypted = 0;
+  db.transaction(() => {
+    // The audit log rejects updates; lift that for the conversion only
+    db.exec("DROP TRIGGER IF EXISTS audit_log_no_update");
+
+    for (const table of tables) {
+      const rows = db
+        .prepare(`SELECT id, data FROM ${table} WHERE data NOT LIKE ?`)
+        .all(ENCRYPTED_TEXT_PATTERN) as { id: string; data: string }[];
+      const update = db.prepare(`UPDATE ${table} SET data = ? WHERE id = ?`);
+      for (const row of rows) {
+        update.run(encryptTextForStorage(row.data), row.id);
+        encrypted++;
+      }
+    }
+
+    for (const [table, columns] of Object.entries(PERSONAL_INDEX_COLUMNS)) {
+      if (!tables.includes(table)) continue;
+      db.exec(`UPDATE ${table} SET ${columns.map((column) => `${column} = NULL`).join(", ")}`);
+    }
+
+    if (tables.includes("audit_log")) db.exec(AUDIT_LOG_SCHEMA);
+    const hasSearchIndex = db
+      .prepare("SELECT 1 FROM sqlite_master WHERE name = 'search_index'")
+      .get();
+    if (hasSearchIndex) db.exec("DELETE FROM search_index");
+  })();
+
+  // Rewrite the file so no page still holds the plaintext
+  db.pragma("wal_checkpoint(TRUNCATE)");
+  db.exec("VACUUM");
+  return encrypted;
+}
+
+/**
+ * Encrypt everything still stored as plaintext. Safe to run repeatedly.
+ */
+export async function encryptExistingData(): Promise<EncryptExistingResult> {
+  let files = 0;
+  for (const dir of Object.values(STORAGE_DIRS)) {
+    files += await encryptDirectory(dir, (name) => name.endsWith(".json"));
+  }
+  files += await encryptDirectory(GENERATED_DIR, (name) => name.endsWith(".pdf"));
+
+  const rows = fs.existsSync(DB_PATH) ? await encryptDatabase() : 0;
+  return { files, rows };
+}
+
+/**
+ * Turn on encryption with a passphrase and encrypt existing data.
+ */
+export async function enableEncryption(passphrase: string): Promise<EncryptExistingResult> {
+  initializeEncryption(passphrase);
+  return encryptExistingData();
+}
@@ -0,0 +1,357 @@
+/**
+ * Submission Suggestions
+ *
+ * Proposes Cigna submission details for a draft claim from what is already
+ * known: earlier submitted drafts for the same illness or sender, the Cigna
+ * claims those drafts were linked to, the illness itself and the patient.
+ *
+ * Each field comes from the first rule that yields a value:
+ * 1. The draft's own submission details
+ * 2. Fields extracted from the draft's invoice (provider name and address)
+ * 3. The latest submitted draft from the same sender (provider fields) or
+ *    for the same illness (claim type, symptoms)
+ * 4. The Cigna claim linked to that history
+ * 5. The illness (default symptoms, provider account)
+ * 6. The patient (work location)
+ */
+
+import type { ClaimType, Symptom } from "../types/claim.js";
+import { CLAIM_TYPES } from "../types/claim.js";
+import type { DraftClaim, DraftClaimSubmission } from "../types/draft-claim.js";
+import type { ExtractedField, ExtractedInvoiceFields } from "../types/medical-document.js";
+import type { Illness } from "../types/illness.js";
+import type { Patient } from "../types/patient.js";
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+import { draftClaimsStorage } from "../storage/draft-claims.js";
+import { documentsStorage } from "../storage/documents.js";
+import { illnessesStorage } from "../storage/illnesses.js";
+import { patientsStorage } from "../storage/patients.js";
+import { claimsStorage } from "../storage/claims.js";
+import { PREFILL_MIN_CONFIDENCE } from "./invoice-fields.js";
+
+/**
+ * Where a suggested value came from.
+ */
+export type SubmissionSuggestionSource =
+  | "draft"
+  | "document"
+  | "previous_draft"
+  | "scraped_claim"
+  | "illness"
+  | "patient"
+  | "default";
+
+/**
+ * Explanation of one suggested field.
+ */
+export interface SubmissionFieldSource {
+  source: SubmissionSuggestionSource;
+
+  /** Human-readable explanation */
+  reason: string;
+
+  /** Draft claim the value was copied from */
+  draftClaimId?: string;
+
+  /** Scraped claim the value was copied from */
+  scrapedClaimId?: string;
+}
+
+type SuggestedField = Exclude<keyof DraftClaimSubmission, "progressReport">;
+
+/**
+ * Proposed submission details with the source of each field.
+ */
+export interface SubmissionSuggestion {
+  draftClaimId: string;
+  illnessId?: string;
+  submission: DraftClaimSubmission;
+  sources: Partial<Record<SuggestedField, SubmissionFieldSource>>;
+}
+
+/**
+ * A previously submitted draft with the context needed to compare it.
+ */
+export interface SubmissionHistoryEntry {
+  draft: DraftClaim;
+
+  /** Sender address of the draft's primary document */
+  senderAddress?: string;
+
+  /** Cigna claim the draft was linked to */
+  scrapedClaim?: ScrapedClaim;
+}
+
+/**
+ * Everything a suggestion is computed from.
+ */
+export interface SubmissionSuggestionInput {
+  draft: DraftClaim;
+  illness?: Illness;
+  patient?: Patient;
+  senderAddress?: string;
+  /** Fields extracted from the draft's primary document */
+  extractedFields?: ExtractedInvoiceFields;
+  history: SubmissionHistoryEntry[];
+}
+
+interface Candidate<T> {
+  value: T | undefined;
+  source: SubmissionFieldSource;
+}
+
+function normalizeAddress(address?: string): string | undefined {
+  if (!address) return undefined;
+  const match = address.match(/<([^>]+)>/);
+  return (match?.[1] ?? address).trim().toLowerCase() || undefined;
+}
+
+function nonEmpty(value?: string): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function historyDate(entry: SubmissionHistoryEntry): number {
+  return new Date(entry.draft.linkedAt ?? entry.draft.updatedAt).getTime();
+}
+
+function describeDraft(entry: SubmissionHistoryEntry): string {
+  const date = entry.draft.treatmentDate ?? entry.draft.generatedAt;
+  return `draft treated ${new Date(date).toISOString().slice(0, 10)}`;
+}
+
+function toClaimType(value?: string): ClaimType | undefined {
+  if (!value) return undefined;
+  return CLAIM_TYPES.find((type) => type.toLowerCase() === value.trim().toLowerCase());
+}
+
+/**
+ * Candidate from an extracted invoice field, if confident enough to suggest.
+ */
+function fromDocument(extracted: ExtractedField<string> | undefined, label: string): Candidate<string> {
+  return {
+    value: extracted && extracted.confidence >= PREFILL_MIN_CONFIDENCE ? nonEmpty(extracted.value) : undefined,
+    source: { source: "document", reason: `${label} printed on the invoice` },
+  };
+}
+
+/**
+ * Pick the first candidate with a value.
+ */
+function pick<T>(
+  candidates: Candidate<T>[],
+  isPresent: (value: T) => boolean = () => true
+): Candidate<T> | undefined {
+  return candidates.find((candidate) => candidate.value !== undefined && isPresent(candidate.value));
+}
+
+/**
+ * Build a suggestion from already loaded data.
+ */
+export function suggestSubmission(input: SubmissionSuggestionInput): SubmissionSuggestion {
+  const { draft, illness, patient } = input;
+  const own = draft.submission ?? {};
+  const sender = normalizeAddress(input.senderAddress);
+
+  const history = input.history
+    .filter((entry) => entry.draft.id !== draft.id && entry.draft.submission)
+    .sort((a, b) => historyDate(b) - historyDate(a));
+  const sameSender = sender
+    ? history.filter((entry) => normalizeAddress(entry.senderAddress) === sender)
+    : [];
+  const sameIllness = illness
+    ? history.filter((entry) => entry.draft.illnessId === illness.id)
+    : [];
+
+  const ownSource: SubmissionFieldSource = { source: "draft", reason: "Already set on this draft" };
+
+  /** Candidates from submitted drafts, in the order of the given groups */
+  const fromHistory = <T>(
+    groups: Array<{ entries: SubmissionHistoryEntry[]; label: string }>,
+    read: (submission: DraftClaimSubmission) => T | undefined
+  ): Candidate<T>[] =>
+    groups.flatMap(({ entries, label }) =>
+      entries.map((entry) => ({
+        value: read(entry.draft.submission!),
+        source: {
+          source: "previous_draft" as const,
+          reason: `From the ${describeDraft(entry)} ${label}`,
+          draftClaimId: entry.draft.id,
+        },
+      }))
+    );
+
+  /** Candidates from Cigna claims linked to submitted drafts */
+  const fromScraped = <T>(
+    groups: Array<{ entries: SubmissionHistoryEntry[]; label: string }>,
+    read: (claim: ScrapedClaim) => T | undefined
+  ): Candidate<T>[] =>
+    groups.flatMap(({ entries, label }) =>
+      entries
+        .filter((entry) => entry.scrapedClaim)
+        .map((entry) => ({
+          value: read(entry.scrapedClaim!),
+          source: {
+            source: "scraped_claim" as const,
+            reason: `From Cigna claim ${entry.scrapedClaim!.cignaClaimNumber} ${label}`,
+            scrapedClaimId: entry.scrapedClaim!.id,
+          },
+        }))
+    );
+
+  const bySender = { entries: sameSender, label: "from the same sender" };
+  const byIllness = { entries: sameIllness, label: `for ${illness?.name ?? "the same illness"}` };
+  const providerGroups = [bySender, byIllness];
+  const claimGroups = [byIllness, bySender];
+
+  // Prefer the illness account that sent this draft's document, then any provider account
+  const accounts = illness?.relevantAccounts ?? [];
+  const providerAccount =
+    accounts.find((account) => sender && account.email.toLowerCase() === sender) ??
+    accounts.find((account) => account.role === "provider");
+
+  const patientCountry = nonEmpty(patient?.workLocation);
+  const patientSource: SubmissionFieldSource = {
+    source: "patient",
+    reason: `Work location of ${patient?.name ?? "the patient"}`,
+  };
+
+  const country = pick<string>([
+    { value: nonEmpty(own.country), source: ownSource },
+    ...fromHistory(providerGroups, (s) => nonEmpty(s.country)),
+    ...fromScraped(providerGroups, (c) => nonEmpty(c.countryOfTreatment)),
+    { value: patientCountry, source: patientSource },
+  ]);
+
+  const providerName = pick<string>([
+    { value: nonEmpty(own.providerName), source: ownSource },
+    fromDocument(input.extractedFields?.providerName, "Provider name"),
+    ...fromHistory(providerGroups, (s) => nonEmpty(s.providerName)),
+    ...fromScraped(providerGroups, (c) => nonEmpty(c.providerName)),
+    {
+      value: nonEmpty(providerAccount?.name) ?? nonEmpty(providerAccount?.email),
+      source: { source: "illness", reason: `Provider account of ${illness?.name ?? "the illness"}` },
+    },
+  ]);
+
+  const providerAddress = pick<string>([
+    { value: nonEmpty(own.providerAddress), source: ownSource },
+    fromDocument(input.extractedFields?.providerAddress, "Provider address"),
+    ...fromHistory(providerGroups, (s) => nonEmpty(s.providerAddress)),
+  ]);
+
+  const providerCountry = pick<string>([
+    { value: nonEmpty(own.providerCountry), source: ownSource },
+    ...fromHistory(providerGroups, (s) => nonEmpty(s.providerCountry)),
+    ...fromScraped(providerGroups, (c) => nonEmpty(c.countryOfTreatment)),
+    {
+      value: country?.value,
+      source: { ...(country?.source ?? patientSource), reason: "Same as country of treatment" },
+    },
+  ]);
+
+  const claimType = pick<ClaimType>([
+    { value: own.claimType, source: ownSource },
+    ...fromHistory(claimGroups, (s) => s.claimType),
+    ...fromScraped(claimGroups, (c) => toClaimType(c.claimType)),
+    { value: "Medical", source: { source: "default", reason: "Most claims are medical" } },
+  ]);
+
+  const legacySymptoms: Symptom[] = [illness?.cignaSymptom, illness?.cignaDescription]
+    .map((value) => nonEmpty(value))
+    .filter((value): value is string => !!value)
+    .map((value) => ({ name: value, description: value }));
+
+  const symptoms = pick<Symptom[]>(
+    [
+      { value: own.symptoms, source: ownSource },
+      ...fromHistory([byIllness], (s) => s.symptoms),
+      {
+        value: illness?.defaultSymptoms,
+        source: { source: "illness", reason: `Default symptoms of ${illness?.name ?? "the illness"}` },
+      },
+      {
+        value: legacySymptoms,
+        source: { source: "illness", reason: `Cigna diagnosis of ${illness?.name ?? "the illness"}` },
+      },
+    ],
+    (value) => value.some((symptom) => symptom.name.trim())
+  );
+
+  const submission: DraftClaimSubmission = {
+    ...(claimType?.value && { claimType: claimType.value }),
+    ...(country?.value && { country: country.value }),
+    ...(symptoms?.value && { symptoms: symptoms.value.slice(0, 3) }),
+    ...(providerName?.value && { providerName: providerName.value }),
+    ...(providerAddress?.value && { providerAddress: providerAddress.value }),
+    ...(providerCountry?.value && { providerCountry: providerCountry.value }),
+    ...(own.progressReport && { progressReport: own.progressReport }),
+  };
+
+  const sources: SubmissionSuggestion["sources"] = {
+    ...(claimType && { claimType: claimType.source }),
+    ...(country && { country: country.source }),
+    ...(symptoms && { symptoms: symptoms.source }),
+    ...(providerName && { providerName: providerName.source }),
+    ...(providerAddress && { providerAddress: providerAddress.source }),
+    ...(providerCountry && { providerCountry: providerCountry.source }),
+  };
+
+  return {
+    draftClaimId: draft.id,
+    ...(illness && { illnessId: illness.id }),
+    submission,
+    sources,
+  };
+}
+
+/**
+ * Suggest submission details for a stored draft.
+ *
+ * @param illnessId - Illness to suggest for, when different from the draft's
+ * @returns null when the draft does not exist
+ */
+export async function getSubmissionSuggestion(
+  draftClaimId: string,
+  illnessId?: string
+): Promise<SubmissionSuggestion | null> {
+  const draft = await draftClaimsStorage.get(draftClaimId);
+  if (!draft) return null;
+
+  const effectiveIllnessId = illnessId ?? draft.illnessId;
+  const illness = effectiveIllnessId ? await illnessesStorage.get(effectiveIllnessId) : null;
+  const patient = illness ? await patientsStorage.get(illness.patientId) : null;
+
+  const submitted = (await draftClaimsStorage.getAll()).filter(
+    (candidate) => candidate.status === "submitted" && candidate.id !== draft.id
+  );
+
+  const senderOf = async (candidate: DraftClaim) =>
+    (await documentsStorage.get(candidate.primaryDocumentId))?.fromAddress;
+
+  const history = await Promise.all(
+    submitted.map(async (candidate): Promise<SubmissionHistoryEntry> => {
+      const [senderAddress, scrapedClaim] = await Promise.all([
+        senderOf(candidate),
+        candidate.scrapedClaimId ? claimsStorage.get(candidate.scrapedClaimId) : null,
+      ]);
+      return {
+        draft: candidate,
+        ...(senderAddress && { senderAddress }),
+        ...(scrapedClaim && { scrapedClaim }),
+      };
+    })
+  );
+
+  const primaryDocument = await documentsStorage.get(draft.primaryDocumentId);
+  const senderAddress = primaryDocument?.fromAddress;
+  const extractedFields = primaryDocument?.extractedFields;
+  return suggestSubmission({
+    draft,
+    ...(illness && { illness }),
+    ...(patient && { patient }),
+    ...(senderAddress && { senderAddress }),
+    ...(extractedFields && { extractedFields }),
+    history,
+  });
+}
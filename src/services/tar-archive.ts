@@ -0,0 +1,165 @@
+/**
+ * Minimal gzip-compressed tar (ustar) reader and writer.
+ *
+ * Only regular files with names up to 100 bytes are supported, which is all
+ * the backup bundle needs. Archives open with standard `tar -xzf`.
+ */
+
+import * as fs from "node:fs";
+import * as zlib from "node:zlib";
+import { once } from "node:events";
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+function buildHeader(name: string, size: number, mtime: Date): Buffer {
+  if (Buffer.byteLength(name) > NAME_LENGTH) {
+    throw new Error(`Archive entry name too long: ${name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, NAME_LENGTH, "utf-8");
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write("        ", 148, 8, "ascii"); // checksum placeholder
+  header.write("0", 156, 1, "ascii"); // regular file
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+  return header;
+}
+
+/** Bytes of zero padding after an entry's data */
+function paddingSize(size: number): number {
+  const remainder = size % BLOCK_SIZE;
+  return remainder === 0 ? 0 : BLOCK_SIZE - remainder;
+}
+
+/**
+ * Sequential writer for a .tar.gz file.
+ */
+export interface TarWriter {
+  add(name: string, data: Buffer): Promise<void>;
+  /** Write the end-of-archive marker and close the file */
+  finish(): Promise<void>;
+}
+
+/**
+ * Start writing a .tar.gz archive at `filePath`.
+ */
+export function createTarGzWriter(filePath: string): TarWriter {
+  const gzip = zlib.createGzip();
+  const file = fs.createWriteStream(filePath);
+  gzip.pipe(file);
+  const closed = once(file, "close");
+
+  const write = async (chunk: Buffer) => {
+    if (!gzip.write(chunk)) {
+      await once(gzip, "drain");
+    }
+  };
+
+  return {
+    async add(name, data) {
+      await write(buildHeader(name, data.length, new Date()));
+      await write(data);
+      await write(Buffer.alloc(paddingSize(data.length)));
+    },
+
+    async finish() {
+      gzip.end(Buffer.alloc(BLOCK_SIZE * 2));
+      await closed;
+    },
+  };
+}
+
+/**
+ * Buffers stream chunks and hands out exact byte ranges.
+ */
+class ByteQueue {
+  private chunks: Buffer[] = [];
+  length = 0;
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(size: number): Buffer {
+    const taken: Buffer[] = [];
+    let remaining = size;
+    while (remaining > 0) {
+      const chunk = this.chunks[0]!;
+      if (chunk.length <= remaining) {
+        taken.push(chunk);
+        this.chunks.shift();
+        remaining -= chunk.length;
+      } else {
+        taken.push(chunk.subarray(0, remaining));
+        this.chunks[0] = chunk.subarray(remaining);
+        remaining = 0;
+      }
+    }
+    this.length -= size;
+    return taken.length === 1 ? taken[0]! : Buffer.concat(taken, size);
+  }
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+/**
+ * Read a .tar.gz archive entry by entry, in archive order.
+ * Directories and other non-file entries are skipped.
+ */
+export async function readTarGz(
+  filePath: string,
+  onEntry: (name: string, data: Buffer) => Promise<void> | void
+): Promise<void> {
+  const queue = new ByteQueue();
+  let current: { name: string; size: number; type: string } | null = null;
+
+  for await (const chunk of fs.createReadStream(filePath).pipe(zlib.createGunzip())) {
+    queue.push(chunk as Buffer);
+
+    for (;;) {
+      if (!current) {
+        if (queue.length < BLOCK_SIZE) break;
+        const header = queue.take(BLOCK_SIZE);
+        if (header.every((byte) => byte === 0)) continue; // end-of-archive padding
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, NAME_LENGTH);
+        current = {
+          name: prefix ? `${prefix}/${name}` : name,
+          size: parseInt(readString(header, 124, 12).trim() || "0", 8),
+          type: readString(header, 156, 1) || "0",
+        };
+      }
+
+      const padded = current.size + paddingSize(current.size);
+      if (queue.length < padded) break;
+      const data = queue.take(padded).subarray(0, current.size);
+      if (current.type === "0") {
+        await onEntry(current.name, data);
+      }
+      current = null;
+    }
+  }
+
+  if (current) {
+    throw new Error(`Archive is truncated (in ${current.name})`);
+  }
+}
@@ -18,6 +18,7 @@ import {
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -36,7 +37,7 @@ function getArchiveRulesStorage(): StorageOperations<ArchiveRule> {
 /**
  * Storage operations for archive rules.
  */
-export const archiveRulesStorage = getArchiveRulesStorage();
+export const archiveRulesStorage = withAudit("archive_rule", getArchiveRulesStorage());
 
 /**
  * Create a new archive rule.
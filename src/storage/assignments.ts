@@ -18,6 +18,8 @@ import {
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
+import type { ListSpec } from "./query.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -34,7 +36,28 @@ function getAssignmentsStorage(): StorageOperations<DocumentClaimAssignment> {
   return createStorage<DocumentClaimAssignment>(STORAGE_DIRS.assignments, dateReviver);
 }
 
-export const assignmentsStorage = getAssignmentsStorage();
+export const assignmentsStorage = withAudit("assignment", getAssignmentsStorage());
+
+/**
+ * Filters and sort keys of the assignment list (see query.ts).
+ */
+export const ASSIGNMENT_LIST_SPEC: ListSpec<DocumentClaimAssignment> = {
+  filters: {
+    status: { kind: "equals", value: (a) => a.status, column: "status" },
+    documentId: { kind: "equals", value: (a) => a.documentId, column: "document_id" },
+    claimId: { kind: "equals", value: (a) => a.claimId, column: "claim_id" },
+    createdAt: { kind: "dateRange", value: (a) => a.createdAt },
+    amount: {
+      kind: "amountRange",
+      values: (a) => (a.amountMatchDetails ? [a.amountMatchDetails.documentAmount] : []),
+    },
+  },
+  sortKeys: {
+    createdAt: { value: (a) => a.createdAt.toISOString() },
+    matchScore: { value: (a) => a.matchScore },
+  },
+  defaultSort: { key: "createdAt", direction: "desc" },
+};
 
 /**
  * Create a new assignment (candidate).
@@ -56,7 +56,10 @@ function getAttachmentProcessingStorage(): StorageOperations<AttachmentProcessin
   );
 }
 
-const attachmentProcessingStorage = getAttachmentProcessingStorage();
+/**
+ * Storage operations for attachment processing records.
+ */
+export const attachmentProcessingStorage = getAttachmentProcessingStorage();
 
 /**
  * Find attachment processing record by path.
@@ -0,0 +1,192 @@
+/**
+ * Audit Log Storage
+ *
+ * Append-only history of entity changes. Domain storages are wrapped with
+ * `withAudit`, which diffs the stored entity before and after every save or
+ * delete and appends one entry per change.
+ *
+ * The actor is taken from the async context set by `runAsActor`, so callers
+ * deep in services do not have to pass it along.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry,
+} from "../types/audit-entry.js";
+import {
+  createStorage,
+  STORAGE_DIRS,
+  generateId,
+  dateReviver,
+  type SaveOptions,
+  type StorageOperations,
+} from "./base.js";
+import { getStorageBackend } from "./repository.js";
+import { createRequire } from "node:module";
+
+const esmRequire = createRequire(import.meta.url);
+
+/** Actor used outside any request or job */
+export const SYSTEM_ACTOR = "system";
+
+/**
+ * Who is making changes in the current async context.
+ */
+export interface AuditActor {
+  actor: string;
+  source?: string;
+}
+
+const actorContext = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * Run a function with changes attributed to an actor.
+ */
+export function runAsActor<T>(actor: AuditActor, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+/**
+ * Actor of the current async context.
+ */
+export function getCurrentActor(): AuditActor {
+  return actorContext.getStore() ?? { actor: SYSTEM_ACTOR };
+}
+
+function getAuditLogStorage(): StorageOperations<AuditEntry> {
+  if (getStorageBackend() === "sqlite") {
+    const sqlite = esmRequire("./sqlite.js") as typeof import("./sqlite.js");
+    return sqlite.createSqliteRepository<AuditEntry>("audit_log", [
+      { column: "entity_type", property: "entityType" },
+      { column: "entity_id", property: "entityId" },
+      { column: "actor", property: "actor" },
+    ]) as StorageOperations<AuditEntry>;
+  }
+  return createStorage<AuditEntry>(STORAGE_DIRS.auditLog, dateReviver);
+}
+
+/**
+ * Storage operations for audit entries.
+ * Only append through `appendAuditEntry`; entries are never updated.
+ */
+export const auditLogStorage = getAuditLogStorage();
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/** JSON form used for comparison, so Dates and ISO strings compare equal */
+function normalize(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Field-level differences between two versions of an entity.
+ * Nested objects are compared per field; arrays are compared as a whole.
+ */
+export function diffEntities(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  prefix = ""
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of [...keys].sort()) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const previous = normalize(before?.[key]);
+    const next = normalize(after?.[key]);
+
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      changes.push(...diffEntities(previous, next, field));
+      continue;
+    }
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    changes.push({
+      field,
+      ...(previous !== undefined && { before: previous }),
+      ...(next !== undefined && { after: next }),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Append an entry for a change, attributed to the current actor.
+ * Returns null when nothing changed.
+ */
+export async function appendAuditEntry(
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | null,
+  after: object | null
+): Promise<AuditEntry | null> {
+  // Every save bumps the version, so it is not a change of its own
+  const changes = diffEntities(
+    before as Record<string, unknown> | null,
+    after as Record<string, unknown> | null
+  ).filter((change) => change.field !== "version");
+  if (changes.length === 0) return null;
+
+  const action: AuditAction = !before ? "create" : !after ? "delete" : "update";
+  const { actor, source } = getCurrentActor();
+  const entry: AuditEntry = {
+    id: generateId(),
+    entityType,
+    entityId,
+    action,
+    actor,
+    ...(source && { source }),
+    changes,
+    createdAt: new Date(),
+  };
+  return auditLogStorage.save(entry);
+}
+
+/**
+ * Record every save and delete on a storage in the audit log.
+ */
+export function withAudit<T extends { id: string }>(
+  entityType: AuditEntityType,
+  storage: StorageOperations<T>
+): StorageOperations<T> {
+  return {
+    ...storage,
+
+    async save(entity: T, options?: SaveOptions): Promise<T> {
+      const before = await storage.get(entity.id);
+      const saved = await storage.save(entity, options);
+      await appendAuditEntry(entityType, entity.id, before, saved);
+      return saved;
+    },
+
+    async delete(id: string): Promise<boolean> {
+      const before = await storage.get(id);
+      const deleted = await storage.delete(id);
+      if (deleted && before) {
+        await appendAuditEntry(entityType, id, before, null);
+      }
+      return deleted;
+    },
+  };
+}
+
+/**
+ * History of one entity, or of all entities of a type, newest first.
+ */
+export async function getAuditEntries(filter: {
+  entityType?: AuditEntityType;
+  entityId?: string;
+}): Promise<AuditEntry[]> {
+  const entries = await auditLogStorage.find(
+    (entry) =>
+      (!filter.entityType || entry.entityType === filter.entityType) &&
+      (!filter.entityId || entry.entityId === filter.entityId)
+  );
+  return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
@@ -7,6 +7,10 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { randomUUID } from "node:crypto";
+import { readStoredFile, writeStoredFile } from "./encryption.js";
+import { applyListQuery, type ListPage, type ListQuery, type ListSpec } from "./query.js";
+import { currentUnitOfWork, type StagedWrite, type UnitOfWork } from "./unit-of-work.js";
+import { fileJournal, withFileLocks, type JournalWrite } from "./journal.js";
 
 /** Base data directory relative to project root */
 const DATA_DIR = path.join(process.cwd(), "data");
@@ -24,6 +28,10 @@ export const STORAGE_DIRS = {
   submittedClaims: path.join(DATA_DIR, "submitted-claims"),
   attachmentProcessing: path.join(DATA_DIR, "attachment-processing"),
   archiveRules: path.join(DATA_DIR, "archive-rules"),
+  jobs: path.join(DATA_DIR, "jobs"),
+  fxRates: path.join(DATA_DIR, "fx-rates"),
+  classifierModels: path.join(DATA_DIR, "classifier-models"),
+  auditLog: path.join(DATA_DIR, "audit-log"),
 } as const;
 
 /**
@@ -35,12 +43,61 @@ export function ensureStorageDirs(): void {
   }
 }
 
+/**
+ * Every save stores the entity with `version` one above the stored one
+ * (a new entity gets version 1). Clients send the version back to detect
+ * that someone else saved in between.
+ */
+export interface Versioned {
+  version?: number;
+}
+
+/**
+ * Options for a save.
+ */
+export interface SaveOptions {
+  /** Fail with a version conflict unless the stored version is this one (0: not stored yet) */
+  expectedVersion?: number;
+}
+
+/** Error code of a failed version check */
+export const VERSION_CONFLICT = "VERSION_CONFLICT";
+
+/**
+ * Stored version of an entity; 0 for entities saved before versioning.
+ */
+export function entityVersion(entity: object | null): number {
+  return (entity as Versioned | null)?.version ?? 0;
+}
+
+/**
+ * Throw a version conflict, carrying the stored entity, unless it has the expected version.
+ */
+export function assertVersion<T extends { id: string }>(
+  id: string,
+  stored: T | null,
+  expectedVersion: number | undefined
+): void {
+  if (expectedVersion === undefined || entityVersion(stored) === expectedVersion) return;
+  throw Object.assign(
+    new Error(`Version conflict for ${id}: expected ${expectedVersion}, stored ${entityVersion(stored)}`),
+    { code: VERSION_CONFLICT, current: stored }
+  );
+}
+
+/**
+ * Whether an error is a failed version check.
+ */
+export function isVersionConflict(err: unknown): err is Error & { code: string; current: unknown } {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === VERSION_CONFLICT;
+}
+
 /**
  * Generic storage operations for any entity type.
  */
 export interface StorageOperations<T extends { id: string }> {
-  /** Save an entity to storage */
-  save(entity: T): Promise<T>;
+  /** Save an entity to storage; returns it with its new version */
+  save(entity: T, options?: SaveOptions): Promise<T>;
 
   /** Get an entity by ID */
   get(id: string): Promise<T | null>;
@@ -59,6 +116,9 @@ export interface StorageOperations<T extends { id: string }> {
 
   /** Count all entities */
   count(): Promise<number>;
+
+  /** Get one page of entities matching a list query */
+  list(spec: ListSpec<T>, query: ListQuery): Promise<ListPage<T>>;
 }
 
 /**
@@ -73,25 +133,55 @@ export function createStorage<T extends { id: string }>(
 
   const getFilePath = (id: string) => path.join(dir, `${id}.json`);
 
+  // Committed entity, ignoring writes staged in a unit of work
+  const readEntity = async (id: string): Promise<T | null> => {
+    try {
+      const json = (await readStoredFile(getFilePath(id))).toString("utf-8");
+      return JSON.parse(json, reviver) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw err;
+    }
+  };
+
+  // Stage a write in a unit of work; the commit fails unless the file still has the version read
+  const stageWrite = (unit: UnitOfWork, id: string, content: string | null, readVersion: number): void => {
+    const filePath = getFilePath(id);
+    const previous = unit.staged(filePath) as StagedWrite<JournalWrite> | undefined;
+    const check =
+      previous?.write.check ?? (async () => assertVersion(id, await readEntity(id), readVersion));
+    unit.stage(fileJournal, { key: filePath, content, write: { filePath, check } });
+  };
+
   return {
-    async save(entity: T): Promise<T> {
-      const filePath = getFilePath(entity.id);
-      const json = JSON.stringify(entity, null, 2);
-      await fs.promises.writeFile(filePath, json, "utf-8");
-      return entity;
+    async save(entity: T, options: SaveOptions = {}): Promise<T> {
+      const unit = currentUnitOfWork();
+      if (unit) {
+        const stored = await this.get(entity.id);
+        assertVersion(entity.id, stored, options.expectedVersion);
+        const saved = { ...entity, version: entityVersion(stored) + 1 };
+        stageWrite(unit, entity.id, JSON.stringify(saved, null, 2), entityVersion(stored));
+        return saved;
+      }
+
+      return withFileLocks([getFilePath(entity.id)], async () => {
+        const stored = await readEntity(entity.id);
+        assertVersion(entity.id, stored, options.expectedVersion);
+
+        const saved = { ...entity, version: entityVersion(stored) + 1 };
+        await writeStoredFile(getFilePath(entity.id), JSON.stringify(saved, null, 2));
+        return saved;
+      });
     },
 
     async get(id: string): Promise<T | null> {
-      const filePath = getFilePath(id);
-      try {
-        const json = await fs.promises.readFile(filePath, "utf-8");
-        return JSON.parse(json, reviver) as T;
-      } catch (err) {
-        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
-          return null;
-        }
-        throw err;
+      const staged = currentUnitOfWork()?.staged(getFilePath(id));
+      if (staged) {
+        return staged.content === null ? null : (JSON.parse(staged.content, reviver) as T);
       }
+      return readEntity(id);
     },
 
     async getAll(): Promise<T[]> {
@@ -102,7 +192,7 @@ export function createStorage<T extends { id: string }>(
         for (const file of files) {
           if (file.endsWith(".json")) {
             const filePath = path.join(dir, file);
-            const json = await fs.promises.readFile(filePath, "utf-8");
+            const json = (await readStoredFile(filePath)).toString("utf-8");
             entities.push(JSON.parse(json, reviver) as T);
           }
         }
@@ -117,6 +207,13 @@ export function createStorage<T extends { id: string }>(
     },
 
     async delete(id: string): Promise<boolean> {
+      const unit = currentUnitOfWork();
+      if (unit) {
+        const stored = await this.get(id);
+        stageWrite(unit, id, null, entityVersion(stored));
+        return stored !== null;
+      }
+
       const filePath = getFilePath(id);
       try {
         await fs.promises.unlink(filePath);
@@ -130,6 +227,9 @@ export function createStorage<T extends { id: string }>(
     },
 
     async exists(id: string): Promise<boolean> {
+      const staged = currentUnitOfWork()?.staged(getFilePath(id));
+      if (staged) return staged.content !== null;
+
       const filePath = getFilePath(id);
       try {
         await fs.promises.access(filePath);
@@ -155,6 +255,10 @@ export function createStorage<T extends { id: string }>(
         throw err;
       }
     },
+
+    async list(spec: ListSpec<T>, query: ListQuery): Promise<ListPage<T>> {
+      return applyListQuery(spec, query, await this.getAll());
+    },
   };
 }
 
@@ -17,6 +17,9 @@ import {
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
+import { scrapedClaimSearchEntry } from "./search-index.js";
+import type { ListSpec } from "./query.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -28,7 +31,7 @@ function getClaimsStorage(): StorageOperations<ScrapedClaim> {
       { column: "cigna_claim_id", property: "cignaClaimNumber" },
       { column: "status", property: "status" },
       { column: "archived_at", property: "archivedAt" },
-    ]) as StorageOperations<ScrapedClaim>;
+    ], { searchEntry: scrapedClaimSearchEntry }) as StorageOperations<ScrapedClaim>;
   }
   return createStorage<ScrapedClaim>(STORAGE_DIRS.claims, dateReviver);
 }
@@ -36,7 +39,26 @@ function getClaimsStorage(): StorageOperations<ScrapedClaim> {
 /**
  * Storage operations for scraped claims.
  */
-export const claimsStorage = getClaimsStorage();
+export const claimsStorage = withAudit("scraped_claim", getClaimsStorage());
+
+/**
+ * Filters and sort keys of the scraped claim list (see query.ts).
+ */
+export const SCRAPED_CLAIM_LIST_SPEC: ListSpec<ScrapedClaim> = {
+  filters: {
+    status: { kind: "equals", value: (c) => c.status, column: "status" },
+    treatmentDate: { kind: "dateRange", value: (c) => c.treatmentDate },
+    submissionDate: { kind: "dateRange", value: (c) => c.submissionDate },
+    archived: { kind: "archived", value: (c) => c.archivedAt, column: "archived_at" },
+    amount: { kind: "amountRange", values: (c) => [c.claimAmount] },
+  },
+  sortKeys: {
+    treatmentDate: { value: (c) => c.treatmentDate.toISOString() },
+    submissionDate: { value: (c) => c.submissionDate.toISOString() },
+    amount: { value: (c) => c.claimAmount },
+  },
+  defaultSort: { key: "treatmentDate", direction: "desc" },
+};
 
 /**
  * Create a new scraped claim record.
@@ -0,0 +1,51 @@
+/**
+ * Classifier Models Storage
+ *
+ * Backend-aware storage for trained document classifier versions.
+ * Uses SQLite when STORAGE_BACKEND=sqlite, otherwise JSON files.
+ */
+
+import type { ClassifierModel } from "../types/classifier-model.js";
+import {
+  createStorage,
+  STORAGE_DIRS,
+  dateReviver,
+  type StorageOperations,
+} from "./base.js";
+import { getStorageBackend } from "./repository.js";
+import { createRequire } from "node:module";
+
+const esmRequire = createRequire(import.meta.url);
+
+function getClassifierModelsStorage(): StorageOperations<ClassifierModel> {
+  if (getStorageBackend() === "sqlite") {
+    const sqlite = esmRequire("./sqlite.js") as typeof import("./sqlite.js");
+    return sqlite.createSqliteRepository<ClassifierModel>("classifier_models", [
+      { column: "model_version", property: "modelVersion" },
+    ]) as StorageOperations<ClassifierModel>;
+  }
+  return createStorage<ClassifierModel>(STORAGE_DIRS.classifierModels, dateReviver);
+}
+
+/**
+ * Storage operations for classifier models.
+ */
+export const classifierModelsStorage = getClassifierModelsStorage();
+
+/**
+ * ID of a model version.
+ */
+export function classifierModelId(modelVersion: number): string {
+  return `classifier-v${modelVersion}`;
+}
+
+/**
+ * The newest trained model, or null if none has been trained.
+ */
+export async function getLatestClassifierModel(): Promise<ClassifierModel | null> {
+  const models = await classifierModelsStorage.getAll();
+  return models.reduce<ClassifierModel | null>(
+    (latest, model) => (!latest || model.modelVersion > latest.modelVersion ? model : latest),
+    null
+  );
+}
@@ -7,6 +7,7 @@
 import type {
   MedicalDocument,
   CreateMedicalDocumentInput,
+  ClassificationOverride,
   DocumentClassification,
   PaymentOverride,
 } from "../types/medical-document.js";
@@ -15,10 +16,14 @@ import {
   STORAGE_DIRS,
   generateId,
   dateReviver,
+  type SaveOptions,
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
-import { hasPaymentSignal } from "../services/payment-signal.js";
+import { getCurrentActor, runAsActor, withAudit } from "./audit-log.js";
+import { documentSearchEntry } from "./search-index.js";
+import { getPaymentSignals, getPrimaryPaymentSignal, hasPaymentSignal } from "../services/payment-signal.js";
+import type { ListSpec } from "./query.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -49,6 +54,7 @@ const DOCUMENTS_INDEX_FIELDS = [
   { column: "classification", property: "classification" },
   { column: "archived_at", property: "archivedAt" },
   { column: "processed_at", property: "processedAt" },
+  { column: "content_hash", property: "contentHash" },
 ] as const;
 
 function getDocumentsStorage(): StorageOperations<MedicalDocument> {
@@ -56,7 +62,8 @@ function getDocumentsStorage(): StorageOperations<MedicalDocument> {
     const sqlite = getSqliteModuleSync();
     return sqlite.createSqliteRepository<MedicalDocument>(
       "documents",
-      [...DOCUMENTS_INDEX_FIELDS]
+      [...DOCUMENTS_INDEX_FIELDS],
+      { searchEntry: documentSearchEntry }
     ) as StorageOperations<MedicalDocument>;
   }
   return createStorage<MedicalDocument>(STORAGE_DIRS.documents, dateReviver);
@@ -65,7 +72,31 @@ function getDocumentsStorage(): StorageOperations<MedicalDocument> {
 /**
  * Storage operations for medical documents.
  */
-export const documentsStorage = getDocumentsStorage();
+export const documentsStorage = withAudit("document", getDocumentsStorage());
+
+/**
+ * Filters and sort keys of the document list (see query.ts).
+ * Sorting by date falls back to the processing time for undated documents.
+ */
+export const DOCUMENT_LIST_SPEC: ListSpec<MedicalDocument> = {
+  filters: {
+    classification: { kind: "equals", value: (d) => d.classification, column: "classification" },
+    sourceType: { kind: "equals", value: (d) => d.sourceType, column: "source_type" },
+    account: { kind: "equals", value: (d) => d.account, column: "account" },
+    date: { kind: "dateRange", value: (d) => d.date, column: "date" },
+    archived: { kind: "archived", value: (d) => d.archivedAt, column: "archived_at" },
+    amount: { kind: "amountRange", values: (d) => getPaymentSignals(d).map((s) => s.amount) },
+  },
+  sortKeys: {
+    date: {
+      value: (d) => (d.date ?? d.processedAt).toISOString(),
+      sql: "COALESCE(date, processed_at)",
+    },
+    processedAt: { value: (d) => d.processedAt.toISOString(), sql: "processed_at" },
+    amount: { value: (d) => getPrimaryPaymentSignal(d)?.amount ?? 0 },
+  },
+  defaultSort: { key: "date", direction: "desc" },
+};
 
 /**
  * Create a new medical document record.
@@ -104,7 +135,8 @@ export async function updateMedicalDocument(
  */
 export async function setPaymentOverride(
   id: string,
-  override: Omit<PaymentOverride, "updatedAt"> | null
+  override: Omit<PaymentOverride, "updatedAt"> | null,
+  options: SaveOptions = {}
 ): Promise<MedicalDocument | null> {
   const existing = await documentsStorage.get(id);
   if (!existing) return null;
@@ -112,7 +144,7 @@ export async function setPaymentOverride(
   // Clear override
   if (!override) {
     const { paymentOverride: _, ...rest } = existing;
-    return documentsStorage.save(rest as MedicalDocument);
+    return documentsStorage.save(rest as MedicalDocument, options);
   }
 
   // Set override
@@ -120,7 +152,45 @@ export async function setPaymentOverride(
     ...existing,
     paymentOverride: { ...override, updatedAt: new Date() },
   };
-  return documentsStorage.save(updated);
+  return documentsStorage.save(updated, options);
+}
+
+/**
+ * Set or clear the classification override for a document.
+ * Pass null to clear it and restore the automatic classification.
+ */
+export async function setClassificationOverride(
+  id: string,
+  override: Pick<ClassificationOverride, "classification" | "note"> | null,
+  options: SaveOptions = {}
+): Promise<MedicalDocument | null> {
+  const existing = await documentsStorage.get(id);
+  if (!existing) return null;
+
+  const current = existing.classificationOverride;
+
+  // Clear override
+  if (!override) {
+    if (!current) return existing;
+    const { classificationOverride: _, ...rest } = existing;
+    return documentsStorage.save(
+      { ...rest, classification: current.previousClassification } as MedicalDocument,
+      options
+    );
+  }
+
+  // Set override, keeping the automatic classification from before any override
+  const updated: MedicalDocument = {
+    ...existing,
+    classification: override.classification,
+    classificationOverride: {
+      classification: override.classification,
+      previousClassification: current?.previousClassification ?? existing.classification,
+      ...(override.note !== undefined && { note: override.note }),
+      updatedAt: new Date(),
+    },
+  };
+  return documentsStorage.save(updated, options);
 }
 
 /**
@@ -140,7 +210,13 @@ export async function archiveDocument(
     ...(input?.ruleId !== undefined && { archivedByRuleId: input.ruleId }),
   };
 
-  return documentsStorage.save(updated);
+  if (input?.ruleId === undefined) {
+    return documentsStorage.save(updated);
+  }
+  const { source } = getCurrentActor();
+  return runAsActor({ actor: `archive-rule:${input.ruleId}`, ...(source && { source }) }, () =>
+    documentsStorage.save(updated)
+  );
 }
 
 /**
@@ -221,6 +297,20 @@ export async function findDocumentByCalendarEventId(
   return docs[0] ?? null;
 }
 
+/**
+ * Find documents whose attachment has the given SHA-256 content hash.
+ * Uses indexed lookup when SQLite backend is enabled.
+ */
+export async function findDocumentsByContentHash(
+  contentHash: string
+): Promise<MedicalDocument[]> {
+  if (getStorageBackend() === "sqlite") {
+    const sqlite = await getSqliteModule();
+    return sqlite.findDocumentsByContentHashSqlite(contentHash) as Promise<MedicalDocument[]>;
+  }
+  return documentsStorage.find((d) => d.contentHash === contentHash);
+}
+
 /**
  * Get documents by classification.
  */
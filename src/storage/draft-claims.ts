@@ -16,9 +16,13 @@ import {
   STORAGE_DIRS,
   generateId,
   dateReviver,
+  type SaveOptions,
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
+import { draftClaimSearchEntry } from "./search-index.js";
+import type { ListSpec } from "./query.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -29,12 +33,30 @@ function getDraftClaimsStorage(): StorageOperations<DraftClaim> {
     return sqlite.createSqliteRepository<DraftClaim>("draft_claims", [
       { column: "status", property: "status" },
       { column: "archived_at", property: "archivedAt" },
-    ]) as StorageOperations<DraftClaim>;
+    ], { searchEntry: draftClaimSearchEntry }) as StorageOperations<DraftClaim>;
   }
   return createStorage<DraftClaim>(STORAGE_DIRS.draftClaims, dateReviver);
 }
 
-export const draftClaimsStorage = getDraftClaimsStorage();
+export const draftClaimsStorage = withAudit("draft_claim", getDraftClaimsStorage());
+
+/**
+ * Filters and sort keys of the draft claim list (see query.ts).
+ */
+export const DRAFT_CLAIM_LIST_SPEC: ListSpec<DraftClaim> = {
+  filters: {
+    status: { kind: "equals", value: (d) => d.status, column: "status" },
+    treatmentDate: { kind: "dateRange", value: (d) => d.treatmentDate },
+    archived: { kind: "archived", value: (d) => d.archivedAt, column: "archived_at" },
+    amount: { kind: "amountRange", values: (d) => [d.payment.amount] },
+  },
+  sortKeys: {
+    generatedAt: { value: (d) => d.generatedAt.toISOString() },
+    treatmentDate: { value: (d) => (d.treatmentDate ?? d.generatedAt).toISOString() },
+    amount: { value: (d) => d.payment.amount },
+  },
+  defaultSort: { key: "generatedAt", direction: "desc" },
+};
 
 /**
  * Create a new draft claim record.
@@ -57,7 +79,8 @@ export async function createDraftClaim(
  */
 export async function updateDraftClaim(
   id: string,
-  updates: UpdateDraftClaimInput
+  updates: UpdateDraftClaimInput,
+  options: SaveOptions = {}
 ): Promise<DraftClaim | null> {
   const existing = await draftClaimsStorage.get(id);
   if (!existing) return null;
@@ -68,7 +91,21 @@ export async function updateDraftClaim(
     updatedAt: new Date(),
   };
 
-  return draftClaimsStorage.save(updated);
+  return draftClaimsStorage.save(updated, options);
+}
+
+/**
+ * Record an automatic submission of a draft claim. With a submission number
+ * the draft becomes "submitted" and links to its scraped claim by that
+ * number; without one it stays "accepted", like a manual submission, so
+ * the matcher can still link it.
+ */
+export async function recordDraftClaimSubmission(
+  id: string,
+  submissionNumber?: string
+): Promise<DraftClaim | null> {
+  if (!submissionNumber) return draftClaimsStorage.get(id);
+  return updateDraftClaim(id, { status: "submitted", submissionNumber });
 }
 
 /**
@@ -0,0 +1,257 @@
+/**
+ * Storage Encryption
+ *
+ * Optional encryption at rest for entity JSON, SQLite entity data and
+ * generated PDFs. Enabled when `data/encryption.json` exists (created by
+ * `pnpm encryption init`).
+ *
+ * Data is encrypted with a random 256-bit data key (AES-256-GCM). The data
+ * key is stored in the key file, wrapped with a key derived from the
+ * passphrase (scrypt). Changing the passphrase re-wraps the data key only.
+ *
+ * Values written before encryption was enabled are read as plaintext, so
+ * existing data keeps working until it is rewritten.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+
+/** Key file holding the wrapped data key */
+export const ENCRYPTION_KEYFILE = path.join(process.cwd(), "data", "encryption.json");
+
+/** Environment variable read to unlock storage */
+export const PASSPHRASE_ENV = "STORAGE_PASSPHRASE";
+
+/**
+ * SQLite index columns holding personal data (names, email addresses and
+ * IDs, attachment filenames), by table. They stay empty while storage is
+ * encrypted; lookups on them scan the decrypted rows instead.
+ */
+export const PERSONAL_INDEX_COLUMNS: Readonly<Record<string, readonly string[]>> = {
+  patients: ["name"],
+  illnesses: ["name"],
+  documents: ["attachment_path", "account", "email_id"],
+  attachment_processing: ["attachment_path", "email_id", "account"],
+};
+
+/** Prefix of encrypted files and buffers */
+const MAGIC = Buffer.from("CTE1", "ascii");
+
+/** Prefix of encrypted text values (SQLite data column) */
+const TEXT_PREFIX = "enc:v1:";
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Contents of the key file.
+ */
+interface KeyFile {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  /** Data key encrypted with the passphrase key, base64 */
+  wrappedKey: string;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+/** Unlocked data key; null while locked */
+let dataKey: Buffer | null = null;
+
+/** Cached key file existence */
+let enabled: boolean | null = null;
+
+/**
+ * Whether storage encryption is turned on.
+ */
+export function isEncryptionEnabled(): boolean {
+  if (enabled === null) {
+    enabled = fs.existsSync(ENCRYPTION_KEYFILE);
+  }
+  return enabled;
+}
+
+/**
+ * Whether the data key is loaded.
+ */
+export function isStorageUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const ivStart = MAGIC.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const dataStart = tagStart + TAG_LENGTH;
+  const decipher = createDecipheriv("aes-256-gcm", key, sealed.subarray(ivStart, tagStart));
+  decipher.setAuthTag(sealed.subarray(tagStart, dataStart));
+  return Buffer.concat([decipher.update(sealed.subarray(dataStart)), decipher.final()]);
+}
+
+function deriveKey(passphrase: string, kdf: KeyFile["kdf"]): Buffer {
+  return scryptSync(passphrase, Buffer.from(kdf.salt, "base64"), KEY_LENGTH, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.N * kdf.r,
+  });
+}
+
+function readKeyFile(): KeyFile {
+  const keyFile = JSON.parse(fs.readFileSync(ENCRYPTION_KEYFILE, "utf-8")) as KeyFile;
+  if (keyFile.version !== 1 || keyFile.kdf?.name !== "scrypt") {
+    throw new Error(`Unsupported encryption key file: ${ENCRYPTION_KEYFILE}`);
+  }
+  return keyFile;
+}
+
+function unwrapKey(keyFile: KeyFile, passphrase: string): Buffer {
+  try {
+    return open(deriveKey(passphrase, keyFile.kdf), Buffer.from(keyFile.wrappedKey, "base64"));
+  } catch {
+    throw new Error("Wrong storage passphrase");
+  }
+}
+
+function writeKeyFile(keyFile: KeyFile): void {
+  // Write then rename, so an interrupted write never loses the data key
+  const tmpPath = `${ENCRYPTION_KEYFILE}.tmp`;
+  fs.mkdirSync(path.dirname(ENCRYPTION_KEYFILE), { recursive: true });
+  fs.writeFileSync(tmpPath, JSON.stringify(keyFile, null, 2), { mode: 0o600 });
+  fs.renameSync(tmpPath, ENCRYPTION_KEYFILE);
+}
+
+function wrapKey(key: Buffer, passphrase: string): Pick<KeyFile, "kdf" | "wrappedKey"> {
+  if (!passphrase) {
+    throw new Error("Storage passphrase must not be empty");
+  }
+  const kdf: KeyFile["kdf"] = {
+    name: "scrypt",
+    salt: randomBytes(16).toString("base64"),
+    ...SCRYPT_PARAMS,
+  };
+  return { kdf, wrappedKey: seal(deriveKey(passphrase, kdf), key).toString("base64") };
+}
+
+/**
+ * Turn on encryption: create the key file with a new data key.
+ * Existing plaintext data is not touched (see services/storage-encryption.ts).
+ */
+export function initializeEncryption(passphrase: string): void {
+  if (isEncryptionEnabled()) {
+    throw new Error(`Encryption is already set up (${ENCRYPTION_KEYFILE})`);
+  }
+  const key = randomBytes(KEY_LENGTH);
+  writeKeyFile({ version: 1, ...wrapKey(key, passphrase), createdAt: new Date().toISOString() });
+  enabled = true;
+  dataKey = key;
+}
+
+/**
+ * Load the data key. Throws on a wrong passphrase.
+ */
+export function unlockStorage(passphrase: string): void {
+  if (!isEncryptionEnabled()) return;
+  dataKey = unwrapKey(readKeyFile(), passphrase);
+}
+
+/**
+ * Replace the passphrase. The data key, and so all stored data, stays the same.
+ */
+export function rekeyStorage(currentPassphrase: string, newPassphrase: string): void {
+  if (!isEncryptionEnabled()) {
+    throw new Error("Encryption is not set up");
+  }
+  const keyFile = readKeyFile();
+  const key = unwrapKey(keyFile, currentPassphrase);
+  writeKeyFile({
+    ...keyFile,
+    ...wrapKey(key, newPassphrase),
+    rotatedAt: new Date().toISOString(),
+  });
+  dataKey = key;
+}
+
+/**
+ * The data key, unlocking from STORAGE_PASSPHRASE on first use.
+ * Null when encryption is off.
+ */
+function getDataKey(): Buffer | null {
+  if (!isEncryptionEnabled()) return null;
+  if (!dataKey) {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new Error(`Storage is encrypted and locked. Set ${PASSPHRASE_ENV} to unlock it.`);
+    }
+    unlockStorage(passphrase);
+  }
+  return dataKey;
+}
+
+/**
+ * Whether a stored buffer is encrypted.
+ */
+export function isEncryptedBuffer(data: Buffer): boolean {
+  return data.length >= MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Encrypt bytes for storage. Returns them unchanged when encryption is off.
+ */
+export function encryptForStorage(plaintext: Buffer): Buffer {
+  const key = getDataKey();
+  return key ? seal(key, plaintext) : plaintext;
+}
+
+/**
+ * Decrypt stored bytes. Plaintext (written before encryption) passes through.
+ */
+export function decryptFromStorage(stored: Buffer): Buffer {
+  if (!isEncryptedBuffer(stored)) return stored;
+  const key = getDataKey();
+  if (!key) {
+    throw new Error(`Found encrypted data but ${ENCRYPTION_KEYFILE} is missing`);
+  }
+  return open(key, stored);
+}
+
+/**
+ * Encrypt a text value for a database column.
+ */
+export function encryptTextForStorage(text: string): string {
+  const key = getDataKey();
+  return key ? TEXT_PREFIX + seal(key, Buffer.from(text, "utf-8")).toString("base64") : text;
+}
+
+/**
+ * Decrypt a text value from a database column. Plaintext passes through.
+ */
+export function decryptTextFromStorage(text: string): string {
+  if (!text.startsWith(TEXT_PREFIX)) return text;
+  return decryptFromStorage(Buffer.from(text.slice(TEXT_PREFIX.length), "base64")).toString("utf-8");
+}
+
+/**
+ * Write a file, encrypted when encryption is on.
+ */
+export async function writeStoredFile(filePath: string, data: Buffer | string): Promise<void> {
+  const plaintext = typeof data === "string" ? Buffer.from(data, "utf-8") : data;
+  await fs.promises.writeFile(filePath, encryptForStorage(plaintext));
+}
+
+/**
+ * Read a file written by `writeStoredFile`.
+ */
+export async function readStoredFile(filePath: string): Promise<Buffer> {
+  return decryptFromStorage(await fs.promises.readFile(filePath));
+}
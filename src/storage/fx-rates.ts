@@ -0,0 +1,65 @@
+/**
+ * FX Rates Storage
+ *
+ * Backend-aware storage for daily exchange rate sets.
+ * Uses SQLite when STORAGE_BACKEND=sqlite, otherwise JSON files.
+ */
+
+import type { FxRateSet, CreateFxRateSetInput } from "../types/fx-rate.js";
+import {
+  createStorage,
+  STORAGE_DIRS,
+  dateReviver,
+  type StorageOperations,
+} from "./base.js";
+import { getStorageBackend } from "./repository.js";
+import { createRequire } from "node:module";
+
+const esmRequire = createRequire(import.meta.url);
+
+function getFxRatesStorage(): StorageOperations<FxRateSet> {
+  if (getStorageBackend() === "sqlite") {
+    const sqlite = esmRequire("./sqlite.js") as typeof import("./sqlite.js");
+    return sqlite.createSqliteRepository<FxRateSet>("fx_rates", [
+      { column: "source", property: "source" },
+      { column: "base_currency", property: "baseCurrency" },
+      { column: "date", property: "date" },
+    ]) as StorageOperations<FxRateSet>;
+  }
+  return createStorage<FxRateSet>(STORAGE_DIRS.fxRates, dateReviver);
+}
+
+/**
+ * Storage operations for exchange rate sets.
+ */
+export const fxRatesStorage = getFxRatesStorage();
+
+/**
+ * ID of the rate set for a source, base currency and day.
+ */
+export function fxRateSetId(source: string, baseCurrency: string, date: Date): string {
+  return `${source}-${baseCurrency}-${date.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Record rates, merging into any existing set for the same source/base/day.
+ * Later rates for the same quote currency replace earlier ones.
+ */
+export async function upsertFxRateSet(input: CreateFxRateSetInput): Promise<FxRateSet> {
+  const id = fxRateSetId(input.source, input.baseCurrency, input.date);
+  const existing = await fxRatesStorage.get(id);
+  const now = new Date();
+
+  const claimIds = [...new Set([...(existing?.claimIds ?? []), ...(input.claimIds ?? [])])];
+
+  const rateSet: FxRateSet = {
+    ...input,
+    id,
+    rates: { ...existing?.rates, ...input.rates },
+    ...(claimIds.length > 0 && { claimIds }),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  return fxRatesStorage.save(rateSet);
+}
@@ -16,9 +16,11 @@ import {
   STORAGE_DIRS,
   generateId,
   dateReviver,
+  type SaveOptions,
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -37,7 +39,7 @@ function getIllnessesStorage(): StorageOperations<Illness> {
 /**
  * Storage operations for illnesses.
  */
-export const illnessesStorage = getIllnessesStorage();
+export const illnessesStorage = withAudit("illness", getIllnessesStorage());
 
 /**
  * Create a new illness record.
@@ -61,7 +63,8 @@ export async function createIllness(
  */
 export async function updateIllness(
   id: string,
-  updates: UpdateIllnessInput
+  updates: UpdateIllnessInput,
+  options: SaveOptions = {}
 ): Promise<Illness | null> {
   const existing = await illnessesStorage.get(id);
   if (!existing) return null;
@@ -71,7 +74,7 @@ export async function updateIllness(
     ...updates,
     updatedAt: new Date(),
   };
-  return illnessesStorage.save(updated);
+  return illnessesStorage.save(updated, options);
 }
 
 /**
@@ -4,7 +4,8 @@
  * Storage for claims, documents, assignments, patients, and illnesses.
  * Supports both JSON file storage and SQLite for indexed lookups.
  *
- * Set STORAGE_BACKEND=sqlite to use SQLite (requires migration first).
+ * Set STORAGE_BACKEND=sqlite to use SQLite. The schema is versioned by
+ * numbered migrations (see migrations.ts), applied on first connection.
  */
 
 // Re-export base utilities
@@ -14,9 +15,18 @@ export {
   createStorage,
   generateId,
   dateReviver,
+  entityVersion,
+  isVersionConflict,
+  VERSION_CONFLICT,
+  type SaveOptions,
   type StorageOperations,
+  type Versioned,
 } from "./base.js";
 
+// Re-export unit of work
+export { runInTransaction, currentUnitOfWork, type UnitOfWork } from "./unit-of-work.js";
+export { replayJournals, JOURNAL_DIR } from "./journal.js";
+
 // Re-export repository types
 export {
   type Repository,
@@ -25,14 +35,37 @@ export {
   getStorageBackend,
 } from "./repository.js";
 
+// Re-export list query types and helpers
+export {
+  parseListQuery,
+  applyListQuery,
+  DEFAULT_LIST_LIMIT,
+  MAX_LIST_LIMIT,
+  type ListSpec,
+  type ListFilter,
+  type ListQuery,
+  type ListPage,
+  type SortKey,
+  type SortDirection,
+} from "./query.js";
+
 // Re-export SQLite utilities (lazy-loaded when needed)
 export {
   getDatabase,
+  openDatabase,
   closeDatabase,
   createSqliteRepository,
   getStatsFast,
   type StatsResult,
 } from "./sqlite.js";
+export {
+  MIGRATIONS,
+  getMigrationStatus,
+  migrateUp,
+  type Migration,
+  type AppliedMigration,
+  type MigrationStatus,
+} from "./migrations.js";
 
 // Re-export specific storage modules
 export * from "./claims.js";
@@ -43,3 +76,7 @@ export * from "./submitted-claims.js";
 export * from "./patients.js";
 export * from "./illnesses.js";
 export * from "./archive-rules.js";
+export * from "./jobs.js";
+export * from "./fx-rates.js";
+export * from "./classifier-models.js";
+export * from "./audit-log.js";
@@ -0,0 +1,75 @@
+/**
+ * Jobs Storage
+ *
+ * Backend-aware storage for background jobs (scrape, submit, processing).
+ * Uses SQLite when STORAGE_BACKEND=sqlite, otherwise JSON files.
+ */
+
+import type {
+  Job,
+  JobType,
+  UpdateJobInput,
+} from "../types/job.js";
+import {
+  createStorage,
+  STORAGE_DIRS,
+  dateReviver,
+  type StorageOperations,
+} from "./base.js";
+import { getStorageBackend } from "./repository.js";
+import { createRequire } from "node:module";
+
+const esmRequire = createRequire(import.meta.url);
+
+function getJobsStorage(): StorageOperations<Job> {
+  if (getStorageBackend() === "sqlite") {
+    const sqlite = esmRequire("./sqlite.js") as typeof import("./sqlite.js");
+    return sqlite.createSqliteRepository<Job>("jobs", [
+      { column: "type", property: "type" },
+      { column: "status", property: "status" },
+      { column: "entity_id", property: "entityId" },
+    ]) as StorageOperations<Job>;
+  }
+  return createStorage<Job>(STORAGE_DIRS.jobs, dateReviver);
+}
+
+/**
+ * Storage operations for background jobs.
+ */
+export const jobsStorage = getJobsStorage();
+
+/**
+ * Update an existing job.
+ */
+export async function updateJob(
+  id: string,
+  updates: UpdateJobInput
+): Promise<Job | null> {
+  const existing = await jobsStorage.get(id);
+  if (!existing) return null;
+
+  const updated: Job = {
+    ...existing,
+    ...updates,
+    updatedAt: new Date(),
+  };
+
+  return jobsStorage.save(updated);
+}
+
+/**
+ * Get jobs, newest first, optionally filtered by type.
+ */
+export async function getJobs(type?: JobType): Promise<Job[]> {
+  const jobs = type
+    ? await jobsStorage.find((j) => j.type === type)
+    : await jobsStorage.getAll();
+  return jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Get jobs that have not reached a terminal status.
+ */
+export async function getUnfinishedJobs(): Promise<Job[]> {
+  return jobsStorage.find((j) => j.status === "queued" || j.status === "running");
+}
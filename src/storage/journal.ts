@@ -0,0 +1,147 @@
+/**
+ * Write-Ahead Journal
+ *
+ * Commits the staged writes of a unit of work to JSON files. All writes are
+ * first recorded in one journal file under data/journal/, then applied, then
+ * the journal is removed. `replayJournals` finishes the writes of any journal
+ * left behind by a crash, so a unit of work is either fully applied or not
+ * at all. Journals are encrypted like the entity files.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import {
+  decryptFromStorage,
+  encryptForStorage,
+  writeStoredFile,
+} from "./encryption.js";
+import type { StagedWrite, TransactionParticipant } from "./unit-of-work.js";
+
+const DATA_DIR = path.join(process.cwd(), "data");
+export const JOURNAL_DIR = path.join(DATA_DIR, "journal");
+
+/**
+ * A staged write of one entity file.
+ */
+export interface JournalWrite {
+  filePath: string;
+  /** Throws if the file changed since the write was staged */
+  check: () => Promise<void>;
+}
+
+/**
+ * Contents of a journal file.
+ */
+interface Journal {
+  id: string;
+  createdAt: string;
+  /** Files relative to the data directory; content null to delete */
+  entries: Array<{ file: string; content: string | null }>;
+}
+
+// Writes in flight per file, so a version check is not interleaved with another write
+const fileLocks = new Map<string, Promise<void>>();
+
+/**
+ * Run a function while holding the locks of some files.
+ * Locks are taken in path order, so two callers cannot deadlock.
+ */
+export async function withFileLocks<T>(filePaths: string[], fn: () => Promise<T>): Promise<T> {
+  const releases: Array<() => void> = [];
+  for (const filePath of [...new Set(filePaths)].sort()) {
+    const previous = fileLocks.get(filePath) ?? Promise.resolve();
+    const held = new Promise<void>((resolve) => releases.push(resolve));
+    const queued = previous.then(() => held);
+    fileLocks.set(filePath, queued);
+    void queued.then(() => {
+      if (fileLocks.get(filePath) === queued) fileLocks.delete(filePath);
+    });
+    await previous;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    for (const release of releases) release();
+  }
+}
+
+function applyEntrySync(entry: Journal["entries"][number]): void {
+  const filePath = path.join(DATA_DIR, entry.file);
+  if (entry.content === null) {
+    fs.rmSync(filePath, { force: true });
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, encryptForStorage(Buffer.from(entry.content, "utf-8")));
+  }
+}
+
+/**
+ * Commits unit-of-work writes to JSON files.
+ */
+export const fileJournal: TransactionParticipant<JournalWrite> = {
+  async commit(writes: StagedWrite<JournalWrite>[]): Promise<void> {
+    await withFileLocks(
+      writes.map(({ write }) => write.filePath),
+      async () => {
+        for (const { write } of writes) {
+          await write.check();
+        }
+
+        const journal: Journal = {
+          id: randomUUID(),
+          createdAt: new Date().toISOString(),
+          entries: writes.map(({ write, content }) => ({
+            file: path.relative(DATA_DIR, write.filePath),
+            content,
+          })),
+        };
+
+        // The journal only counts once it is complete: write, then rename
+        fs.mkdirSync(JOURNAL_DIR, { recursive: true });
+        const journalPath = path.join(JOURNAL_DIR, `${journal.id}.json`);
+        await writeStoredFile(`${journalPath}.tmp`, JSON.stringify(journal));
+        await fs.promises.rename(`${journalPath}.tmp`, journalPath);
+
+        for (const { write, content } of writes) {
+          if (content === null) {
+            await fs.promises.rm(write.filePath, { force: true });
+          } else {
+            await writeStoredFile(write.filePath, content);
+          }
+        }
+
+        await fs.promises.unlink(journalPath);
+      }
+    );
+  },
+};
+
+/**
+ * Apply the writes of journals left behind by an interrupted commit.
+ * Call before serving requests. Returns the number of journals replayed.
+ */
+export function replayJournals(): number {
+  if (!fs.existsSync(JOURNAL_DIR)) return 0;
+
+  let replayed = 0;
+  for (const name of fs.readdirSync(JOURNAL_DIR).sort()) {
+    const journalPath = path.join(JOURNAL_DIR, name);
+
+    // Incomplete journal: the commit never started writing entities
+    if (name.endsWith(".tmp")) {
+      fs.rmSync(journalPath, { force: true });
+      continue;
+    }
+    if (!name.endsWith(".json")) continue;
+
+    const journal = JSON.parse(decryptFromStorage(fs.readFileSync(journalPath)).toString("utf-8")) as Journal;
+    for (const entry of journal.entries) {
+      applyEntrySync(entry);
+    }
+    fs.rmSync(journalPath);
+    replayed++;
+  }
+  return replayed;
+}
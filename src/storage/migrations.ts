@@ -0,0 +1,456 @@
+/**
+ * SQLite Schema Migrations
+ *
+ * Numbered migrations, applied in order. Each applied version is recorded in
+ * `schema_migrations`, so a database knows which schema it is on.
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit a migration that has shipped: existing databases already ran it.
+ */
+
+import type Database from "better-sqlite3";
+import { dateReviver, STORAGE_DIRS } from "./base.js";
+import { importJsonDirectory, importJsonFiles } from "./sqlite-json-import.js";
+import { decryptTextFromStorage, isEncryptionEnabled } from "./encryption.js";
+import {
+  SEARCH_INDEX_SCHEMA,
+  documentSearchEntry,
+  draftClaimSearchEntry,
+  scrapedClaimSearchEntry,
+  writeSearchEntry,
+  type SearchEntry,
+} from "./search-index.js";
+import type { MedicalDocument } from "../types/medical-document.js";
+import type { DraftClaim } from "../types/draft-claim.js";
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+
+/**
+ * A single schema change.
+ */
+export interface Migration {
+  /** Sequential version, starting at 0 */
+  version: number;
+
+  /** Short snake_case description */
+  name: string;
+
+  /** Apply the change; runs inside a transaction */
+  up(db: Database.Database): void;
+}
+
+/**
+ * A migration recorded in `schema_migrations`.
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * Where a database stands relative to the known migrations.
+ */
+export interface MigrationStatus {
+  /** Highest applied version (null for a new database) */
+  currentVersion: number | null;
+
+  /** Latest version this code knows about */
+  latestVersion: number;
+
+  applied: AppliedMigration[];
+  pending: Migration[];
+
+  /** Applied versions this code does not know (database is newer than the code) */
+  unknown: AppliedMigration[];
+}
+
+/**
+ * Tables and indexes as they were before versioned migrations existed.
+ */
+const BASELINE_SCHEMA = `
+  -- Documents table
+  CREATE TABLE IF NOT EXISTS documents (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    email_id TEXT,
+    attachment_path TEXT,
+    calendar_event_id TEXT,
+    source_type TEXT,
+    account TEXT,
+    date TEXT,
+    classification TEXT,
+    archived_at TEXT,
+    processed_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_documents_email_id ON documents(email_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_attachment_path ON documents(attachment_path);
+  CREATE INDEX IF NOT EXISTS idx_documents_calendar_event_id ON documents(calendar_event_id);
+  CREATE INDEX IF NOT EXISTS idx_documents_source_type ON documents(source_type);
+  CREATE INDEX IF NOT EXISTS idx_documents_account ON documents(account);
+  CREATE INDEX IF NOT EXISTS idx_documents_date ON documents(date);
+  CREATE INDEX IF NOT EXISTS idx_documents_classification ON documents(classification);
+  CREATE INDEX IF NOT EXISTS idx_documents_archived_at ON documents(archived_at);
+  CREATE INDEX IF NOT EXISTS idx_documents_processed_at ON documents(processed_at);
+  CREATE INDEX IF NOT EXISTS idx_documents_email_source ON documents(email_id, source_type) WHERE email_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS idx_documents_attachment ON documents(attachment_path) WHERE attachment_path IS NOT NULL;
+
+  -- Attachment processing records
+  CREATE TABLE IF NOT EXISTS attachment_processing (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    attachment_path TEXT,
+    email_id TEXT,
+    account TEXT,
+    status TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_attachment_processing_path ON attachment_processing(attachment_path);
+  CREATE INDEX IF NOT EXISTS idx_attachment_processing_email_id ON attachment_processing(email_id);
+  CREATE INDEX IF NOT EXISTS idx_attachment_processing_status ON attachment_processing(status);
+
+  -- Archive rules
+  CREATE TABLE IF NOT EXISTS archive_rules (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    name TEXT,
+    enabled INTEGER DEFAULT 1,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_archive_rules_enabled ON archive_rules(enabled);
+
+  -- Claims
+  CREATE TABLE IF NOT EXISTS claims (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    cigna_claim_id TEXT,
+    status TEXT,
+    archived_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_claims_cigna_claim_id ON claims(cigna_claim_id);
+  CREATE INDEX IF NOT EXISTS idx_claims_status ON claims(status);
+  CREATE INDEX IF NOT EXISTS idx_claims_archived_at ON claims(archived_at);
+
+  -- Submitted claims (claims submitted via Cigna Envoy automation)
+  CREATE TABLE IF NOT EXISTS submitted_claims (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    cigna_claim_id TEXT,
+    status TEXT,
+    archived_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_submitted_claims_cigna_claim_id ON submitted_claims(cigna_claim_id);
+  CREATE INDEX IF NOT EXISTS idx_submitted_claims_status ON submitted_claims(status);
+  CREATE INDEX IF NOT EXISTS idx_submitted_claims_archived_at ON submitted_claims(archived_at);
+
+  -- Draft claims
+  CREATE TABLE IF NOT EXISTS draft_claims (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    status TEXT,
+    archived_at TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_draft_claims_status ON draft_claims(status);
+  CREATE INDEX IF NOT EXISTS idx_draft_claims_archived_at ON draft_claims(archived_at);
+
+  -- Assignments
+  CREATE TABLE IF NOT EXISTS assignments (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    document_id TEXT,
+    claim_id TEXT,
+    status TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_assignments_document_id ON assignments(document_id);
+  CREATE INDEX IF NOT EXISTS idx_assignments_claim_id ON assignments(claim_id);
+  CREATE INDEX IF NOT EXISTS idx_assignments_status ON assignments(status);
+
+  -- Patients
+  CREATE TABLE IF NOT EXISTS patients (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    name TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_patients_name ON patients(name);
+
+  -- Illnesses
+  CREATE TABLE IF NOT EXISTS illnesses (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    patient_id TEXT,
+    name TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_illnesses_patient_id ON illnesses(patient_id);
+  CREATE INDEX IF NOT EXISTS idx_illnesses_name ON illnesses(name);
+
+  -- Background jobs
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    type TEXT,
+    status TEXT,
+    entity_id TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_jobs_type ON jobs(type);
+  CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+  CREATE INDEX IF NOT EXISTS idx_jobs_entity_id ON jobs(entity_id);
+
+  -- Exchange rates (one row per source/base currency/day)
+  CREATE TABLE IF NOT EXISTS fx_rates (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    source TEXT,
+    base_currency TEXT,
+    date TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_fx_rates_base_date ON fx_rates(base_currency, date);
+
+  -- Processing state (for incremental processing)
+  CREATE TABLE IF NOT EXISTS processing_state (
+    id TEXT PRIMARY KEY,
+    query TEXT NOT NULL,
+    account TEXT,
+    last_processed_date TEXT,
+    last_run_at TEXT,
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_state_query_account ON processing_state(query, account);
+`;
+
+/**
+ * Index every stored row of a table.
+ */
+function backfillSearchIndex<T>(
+  db: Database.Database,
+  tableName: string,
+  toEntry: (entity: T) => SearchEntry
+): void {
+  // An encrypted database keeps no plaintext full-text index
+  if (isEncryptionEnabled()) return;
+
+  const rows = db.prepare(`SELECT data FROM ${tableName}`).all() as { data: string }[];
+  for (const row of rows) {
+    writeSearchEntry(db, toEntry(JSON.parse(decryptTextFromStorage(row.data), dateReviver) as T));
+  }
+}
+
+/**
+ * Append-only entity history. Triggers reject updates and deletes, so
+ * entries can only be added.
+ */
+export const AUDIT_LOG_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    entity_type TEXT,
+    entity_id TEXT,
+    actor TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+  BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+  BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+`;
+
+/**
+ * Copy a JSON property of every stored row into a newly added column.
+ */
+function backfillColumn(
+  db: Database.Database,
+  tableName: string,
+  column: string,
+  property: string
+): void {
+  const rows = db.prepare(`SELECT id, data FROM ${tableName}`).all() as { id: string; data: string }[];
+  const update = db.prepare(`UPDATE ${tableName} SET ${column} = ? WHERE id = ?`);
+  for (const row of rows) {
+    const entity = JSON.parse(decryptTextFromStorage(row.data)) as Record<string, unknown>;
+    const value = entity[property];
+    if (typeof value === "string") update.run(value, row.id);
+  }
+}
+
+/**
+ * All migrations, in version order.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 0,
+    name: "baseline_schema_and_json_import",
+    up(db) {
+      // Databases created before versioning already have these tables;
+      // IF NOT EXISTS fills in any that were added since.
+      db.exec(BASELINE_SCHEMA);
+      importJsonFiles(db);
+    },
+  },
+  {
+    version: 1,
+    name: "full_text_search_index",
+    up(db) {
+      db.exec(SEARCH_INDEX_SCHEMA);
+      backfillSearchIndex<MedicalDocument>(db, "documents", documentSearchEntry);
+      backfillSearchIndex<DraftClaim>(db, "draft_claims", draftClaimSearchEntry);
+      backfillSearchIndex<ScrapedClaim>(db, "claims", scrapedClaimSearchEntry);
+    },
+  },
+  {
+    version: 2,
+    name: "audit_log",
+    up(db) {
+      db.exec(AUDIT_LOG_SCHEMA);
+      importJsonDirectory(db, STORAGE_DIRS.auditLog, "audit_log", ["entity_type", "entity_id", "actor"]);
+    },
+  },
+  {
+    version: 3,
+    name: "document_content_hash",
+    up(db) {
+      db.exec(`
+        ALTER TABLE documents ADD COLUMN content_hash TEXT;
+        CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents(content_hash) WHERE content_hash IS NOT NULL;
+      `);
+      backfillColumn(db, "documents", "content_hash", "contentHash");
+    },
+  },
+  {
+    version: 4,
+    name: "classifier_models",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS classifier_models (
+          id TEXT PRIMARY KEY,
+          data TEXT NOT NULL,
+          model_version INTEGER,
+          created_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+      `);
+      importJsonDirectory(db, STORAGE_DIRS.classifierModels, "classifier_models", ["model_version"]);
+    },
+  },
+];
+
+/**
+ * Create the migrations bookkeeping table.
+ */
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+/**
+ * Compare the database against the known migrations.
+ */
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: readonly Migration[] = MIGRATIONS
+): MigrationStatus {
+  ensureMigrationsTable(db);
+
+  const applied = (
+    db
+      .prepare("SELECT version, name, applied_at FROM schema_migrations ORDER BY version")
+      .all() as Array<{ version: number; name: string; applied_at: string }>
+  ).map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+
+  const appliedVersions = new Set(applied.map((migration) => migration.version));
+  const knownVersions = new Set(migrations.map((migration) => migration.version));
+  const last = applied[applied.length - 1];
+
+  return {
+    currentVersion: last ? last.version : null,
+    latestVersion: migrations[migrations.length - 1]?.version ?? -1,
+    applied,
+    pending: migrations.filter((migration) => !appliedVersions.has(migration.version)),
+    unknown: applied.filter((migration) => !knownVersions.has(migration.version)),
+  };
+}
+
+/**
+ * Throw if the database was migrated by newer code.
+ */
+export function assertKnownSchema(status: MigrationStatus): void {
+  if (status.unknown.length > 0) {
+    const versions = status.unknown.map((migration) => `${migration.version} (${migration.name})`);
+    throw new Error(
+      `Database has migrations this version does not know: ${versions.join(", ")}. ` +
+      "Upgrade the application before opening this database."
+    );
+  }
+}
+
+/**
+ * Apply all pending migrations in order, each in its own transaction.
+ *
+ * @returns The migrations that were applied
+ */
+export function migrateUp(
+  db: Database.Database,
+  migrations: readonly Migration[] = MIGRATIONS
+): Migration[] {
+  const status = getMigrationStatus(db, migrations);
+  assertKnownSchema(status);
+
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+  );
+
+  for (const migration of status.pending) {
+    console.log(`[migrations] Applying ${migration.version}: ${migration.name}`);
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return status.pending;
+}
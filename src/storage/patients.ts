@@ -18,6 +18,7 @@ import {
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -35,7 +36,7 @@ function getPatientsStorage(): StorageOperations<Patient> {
 /**
  * Storage operations for patients.
  */
-export const patientsStorage = getPatientsStorage();
+export const patientsStorage = withAudit("patient", getPatientsStorage());
 
 /**
  * Create a new patient record.
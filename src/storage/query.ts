@@ -0,0 +1,315 @@
+/**
+ * List Queries
+ *
+ * Cursor-paginated, sorted and filtered listing shared by both repository
+ * implementations. A `ListSpec` describes the filters and sort keys an
+ * entity supports. Filters and sort keys backed by an indexed SQLite column
+ * run in SQL; everything else is applied to the loaded entities.
+ */
+
+export type SortDirection = "asc" | "desc";
+
+/** Sort values are never null, so the (value, id) keyset order is total */
+export type SortValue = string | number;
+
+/**
+ * A sort key of a list.
+ */
+export interface SortKey<T> {
+  value: (entity: T) => SortValue;
+  /** SQL expression over indexed columns producing the same value */
+  sql?: string;
+}
+
+/**
+ * A filter of a list. The query parameters it reads depend on the kind:
+ * - equals: `<name>=a,b` (any of)
+ * - dateRange: `<name>From`, `<name>To` (inclusive; dates or timestamps)
+ * - amountRange: `<name>Min`, `<name>Max` (matches if any amount is in range)
+ * - archived: `<name>=true|false|all`
+ */
+export type ListFilter<T> =
+  | { kind: "equals"; value: (entity: T) => string | undefined; column?: string }
+  | { kind: "dateRange"; value: (entity: T) => Date | undefined; column?: string }
+  | { kind: "amountRange"; values: (entity: T) => number[] }
+  | { kind: "archived"; value: (entity: T) => Date | undefined; column?: string };
+
+/**
+ * Filters and sort keys supported by an entity list.
+ */
+export interface ListSpec<T> {
+  filters: Record<string, ListFilter<T>>;
+  sortKeys: Record<string, SortKey<T>>;
+  defaultSort: { key: string; direction: SortDirection };
+}
+
+/**
+ * Parsed value of one filter.
+ */
+export type FilterValue =
+  | { kind: "equals"; values: string[] }
+  | { kind: "dateRange"; from?: Date; before?: Date }
+  | { kind: "amountRange"; min?: number; max?: number }
+  | { kind: "archived"; archived: boolean };
+
+/**
+ * Position after the last entity of a page.
+ */
+export interface ListCursor {
+  sort: string;
+  direction: SortDirection;
+  value: SortValue;
+  id: string;
+}
+
+/**
+ * A parsed list query.
+ */
+export interface ListQuery {
+  limit: number;
+  sort: string;
+  direction: SortDirection;
+  cursor?: ListCursor;
+  filters: Record<string, FilterValue>;
+}
+
+/**
+ * One page of a list.
+ */
+export interface ListPage<T> {
+  items: T[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** Number of entities matching the filters, across all pages */
+  total: number;
+}
+
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 500;
+
+type QueryParams = Record<string, string | string[] | undefined>;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readParam(params: QueryParams, name: string): string | undefined {
+  const raw = params[name];
+  const value = Array.isArray(raw) ? raw[raw.length - 1] : raw;
+  return value === undefined || value === "" ? undefined : value;
+}
+
+function parseDateParam(name: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${name}: ${value}`);
+  }
+  return date;
+}
+
+function parseNumberParam(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`Invalid number for ${name}: ${value}`);
+  }
+  return number;
+}
+
+function parseFilter<T>(
+  name: string,
+  filter: ListFilter<T>,
+  params: QueryParams
+): FilterValue | undefined {
+  switch (filter.kind) {
+    case "equals": {
+      const value = readParam(params, name);
+      if (value === undefined) return undefined;
+      return { kind: "equals", values: value.split(",").map((v) => v.trim()).filter(Boolean) };
+    }
+    case "dateRange": {
+      const from = readParam(params, `${name}From`);
+      const to = readParam(params, `${name}To`);
+      if (from === undefined && to === undefined) return undefined;
+      const range: FilterValue = { kind: "dateRange" };
+      if (from !== undefined) range.from = parseDateParam(`${name}From`, from);
+      if (to !== undefined) {
+        // A bare date includes the whole day
+        const end = parseDateParam(`${name}To`, to);
+        range.before = new Date(end.getTime() + (DATE_ONLY.test(to) ? DAY_MS : 1));
+      }
+      return range;
+    }
+    case "amountRange": {
+      const min = readParam(params, `${name}Min`);
+      const max = readParam(params, `${name}Max`);
+      if (min === undefined && max === undefined) return undefined;
+      const range: FilterValue = { kind: "amountRange" };
+      if (min !== undefined) range.min = parseNumberParam(`${name}Min`, min);
+      if (max !== undefined) range.max = parseNumberParam(`${name}Max`, max);
+      return range;
+    }
+    case "archived": {
+      const value = readParam(params, name);
+      if (value === undefined || value === "all") return undefined;
+      if (value !== "true" && value !== "false") {
+        throw new Error(`${name} must be true, false or all`);
+      }
+      return { kind: "archived", archived: value === "true" };
+    }
+  }
+}
+
+/**
+ * Encode a cursor for the next page.
+ */
+export function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf-8").toString("base64url");
+}
+
+function decodeListCursor(value: string): ListCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8")) as ListCursor;
+    if (
+      typeof cursor.sort === "string" &&
+      (cursor.direction === "asc" || cursor.direction === "desc") &&
+      (typeof cursor.value === "string" || typeof cursor.value === "number") &&
+      typeof cursor.id === "string"
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid cursor");
+}
+
+/**
+ * Parse `limit`, `cursor`, `sort` and filter parameters against a spec.
+ * Throws on invalid values. Sort is `key` or `-key` for descending.
+ */
+export function parseListQuery<T>(spec: ListSpec<T>, params: QueryParams): ListQuery {
+  const limitParam = readParam(params, "limit");
+  const limit = limitParam === undefined ? DEFAULT_LIST_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_LIST_LIMIT}`);
+  }
+
+  let sort = spec.defaultSort.key;
+  let direction = spec.defaultSort.direction;
+  const sortParam = readParam(params, "sort");
+  if (sortParam !== undefined) {
+    direction = sortParam.startsWith("-") ? "desc" : "asc";
+    sort = sortParam.replace(/^[-+]/, "");
+    if (!spec.sortKeys[sort]) {
+      throw new Error(`Unknown sort key: ${sort} (expected ${Object.keys(spec.sortKeys).join(", ")})`);
+    }
+  }
+
+  const query: ListQuery = { limit, sort, direction, filters: {} };
+
+  const cursorParam = readParam(params, "cursor");
+  if (cursorParam !== undefined) {
+    const cursor = decodeListCursor(cursorParam);
+    if (cursor.sort !== sort || cursor.direction !== direction) {
+      throw new Error("Cursor was issued for a different sort");
+    }
+    query.cursor = cursor;
+  }
+
+  for (const [name, filter] of Object.entries(spec.filters)) {
+    const value = parseFilter(name, filter, params);
+    if (value) query.filters[name] = value;
+  }
+  return query;
+}
+
+/**
+ * Whether an entity matches one filter.
+ */
+function matchesFilter<T>(entity: T, filter: ListFilter<T>, value: FilterValue): boolean {
+  if (filter.kind === "equals" && value.kind === "equals") {
+    const field = filter.value(entity);
+    return field !== undefined && value.values.includes(field);
+  }
+  if (filter.kind === "dateRange" && value.kind === "dateRange") {
+    const field = filter.value(entity);
+    if (!field) return false;
+    const time = new Date(field).getTime();
+    return (!value.from || time >= value.from.getTime()) && (!value.before || time < value.before.getTime());
+  }
+  if (filter.kind === "amountRange" && value.kind === "amountRange") {
+    return filter
+      .values(entity)
+      .some((amount) => (value.min === undefined || amount >= value.min) && (value.max === undefined || amount <= value.max));
+  }
+  if (filter.kind === "archived" && value.kind === "archived") {
+    return (filter.value(entity) !== undefined) === value.archived;
+  }
+  return false;
+}
+
+/**
+ * Whether an entity matches every filter of a query.
+ */
+export function matchesListQuery<T>(spec: ListSpec<T>, query: ListQuery, entity: T): boolean {
+  return Object.entries(query.filters).every(([name, value]) => {
+    const filter = spec.filters[name];
+    return !filter || matchesFilter(entity, filter, value);
+  });
+}
+
+function compareKeys(a: [SortValue, string], b: [SortValue, string]): number {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  if (a[1] !== b[1]) return a[1] < b[1] ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Filter, sort and paginate loaded entities.
+ */
+export function applyListQuery<T extends { id: string }>(
+  spec: ListSpec<T>,
+  query: ListQuery,
+  entities: T[]
+): ListPage<T> {
+  const sortKey = spec.sortKeys[query.sort];
+  if (!sortKey) {
+    throw new Error(`Unknown sort key: ${query.sort}`);
+  }
+  const sign = query.direction === "asc" ? 1 : -1;
+
+  const matching = entities
+    .filter((entity) => matchesListQuery(spec, query, entity))
+    .map((entity) => ({ entity, key: [sortKey.value(entity), entity.id] as [SortValue, string] }))
+    .sort((a, b) => sign * compareKeys(a.key, b.key));
+
+  const cursor = query.cursor;
+  const remaining = cursor
+    ? matching.filter(({ key }) => sign * compareKeys(key, [cursor.value, cursor.id]) > 0)
+    : matching;
+
+  return toListPage(query, remaining.map(({ entity }) => entity), sortKey, matching.length);
+}
+
+/**
+ * Cut a page from entities already ordered and past the cursor.
+ * Takes up to `limit + 1` entities to tell whether another page follows.
+ */
+export function toListPage<T extends { id: string }>(
+  query: ListQuery,
+  ordered: T[],
+  sortKey: SortKey<T>,
+  total: number
+): ListPage<T> {
+  const items = ordered.slice(0, query.limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    ordered.length > query.limit && last
+      ? encodeListCursor({
+          sort: query.sort,
+          direction: query.direction,
+          value: sortKey.value(last),
+          id: last.id,
+        })
+      : null;
+  return { items, nextCursor, total };
+}
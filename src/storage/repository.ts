@@ -5,12 +5,15 @@
  * or SQLite for indexed lookups.
  */
 
+import type { SaveOptions } from "./base.js";
+import type { ListPage, ListQuery, ListSpec } from "./query.js";
+
 /**
  * Generic repository operations.
  */
 export interface Repository<T extends { id: string }> {
-  /** Save (insert or update) an entity */
-  save(entity: T): Promise<T>;
+  /** Save (insert or update) an entity; returns it with its new version */
+  save(entity: T, options?: SaveOptions): Promise<T>;
 
   /** Get an entity by ID */
   get(id: string): Promise<T | null>;
@@ -29,6 +32,9 @@ export interface Repository<T extends { id: string }> {
 
   /** Count all entities */
   count(): Promise<number>;
+
+  /** Get one page of entities matching a list query */
+  list(spec: ListSpec<T>, query: ListQuery): Promise<ListPage<T>>;
 }
 
 /**
@@ -0,0 +1,238 @@
+/**
+ * Full-Text Search Index
+ *
+ * One SQLite FTS5 table (`search_index`) covers documents, draft claims and
+ * scraped claims. Rows are written by the SQLite repositories on every save,
+ * so the index follows the entity tables without a separate sync step.
+ *
+ * The entry builders are also used by the JSON backend, which scans instead.
+ */
+
+import type Database from "better-sqlite3";
+import type { MedicalDocument } from "../types/medical-document.js";
+import type { DraftClaim } from "../types/draft-claim.js";
+import type { ScrapedClaim } from "../types/scraped-claim.js";
+
+/**
+ * Entity kinds covered by search.
+ */
+export type SearchEntityType = "document" | "draft_claim" | "scraped_claim";
+
+/**
+ * Searchable text of one entity.
+ */
+export interface SearchEntry {
+  entityType: SearchEntityType;
+  entityId: string;
+
+  /** Short label, weighted above the body */
+  title: string;
+  body: string;
+  archived: boolean;
+  date?: Date;
+}
+
+/**
+ * A raw FTS match, before snippet markers are parsed.
+ */
+export interface SearchIndexRow {
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  date: string | null;
+
+  /** Excerpt with matches wrapped in SNIPPET_OPEN / SNIPPET_CLOSE */
+  snippet: string;
+
+  /** Higher is more relevant */
+  score: number;
+}
+
+/** Marks the start of a highlighted match in snippets */
+export const SNIPPET_OPEN = "\uE000";
+
+/** Marks the end of a highlighted match in snippets */
+export const SNIPPET_CLOSE = "\uE001";
+
+/** Relative weight of a title match over a body match */
+export const TITLE_WEIGHT = 5;
+
+/**
+ * FTS5 table definition, created by migration 1.
+ */
+export const SEARCH_INDEX_SCHEMA = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    entity_type UNINDEXED,
+    entity_id UNINDEXED,
+    archived UNINDEXED,
+    date UNINDEXED,
+    title,
+    body,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+`;
+
+function joinText(parts: Array<string | undefined | null>): string {
+  return parts.filter((part): part is string => !!part?.trim()).join("\n");
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Searchable text of a document: OCR, email and calendar fields.
+ */
+export function documentSearchEntry(doc: MedicalDocument): SearchEntry {
+  return {
+    entityType: "document",
+    entityId: doc.id,
+    title: doc.subject ?? doc.calendarSummary ?? doc.filename ?? "Untitled document",
+    body: joinText([
+      doc.filename,
+      doc.fromAddress,
+      doc.bodySnippet,
+      doc.calendarDescription,
+      doc.calendarLocation,
+      doc.ocrText,
+    ]),
+    archived: !!doc.archivedAt,
+    ...(doc.date && { date: doc.date }),
+  };
+}
+
+/**
+ * Searchable text of a draft claim: provider, doctor notes and submission details.
+ */
+export function draftClaimSearchEntry(draft: DraftClaim): SearchEntry {
+  const submission = draft.submission ?? {};
+  const provider = submission.providerName;
+  return {
+    entityType: "draft_claim",
+    entityId: draft.id,
+    title: `Draft claim ${formatAmount(draft.payment.amount, draft.payment.currency)}${provider ? ` · ${provider}` : ""}`,
+    body: joinText([
+      provider,
+      submission.providerAddress,
+      submission.symptoms?.map((symptom) => symptom.name).join(", "),
+      submission.progressReport,
+      draft.doctorNotes,
+      draft.paymentProofText,
+      draft.submissionNumber,
+    ]),
+    archived: !!draft.archivedAt,
+    ...(draft.treatmentDate && { date: draft.treatmentDate }),
+  };
+}
+
+/**
+ * Searchable text of a scraped claim: numbers, member, provider and treatments.
+ */
+export function scrapedClaimSearchEntry(claim: ScrapedClaim): SearchEntry {
+  return {
+    entityType: "scraped_claim",
+    entityId: claim.id,
+    title: `Cigna claim ${claim.cignaClaimNumber} · ${claim.memberName}`,
+    body: joinText([
+      claim.submissionNumber,
+      claim.providerName,
+      claim.countryOfTreatment,
+      claim.claimType,
+      claim.lineItems.map((item) => item.treatmentDescription).join(", "),
+      claim.documentNames?.join(", "),
+    ]),
+    archived: !!claim.archivedAt,
+    date: claim.treatmentDate,
+  };
+}
+
+/**
+ * Replace the index row of an entity.
+ */
+export function writeSearchEntry(db: Database.Database, entry: SearchEntry): void {
+  removeSearchEntry(db, entry.entityType, entry.entityId);
+  db.prepare(
+    `INSERT INTO search_index (entity_type, entity_id, archived, date, title, body)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    entry.entityType,
+    entry.entityId,
+    entry.archived ? 1 : 0,
+    entry.date ? new Date(entry.date).toISOString() : null,
+    entry.title,
+    entry.body
+  );
+}
+
+/**
+ * Remove the index row of an entity.
+ */
+export function removeSearchEntry(
+  db: Database.Database,
+  entityType: SearchEntityType,
+  entityId: string
+): void {
+  db.prepare("DELETE FROM search_index WHERE entity_type = ? AND entity_id = ?").run(entityType, entityId);
+}
+
+/**
+ * Split a user query into search terms (letters and digits only).
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Build an FTS5 MATCH expression: every term must match, the last as a prefix.
+ * Terms are quoted so user input cannot inject FTS syntax.
+ *
+ * @returns null when the query has no searchable terms
+ */
+export function toFtsQuery(query: string): string | null {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return null;
+  return terms
+    .map((term, index) => `"${term}"${index === terms.length - 1 ? "*" : ""}`)
+    .join(" ");
+}
+
+/**
+ * Run a ranked search over non-archived entries.
+ */
+export function querySearchIndex(
+  db: Database.Database,
+  query: string,
+  limit: number
+): SearchIndexRow[] {
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const rows = db
+    .prepare(
+      `SELECT entity_type, entity_id, title, date,
+              snippet(search_index, -1, ?, ?, '…', 16) AS snippet,
+              bm25(search_index, 0, 0, 0, 0, ?, 1) AS rank
+       FROM search_index
+       WHERE search_index MATCH ? AND archived = 0
+       ORDER BY rank
+       LIMIT ?`
+    )
+    .all(SNIPPET_OPEN, SNIPPET_CLOSE, TITLE_WEIGHT, ftsQuery, limit) as Array<{
+      entity_type: SearchEntityType;
+      entity_id: string;
+      title: string;
+      date: string | null;
+      snippet: string;
+      rank: number;
+    }>;
+
+  // bm25 is lower for better matches
+  return rows.map((row) => ({
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    title: row.title,
+    date: row.date,
+    snippet: row.snippet,
+    score: -row.rank,
+  }));
+}
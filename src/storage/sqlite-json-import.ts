@@ -0,0 +1,193 @@
+/**
+ * JSON Files → SQLite Import
+ *
+ * Copies the JSON storage directories into SQLite tables.
+ * Used by migration 0 when a SQLite database is first created.
+ *
+ * Only empty tables are filled, so re-importing can never overwrite rows
+ * that were written through SQLite since.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type Database from "better-sqlite3";
+import { STORAGE_DIRS } from "./base.js";
+import {
+  PERSONAL_INDEX_COLUMNS,
+  decryptFromStorage,
+  encryptTextForStorage,
+  isEncryptionEnabled,
+} from "./encryption.js";
+
+/**
+ * Result of importing one directory.
+ */
+export interface JsonImportStats {
+  table: string;
+  migrated: number;
+  errors: number;
+
+  /** Table already had rows, nothing imported */
+  skipped: boolean;
+}
+
+/**
+ * Date reviver for JSON parsing.
+ */
+function dateReviver(_key: string, value: unknown): unknown {
+  if (typeof value === "string") {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+    if (dateRegex.test(value)) {
+      return new Date(value);
+    }
+  }
+  return value;
+}
+
+/**
+ * Convert snake_case column name to camelCase property name.
+ * e.g. "email_id" → "emailId", "source_type" → "sourceType"
+ */
+function snakeToCamel(s: string): string {
+  return s.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Extra aliases for columns where camelCase doesn't match 1:1.
+ */
+const EXTRA_ALIASES: Record<string, string[]> = {
+  cigna_claim_id: ["cignaClaimId", "cignaClaimNumber"],
+};
+
+/**
+ * Extract indexed field value from entity.
+ */
+function getFieldValue(entity: Record<string, unknown>, columnName: string): string | null {
+  // Primary: try the camelCase equivalent of the column name
+  const camelProp = snakeToCamel(columnName);
+  let value = entity[camelProp] ?? entity[columnName];
+
+  // Fallback: check extra aliases
+  if (value === undefined || value === null) {
+    for (const alias of EXTRA_ALIASES[columnName] ?? []) {
+      const v = entity[alias];
+      if (v !== undefined && v !== null) {
+        value = v;
+        break;
+      }
+    }
+  }
+
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+/**
+ * Tables filled from JSON directories, with their indexed columns.
+ */
+const JSON_TABLES: Array<{ dir: string; table: string; indexedFields: string[] }> = [
+  {
+    dir: STORAGE_DIRS.documents,
+    table: "documents",
+    indexedFields: [
+      "email_id",
+      "attachment_path",
+      "calendar_event_id",
+      "source_type",
+      "account",
+      "date",
+      "classification",
+      "archived_at",
+      "processed_at",
+    ],
+  },
+  {
+    dir: STORAGE_DIRS.attachmentProcessing,
+    table: "attachment_processing",
+    indexedFields: ["attachment_path", "email_id", "account", "status"],
+  },
+  { dir: STORAGE_DIRS.archiveRules, table: "archive_rules", indexedFields: ["name", "enabled"] },
+  { dir: STORAGE_DIRS.claims, table: "claims", indexedFields: ["cigna_claim_id", "status", "archived_at"] },
+  {
+    dir: STORAGE_DIRS.submittedClaims,
+    table: "submitted_claims",
+    indexedFields: ["cigna_claim_id", "status", "archived_at"],
+  },
+  { dir: STORAGE_DIRS.draftClaims, table: "draft_claims", indexedFields: ["status", "archived_at"] },
+  {
+    dir: STORAGE_DIRS.assignments,
+    table: "assignments",
+    indexedFields: ["document_id", "claim_id", "status"],
+  },
+  { dir: STORAGE_DIRS.patients, table: "patients", indexedFields: ["name"] },
+  { dir: STORAGE_DIRS.illnesses, table: "illnesses", indexedFields: ["patient_id", "name"] },
+  { dir: STORAGE_DIRS.fxRates, table: "fx_rates", indexedFields: ["source", "base_currency", "date"] },
+];
+
+/**
+ * Import a single directory of JSON files into an empty table.
+ * Tables added by later migrations import their own directory this way.
+ */
+export function importJsonDirectory(
+  db: Database.Database,
+  dirPath: string,
+  tableName: string,
+  indexedFields: string[]
+): JsonImportStats {
+  const stats: JsonImportStats = { table: tableName, migrated: 0, errors: 0, skipped: false };
+
+  if (!fs.existsSync(dirPath)) {
+    return stats;
+  }
+
+  const existing = db.prepare(`SELECT 1 FROM ${tableName} LIMIT 1`).get();
+  if (existing) {
+    console.log(`  ${tableName}: already has rows (skipping JSON import)`);
+    return { ...stats, skipped: true };
+  }
+
+  const files = fs.readdirSync(dirPath).filter((f) => f.endsWith(".json"));
+  const columns = ["id", "data", "updated_at", ...indexedFields];
+  const placeholders = columns.map(() => "?").join(", ");
+  const stmt = db.prepare(`INSERT OR REPLACE INTO ${tableName} (${columns.join(", ")}) VALUES (${placeholders})`);
+  const now = new Date().toISOString();
+  const personalFields = isEncryptionEnabled() ? (PERSONAL_INDEX_COLUMNS[tableName] ?? []) : [];
+
+  for (const file of files) {
+    try {
+      const content = decryptFromStorage(fs.readFileSync(path.join(dirPath, file))).toString("utf-8");
+      const entity = JSON.parse(content, dateReviver) as Record<string, unknown>;
+
+      if (!entity.id) {
+        console.error(`    Missing id in ${file}`);
+        stats.errors++;
+        continue;
+      }
+
+      stmt.run(
+        entity.id as string,
+        encryptTextForStorage(JSON.stringify(entity)),
+        now,
+        ...indexedFields.map((f) => (personalFields.includes(f) ? null : getFieldValue(entity, f)))
+      );
+      stats.migrated++;
+    } catch (err) {
+      console.error(`    Error importing ${file}:`, err);
+      stats.errors++;
+    }
+  }
+
+  console.log(`  ${tableName}: imported ${stats.migrated} / ${files.length} (${stats.errors} errors)`);
+  return stats;
+}
+
+/**
+ * Import every JSON storage directory into its SQLite table.
+ * Files that fail to parse are logged and skipped.
+ */
+export function importJsonFiles(db: Database.Database): JsonImportStats[] {
+  return JSON_TABLES.map(({ dir, table, indexedFields }) =>
+    importJsonDirectory(db, dir, table, indexedFields)
+  );
+}
@@ -9,27 +9,66 @@ import Database from "better-sqlite3";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import type { Repository, IndexedRepository } from "./repository.js";
+import { assertVersion, entityVersion, type SaveOptions } from "./base.js";
+import { migrateUp } from "./migrations.js";
+import { writeSearchEntry, removeSearchEntry, type SearchEntry } from "./search-index.js";
+import {
+  PERSONAL_INDEX_COLUMNS,
+  decryptTextFromStorage,
+  encryptTextForStorage,
+  isEncryptionEnabled,
+} from "./encryption.js";
+import {
+  currentUnitOfWork,
+  type StagedWrite,
+  type TransactionParticipant,
+  type UnitOfWork,
+} from "./unit-of-work.js";
+import {
+  applyListQuery,
+  toListPage,
+  type ListPage,
+  type ListQuery,
+  type ListSpec,
+} from "./query.js";
 
 /** Base data directory */
 const DATA_DIR = path.join(process.cwd(), "data");
-const DB_PATH = path.join(DATA_DIR, "cigna-tracker.db");
+export const DB_PATH = path.join(DATA_DIR, "cigna-tracker.db");
 
 let db: Database.Database | null = null;
 
+/**
+ * Open a database file without touching its schema.
+ * Used by the migration script to report status before migrating.
+ */
+export function openDatabase(dbPath: string = DB_PATH): Database.Database {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const database = new Database(dbPath);
+  database.pragma("journal_mode = WAL");
+  database.pragma("synchronous = NORMAL");
+  database.pragma("foreign_keys = ON");
+  return database;
+}
+
 /**
  * Get or create the SQLite database connection.
+ * Applies pending schema migrations, and refuses to open a database
+ * migrated by a newer version of the application.
  */
 export function getDatabase(): Database.Database {
   if (db) return db;
 
-  fs.mkdirSync(DATA_DIR, { recursive: true });
-
-  db = new Database(DB_PATH);
-  db.pragma("journal_mode = WAL");
-  db.pragma("synchronous = NORMAL");
-  db.pragma("foreign_keys = ON");
+  const database = openDatabase();
+  try {
+    migrateUp(database);
+  } catch (err) {
+    database.close();
+    throw err;
+  }
 
-  initializeSchema(db);
+  db = database;
   return db;
 }
 
@@ -43,164 +82,6 @@ export function closeDatabase(): void {
   }
 }
 
-/**
- * Initialize database schema.
- */
-function initializeSchema(database: Database.Database): void {
-  database.exec(`
-    -- Documents table
-    CREATE TABLE IF NOT EXISTS documents (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      email_id TEXT,
-      attachment_path TEXT,
-      calendar_event_id TEXT,
-      source_type TEXT,
-      account TEXT,
-      date TEXT,
-      classification TEXT,
-      archived_at TEXT,
-      processed_at TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_documents_email_id ON documents(email_id);
-    CREATE INDEX IF NOT EXISTS idx_documents_attachment_path ON documents(attachment_path);
-    CREATE INDEX IF NOT EXISTS idx_documents_calendar_event_id ON documents(calendar_event_id);
-    CREATE INDEX IF NOT EXISTS idx_documents_source_type ON documents(source_type);
-    CREATE INDEX IF NOT EXISTS idx_documents_account ON documents(account);
-    CREATE INDEX IF NOT EXISTS idx_documents_date ON documents(date);
-    CREATE INDEX IF NOT EXISTS idx_documents_classification ON documents(classification);
-    CREATE INDEX IF NOT EXISTS idx_documents_archived_at ON documents(archived_at);
-    CREATE INDEX IF NOT EXISTS idx_documents_processed_at ON documents(processed_at);
-    CREATE INDEX IF NOT EXISTS idx_documents_email_source ON documents(email_id, source_type) WHERE email_id IS NOT NULL;
-    CREATE INDEX IF NOT EXISTS idx_documents_attachment ON documents(attachment_path) WHERE attachment_path IS NOT NULL;
-
-    -- Attachment processing records
-    CREATE TABLE IF NOT EXISTS attachment_processing (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      attachment_path TEXT,
-      email_id TEXT,
-      account TEXT,
-      status TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_attachment_processing_path ON attachment_processing(attachment_path);
-    CREATE INDEX IF NOT EXISTS idx_attachment_processing_email_id ON attachment_processing(email_id);
-    CREATE INDEX IF NOT EXISTS idx_attachment_processing_status ON attachment_processing(status);
-
-    -- Archive rules
-    CREATE TABLE IF NOT EXISTS archive_rules (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      name TEXT,
-      enabled INTEGER DEFAULT 1,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_archive_rules_enabled ON archive_rules(enabled);
-
-    -- Claims
-    CREATE TABLE IF NOT EXISTS claims (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      cigna_claim_id TEXT,
-      status TEXT,
-      archived_at TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_claims_cigna_claim_id ON claims(cigna_claim_id);
-    CREATE INDEX IF NOT EXISTS idx_claims_status ON claims(status);
-    CREATE INDEX IF NOT EXISTS idx_claims_archived_at ON claims(archived_at);
-
-    -- Submitted claims (claims submitted via Cigna Envoy automation)
-    CREATE TABLE IF NOT EXISTS submitted_claims (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      cigna_claim_id TEXT,
-      status TEXT,
-      archived_at TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_submitted_claims_cigna_claim_id ON submitted_claims(cigna_claim_id);
-    CREATE INDEX IF NOT EXISTS idx_submitted_claims_status ON submitted_claims(status);
-    CREATE INDEX IF NOT EXISTS idx_submitted_claims_archived_at ON submitted_claims(archived_at);
-
-    -- Draft claims
-    CREATE TABLE IF NOT EXISTS draft_claims (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      status TEXT,
-      archived_at TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_draft_claims_status ON draft_claims(status);
-    CREATE INDEX IF NOT EXISTS idx_draft_claims_archived_at ON draft_claims(archived_at);
-
-    -- Assignments
-    CREATE TABLE IF NOT EXISTS assignments (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      document_id TEXT,
-      claim_id TEXT,
-      status TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_assignments_document_id ON assignments(document_id);
-    CREATE INDEX IF NOT EXISTS idx_assignments_claim_id ON assignments(claim_id);
-    CREATE INDEX IF NOT EXISTS idx_assignments_status ON assignments(status);
-
-    -- Patients
-    CREATE TABLE IF NOT EXISTS patients (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      name TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_patients_name ON patients(name);
-
-    -- Illnesses
-    CREATE TABLE IF NOT EXISTS illnesses (
-      id TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      patient_id TEXT,
-      name TEXT,
-      created_at TEXT DEFAULT (datetime('now')),
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_illnesses_patient_id ON illnesses(patient_id);
-    CREATE INDEX IF NOT EXISTS idx_illnesses_name ON illnesses(name);
-
-    -- Processing state (for incremental processing)
-    CREATE TABLE IF NOT EXISTS processing_state (
-      id TEXT PRIMARY KEY,
-      query TEXT NOT NULL,
-      account TEXT,
-      last_processed_date TEXT,
-      last_run_at TEXT,
-      updated_at TEXT DEFAULT (datetime('now'))
-    );
-
-    CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_state_query_account ON processing_state(query, account);
-  `);
-}
-
 /**
  * Date reviver for JSON parsing.
  */
@@ -214,6 +95,13 @@ function dateReviver(_key: string, value: unknown): unknown {
   return value;
 }
 
+/**
+ * Parse the data column, decrypting it when encrypted.
+ */
+function parseEntityData<T>(data: string): T {
+  return JSON.parse(decryptTextFromStorage(data), dateReviver) as T;
+}
+
 /**
  * Field mapping from entity property to database column.
  */
@@ -222,17 +110,98 @@ interface FieldMapping {
   property: string;
 }
 
+/**
+ * SQL conditions for the filters of a list query that map to indexed columns.
+ * `complete` is false when some filters have to be applied in memory.
+ */
+function listConditions<T>(
+  spec: ListSpec<T>,
+  query: ListQuery,
+  blankColumns: readonly string[]
+): { conditions: string[]; params: unknown[]; complete: boolean } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let complete = true;
+
+  for (const [name, value] of Object.entries(query.filters)) {
+    const filter = spec.filters[name];
+    if (!filter) continue;
+    const column = filter.kind === "amountRange" ? undefined : filter.column;
+    if (!column || blankColumns.includes(column)) {
+      complete = false;
+      continue;
+    }
+
+    switch (value.kind) {
+      case "equals":
+        conditions.push(`${column} IN (${value.values.map(() => "?").join(", ")})`);
+        params.push(...value.values);
+        break;
+      case "dateRange":
+        if (value.from) {
+          conditions.push(`${column} >= ?`);
+          params.push(value.from.toISOString());
+        }
+        if (value.before) {
+          conditions.push(`${column} < ?`);
+          params.push(value.before.toISOString());
+        }
+        break;
+      case "archived":
+        conditions.push(value.archived ? `${column} IS NOT NULL` : `${column} IS NULL`);
+        break;
+      case "amountRange":
+        complete = false;
+        break;
+    }
+  }
+
+  return { conditions, params, complete };
+}
+
+/**
+ * A staged write of one row.
+ */
+interface SqliteWrite {
+  /** Version of the row before the unit of work */
+  baseVersion: number;
+  /** Checks the row still has the base version, then writes it */
+  apply: () => void;
+}
+
+/**
+ * Commits unit-of-work writes in one transaction.
+ */
+const sqliteTransaction: TransactionParticipant<SqliteWrite> = {
+  async commit(writes: StagedWrite<SqliteWrite>[]): Promise<void> {
+    getDatabase().transaction(() => {
+      for (const { write } of writes) {
+        write.apply();
+      }
+    })();
+  },
+};
+
 /**
  * Create a SQLite repository for a specific table.
  *
  * @param tableName - The database table name
  * @param fieldMappings - Array of field mappings from entity properties to database columns
+ * @param options.searchEntry - Keeps the full-text search index in sync on save and delete
  */
 export function createSqliteRepository<T extends { id: string }>(
   tableName: string,
-  fieldMappings: FieldMapping[] = []
+  fieldMappings: FieldMapping[] = [],
+  options: { searchEntry?: (entity: T) => SearchEntry } = {}
 ): IndexedRepository<T> {
   const database = getDatabase();
+  // An encrypted database keeps no plaintext full-text index (search scans
+  // instead) and no personal data in index columns. Checked per write, as
+  // encryption can be enabled while the process runs.
+  const searchEntry = (): ((entity: T) => SearchEntry) | undefined =>
+    isEncryptionEnabled() ? undefined : options.searchEntry;
+  const personalColumns = (): readonly string[] =>
+    isEncryptionEnabled() ? (PERSONAL_INDEX_COLUMNS[tableName] ?? []) : [];
 
   // Extract indexed field value from entity using property name
   const getFieldValue = (entity: T, property: string): string | null => {
@@ -245,41 +214,99 @@ export function createSqliteRepository<T extends { id: string }>(
   // Build indexed field columns for upsert
   const indexedFieldColumns = fieldMappings.map((f) => f.column);
 
+  // Build column list for indexed fields
+  const columns = ["id", "data", "updated_at", ...indexedFieldColumns];
+  const placeholders = columns.map(() => "?").join(", ");
+
+  const sql = `
+    INSERT INTO ${tableName} (${columns.join(", ")})
+    VALUES (${placeholders})
+    ON CONFLICT(id) DO UPDATE SET
+      data = excluded.data,
+      updated_at = excluded.updated_at
+      ${indexedFieldColumns.length > 0 ? ", " + indexedFieldColumns.map((f) => `${f} = excluded.${f}`).join(", ") : ""}
+  `;
+
+  // Committed entity, ignoring writes staged in a unit of work
+  const readEntity = (id: string): T | null => {
+    const row = database
+      .prepare(`SELECT data FROM ${tableName} WHERE id = ?`)
+      .get(id) as { data: string } | undefined;
+    return row ? parseEntityData<T>(row.data) : null;
+  };
+
+  const writeEntity = (saved: T): void => {
+    const blankColumns = personalColumns();
+    database.prepare(sql).run(
+      saved.id,
+      encryptTextForStorage(JSON.stringify(saved)),
+      new Date().toISOString(),
+      ...fieldMappings.map((f) => (blankColumns.includes(f.column) ? null : getFieldValue(saved, f.property)))
+    );
+    const toSearchEntry = searchEntry();
+    if (toSearchEntry) writeSearchEntry(database, toSearchEntry(saved));
+  };
+
+  const deleteEntity = (id: string, existing: T | null): number => {
+    const toSearchEntry = searchEntry();
+    if (existing && toSearchEntry) {
+      removeSearchEntry(database, toSearchEntry(existing).entityType, id);
+    }
+    return database.prepare(`DELETE FROM ${tableName} WHERE id = ?`).run(id).changes;
+  };
+
+  // Stage a write in a unit of work; the commit fails unless the row still has the version read
+  const stageWrite = (unit: UnitOfWork, id: string, entity: T | null, readVersion: number): void => {
+    const key = `${tableName}:${id}`;
+    const previous = unit.staged(key) as StagedWrite<SqliteWrite> | undefined;
+    const baseVersion = previous ? previous.write.baseVersion : readVersion;
+
+    unit.stage(sqliteTransaction, {
+      key,
+      content: entity ? JSON.stringify(entity) : null,
+      write: {
+        baseVersion,
+        apply: () => {
+          const current = readEntity(id);
+          assertVersion(id, current, baseVersion);
+          if (entity) {
+            writeEntity(entity);
+          } else {
+            deleteEntity(id, current);
+          }
+        },
+      },
+    });
+  };
+
   return {
-    async save(entity: T): Promise<T> {
-      const data = JSON.stringify(entity);
-      const now = new Date().toISOString();
-
-      // Build column list and values for indexed fields
-      const columns = ["id", "data", "updated_at", ...indexedFieldColumns];
-      const placeholders = columns.map(() => "?").join(", ");
-      const values = [
-        entity.id,
-        data,
-        now,
-        ...fieldMappings.map((f) => getFieldValue(entity, f.property)),
-      ];
-
-      const sql = `
-        INSERT INTO ${tableName} (${columns.join(", ")})
-        VALUES (${placeholders})
-        ON CONFLICT(id) DO UPDATE SET
-          data = excluded.data,
-          updated_at = excluded.updated_at
-          ${indexedFieldColumns.length > 0 ? ", " + indexedFieldColumns.map((f) => `${f} = excluded.${f}`).join(", ") : ""}
-      `;
-
-      database.prepare(sql).run(...values);
-      return entity;
+    async save(entity: T, options: SaveOptions = {}): Promise<T> {
+      const unit = currentUnitOfWork();
+      if (unit) {
+        const stored = await this.get(entity.id);
+        assertVersion(entity.id, stored, options.expectedVersion);
+        const saved = { ...entity, version: entityVersion(stored) + 1 };
+        stageWrite(unit, entity.id, saved, entityVersion(stored));
+        return saved;
+      }
+
+      // Check and bump the version in the same transaction as the write
+      return database.transaction(() => {
+        const stored = readEntity(entity.id);
+        assertVersion(entity.id, stored, options.expectedVersion);
+
+        const saved = { ...entity, version: entityVersion(stored) + 1 };
+        writeEntity(saved);
+        return saved;
+      })();
     },
 
     async get(id: string): Promise<T | null> {
-      const row = database
-        .prepare(`SELECT data FROM ${tableName} WHERE id = ?`)
-        .get(id) as { data: string } | undefined;
-
-      if (!row) return null;
-      return JSON.parse(row.data, dateReviver) as T;
+      const staged = currentUnitOfWork()?.staged(`${tableName}:${id}`);
+      if (staged) {
+        return staged.content === null ? null : parseEntityData<T>(staged.content);
+      }
+      return readEntity(id);
     },
 
     async getAll(): Promise<T[]> {
@@ -287,18 +314,25 @@ export function createSqliteRepository<T extends { id: string }>(
         .prepare(`SELECT data FROM ${tableName}`)
         .all() as { data: string }[];
 
-      return rows.map((row) => JSON.parse(row.data, dateReviver) as T);
+      return rows.map((row) => parseEntityData(row.data) as T);
     },
 
     async delete(id: string): Promise<boolean> {
-      const result = database
-        .prepare(`DELETE FROM ${tableName} WHERE id = ?`)
-        .run(id);
-
-      return result.changes > 0;
+      const unit = currentUnitOfWork();
+      if (unit) {
+        const stored = await this.get(id);
+        stageWrite(unit, id, null, entityVersion(stored));
+        return stored !== null;
+      }
+
+      const changes = database.transaction(() => deleteEntity(id, readEntity(id)))();
+      return changes > 0;
     },
 
     async exists(id: string): Promise<boolean> {
+      const staged = currentUnitOfWork()?.staged(`${tableName}:${id}`);
+      if (staged) return staged.content !== null;
+
       const row = database
         .prepare(`SELECT 1 FROM ${tableName} WHERE id = ? LIMIT 1`)
         .get(id);
@@ -319,6 +353,41 @@ export function createSqliteRepository<T extends { id: string }>(
       return row.count;
     },
 
+    async list(spec: ListSpec<T>, query: ListQuery): Promise<ListPage<T>> {
+      const { conditions, params, complete } = listConditions(spec, query, personalColumns());
+      const sortKey = spec.sortKeys[query.sort];
+      const where = (clauses: string[]) => (clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "");
+
+      if (!sortKey?.sql || !complete) {
+        // Narrow with the indexed columns, then filter, sort and page in memory
+        const rows = database
+          .prepare(`SELECT data FROM ${tableName} ${where(conditions)}`)
+          .all(...params) as { data: string }[];
+        return applyListQuery(spec, query, rows.map((row) => parseEntityData(row.data) as T));
+      }
+
+      const { count: total } = database
+        .prepare(`SELECT COUNT(*) as count FROM ${tableName} ${where(conditions)}`)
+        .get(...params) as { count: number };
+
+      const pageConditions = [...conditions];
+      const pageParams = [...params];
+      if (query.cursor) {
+        const op = query.direction === "asc" ? ">" : "<";
+        pageConditions.push(`(${sortKey.sql} ${op} ? OR (${sortKey.sql} = ? AND id ${op} ?))`);
+        pageParams.push(query.cursor.value, query.cursor.value, query.cursor.id);
+      }
+      const order = query.direction === "asc" ? "ASC" : "DESC";
+      const rows = database
+        .prepare(
+          `SELECT data FROM ${tableName} ${where(pageConditions)}
+           ORDER BY ${sortKey.sql} ${order}, id ${order} LIMIT ?`
+        )
+        .all(...pageParams, query.limit + 1) as { data: string }[];
+
+      return toListPage(query, rows.map((row) => parseEntityData(row.data) as T), sortKey, total);
+    },
+
     async findByIndex<K extends keyof T>(field: K, value: T[K]): Promise<T | null> {
       const fieldName = String(field);
       const searchValue = value instanceof Date ? value.toISOString() : value;
@@ -328,7 +397,7 @@ export function createSqliteRepository<T extends { id: string }>(
         .get(searchValue) as { data: string } | undefined;
 
       if (!row) return null;
-      return JSON.parse(row.data, dateReviver) as T;
+      return parseEntityData(row.data) as T;
     },
 
     async findAllByIndex<K extends keyof T>(field: K, value: T[K]): Promise<T[]> {
@@ -339,7 +408,7 @@ export function createSqliteRepository<T extends { id: string }>(
         .prepare(`SELECT data FROM ${tableName} WHERE ${fieldName} = ?`)
         .all(searchValue) as { data: string }[];
 
-      return rows.map((row) => JSON.parse(row.data, dateReviver) as T);
+      return rows.map((row) => parseEntityData(row.data) as T);
     },
 
     async countByIndex<K extends keyof T>(field: K, value: T[K]): Promise<number> {
@@ -439,27 +508,52 @@ export function getStatsFast(): StatsResult {
   };
 }
 
+/**
+ * Whether an index column is left empty because storage is encrypted.
+ */
+function isBlankedColumn(tableName: string, column: string): boolean {
+  return isEncryptionEnabled() && (PERSONAL_INDEX_COLUMNS[tableName] ?? []).includes(column);
+}
+
+/**
+ * Rows matching a predicate on the decrypted data, for lookups on blanked columns.
+ */
+function scanTable<T>(tableName: string, predicate: (entity: T) => boolean, where = ""): T[] {
+  const rows = getDatabase()
+    .prepare(`SELECT data FROM ${tableName} ${where}`)
+    .all() as { data: string }[];
+  return rows.map((row) => parseEntityData<T>(row.data)).filter(predicate);
+}
+
 /**
  * Documents-specific indexed lookups.
  */
 export function findDocumentByEmailIdSqlite(emailId: string): Promise<unknown | null> {
+  if (isBlankedColumn("documents", "email_id")) {
+    return Promise.resolve(scanTable<{ emailId?: string }>("documents", (doc) => doc.emailId === emailId)[0] ?? null);
+  }
   const database = getDatabase();
   const row = database
     .prepare("SELECT data FROM documents WHERE email_id = ? LIMIT 1")
     .get(emailId) as { data: string } | undefined;
 
   if (!row) return Promise.resolve(null);
-  return Promise.resolve(JSON.parse(row.data, dateReviver));
+  return Promise.resolve(parseEntityData(row.data));
 }
 
 export function findDocumentByAttachmentPathSqlite(attachmentPath: string): Promise<unknown | null> {
+  if (isBlankedColumn("documents", "attachment_path")) {
+    return Promise.resolve(
+      scanTable<{ attachmentPath?: string }>("documents", (doc) => doc.attachmentPath === attachmentPath)[0] ?? null
+    );
+  }
   const database = getDatabase();
   const row = database
     .prepare("SELECT data FROM documents WHERE attachment_path = ? LIMIT 1")
     .get(attachmentPath) as { data: string } | undefined;
 
   if (!row) return Promise.resolve(null);
-  return Promise.resolve(JSON.parse(row.data, dateReviver));
+  return Promise.resolve(parseEntityData(row.data));
 }
 
 export function findDocumentByCalendarEventIdSqlite(calendarEventId: string): Promise<unknown | null> {
@@ -469,20 +563,37 @@ export function findDocumentByCalendarEventIdSqlite(calendarEventId: string): Pr
     .get(calendarEventId) as { data: string } | undefined;
 
   if (!row) return Promise.resolve(null);
-  return Promise.resolve(JSON.parse(row.data, dateReviver));
+  return Promise.resolve(parseEntityData(row.data));
+}
+
+export function findDocumentsByContentHashSqlite(contentHash: string): Promise<unknown[]> {
+  const database = getDatabase();
+  const rows = database
+    .prepare("SELECT data FROM documents WHERE content_hash = ?")
+    .all(contentHash) as { data: string }[];
+
+  return Promise.resolve(rows.map((row) => parseEntityData(row.data)));
 }
 
 /**
  * Attachment processing indexed lookup.
  */
 export function findAttachmentProcessingByPathSqlite(attachmentPath: string): Promise<unknown | null> {
+  if (isBlankedColumn("attachment_processing", "attachment_path")) {
+    return Promise.resolve(
+      scanTable<{ attachmentPath?: string }>(
+        "attachment_processing",
+        (record) => record.attachmentPath === attachmentPath
+      )[0] ?? null
+    );
+  }
   const database = getDatabase();
   const row = database
     .prepare("SELECT data FROM attachment_processing WHERE attachment_path = ? LIMIT 1")
     .get(attachmentPath) as { data: string } | undefined;
 
   if (!row) return Promise.resolve(null);
-  return Promise.resolve(JSON.parse(row.data, dateReviver));
+  return Promise.resolve(parseEntityData(row.data));
 }
 
 /**
@@ -498,7 +609,7 @@ export function queryDocumentsByArchiveStatus<T>(
     ? `SELECT data FROM ${tableName} WHERE archived_at IS NOT NULL`
     : `SELECT data FROM ${tableName} WHERE archived_at IS NULL`;
   const rows = database.prepare(sql).all() as { data: string }[];
-  return rows.map((row) => JSON.parse(row.data, dateReviver) as T);
+  return rows.map((row) => parseEntityData(row.data) as T);
 }
 
 /**
@@ -509,6 +620,13 @@ export function queryActiveDocumentsByEmailId<T>(
   tableName: string,
   emailId: string
 ): T[] {
+  if (isBlankedColumn(tableName, "email_id")) {
+    return scanTable<T & { emailId?: string }>(
+      tableName,
+      (doc) => doc.emailId === emailId,
+      "WHERE archived_at IS NULL AND source_type != 'calendar'"
+    );
+  }
   const database = getDatabase();
   const rows = database
     .prepare(
@@ -516,5 +634,5 @@ export function queryActiveDocumentsByEmailId<T>(
        WHERE email_id = ? AND archived_at IS NULL AND source_type != 'calendar'`
     )
     .all(emailId) as { data: string }[];
-  return rows.map((row) => JSON.parse(row.data, dateReviver) as T);
+  return rows.map((row) => parseEntityData(row.data) as T);
 }
@@ -14,6 +14,7 @@ import {
   type StorageOperations,
 } from "./base.js";
 import { getStorageBackend } from "./repository.js";
+import { withAudit } from "./audit-log.js";
 import { createRequire } from "node:module";
 
 const esmRequire = createRequire(import.meta.url);
@@ -33,7 +34,7 @@ function getSubmittedClaimsStorage(): StorageOperations<Claim> {
 /**
  * Storage operations for submitted claims.
  */
-export const submittedClaimsStorage = getSubmittedClaimsStorage();
+export const submittedClaimsStorage = withAudit("claim", getSubmittedClaimsStorage());
 
 /**
  * Create a new submitted claim record.
@@ -0,0 +1,99 @@
+/**
+ * Unit of Work
+ *
+ * Groups the writes of an operation that changes several records, so they
+ * are stored together or not at all. Inside `runInTransaction`, saves and
+ * deletes (including their audit entries) are staged instead of written, and
+ * `get`/`exists` see the staged state. When the function returns, the staged
+ * writes are committed: in one SQLite transaction, or through the write-ahead
+ * journal for JSON files (see journal.ts). If it throws, nothing is written.
+ *
+ * Other queries (getAll, find, list, count) read committed data only.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * A write staged in a unit of work.
+ */
+export interface StagedWrite<W> {
+  /** Identifies the stored record; a later write of the same key replaces this one */
+  key: string;
+  /** Serialized entity after the write; null when deleted */
+  content: string | null;
+  /** Backend-specific details needed to commit */
+  write: W;
+}
+
+/**
+ * A storage backend that commits staged writes all at once.
+ */
+export interface TransactionParticipant<W> {
+  commit(writes: StagedWrite<W>[]): Promise<void>;
+}
+
+/**
+ * The unit of work of the current async context.
+ */
+export interface UnitOfWork {
+  /** Write staged for a key, if any */
+  staged(key: string): StagedWrite<unknown> | undefined;
+
+  /** Stage a write, to be committed by the participant */
+  stage<W>(participant: TransactionParticipant<W>, write: StagedWrite<W>): void;
+}
+
+interface PendingUnit extends UnitOfWork {
+  commit(): Promise<void>;
+}
+
+const unitContext = new AsyncLocalStorage<PendingUnit>();
+
+function createUnitOfWork(): PendingUnit {
+  const writes = new Map<string, { participant: TransactionParticipant<unknown>; write: StagedWrite<unknown> }>();
+  let committed = false;
+
+  return {
+    staged(key) {
+      return writes.get(key)?.write;
+    },
+
+    stage(participant, write) {
+      if (committed) {
+        throw new Error(`Write of ${write.key} after its unit of work was committed`);
+      }
+      writes.set(write.key, { participant: participant as TransactionParticipant<unknown>, write });
+    },
+
+    async commit() {
+      committed = true;
+      const byParticipant = new Map<TransactionParticipant<unknown>, StagedWrite<unknown>[]>();
+      for (const { participant, write } of writes.values()) {
+        byParticipant.set(participant, [...(byParticipant.get(participant) ?? []), write]);
+      }
+      for (const [participant, staged] of byParticipant) {
+        await participant.commit(staged);
+      }
+    },
+  };
+}
+
+/**
+ * Unit of work of the current async context; undefined outside `runInTransaction`.
+ */
+export function currentUnitOfWork(): UnitOfWork | undefined {
+  return unitContext.getStore();
+}
+
+/**
+ * Run a function whose storage writes are committed together when it returns.
+ * A nested call joins the enclosing unit of work.
+ */
+export async function runInTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (unitContext.getStore()) return fn();
+
+  const unit = createUnitOfWork();
+  const result = await unitContext.run(unit, fn);
+  await unit.commit();
+  return result;
+}
@@ -1,9 +1,135 @@
 /**
  * Archive rule definitions.
  *
- * Rules are used to auto-archive documents based on email/attachment metadata.
+ * Rules match documents by metadata, content and calendar fields, and
+ * apply actions to them: archive (the default), set the classification,
+ * tag, link to an illness or promote to a draft claim.
  */
 
+import type { DocumentClassification } from "./medical-document.js";
+
+/**
+ * Document text fields a rule condition can match.
+ * Calendar organizer and attendees match on email and display name.
+ */
+export type ArchiveRuleTextField =
+  | "fromAddress"
+  | "toAddress"
+  | "subject"
+  | "attachmentName"
+  | "account"
+  | "ocrText"
+  | "calendarSummary"
+  | "calendarDescription"
+  | "calendarLocation"
+  | "calendarOrganizer"
+  | "calendarAttendees";
+
+/** All text fields */
+export const ARCHIVE_RULE_TEXT_FIELDS: readonly ArchiveRuleTextField[] = [
+  "fromAddress",
+  "toAddress",
+  "subject",
+  "attachmentName",
+  "account",
+  "ocrText",
+  "calendarSummary",
+  "calendarDescription",
+  "calendarLocation",
+  "calendarOrganizer",
+  "calendarAttendees",
+] as const;
+
+/**
+ * How a text condition compares. All comparisons ignore case;
+ * "regex" takes a JavaScript regular expression.
+ */
+export type ArchiveRuleTextOperator = "contains" | "equals" | "regex";
+
+/** All text operators */
+export const ARCHIVE_RULE_TEXT_OPERATORS: readonly ArchiveRuleTextOperator[] = [
+  "contains",
+  "equals",
+  "regex",
+] as const;
+
+/**
+ * Match a text field.
+ */
+export interface ArchiveRuleTextCondition {
+  kind: "text";
+  field: ArchiveRuleTextField;
+  operator: ArchiveRuleTextOperator;
+  value: string;
+}
+
+/**
+ * Match documents with one of the classifications.
+ */
+export interface ArchiveRuleClassificationCondition {
+  kind: "classification";
+  classifications: DocumentClassification[];
+}
+
+/**
+ * Match the document's primary payment amount (inclusive bounds).
+ * Documents without an amount never match.
+ */
+export interface ArchiveRuleAmountCondition {
+  kind: "amount";
+  min?: number;
+  max?: number;
+  /** Only amounts in this currency (ISO code) */
+  currency?: string;
+}
+
+/**
+ * Match the document date. Dates are YYYY-MM-DD; after is inclusive,
+ * before exclusive. Documents without a date never match.
+ */
+export interface ArchiveRuleDateCondition {
+  kind: "date";
+  after?: string;
+  before?: string;
+}
+
+/**
+ * Combine conditions: "all" (AND) or "any" (OR).
+ */
+export interface ArchiveRuleConditionGroup {
+  kind: "group";
+  match: "all" | "any";
+  conditions: ArchiveRuleCondition[];
+}
+
+export type ArchiveRuleCondition =
+  | ArchiveRuleTextCondition
+  | ArchiveRuleClassificationCondition
+  | ArchiveRuleAmountCondition
+  | ArchiveRuleDateCondition
+  | ArchiveRuleConditionGroup;
+
+/**
+ * Something a rule does to the documents it matches.
+ */
+export type ArchiveRuleAction =
+  | { kind: "archive" }
+  | { kind: "set_classification"; classification: DocumentClassification }
+  | { kind: "tag"; tag: string }
+  | { kind: "link_illness"; illnessId: string }
+  | { kind: "promote_to_draft" };
+
+export type ArchiveRuleActionKind = ArchiveRuleAction["kind"];
+
+/** All action kinds, in the order they are applied */
+export const ARCHIVE_RULE_ACTION_KINDS: readonly ArchiveRuleActionKind[] = [
+  "set_classification",
+  "tag",
+  "link_illness",
+  "archive",
+  "promote_to_draft",
+] as const;
+
 export interface ArchiveRule {
   /** Internal UUID */
   id: string;
@@ -23,6 +149,12 @@ export interface ArchiveRule {
   /** Attachment filename contains */
   attachmentNameContains?: string;
 
+  /** Conditions; all of them and the "contains" fields above must match */
+  conditions?: ArchiveRuleConditionGroup;
+
+  /** What to do with matching documents (default: archive) */
+  actions?: ArchiveRuleAction[];
+
   /** Timestamps */
   createdAt: Date;
   updatedAt: Date;
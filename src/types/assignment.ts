@@ -75,6 +75,12 @@ export interface DocumentClaimAssignment {
     claimCurrency: string;
     difference: number;
     differencePercent: number;
+    /** Document amount in claim currency (cross-currency matches only) */
+    convertedAmount?: number;
+    /** Claim-currency units per document-currency unit */
+    exchangeRate?: number;
+    exchangeRateDate?: Date;
+    exchangeRateSource?: string;
   };
 
   /** Details about the date match if applicable */
@@ -0,0 +1,69 @@
+/**
+ * Audit log types.
+ * Append-only record of every change to a stored entity.
+ */
+
+/**
+ * Entities whose changes are audited.
+ */
+export type AuditEntityType =
+  | "document"
+  | "draft_claim"
+  | "scraped_claim"
+  | "claim"
+  | "assignment"
+  | "patient"
+  | "illness"
+  | "archive_rule";
+
+/** All audited entity types */
+export const AUDIT_ENTITY_TYPES: readonly AuditEntityType[] = [
+  "document",
+  "draft_claim",
+  "scraped_claim",
+  "claim",
+  "assignment",
+  "patient",
+  "illness",
+  "archive_rule",
+] as const;
+
+/**
+ * Kind of change.
+ */
+export type AuditAction = "create" | "update" | "delete";
+
+/**
+ * One changed field. `field` is a dotted path (e.g. "paymentOverride.amount").
+ * `before` is absent when the field was added, `after` when it was removed.
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A recorded change to one entity.
+ */
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+
+  /**
+   * Who made the change:
+   * - api: a request from the web UI or API client
+   * - job:<type>: a background job
+   * - archive-rule:<id>: an archive rule
+   * - system: anything else (scripts, startup)
+   */
+  actor: string;
+
+  /** What triggered the change (request path or job ID) */
+  source?: string;
+
+  changes: AuditChange[];
+  createdAt: Date;
+}
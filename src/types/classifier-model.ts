@@ -0,0 +1,35 @@
+/**
+ * Document classifier model types.
+ * A multinomial naive Bayes model trained on user-corrected classifications.
+ */
+
+import type { DocumentClassification } from "./medical-document.js";
+
+/**
+ * One trained version of the document classifier.
+ * Every training run stores a new version; the highest version is used.
+ */
+export interface ClassifierModel {
+  /** `classifier-v${modelVersion}` */
+  id: string;
+
+  /** Training run number, starting at 1 (`version` is the storage save counter) */
+  modelVersion: number;
+
+  /** Number of documents the model was trained on */
+  exampleCount: number;
+
+  /** Training documents per classification */
+  classCounts: Partial<Record<DocumentClassification, number>>;
+
+  /** Token occurrences per classification */
+  tokenCounts: Partial<Record<DocumentClassification, Record<string, number>>>;
+
+  /** Total token occurrences per classification */
+  tokenTotals: Partial<Record<DocumentClassification, number>>;
+
+  /** Number of distinct tokens across all classifications */
+  vocabularySize: number;
+
+  trainedAt: Date;
+}
@@ -0,0 +1,50 @@
+/**
+ * Exchange rate types.
+ * Daily FX rates used to compare amounts across currencies.
+ */
+
+/**
+ * Where a set of rates came from.
+ * - cigna_claim: conversion observed on a scraped Cigna claim
+ * - ecb: imported from an ECB reference rate CSV
+ * - manual: entered by hand
+ */
+export type FxRateSource = "cigna_claim" | "ecb" | "manual";
+
+/** All FX rate sources */
+export const FX_RATE_SOURCES: readonly FxRateSource[] = [
+  "cigna_claim",
+  "ecb",
+  "manual",
+] as const;
+
+/**
+ * Rates from one source for one base currency on one day.
+ * `rates[quote]` is the number of quote units per 1 base unit.
+ */
+export interface FxRateSet {
+  /** `${source}-${base}-${YYYY-MM-DD}` */
+  id: string;
+
+  source: FxRateSource;
+
+  /** Base currency code (e.g., "EUR") */
+  baseCurrency: string;
+
+  /** Rate date (UTC midnight) */
+  date: Date;
+
+  /** Quote currency code → quote units per base unit */
+  rates: Record<string, number>;
+
+  /** Scraped claim IDs the rates were observed on (cigna_claim only) */
+  claimIds?: string[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Input for recording rates.
+ */
+export type CreateFxRateSetInput = Omit<FxRateSet, "id" | "createdAt" | "updatedAt">;
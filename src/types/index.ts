@@ -76,13 +76,31 @@ export type {
 } from "./scraped-claim.js";
 export { SCRAPED_CLAIM_STATUSES } from "./scraped-claim.js";
 
+// Exchange rate types
+export type { FxRateSet, FxRateSource, CreateFxRateSetInput } from "./fx-rate.js";
+export { FX_RATE_SOURCES } from "./fx-rate.js";
+
+// Classifier model types
+export type { ClassifierModel } from "./classifier-model.js";
+
+// Audit log types
+export type { AuditEntityType, AuditAction, AuditChange, AuditEntry } from "./audit-entry.js";
+export { AUDIT_ENTITY_TYPES } from "./audit-entry.js";
+
 // Medical document types (from email/attachment/calendar)
 export type {
   MedicalDocument,
   DocumentSourceType,
   DocumentClassification,
   DetectedAmount,
+  AmountRole,
   PaymentOverride,
+  ClassificationOverride,
+  ClassificationPrediction,
+  ExtractedField,
+  ExtractedInvoiceFields,
+  DuplicateReason,
+  DuplicateCandidate,
   CalendarAttendee,
   CalendarOrganizer,
   CreateMedicalDocumentInput,
@@ -96,9 +114,24 @@ export {
 // Archive rule types
 export type {
   ArchiveRule,
+  ArchiveRuleTextField,
+  ArchiveRuleTextOperator,
+  ArchiveRuleTextCondition,
+  ArchiveRuleClassificationCondition,
+  ArchiveRuleAmountCondition,
+  ArchiveRuleDateCondition,
+  ArchiveRuleConditionGroup,
+  ArchiveRuleCondition,
+  ArchiveRuleAction,
+  ArchiveRuleActionKind,
   CreateArchiveRuleInput,
   UpdateArchiveRuleInput,
 } from "./archive-rule.js";
+export {
+  ARCHIVE_RULE_TEXT_FIELDS,
+  ARCHIVE_RULE_TEXT_OPERATORS,
+  ARCHIVE_RULE_ACTION_KINDS,
+} from "./archive-rule.js";
 
 // Attachment processing types
 export type {
@@ -139,3 +172,28 @@ export {
   MATCH_REASON_TYPES,
   MATCH_THRESHOLDS,
 } from "./assignment.js";
+
+// Background job types
+export type {
+  Job,
+  JobType,
+  JobStatus,
+  JobLogLevel,
+  JobLogEntry,
+  JobProgress,
+  UpdateJobInput,
+} from "./job.js";
+export { JOB_TYPES, JOB_STATUSES, TERMINAL_JOB_STATUSES } from "./job.js";
+
+// Live progress event types
+export type {
+  SubmitProgressStep,
+  ScrapeProgressStep,
+  ProcessingProgressStep,
+  ProgressUpdate,
+  ProgressReporter,
+  ProgressEvent,
+  JobEvent,
+  JobLogEvent,
+  LiveEvent,
+} from "./progress-event.js";
@@ -0,0 +1,128 @@
+/**
+ * Background job types.
+ *
+ * Long-running work (Cigna scrapes, claim submissions, document processing)
+ * runs as a persisted job so its outcome survives closed tabs and restarts.
+ */
+
+/**
+ * Kind of work a job performs.
+ */
+export type JobType = "scrape" | "submit" | "document_processing";
+
+/** All job types for iteration */
+export const JOB_TYPES: readonly JobType[] = [
+  "scrape",
+  "submit",
+  "document_processing",
+] as const;
+
+/**
+ * Lifecycle status of a job.
+ */
+export type JobStatus =
+  | "queued"     // Created, not started yet
+  | "running"    // Handler is executing
+  | "succeeded"  // Handler finished without error
+  | "failed"     // Handler threw, or the server restarted mid-run
+  | "cancelled"; // Cancelled by the user
+
+/** All job statuses for iteration */
+export const JOB_STATUSES: readonly JobStatus[] = [
+  "queued",
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+] as const;
+
+/** Statuses after which a job never changes again */
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = [
+  "succeeded",
+  "failed",
+  "cancelled",
+] as const;
+
+/**
+ * Severity of a job log line.
+ */
+export type JobLogLevel = "info" | "warn" | "error";
+
+/**
+ * Single log line recorded while a job runs.
+ */
+export interface JobLogEntry {
+  /** When the line was written */
+  at: Date;
+
+  /** Severity */
+  level: JobLogLevel;
+
+  /** Human-readable message */
+  message: string;
+}
+
+/**
+ * Progress reported by a running job.
+ */
+export interface JobProgress {
+  /** Units of work completed */
+  current: number;
+
+  /** Total units of work, if known */
+  total?: number;
+
+  /** Short description of the current step */
+  message?: string;
+}
+
+/**
+ * Persisted background job.
+ */
+export interface Job {
+  /** Internal UUID */
+  id: string;
+
+  /** Kind of work */
+  type: JobType;
+
+  /** Current status */
+  status: JobStatus;
+
+  /** What started the job (e.g., "manual", "scheduled", "api") */
+  trigger: string;
+
+  /** Non-secret input parameters (credentials are never stored) */
+  input?: Record<string, unknown>;
+
+  /** Entity the job operates on, if any (e.g., draft claim ID) */
+  entityId?: string;
+
+  /** Latest progress report */
+  progress?: JobProgress;
+
+  /** Log lines written by the job */
+  logs: JobLogEntry[];
+
+  /** Handler result on success */
+  result?: unknown;
+
+  /** Error message on failure */
+  error?: string;
+
+  /** Timestamp when cancellation was requested */
+  cancelRequestedAt?: Date;
+
+  /** Timestamps */
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Input for updating a job record.
+ */
+export type UpdateJobInput = Partial<
+  Omit<Job, "id" | "type" | "trigger" | "createdAt" | "updatedAt">
+>;
@@ -41,6 +41,11 @@ export const DOCUMENT_CLASSIFICATIONS: readonly DocumentClassification[] = [
   "unknown",
 ] as const;
 
+/**
+ * What a detected amount is on the invoice, from the label next to it.
+ */
+export type AmountRole = "total" | "subtotal" | "vat" | "line_item" | "unknown";
+
 /**
  * Amount detected in OCR'd document text.
  */
@@ -59,6 +64,9 @@ export interface DetectedAmount {
 
   /** Confidence score 0-100 */
   confidence: number;
+
+  /** Role on the invoice; absent for documents processed before roles existed */
+  role?: AmountRole;
 }
 
 /**
@@ -78,6 +86,96 @@ export interface PaymentOverride {
   updatedAt: Date;
 }
 
+/**
+ * Classification set by the user when the automatic one is wrong.
+ */
+export interface ClassificationOverride {
+  /** The corrected classification */
+  classification: DocumentClassification;
+
+  /** Automatic classification before the override, restored when cleared */
+  previousClassification: DocumentClassification;
+
+  /** Optional note explaining the correction */
+  note?: string;
+
+  /** Timestamp when override was set */
+  updatedAt: Date;
+}
+
+/**
+ * Classification predicted by the trained classifier model.
+ */
+export interface ClassificationPrediction {
+  /** Most probable classification */
+  classification: DocumentClassification;
+
+  /** Probability of that classification (0-1) */
+  probability: number;
+
+  /** Version of the model that made the prediction */
+  modelVersion: number;
+
+  predictedAt: Date;
+}
+
+/**
+ * A value read from OCR text, with how sure the extractor is of it.
+ */
+export interface ExtractedField<T> {
+  value: T;
+
+  /** Confidence score 0-100 */
+  confidence: number;
+}
+
+/**
+ * Invoice details read from OCR text.
+ */
+export interface ExtractedInvoiceFields {
+  providerName?: ExtractedField<string>;
+  providerAddress?: ExtractedField<string>;
+  invoiceNumber?: ExtractedField<string>;
+  invoiceDate?: ExtractedField<Date>;
+
+  /** Dates treatment was given, earliest first */
+  serviceDates?: ExtractedField<Date[]>;
+
+  patientName?: ExtractedField<string>;
+
+  /** IBAN without spaces; only set when its checksum is valid */
+  iban?: ExtractedField<string>;
+
+  /** Payment terms as printed (e.g., "zahlbar innerhalb von 14 Tagen") */
+  paymentTerms?: ExtractedField<string>;
+
+  /** Timestamp when the fields were extracted */
+  extractedAt: Date;
+}
+
+/**
+ * Why a document was flagged as a possible duplicate.
+ * - content_hash: the attachment file is byte-for-byte identical
+ * - near_duplicate: normalized OCR text is nearly the same and the amounts match
+ */
+export type DuplicateReason = "content_hash" | "near_duplicate";
+
+/**
+ * A possible duplicate awaiting review (merge or dismiss).
+ */
+export interface DuplicateCandidate {
+  /** The earlier document this one appears to duplicate */
+  documentId: string;
+
+  reason: DuplicateReason;
+
+  /** Text similarity 0-1 (1 for identical content) */
+  similarity: number;
+
+  /** Timestamp when the duplicate was detected */
+  detectedAt: Date;
+}
+
 /**
  * Calendar attendee information.
  */
@@ -205,6 +303,35 @@ export interface MedicalDocument {
   /** Manual payment override set by user when OCR detection is incorrect */
   paymentOverride?: PaymentOverride;
 
+  /** Manual classification set by user; `classification` holds the same value */
+  classificationOverride?: ClassificationOverride;
+
+  /** Latest classifier model prediction */
+  classificationPrediction?: ClassificationPrediction;
+
+  /** Invoice details read from the OCR text */
+  extractedFields?: ExtractedInvoiceFields;
+
+  /** Labels added by archive rules */
+  tags?: string[];
+
+  /** Illness the document belongs to; new draft claims from it take this illness */
+  illnessId?: string;
+
+  // === Duplicate detection ===
+
+  /** SHA-256 (hex) of the attachment file */
+  contentHash?: string;
+
+  /** Possible duplicate awaiting review */
+  duplicateCandidate?: DuplicateCandidate;
+
+  /** Document this one was merged into as a duplicate; excluded from drafting */
+  duplicateOf?: string;
+
+  /** Documents the user confirmed this one does not duplicate */
+  notDuplicateOf?: string[];
+
   /** Timestamp when this document was archived */
   archivedAt?: Date;
 
@@ -35,6 +35,9 @@ export interface Patient {
   /** Email address for contact */
   email?: string;
 
+  /** Days after treatment within which claims must be filed (overrides the policy default) */
+  filingWindowDays?: number;
+
   /** Creation timestamp */
   createdAt: Date;
 
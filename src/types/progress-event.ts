@@ -0,0 +1,112 @@
+/**
+ * Live progress event types.
+ *
+ * Emitted by the submitter, scraper and document processor while they run,
+ * and streamed to the frontend over Server-Sent Events (GET /api/events).
+ */
+
+import type { Job, JobLogEntry } from "./job.js";
+
+/**
+ * Steps of the Cigna claim submission wizard.
+ */
+export type SubmitProgressStep =
+  | "login"
+  | "navigate"
+  | "patient"
+  | "country"
+  | "claim_type"
+  | "details"
+  | "symptoms"
+  | "other_insurer"
+  | "upload"
+  | "review";
+
+/**
+ * Steps of a Cigna claims scrape.
+ */
+export type ScrapeProgressStep =
+  | "login"
+  | "claims_list"
+  | "claim"
+  | "complete";
+
+/**
+ * Phases of a document processing run.
+ */
+export type ProcessingProgressStep =
+  | "emails"
+  | "calendar"
+  | "complete";
+
+/**
+ * Progress update reported by a long-running service.
+ */
+export interface ProgressUpdate<S extends string = string> {
+  /** Current step */
+  step: S;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Units of work completed within the step (or portal progress %) */
+  current?: number;
+
+  /** Total units of work within the step, if known */
+  total?: number;
+}
+
+/**
+ * Callback services accept to report progress.
+ */
+export type ProgressReporter<S extends string = string> = (
+  update: ProgressUpdate<S>
+) => void;
+
+interface ProgressEventBase {
+  kind: "progress";
+
+  /** Job the update belongs to, if run as a job */
+  jobId?: string;
+
+  /** When the update was emitted */
+  at: Date;
+}
+
+/**
+ * Step-level progress from one of the long-running services.
+ */
+export type ProgressEvent =
+  | (ProgressEventBase & { source: "submit" } & ProgressUpdate<SubmitProgressStep>)
+  | (ProgressEventBase & { source: "scrape" } & ProgressUpdate<ScrapeProgressStep>)
+  | (ProgressEventBase & { source: "document_processing" } & ProgressUpdate<ProcessingProgressStep>);
+
+/**
+ * Job status change (logs omitted).
+ */
+export interface JobEvent {
+  kind: "job";
+
+  /** Current job record without logs */
+  job: Omit<Job, "logs">;
+
+  at: Date;
+}
+
+/**
+ * Log line appended to a job.
+ */
+export interface JobLogEvent {
+  kind: "log";
+
+  jobId: string;
+
+  entry: JobLogEntry;
+
+  at: Date;
+}
+
+/**
+ * Any event sent on the live event stream.
+ */
+export type LiveEvent = ProgressEvent | JobEvent | JobLogEvent;
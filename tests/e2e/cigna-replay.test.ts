@@ -0,0 +1,83 @@
+import { describe, it, beforeAll, afterAll, expect, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  startPortalReplayServer,
+  type PortalReplayServer,
+} from "../../src/server/portal-replay.js";
+import type { ScrapedClaim } from "../../src/types/scraped-claim.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("../fixtures/cigna-portal", import.meta.url));
+
+/**
+ * Runs the real scraper against saved portal pages served locally.
+ * Needs Chrome, but no Cigna account or network access.
+ */
+describe("Cigna scraper replay", () => {
+  const originalCwd = process.cwd();
+  let server: PortalReplayServer;
+  let tempDir: string;
+  let claims: ScrapedClaim[];
+
+  beforeAll(async () => {
+    server = await startPortalReplayServer(FIXTURES_DIR);
+
+    // Scraped claims and debug artifacts land in a throwaway data/ dir
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "cigna-replay-"));
+    process.chdir(tempDir);
+
+    // Storage resolves data/ from the cwd at import time
+    vi.resetModules();
+    const { CignaScraper } = await import("../../src/services/cigna-scraper.js");
+
+    const scraper = new CignaScraper({
+      cignaId: "replay",
+      password: "replay",
+      headless: process.env.HEADLESS !== "false",
+      portalBaseUrl: server.baseUrl,
+      skipLogin: true,
+      delayScale: 0,
+    });
+    claims = await scraper.run();
+  }, 120000);
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    await server?.close();
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("scrapes every claim card", () => {
+    expect(claims.map((claim) => claim.cignaClaimNumber).sort()).toEqual(["12345678", "87654321"]);
+  });
+
+  it("extracts claim details", () => {
+    const claim = claims.find((c) => c.cignaClaimNumber === "12345678")!;
+    expect(claim.memberName).toBe("JOHN SMITH");
+    expect(claim.submissionNumber).toBe("37603435");
+    expect(claim.claimAmount).toBe(120);
+    expect(claim.claimCurrency).toBe("EUR");
+    expect(claim.amountPaid).toBe(96);
+    expect(claim.status).toBe("processed");
+  });
+
+  it("extracts line items from the DOM", () => {
+    const claim = claims.find((c) => c.cignaClaimNumber === "12345678")!;
+    expect(claim.lineItems).toHaveLength(1);
+    expect(claim.lineItems[0]).toMatchObject({
+      treatmentDescription: "INDIVIDUAL PSYCHOTHERAPY",
+      claimAmount: 120,
+      status: "processed",
+    });
+  });
+
+  it("extracts uploaded document names", () => {
+    const first = claims.find((c) => c.cignaClaimNumber === "12345678")!;
+    expect(first.documentNames).toEqual(["proof-20250312.pdf", "20250312_Doctor_Notes.pdf"]);
+
+    const second = claims.find((c) => c.cignaClaimNumber === "87654321")!;
+    expect(second.documentNames).toEqual(["Invoice_2025-0412.pdf"]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  CignaSubmitter,
+  type ClaimSubmissionInput,
+} from "../../src/services/cigna-submit.js";
+import {
+  startMockCignaPortal,
+  type MockCignaPortal,
+} from "../../src/server/mock-cigna-portal.js";
+import type { ProgressReporter, SubmitProgressStep } from "../../src/types/progress-event.js";
+
+/**
+ * Drives CignaSubmitter through the local mock portal wizard.
+ * Needs Chrome, but no Cigna account and submits nothing real.
+ */
+describe("Cigna submitter against mock portal", () => {
+  const originalCwd = process.cwd();
+  let portal: MockCignaPortal;
+  let tempDir: string;
+  let input: ClaimSubmissionInput;
+
+  beforeEach(async () => {
+    portal = await startMockCignaPortal();
+
+    // Run HTML logs and debug artifacts land in a throwaway data/ dir
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "cigna-submit-mock-"));
+    process.chdir(tempDir);
+
+    const invoicePath = path.join(tempDir, "invoice-2025-04.pdf");
+    const notesPath = path.join(tempDir, "doctor-notes.pdf");
+    fs.writeFileSync(invoicePath, "%PDF-1.4\n% mock invoice\n");
+    fs.writeFileSync(notesPath, "%PDF-1.4\n% mock notes\n");
+
+    input = {
+      patientName: "John Smith",
+      country: "UK",
+      claimType: "Medical",
+      symptoms: ["Anxiety", "Insomnia"],
+      treatmentDate: "2025-04-03",
+      totalAmount: 85.5,
+      currency: "GBP",
+      documents: [{ filePath: invoicePath }, { filePath: notesPath }],
+    };
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await portal?.close();
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createSubmitter = (
+    overrides: { pauseBeforeSubmit?: boolean; onProgress?: ProgressReporter<SubmitProgressStep> } = {}
+  ) =>
+    new CignaSubmitter({
+      cignaId: "mock",
+      password: "mock",
+      headless: process.env.HEADLESS !== "false",
+      portalBaseUrl: portal.baseUrl,
+      skipLogin: true,
+      delayScale: 0,
+      ...overrides,
+    });
+
+  it("submits the claim and returns the confirmation's submission number", async () => {
+    const steps: SubmitProgressStep[] = [];
+    const submitter = createSubmitter({
+      pauseBeforeSubmit: false,
+      onProgress: (update) => steps.push(update.step),
+    });
+
+    const result = await submitter.run(input);
+
+    expect(result.submissionNumber).toBe("37600001");
+    expect(result.cignaClaimId).toBeUndefined();
+    expect(result.submissionUrl).toContain(`${portal.baseUrl}/s/new-submitclaim`);
+    expect(result.claimUrl).toBe(`${portal.baseUrl}/s/claiminvoicesummary`);
+
+    expect(steps).toEqual([
+      "navigate",
+      "patient",
+      "country",
+      "claim_type",
+      "details",
+      "symptoms",
+      "other_insurer",
+      "upload",
+      "review",
+    ]);
+
+    expect(portal.submissions).toHaveLength(1);
+    expect(portal.submissions[0]).toMatchObject({
+      submissionNumber: "37600001",
+      patient: "JOHN SMITH",
+      country: "United Kingdom",
+      claimType: "Medical",
+      stay: "Outpatient",
+      treatmentTypes: ["Consultation with medical practitioner and specialist"],
+      currency: "UK pound sterling (GBP)",
+      cost: "85.5",
+      treatmentDate: "03 Apr 2025",
+      symptoms: ["Anxiety", "Insomnia"],
+      otherInsurer: "No",
+      documents: ["invoice-2025-04.pdf", "doctor-notes.pdf"],
+    });
+  }, 180000);
+
+  it("stops at the review page by default", async () => {
+    const result = await createSubmitter().run(input);
+
+    expect(result).toEqual({});
+    expect(portal.submissions).toHaveLength(0);
+  }, 180000);
+
+  it("submits a batch in one session and continues past a failing claim", async () => {
+    const outcomes = await createSubmitter({ pauseBeforeSubmit: false }).runBatch([
+      { key: "first", input: async () => input },
+      { key: "broken", input: async () => { throw new Error("missing country"); } },
+      { key: "second", input: async () => ({ ...input, totalAmount: 40 }) },
+    ]);
+
+    expect(outcomes).toEqual([
+      { key: "first", result: expect.objectContaining({ submissionNumber: "37600001" }) },
+      { key: "broken", error: "missing country" },
+      { key: "second", result: expect.objectContaining({ submissionNumber: "37600002" }) },
+    ]);
+    expect(portal.submissions.map((submission) => submission.cost)).toEqual(["85.5", "40"]);
+  }, 180000);
+});
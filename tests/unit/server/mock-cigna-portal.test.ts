@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  startMockCignaPortal,
+  type MockCignaPortal,
+} from "../../../src/server/mock-cigna-portal.js";
+
+describe("Mock Cigna portal", () => {
+  let portal: MockCignaPortal | null = null;
+
+  afterEach(async () => {
+    await portal?.close();
+    portal = null;
+  });
+
+  it("serves the claim wizard with the configured patients", async () => {
+    portal = await startMockCignaPortal({
+      patients: [{ name: "ALICE </script> EXAMPLE", role: "Employee", dateOfBirth: "02 Feb 1990" }],
+    });
+
+    const res = await fetch(`${portal.baseUrl}/s/new-submitclaim?LanguageCode=en_GB&language=en_GB`);
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain('role="progressbar"');
+    expect(html).toContain("Who are you claiming for?");
+    expect(html).toContain("ALICE \\u003c/script> EXAMPLE");
+    expect(html).not.toContain("ALICE </script>");
+  });
+
+  it("records submissions and assigns increasing submission numbers", async () => {
+    portal = await startMockCignaPortal({ firstSubmissionNumber: 500 });
+
+    const submit = (body: unknown) =>
+      fetch(`${portal!.baseUrl}/s/api/submissions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const first = await submit({
+      patient: "JOHN SMITH",
+      country: "France",
+      symptoms: ["Anxiety", 42],
+      documents: ["invoice.pdf"],
+    });
+    expect(first.status).toBe(201);
+    expect(await first.json()).toEqual({ submissionNumber: "500" });
+
+    const second = await submit({ patient: "JANE SMITH" });
+    expect(await second.json()).toEqual({ submissionNumber: "501" });
+
+    expect(portal.submissions).toHaveLength(2);
+    expect(portal.submissions[0]).toMatchObject({
+      submissionNumber: "500",
+      patient: "JOHN SMITH",
+      country: "France",
+      symptoms: ["Anxiety"],
+      documents: ["invoice.pdf"],
+      treatmentTypes: [],
+    });
+    expect(portal.submissions[0]?.submittedAt).toBeInstanceOf(Date);
+  });
+
+  it("rejects malformed submissions and unknown paths", async () => {
+    portal = await startMockCignaPortal();
+
+    const bad = await fetch(`${portal.baseUrl}/s/api/submissions`, { method: "POST", body: "{oops" });
+    expect(bad.status).toBe(400);
+    expect(portal.submissions).toHaveLength(0);
+
+    expect((await fetch(`${portal.baseUrl}/s/claiminvoicesummary`)).status).toBe(200);
+    expect((await fetch(`${portal.baseUrl}/CustomLogin`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  injectCardNavigation,
+  loadReplayManifest,
+  startPortalReplayServer,
+  stripScripts,
+  type PortalReplayServer,
+} from "../../../src/server/portal-replay.js";
+
+const FIXTURES_DIR = fileURLToPath(new URL("../../fixtures/cigna-portal", import.meta.url));
+
+describe("Portal replay server", () => {
+  let server: PortalReplayServer | null = null;
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "portal-replay-"));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("loads the bundled fixture manifest", () => {
+    const manifest = loadReplayManifest(FIXTURES_DIR);
+    expect(manifest.claimsList).toBe("claims-list.html");
+    expect(manifest.claimDetails).toHaveLength(2);
+  });
+
+  it("rejects missing or incomplete manifests", () => {
+    expect(() => loadReplayManifest(tempDir)).toThrow(/manifest not found/);
+
+    fs.writeFileSync(path.join(tempDir, "manifest.json"), JSON.stringify({ claimsList: "list.html" }));
+    expect(() => loadReplayManifest(tempDir)).toThrow(/Invalid replay manifest/);
+
+    fs.writeFileSync(
+      path.join(tempDir, "manifest.json"),
+      JSON.stringify({ claimsList: "list.html", claimDetails: [] })
+    );
+    expect(() => loadReplayManifest(tempDir)).toThrow(/fixture not found: list.html/);
+  });
+
+  it("strips captured scripts and injects card navigation", () => {
+    const html = '<html><body><script src="app.js"></script><p>Claims</p><SCRIPT>boot()</SCRIPT></body></html>';
+    const stripped = stripScripts(html);
+    expect(stripped).toBe("<html><body><p>Claims</p></body></html>");
+
+    const injected = injectCardNavigation(stripped);
+    expect(injected).toContain("/s/claim-details/");
+    expect(injected.indexOf("<script>")).toBeLessThan(injected.indexOf("</body>"));
+  });
+
+  it("serves the claim list, detail pages and a 404 fallback", async () => {
+    server = await startPortalReplayServer(FIXTURES_DIR);
+    expect(server.baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+
+    const list = await fetch(`${server.baseUrl}/s/claiminvoicesummary`);
+    expect(list.status).toBe(200);
+    const listHtml = await list.text();
+    expect(listHtml).toContain("12345678");
+    expect(listHtml).not.toContain("captured scripts must not run");
+    expect(listHtml).toContain("/s/claim-details/");
+
+    const detail = await fetch(`${server.baseUrl}/s/claim-details/1`);
+    expect(detail.status).toBe(200);
+    expect(await detail.text()).toContain("Claim details 1 - JANE SMITH");
+
+    expect((await fetch(`${server.baseUrl}/s/claim-details/2`)).status).toBe(404);
+    expect((await fetch(`${server.baseUrl}/s/unknown`)).status).toBe(404);
+  });
+});
@@ -9,9 +9,12 @@ async function loadModules() {
   const documents = await import("../../../src/storage/documents.js");
   const archiveRulesStorage = await import("../../../src/storage/archive-rules.js");
   const archiveRules = await import("../../../src/services/archive-rules.js");
-  return { documents, archiveRulesStorage, archiveRules };
+  const draftClaims = await import("../../../src/storage/draft-claims.js");
+  return { documents, archiveRulesStorage, archiveRules, draftClaims };
 }
 
+const PHARMACY_RECEIPT = "Apotheke am Markt\nQuittung\nGesamtbetrag: 12,50 EUR";
+
 describe("Archive rules", () => {
   let tempDir: string;
 
@@ -99,4 +102,213 @@ describe("Archive rules", () => {
     expect(storedMatching?.archivedByRuleId).toBe(rule.id);
     expect(storedNonMatching?.archivedAt).toBeUndefined();
   });
+
+  it("evaluates condition groups, regex, amount, classification and calendar fields", async () => {
+    const { archiveRules } = await loadModules();
+
+    const rule = {
+      id: "rule-2",
+      name: "Small pharmacy receipts",
+      enabled: true,
+      conditions: {
+        kind: "group" as const,
+        match: "all" as const,
+        conditions: [
+          { kind: "classification" as const, classifications: ["receipt" as const] },
+          { kind: "amount" as const, max: 50, currency: "eur" },
+          { kind: "date" as const, after: "2025-01-01", before: "2026-01-01" },
+          {
+            kind: "group" as const,
+            match: "any" as const,
+            conditions: [
+              { kind: "text" as const, field: "ocrText" as const, operator: "regex" as const, value: "apothe(ke|ek)" },
+              { kind: "text" as const, field: "account" as const, operator: "equals" as const, value: "Pharmacy" },
+            ],
+          },
+        ],
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const input = {
+      ocrText: PHARMACY_RECEIPT,
+      classification: "receipt" as const,
+      amount: { value: 12.5, currency: "EUR" },
+      date: new Date("2025-03-14"),
+    };
+
+    expect(archiveRules.matchesArchiveRule(rule, input)).toBe(true);
+    expect(archiveRules.matchesArchiveRule(rule, { ...input, ocrText: "Praxis", account: "pharmacy" })).toBe(true);
+    expect(archiveRules.matchesArchiveRule(rule, { ...input, ocrText: "Praxis" })).toBe(false);
+    expect(archiveRules.matchesArchiveRule(rule, { ...input, amount: { value: 80, currency: "EUR" } })).toBe(false);
+    expect(archiveRules.matchesArchiveRule(rule, { ...input, date: new Date("2026-01-01") })).toBe(false);
+    expect(archiveRules.isMetadataRule(rule)).toBe(false);
+
+    const calendarRule = {
+      ...rule,
+      conditions: {
+        kind: "group" as const,
+        match: "all" as const,
+        conditions: [
+          { kind: "text" as const, field: "calendarAttendees" as const, operator: "contains" as const, value: "dr. weber" },
+        ],
+      },
+    };
+    expect(
+      archiveRules.matchesArchiveRule(calendarRule, {
+        calendarAttendees: "Dr. Weber praxis@weber.example, me@example.com",
+      })
+    ).toBe(true);
+    expect(archiveRules.isMetadataRule(calendarRule)).toBe(true);
+  });
+
+  it("rejects invalid conditions and actions", async () => {
+    const { archiveRules } = await loadModules();
+
+    expect(() =>
+      archiveRules.validateArchiveRule({
+        conditions: {
+          kind: "group",
+          match: "any",
+          conditions: [{ kind: "text", field: "subject", operator: "regex", value: "(unclosed" }],
+        },
+      })
+    ).toThrow("conditions.conditions[0]: invalid regular expression");
+    expect(() => archiveRules.validateArchiveRule({ fromContains: "x", actions: [{ kind: "tag", tag: " " }] })).toThrow(
+      "actions[0]: tag is required"
+    );
+    expect(() =>
+      archiveRules.validateArchiveRule({ conditions: { kind: "group", match: "all", conditions: [] } })
+    ).toThrow("At least one match condition is required");
+  });
+
+  it("applies non-archiving actions to existing documents", async () => {
+    const { documents, archiveRulesStorage, archiveRules, draftClaims } = await loadModules();
+
+    const receipt = await documents.createMedicalDocument({
+      sourceType: "attachment",
+      account: "family",
+      filename: "apotheke.pdf",
+      ocrText: PHARMACY_RECEIPT,
+      detectedAmounts: [{ value: 12.5, currency: "EUR", rawText: "12,50 EUR", confidence: 90 }],
+      classification: "unknown",
+      medicalKeywords: [],
+      date: new Date("2025-03-14"),
+    });
+
+    const rule = await archiveRulesStorage.createArchiveRule({
+      name: "Pharmacy receipts",
+      enabled: true,
+      conditions: {
+        kind: "group",
+        match: "all",
+        conditions: [
+          { kind: "text", field: "ocrText", operator: "contains", value: "apotheke" },
+          { kind: "text", field: "account", operator: "equals", value: "family" },
+        ],
+      },
+      actions: [
+        { kind: "promote_to_draft" },
+        { kind: "set_classification", classification: "receipt" },
+        { kind: "tag", tag: "pharmacy" },
+        { kind: "link_illness", illnessId: "illness-1" },
+      ],
+    });
+
+    const updated = await archiveRules.applyArchiveRuleToExistingDocuments(rule);
+    expect(updated.map((doc) => doc.id)).toEqual([receipt.id]);
+
+    const stored = await documents.documentsStorage.get(receipt.id);
+    expect(stored).toMatchObject({ classification: "receipt", tags: ["pharmacy"], illnessId: "illness-1" });
+    expect(stored?.classificationOverride?.note).toBe("Rule: Pharmacy receipts");
+    expect(stored?.archivedAt).toBeUndefined();
+
+    // Actions run in a fixed order, so the draft sees the linked illness
+    const drafts = await draftClaims.draftClaimsStorage.getAll();
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({ primaryDocumentId: receipt.id, illnessId: "illness-1" });
+
+    // Applying again changes nothing
+    expect(await archiveRules.applyArchiveRuleToExistingDocuments(rule)).toEqual([]);
+  });
+
+  it("does not promote possible duplicates to drafts", async () => {
+    const { documents, archiveRulesStorage, archiveRules, draftClaims } = await loadModules();
+
+    const original = await documents.createMedicalDocument({
+      sourceType: "attachment",
+      filename: "apotheke.pdf",
+      ocrText: PHARMACY_RECEIPT,
+      detectedAmounts: [{ value: 12.5, currency: "EUR", rawText: "12,50 EUR", confidence: 90 }],
+      classification: "receipt",
+      medicalKeywords: [],
+      date: new Date("2025-03-14"),
+    });
+    await documents.createMedicalDocument({
+      sourceType: "attachment",
+      filename: "apotheke-scan.pdf",
+      ocrText: PHARMACY_RECEIPT,
+      detectedAmounts: [{ value: 12.5, currency: "EUR", rawText: "12,50 EUR", confidence: 90 }],
+      classification: "receipt",
+      medicalKeywords: [],
+      date: new Date("2025-03-14"),
+      duplicateCandidate: {
+        documentId: original.id,
+        reason: "near_duplicate",
+        similarity: 1,
+        detectedAt: new Date(),
+      },
+    });
+
+    const rule = await archiveRulesStorage.createArchiveRule({
+      name: "Pharmacy receipts",
+      enabled: true,
+      conditions: {
+        kind: "group",
+        match: "all",
+        conditions: [{ kind: "text", field: "ocrText", operator: "contains", value: "apotheke" }],
+      },
+      actions: [{ kind: "promote_to_draft" }],
+    });
+
+    const updated = await archiveRules.applyArchiveRuleToExistingDocuments(rule);
+    expect(updated.map((doc) => doc.id)).toEqual([original.id]);
+
+    const drafts = await draftClaims.draftClaimsStorage.getAll();
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]?.primaryDocumentId).toBe(original.id);
+  });
+
+  it("applies content rules to documents at ingestion", async () => {
+    const { archiveRulesStorage, archiveRules, documents } = await loadModules();
+
+    await archiveRulesStorage.createArchiveRule({
+      name: "Archive large lab invoices",
+      enabled: true,
+      conditions: {
+        kind: "group",
+        match: "all",
+        conditions: [{ kind: "amount", min: 100 }],
+      },
+    });
+    expect(await archiveRules.findMatchingArchiveRule({ fromAddress: "lab@example.com" })).toBeNull();
+
+    const small = await documents.createMedicalDocument({
+      sourceType: "attachment",
+      detectedAmounts: [{ value: 40, currency: "EUR", rawText: "40 EUR", confidence: 90 }],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+    const large = await documents.createMedicalDocument({
+      sourceType: "attachment",
+      detectedAmounts: [{ value: 240, currency: "EUR", rawText: "240 EUR", confidence: 90 }],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+
+    expect((await archiveRules.applyArchiveRules(small)).archivedAt).toBeUndefined();
+    const archived = await archiveRules.applyArchiveRules(large);
+    expect(archived.archivedAt).toBeInstanceOf(Date);
+    expect(archived.archivedReason).toBe("Rule: Archive large lab invoices");
+  });
 });
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const auditLog = await import("../../../src/storage/audit-log.js");
+  const documents = await import("../../../src/storage/documents.js");
+  return { auditLog, documents };
+}
+
+describe("Audit log", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-log-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("diffs nested fields and treats Dates like their ISO strings", async () => {
+    const { auditLog } = await loadModules();
+    const at = new Date("2025-06-01T00:00:00Z");
+
+    expect(
+      auditLog.diffEntities(
+        { id: "a", status: "pending", processedAt: at, payment: { amount: 10, currency: "EUR" }, tags: ["x"] },
+        { id: "a", status: "accepted", processedAt: at.toISOString(), payment: { amount: 12, currency: "EUR" }, tags: ["x"], notes: "ok" }
+      )
+    ).toEqual([
+      { field: "notes", after: "ok" },
+      { field: "payment.amount", before: 10, after: 12 },
+      { field: "status", before: "pending", after: "accepted" },
+    ]);
+  });
+
+  it("records creates, updates and deletes with the current actor", async () => {
+    const { auditLog, documents } = await loadModules();
+    // Distinct timestamps keep the newest-first order deterministic
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-06-01T10:00:00Z"));
+
+    const document = await auditLog.runAsActor({ actor: "api", source: "POST /api/documents" }, () =>
+      documents.createMedicalDocument({
+        sourceType: "email",
+        subject: "Invoice",
+        detectedAmounts: [],
+        classification: "medical_bill",
+        medicalKeywords: [],
+      })
+    );
+    vi.setSystemTime(new Date("2025-06-01T11:00:00Z"));
+    await documents.archiveDocument(document.id, { ruleId: "rule-1", reason: "Matched rule" });
+    // Saving an unchanged entity adds nothing
+    await documents.documentsStorage.save((await documents.documentsStorage.get(document.id))!);
+    vi.setSystemTime(new Date("2025-06-01T12:00:00Z"));
+    await documents.documentsStorage.delete(document.id);
+
+    const entries = await auditLog.getAuditEntries({ entityType: "document", entityId: document.id });
+    expect(entries.map((entry) => [entry.action, entry.actor])).toEqual([
+      ["delete", "system"],
+      ["update", "archive-rule:rule-1"],
+      ["create", "api"],
+    ]);
+    expect(entries[2]!.source).toBe("POST /api/documents");
+    expect(entries[1]!.changes.map((change) => change.field)).toEqual([
+      "archivedAt",
+      "archivedByRuleId",
+      "archivedReason",
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const backup = await import("../../../src/services/backup.js");
+  const tar = await import("../../../src/services/tar-archive.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const patients = await import("../../../src/storage/patients.js");
+  return { backup, tar, documents, patients };
+}
+
+describe("Backup and restore", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "backup-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function seed(modules: Awaited<ReturnType<typeof loadModules>>) {
+    const attachmentPath = path.join(tempDir, "mail", "invoice.pdf");
+    fs.mkdirSync(path.dirname(attachmentPath), { recursive: true });
+    fs.writeFileSync(attachmentPath, "%PDF-1.4 invoice");
+    fs.mkdirSync(path.join(tempDir, "data", "generated"), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, "data", "generated", "notes.pdf"), "%PDF-1.4 notes");
+
+    await modules.patients.createPatient({
+      cignaId: "12345678901",
+      name: "Jane Doe",
+      relationship: "Employee",
+      dateOfBirth: new Date("1990-01-01"),
+    });
+    return modules.documents.createMedicalDocument({
+      sourceType: "attachment",
+      attachmentPath,
+      filename: "invoice.pdf",
+      detectedAmounts: [],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+  }
+
+  it("restores entities and remaps attachments that are gone", async () => {
+    const modules = await loadModules();
+    const document = await seed(modules);
+
+    const { path: archivePath, manifest } = await modules.backup.createBackup();
+    expect(manifest.entities.find((set) => set.name === "documents")?.count).toBe(1);
+    expect(manifest.files.map((file) => file.kind)).toEqual(["attachment", "generated"]);
+
+    // Simulate a fresh machine
+    const archiveCopy = path.join(os.tmpdir(), `${path.basename(tempDir)}.tar.gz`);
+    fs.renameSync(archivePath, archiveCopy);
+    fs.rmSync(path.join(tempDir, "data"), { recursive: true });
+    fs.rmSync(path.join(tempDir, "mail"), { recursive: true });
+    vi.resetModules();
+    const fresh = await loadModules();
+
+    try {
+      const result = await fresh.backup.restoreBackup(archiveCopy);
+      expect(result.entities.documents).toBe(1);
+      expect(result.entities.patients).toBe(1);
+      expect(result.remappedDocuments).toBe(1);
+
+      const restored = await fresh.documents.documentsStorage.get(document.id);
+      expect(restored?.attachmentPath).toContain(path.join("data", "restored-attachments"));
+      expect(fs.readFileSync(restored!.attachmentPath!, "utf-8")).toBe("%PDF-1.4 invoice");
+      expect(restored?.processedAt).toBeInstanceOf(Date);
+      expect(fs.readFileSync(path.join(tempDir, "data", "generated", "notes.pdf"), "utf-8")).toBe(
+        "%PDF-1.4 notes"
+      );
+      expect((await fresh.patients.getActivePatients()).map((patient) => patient.name)).toEqual(["Jane Doe"]);
+    } finally {
+      fs.rmSync(archiveCopy, { force: true });
+    }
+  });
+
+  it("rejects a bundle whose contents do not match the manifest", async () => {
+    const modules = await loadModules();
+    await seed(modules);
+    const { path: archivePath } = await modules.backup.createBackup();
+
+    const entries: Array<[string, Buffer]> = [];
+    await modules.tar.readTarGz(archivePath, (name, data) => {
+      entries.push([name, name === "entities/patients.json" ? Buffer.from("[]") : data]);
+    });
+    const tampered = path.join(tempDir, "tampered.tar.gz");
+    const writer = modules.tar.createTarGzWriter(tampered);
+    for (const [name, data] of entries) await writer.add(name, data);
+    await writer.finish();
+
+    await expect(modules.backup.restoreBackup(tampered)).rejects.toThrow(
+      "Checksum mismatch for entities/patients.json"
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { DocumentClassification } from "../../../src/types/medical-document.js";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const classifier = await import("../../../src/services/document-classifier.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const assignments = await import("../../../src/storage/assignments.js");
+  const base = await import("../../../src/storage/base.js");
+  return { classifier, documents, assignments, base };
+}
+
+const LAB_TEXT = "Laborbefund Blutbild Hämoglobin Leukozyten Referenzbereich Befund Probe Labor";
+const BILL_TEXT = "Rechnung Honorar Betrag Zahlung Konto Überweisung Gesamtbetrag Praxis";
+
+describe("Document classifier", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "classifier-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function createDocument(
+    modules: Awaited<ReturnType<typeof loadModules>>,
+    ocrText: string,
+    classification: DocumentClassification = "unknown"
+  ) {
+    return modules.documents.createMedicalDocument({
+      sourceType: "attachment",
+      ocrText,
+      detectedAmounts: [],
+      classification,
+      medicalKeywords: [],
+    });
+  }
+
+  it("keeps the automatic classification to restore when an override is cleared", async () => {
+    const modules = await loadModules();
+    const document = await createDocument(modules, LAB_TEXT, "medical_bill");
+
+    const overridden = await modules.documents.setClassificationOverride(document.id, {
+      classification: "lab_result",
+      note: "Blood test",
+    });
+    expect(overridden?.classification).toBe("lab_result");
+    expect(overridden?.classificationOverride).toMatchObject({
+      classification: "lab_result",
+      previousClassification: "medical_bill",
+    });
+
+    const changed = await modules.documents.setClassificationOverride(document.id, { classification: "receipt" });
+    expect(changed?.classificationOverride?.previousClassification).toBe("medical_bill");
+
+    const cleared = await modules.documents.setClassificationOverride(document.id, null);
+    expect(cleared?.classification).toBe("medical_bill");
+    expect(cleared?.classificationOverride).toBeUndefined();
+  });
+
+  it("trains versioned models from overrides and confirmed assignments", async () => {
+    const modules = await loadModules();
+    const lab = await createDocument(modules, LAB_TEXT);
+    await modules.documents.setClassificationOverride(lab.id, { classification: "lab_result" });
+
+    await expect(modules.classifier.trainClassifierModel()).rejects.toThrow("at least two classifications");
+
+    // A document confirmed as claim evidence counts with its keyword classification,
+    // not a stored (possibly predicted) one
+    const bill = await createDocument(modules, BILL_TEXT, "lab_result");
+    const assignment = await modules.assignments.createAssignment({
+      documentId: bill.id,
+      claimId: "claim-1",
+      matchScore: 90,
+      matchReasonType: "manual",
+      matchReason: "Linked by hand",
+    });
+    await modules.assignments.confirmAssignment(assignment.id, "illness-1");
+
+    const first = await modules.classifier.trainClassifierModel();
+    expect(first).toMatchObject({ id: "classifier-v1", modelVersion: 1, exampleCount: 2 });
+    expect(first.classCounts).toEqual({ lab_result: 1, medical_bill: 1 });
+
+    const prediction = modules.classifier.predictWithModel(first, "Blutbild und Leukozyten im Referenzbereich");
+    expect(prediction).toMatchObject({ classification: "lab_result", modelVersion: 1 });
+    expect(prediction!.probability).toBeGreaterThan(modules.classifier.CONFIDENT_PROBABILITY);
+    expect(modules.classifier.predictWithModel(first, "nothing familiar here")).toBeUndefined();
+
+    const second = await modules.classifier.trainClassifierModel();
+    expect(second.modelVersion).toBe(2);
+    expect((await modules.classifier.getClassifierModel())?.modelVersion).toBe(2);
+  });
+
+  it("applies confident predictions on retraining and queues uncertain documents", async () => {
+    const modules = await loadModules();
+    for (const [text, classification] of [
+      [LAB_TEXT, "lab_result"],
+      [BILL_TEXT, "medical_bill"],
+    ] as const) {
+      const document = await createDocument(modules, text);
+      await modules.documents.setClassificationOverride(document.id, { classification });
+    }
+
+    const confident = await createDocument(modules, "Laborbefund: Hämoglobin und Leukozyten");
+    const uncertain = await createDocument(modules, "Befund zur Zahlung");
+
+    const result = await modules.classifier.retrainClassifier();
+    expect(result.model.modelVersion).toBe(1);
+    expect(result.predicted).toBe(4);
+
+    const updated = await modules.documents.documentsStorage.get(confident.id);
+    expect(updated?.classification).toBe("lab_result");
+    expect(updated?.classificationPrediction?.modelVersion).toBe(1);
+
+    // Overridden documents never wait for review; uncertain ones keep their classification
+    const queue = await modules.classifier.getClassificationReviewQueue();
+    expect(queue.map((item) => item.document.id)).toEqual([uncertain.id]);
+    expect((await modules.documents.documentsStorage.get(uncertain.id))?.classification).toBe("unknown");
+
+    // Retraining without new labels changes and saves nothing
+    const before = await modules.documents.documentsStorage.get(confident.id);
+    const again = await modules.classifier.retrainClassifier();
+    expect(again).toMatchObject({ predicted: 0, reclassified: 0 });
+    const after = await modules.documents.documentsStorage.get(confident.id);
+    expect(modules.base.entityVersion(after!)).toBe(modules.base.entityVersion(before!));
+
+    await modules.documents.setClassificationOverride(uncertain.id, { classification: "medical_bill" });
+    expect(await modules.classifier.getClassificationReviewQueue()).toEqual([]);
+  });
+});
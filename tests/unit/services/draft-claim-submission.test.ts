@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const drafts = await import("../../../src/storage/draft-claims.js");
+  return { drafts };
+}
+
+describe("Draft claim submission", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "draft-submission-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function createAcceptedDraft(modules: Awaited<ReturnType<typeof loadModules>>) {
+    return modules.drafts.createDraftClaim({
+      status: "accepted",
+      primaryDocumentId: "doc-1",
+      documentIds: ["doc-1"],
+      payment: { amount: 85, currency: "EUR", rawText: "EUR 85", confidence: 90 },
+    });
+  }
+
+  it("marks a draft submitted with its submission number", async () => {
+    const modules = await loadModules();
+    const draft = await createAcceptedDraft(modules);
+
+    const recorded = await modules.drafts.recordDraftClaimSubmission(draft.id, "37603507");
+    expect(recorded).toMatchObject({ status: "submitted", submissionNumber: "37603507" });
+  });
+
+  it("keeps a draft accepted when no submission number was captured", async () => {
+    const modules = await loadModules();
+    const draft = await createAcceptedDraft(modules);
+
+    const recorded = await modules.drafts.recordDraftClaimSubmission(draft.id, undefined);
+    expect(recorded?.status).toBe("accepted");
+    expect(recorded?.submissionNumber).toBeUndefined();
+    expect((await modules.drafts.draftClaimsStorage.get(draft.id))?.status).toBe("accepted");
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { DocumentSource } from "../../../src/services/document-source.js";
+
+const originalCwd = process.cwd();
+
+const RECEIPT_TEXT = [
+  "Apotheke am Markt",
+  "Quittung",
+  "Rechnungsdatum: 14.03.2025",
+  "Ibuprofen 400 mg",
+  "Gesamtbetrag: 12,50 EUR",
+].join("\n");
+
+async function loadModules() {
+  const dropFolder = await import("../../../src/services/drop-folder.js");
+  const processor = await import("../../../src/services/document-processor.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const archiveRules = await import("../../../src/storage/archive-rules.js");
+  return { dropFolder, processor, documents, archiveRules };
+}
+
+function createFakeSource(text: string) {
+  const ocrDocument = vi.fn(async (file: string) => ({
+    status: "success" as const,
+    file,
+    text,
+    char_count: text.length,
+  }));
+  const source: DocumentSource = {
+    name: "fake",
+    ocrDocument,
+    searchEmailsFTS: async () => ({ results: [] }) as never,
+    getEmail: async () => ({}) as never,
+    searchCalendarFTS: async () => ({ results: [] }) as never,
+  };
+  return { source, ocrDocument };
+}
+
+describe("Drop folder ingestion", () => {
+  let tempDir: string;
+  let dropDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "drop-folder-"));
+    dropDir = path.join(tempDir, "scans");
+    fs.mkdirSync(path.join(dropDir, "march"), { recursive: true });
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function dropFile(relativePath: string, mtime: Date): string {
+    const filePath = path.join(dropDir, relativePath);
+    fs.writeFileSync(filePath, `%PDF-1.4\n% ${relativePath}\n`);
+    fs.utimesSync(filePath, mtime, mtime);
+    return filePath;
+  }
+
+  it("ingests each settled PDF or image once as a manual upload", async () => {
+    const modules = await loadModules();
+    const { source, ocrDocument } = createFakeSource(RECEIPT_TEXT);
+    const processor = new modules.processor.DocumentProcessor({ source });
+    const now = new Date("2025-03-20T12:00:00Z");
+    const settled = new Date("2025-03-20T11:00:00Z");
+
+    const receiptPath = dropFile("march/receipt.pdf", settled);
+    dropFile("notes.txt", settled);
+    dropFile(".scan-in-progress.pdf", settled);
+    dropFile("still-writing.jpg", new Date(now.getTime() - 2_000));
+
+    const first = await modules.dropFolder.scanDropFolder(dropDir, processor, now);
+    expect(first.documents).toHaveLength(1);
+    expect(first.pending).toBe(1);
+    expect(ocrDocument).toHaveBeenCalledTimes(1);
+
+    const [document] = first.documents;
+    expect(document).toMatchObject({
+      sourceType: "manual_upload",
+      attachmentPath: receiptPath,
+      filename: "receipt.pdf",
+      mimeType: "application/pdf",
+      ocrText: RECEIPT_TEXT,
+    });
+    expect(document!.date?.toISOString().slice(0, 10)).toBe("2025-03-14");
+    expect(document!.detectedAmounts.map((amount) => amount.value)).toContain(12.5);
+
+    const second = await modules.dropFolder.scanDropFolder(dropDir, processor, now);
+    expect(second.documents).toEqual([]);
+    expect(ocrDocument).toHaveBeenCalledTimes(1);
+    expect(await modules.documents.documentsStorage.getAll()).toHaveLength(1);
+  });
+
+  it("skips ingested files without asking the processor", async () => {
+    const modules = await loadModules();
+    const { source } = createFakeSource(RECEIPT_TEXT);
+    const processor = new modules.processor.DocumentProcessor({ source });
+    const settled = new Date("2025-03-20T11:00:00Z");
+    const now = new Date("2025-03-20T12:00:00Z");
+
+    dropFile("receipt.pdf", settled);
+    await modules.dropFolder.scanDropFolder(dropDir, processor, now);
+
+    const processDroppedFile = vi.spyOn(processor, "processDroppedFile");
+    const result = await modules.dropFolder.scanDropFolder(dropDir, processor, now);
+    expect(result.documents).toEqual([]);
+    expect(processDroppedFile).not.toHaveBeenCalled();
+  });
+
+  it("skips files removed during a scan and processes the rest", async () => {
+    const modules = await loadModules();
+    const { source } = createFakeSource(RECEIPT_TEXT);
+    const processor = new modules.processor.DocumentProcessor({ source });
+    const settled = new Date("2025-03-20T11:00:00Z");
+
+    dropFile("a.pdf", settled);
+    const removed = dropFile("b.pdf", settled);
+    dropFile("c.pdf", settled);
+
+    // The scanner moves b.pdf away while a.pdf is processed
+    const processDroppedFile = processor.processDroppedFile.bind(processor);
+    vi.spyOn(processor, "processDroppedFile").mockImplementation(async (filePath) => {
+      if (fs.existsSync(removed)) fs.rmSync(removed);
+      return processDroppedFile(filePath);
+    });
+
+    const result = await modules.dropFolder.scanDropFolder(dropDir, processor, new Date("2025-03-20T12:00:00Z"));
+    expect(result.documents.map((doc) => doc.filename)).toEqual(["a.pdf", "c.pdf"]);
+    expect(result.failed).toBe(0);
+  });
+
+  it("archives files matching an archive rule without OCR", async () => {
+    const modules = await loadModules();
+    const { source, ocrDocument } = createFakeSource(RECEIPT_TEXT);
+    const processor = new modules.processor.DocumentProcessor({ source });
+    const rule = await modules.archiveRules.createArchiveRule({
+      name: "Scanner test pages",
+      enabled: true,
+      attachmentNameContains: "testpage",
+    });
+
+    dropFile("testpage-001.pdf", new Date("2025-03-20T11:00:00Z"));
+    const result = await modules.dropFolder.scanDropFolder(dropDir, processor, new Date("2025-03-20T12:00:00Z"));
+
+    expect(result.documents).toHaveLength(1);
+    expect(result.documents[0]).toMatchObject({ sourceType: "manual_upload", archivedByRuleId: rule.id });
+    expect(ocrDocument).not.toHaveBeenCalled();
+  });
+
+  it("rejects a missing drop folder", async () => {
+    const modules = await loadModules();
+    await expect(modules.dropFolder.scanDropFolder(path.join(tempDir, "missing"))).rejects.toThrow(
+      "Drop folder not found"
+    );
+  });
+});
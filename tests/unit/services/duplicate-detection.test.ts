@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const duplicates = await import("../../../src/services/duplicate-detection.js");
+  const generator = await import("../../../src/services/draft-claim-generator.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const drafts = await import("../../../src/storage/draft-claims.js");
+  return { duplicates, generator, documents, drafts };
+}
+
+const INVOICE_TEXT =
+  "Praxis Dr. Weber Rechnung Nr. 2025-0412 Patient Max Mustermann Behandlung vom 10.03.2025 " +
+  "Beratung und Untersuchung GOÄ Ziffer 1 und 5 Blutentnahme Laboruntersuchung Befundbericht " +
+  "Gesamtbetrag EUR 85.00 zahlbar innerhalb von 30 Tagen auf das Konto der Praxis";
+
+describe("Duplicate detection", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "duplicates-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function createInvoice(
+    modules: Awaited<ReturnType<typeof loadModules>>,
+    emailId: string,
+    ocrText: string,
+    amount = 85
+  ) {
+    const attachmentPath = path.join(tempDir, `${emailId}.pdf`);
+    fs.writeFileSync(attachmentPath, ocrText);
+    const contentHash = await modules.duplicates.hashFile(attachmentPath);
+    const document = await modules.documents.createMedicalDocument({
+      sourceType: "attachment",
+      emailId,
+      attachmentPath,
+      ...(contentHash && { contentHash }),
+      filename: `${emailId}.pdf`,
+      ocrText,
+      detectedAmounts: [{ value: amount, currency: "EUR", rawText: `EUR ${amount}`, confidence: 90 }],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+    return modules.duplicates.detectDuplicate(document);
+  }
+
+  it("flags identical files and near-duplicate text with the same amount", async () => {
+    const modules = await loadModules();
+    const original = await createInvoice(modules, "first", INVOICE_TEXT);
+
+    const resent = await createInvoice(modules, "second", INVOICE_TEXT);
+    expect(resent.duplicateCandidate).toMatchObject({ documentId: original.id, reason: "content_hash" });
+
+    const rescanned = await createInvoice(modules, "third", `${INVOICE_TEXT.replace("Nr.", "Nr:")} ---`);
+    expect(rescanned.duplicateCandidate).toMatchObject({ documentId: original.id, reason: "near_duplicate" });
+
+    const otherAmount = await createInvoice(modules, "fourth", `${INVOICE_TEXT} Mahnung`, 95);
+    expect(otherAmount.duplicateCandidate).toBeUndefined();
+
+    const queue = await modules.duplicates.getDuplicateReviewQueue();
+    expect(queue.map((item) => item.document.id).sort()).toEqual([resent.id, rescanned.id].sort());
+    expect(queue.every((item) => item.original.id === original.id)).toBe(true);
+  });
+
+  it("skips flagged duplicates when drafting and resolves them on merge or dismiss", async () => {
+    const modules = await loadModules();
+    const original = await createInvoice(modules, "first", INVOICE_TEXT);
+    const resent = await createInvoice(modules, "second", INVOICE_TEXT);
+    const rescanned = await createInvoice(modules, "third", `${INVOICE_TEXT} ---`);
+
+    const created = await modules.generator.generateDraftClaims("forever");
+    expect(created.map((draft) => draft.primaryDocumentId)).toEqual([original.id]);
+
+    // A draft made from the duplicate by hand moves to the original on merge
+    // when the original has no other live draft
+    await modules.drafts.archiveDraftClaim(created[0]!.id);
+    const manual = await modules.drafts.createDraftClaim({
+      status: "pending",
+      primaryDocumentId: resent.id,
+      documentIds: [resent.id, original.id],
+      payment: { amount: 85, currency: "EUR", rawText: "EUR 85", confidence: 90 },
+    });
+
+    const merged = await modules.duplicates.mergeDuplicate(resent.id);
+    expect(merged?.duplicateOf).toBe(original.id);
+    expect(merged?.duplicateCandidate).toBeUndefined();
+    const moved = await modules.drafts.draftClaimsStorage.get(manual.id);
+    expect(moved?.primaryDocumentId).toBe(original.id);
+    expect(moved?.documentIds).toEqual([original.id]);
+
+    const dismissed = await modules.duplicates.dismissDuplicate(rescanned.id);
+    expect(dismissed?.notDuplicateOf).toEqual([original.id]);
+    expect((await modules.duplicates.detectDuplicate(dismissed!)).duplicateCandidate).toBeUndefined();
+    await expect(modules.duplicates.dismissDuplicate(rescanned.id)).rejects.toThrow("not flagged");
+
+    expect(await modules.duplicates.getDuplicateReviewQueue()).toEqual([]);
+    const next = await modules.generator.generateDraftClaims("forever");
+    expect(next.map((draft) => draft.primaryDocumentId)).toEqual([rescanned.id]);
+  });
+
+  it("archives the duplicate's draft when the original already has one", async () => {
+    const modules = await loadModules();
+    const original = await createInvoice(modules, "first", INVOICE_TEXT);
+    const resent = await createInvoice(modules, "second", INVOICE_TEXT);
+
+    const payment = { amount: 85, currency: "EUR", rawText: "EUR 85", confidence: 90 };
+    const originalDraft = await modules.drafts.createDraftClaim({
+      status: "pending",
+      primaryDocumentId: original.id,
+      documentIds: [original.id],
+      payment,
+    });
+    const duplicateDraft = await modules.drafts.createDraftClaim({
+      status: "pending",
+      primaryDocumentId: resent.id,
+      documentIds: [resent.id],
+      payment,
+    });
+
+    await modules.duplicates.mergeDuplicate(resent.id);
+
+    const live = await modules.drafts.getActiveDraftClaims();
+    expect(live.map((draft) => draft.id)).toEqual([originalDraft.id]);
+    const archived = await modules.drafts.draftClaimsStorage.get(duplicateDraft.id);
+    expect(archived?.archivedAt).toBeDefined();
+    expect(archived?.primaryDocumentId).toBe(resent.id);
+  });
+
+  it("hashes and flags documents processed before detection existed", async () => {
+    const modules = await loadModules();
+    const attachmentPath = path.join(tempDir, "old.pdf");
+    fs.writeFileSync(attachmentPath, INVOICE_TEXT);
+    const input = {
+      sourceType: "attachment" as const,
+      attachmentPath,
+      ocrText: INVOICE_TEXT,
+      detectedAmounts: [],
+      classification: "medical_bill" as const,
+      medicalKeywords: [],
+    };
+    const original = await modules.documents.createMedicalDocument(input);
+    const copy = await modules.documents.createMedicalDocument(input);
+
+    expect(await modules.duplicates.scanForDuplicates()).toEqual({ hashed: 2, flagged: 1 });
+    expect((await modules.documents.documentsStorage.get(copy.id))?.duplicateCandidate?.documentId).toBe(
+      original.id
+    );
+    expect(await modules.duplicates.scanForDuplicates()).toEqual({ hashed: 0, flagged: 0 });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const base = await import("../../../src/storage/base.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const auditLog = await import("../../../src/storage/audit-log.js");
+  return { base, documents, auditLog };
+}
+
+describe("Entity versions", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "entity-versions-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createDocument(modules: Awaited<ReturnType<typeof loadModules>>) {
+    return modules.documents.createMedicalDocument({
+      sourceType: "email",
+      subject: "Physiotherapy invoice",
+      detectedAmounts: [],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+  }
+
+  it("bumps the version on every save and rejects stale versions", async () => {
+    const modules = await loadModules();
+    const { base, documents } = modules;
+    const created = await createDocument(modules);
+    expect(base.entityVersion(created)).toBe(1);
+
+    // Someone else saves in between
+    await documents.setPaymentOverride(created.id, { amount: 80, currency: "EUR" });
+
+    const stale = documents.setPaymentOverride(
+      created.id,
+      { amount: 95, currency: "EUR" },
+      { expectedVersion: 1 }
+    );
+    await expect(stale).rejects.toThrow("Version conflict");
+    const conflict = await stale.catch((err: unknown) => err);
+    expect(base.isVersionConflict(conflict)).toBe(true);
+    expect((conflict as { current: { paymentOverride?: { amount: number } } }).current.paymentOverride?.amount).toBe(80);
+
+    const saved = await documents.setPaymentOverride(
+      created.id,
+      { amount: 95, currency: "EUR" },
+      { expectedVersion: 2 }
+    );
+    expect(base.entityVersion(saved)).toBe(3);
+    expect((await documents.documentsStorage.get(created.id))?.paymentOverride?.amount).toBe(95);
+  });
+
+  it("lets only one of two concurrent saves of the same version through", async () => {
+    const modules = await loadModules();
+    const { documents } = modules;
+    const created = await createDocument(modules);
+
+    const results = await Promise.allSettled([
+      documents.documentsStorage.save({ ...created, subject: "A" }, { expectedVersion: 1 }),
+      documents.documentsStorage.save({ ...created, subject: "B" }, { expectedVersion: 1 }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    const stored = await documents.documentsStorage.get(created.id);
+    expect(modules.base.entityVersion(stored)).toBe(2);
+    expect(stored?.subject).toBe("A");
+  });
+
+  it("does not record the version bump in the audit log", async () => {
+    const modules = await loadModules();
+    const created = await createDocument(modules);
+    await modules.documents.documentsStorage.save(created);
+
+    const entries = await modules.auditLog.getAuditEntries({ entityId: created.id });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.changes.map((change) => change.field)).not.toContain("version");
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildDraftClaimDeadlines,
+  computeFilingDeadline,
+  DEFAULT_FILING_WINDOW_DAYS,
+  getFilingUrgency,
+} from "../../../src/services/filing-deadlines.js";
+import type { DraftClaim } from "../../../src/types/draft-claim.js";
+import type { Illness } from "../../../src/types/illness.js";
+import type { Patient } from "../../../src/types/patient.js";
+
+const now = new Date("2025-06-01T12:00:00Z");
+
+function patient(id: string, filingWindowDays?: number): Patient {
+  return {
+    id,
+    cignaId: `cigna-${id}`,
+    name: id.toUpperCase(),
+    relationship: "Employee",
+    dateOfBirth: new Date("1980-01-01"),
+    ...(filingWindowDays && { filingWindowDays }),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function illness(id: string, patientId: string): Illness {
+  return { id, patientId, name: id, type: "acute", relevantAccounts: [], createdAt: now, updatedAt: now };
+}
+
+function draft(id: string, overrides: Partial<DraftClaim>): DraftClaim {
+  return {
+    id,
+    status: "pending",
+    primaryDocumentId: `doc-${id}`,
+    documentIds: [`doc-${id}`],
+    payment: { amount: 100, currency: "EUR" },
+    generatedAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe("Filing deadlines", () => {
+  const originalWindow = process.env.CLAIM_FILING_WINDOW_DAYS;
+
+  afterEach(() => {
+    if (originalWindow === undefined) delete process.env.CLAIM_FILING_WINDOW_DAYS;
+    else process.env.CLAIM_FILING_WINDOW_DAYS = originalWindow;
+  });
+
+  it("adds the window to the treatment day and classifies urgency", () => {
+    expect(computeFilingDeadline(new Date("2025-01-31T18:30:00Z"), 30).toISOString()).toBe(
+      "2025-03-02T00:00:00.000Z"
+    );
+    expect(getFilingUrgency(-1)).toBe("expired");
+    expect(getFilingUrgency(0)).toBe("critical");
+    expect(getFilingUrgency(20)).toBe("warning");
+    expect(getFilingUrgency(31)).toBe("ok");
+  });
+
+  it("uses the patient window, then the configured default, and sorts by urgency", () => {
+    process.env.CLAIM_FILING_WINDOW_DAYS = "180";
+    const patients = [patient("short", 90), patient("default")];
+    const illnesses = [illness("flu", "short"), illness("back", "default")];
+
+    const deadlines = buildDraftClaimDeadlines(
+      [
+        draft("default-window", { illnessId: "back", treatmentDate: new Date("2025-01-01") }),
+        draft("patient-window", { illnessId: "flu", treatmentDate: new Date("2025-03-10"), status: "accepted" }),
+        draft("no-illness", { treatmentDate: new Date("2025-02-20") }),
+        draft("submitted", { treatmentDate: new Date("2024-01-01"), status: "submitted" }),
+        draft("linked", { treatmentDate: new Date("2024-01-01"), scrapedClaimId: "claim-1" }),
+        draft("undated", {}),
+      ],
+      illnesses,
+      patients,
+      now
+    );
+
+    expect(deadlines.map((d) => d.draftClaimId)).toEqual(["patient-window", "default-window", "no-illness"]);
+    expect(deadlines[0]).toMatchObject({
+      patientId: "short",
+      filingWindowDays: 90,
+      daysRemaining: 7,
+      urgency: "critical",
+    });
+    expect(deadlines[1]).toMatchObject({ filingWindowDays: 180, daysRemaining: 29, urgency: "warning" });
+    expect(deadlines[2]?.filingWindowDays).toBe(180);
+  });
+
+  it("falls back to the policy default for invalid configuration", () => {
+    process.env.CLAIM_FILING_WINDOW_DAYS = "soon";
+    const [deadline] = buildDraftClaimDeadlines(
+      [draft("d", { treatmentDate: new Date("2025-05-01") })],
+      [],
+      [],
+      now
+    );
+    expect(deadline?.filingWindowDays).toBe(DEFAULT_FILING_WINDOW_DAYS);
+    expect(deadline?.urgency).toBe("ok");
+  });
+});
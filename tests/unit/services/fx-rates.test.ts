@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const fxRates = await import("../../../src/services/fx-rates.js");
+  const fxRatesStorage = await import("../../../src/storage/fx-rates.js");
+  const claims = await import("../../../src/storage/claims.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const matcher = await import("../../../src/services/matcher.js");
+  return { fxRates, fxRatesStorage, claims, documents, matcher };
+}
+
+const ECB_HIST_CSV = [
+  "Date,USD,JPY,GBP,",
+  "2025-03-12,1.0892,161.17,0.84120,",
+  "2025-03-10,1.0833,159.28,0.83950,",
+  "2025-03-07,1.0820,N/A,0.83800,",
+].join("\n");
+
+const ECB_PORTAL_CSV = [
+  "KEY,FREQ,CURRENCY,CURRENCY_DENOM,EXR_TYPE,EXR_SUFFIX,TIME_PERIOD,OBS_VALUE",
+  "EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,SP00,A,2025-03-10,0.8395",
+  "EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,SP00,A,2025-03-11,0.8401",
+].join("\n");
+
+describe("FX rates", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "fx-rates-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("parses both ECB CSV layouts", async () => {
+    const { fxRates } = await loadModules();
+
+    const hist = fxRates.parseEcbCsv(ECB_HIST_CSV, { currencies: ["gbp", "JPY"] });
+    expect(hist).toHaveLength(3);
+    expect(hist[0]).toMatchObject({ source: "ecb", baseCurrency: "EUR", rates: { GBP: 0.8412, JPY: 161.17 } });
+    expect(hist[2]?.rates).toEqual({ GBP: 0.838 });
+
+    const portal = fxRates.parseEcbCsv(ECB_PORTAL_CSV, { since: new Date("2025-03-11") });
+    expect(portal).toHaveLength(1);
+    expect(portal[0]?.date.toISOString()).toBe("2025-03-11T00:00:00.000Z");
+    expect(portal[0]?.rates).toEqual({ GBP: 0.8401 });
+
+    expect(() => fxRates.parseEcbCsv("foo,bar\n1,2")).toThrow(/Unrecognized ECB CSV/);
+  });
+
+  it("looks up the nearest rate, inverse and cross rates", async () => {
+    const { fxRates } = await loadModules();
+    const now = new Date();
+    const sets = fxRates.parseEcbCsv(ECB_HIST_CSV).map((set, i) => ({
+      ...set,
+      id: `set-${i}`,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    const table = new fxRates.FxRateTable(sets, { maxAgeDays: 3 });
+
+    // Weekend falls back to the closest business day
+    const saturday = table.getRate("EUR", "GBP", new Date("2025-03-08"));
+    expect(saturday?.rate).toBe(0.838);
+    expect(saturday?.rateDate.toISOString().slice(0, 10)).toBe("2025-03-07");
+
+    const inverse = table.convert(100, "GBP", "EUR", new Date("2025-03-10"));
+    expect(inverse?.amount).toBeCloseTo(119.12, 2);
+
+    const cross = table.getRate("GBP", "USD", new Date("2025-03-12"));
+    expect(cross?.via).toBe("EUR");
+    expect(cross?.rate).toBeCloseTo(1.0892 / 0.8412, 6);
+
+    expect(table.getRate("EUR", "GBP", new Date("2025-04-01"))).toBeNull();
+  });
+
+  it("seeds rates from conversions on scraped claims", async () => {
+    const { fxRates, fxRatesStorage } = await loadModules();
+
+    const recorded = await fxRates.seedFxRatesFromClaims([
+      {
+        id: "claim-1",
+        cignaClaimNumber: "82143450",
+        submissionNumber: "36141816",
+        memberName: "Test Member",
+        treatmentDate: new Date("2025-03-10T14:00:00Z"),
+        claimAmount: 200,
+        claimCurrency: "GBP",
+        convertedAmount: 238.2,
+        convertedCurrency: "EUR",
+        status: "processed",
+        submissionDate: new Date("2025-03-20"),
+        lineItems: [],
+        scrapedAt: new Date(),
+      },
+    ]);
+
+    expect(recorded).toBe(1);
+    const stored = await fxRatesStorage.fxRatesStorage.get("cigna_claim-GBP-2025-03-10");
+    expect(stored?.rates.EUR).toBeCloseTo(1.191, 6);
+    expect(stored?.claimIds).toEqual(["claim-1"]);
+  });
+
+  it("matches a GBP invoice against a EUR claim at the treatment-date rate", async () => {
+    const { fxRates, claims, documents, matcher } = await loadModules();
+    await fxRates.importEcbCsv(ECB_HIST_CSV);
+
+    const claim = await claims.createScrapedClaim({
+      cignaClaimNumber: "82143450",
+      submissionNumber: "36141816",
+      memberName: "Test Member",
+      treatmentDate: new Date("2025-03-10"),
+      claimAmount: 119.12,
+      claimCurrency: "EUR",
+      status: "processed",
+      submissionDate: new Date("2025-03-20"),
+      lineItems: [],
+    });
+    const document = await documents.createMedicalDocument({
+      sourceType: "attachment",
+      detectedAmounts: [{ value: 100, currency: "GBP", rawText: "£100.00", confidence: 90 }],
+      classification: "medical_bill",
+      medicalKeywords: [],
+      date: new Date("2025-03-10"),
+    });
+
+    const assignments = await matcher.createMatcher().matchDocument(document);
+    const assignment = assignments.find((a) => a.claimId === claim.id);
+
+    expect(assignment?.amountMatchDetails).toMatchObject({
+      documentCurrency: "GBP",
+      claimCurrency: "EUR",
+      exchangeRateSource: "ecb",
+    });
+    expect(assignment?.amountMatchDetails?.convertedAmount).toBeCloseTo(119.12, 2);
+    expect(assignment?.amountMatchDetails?.difference).toBeLessThan(0.01);
+  });
+});
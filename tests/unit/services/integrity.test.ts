@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const integrity = await import("../../../src/services/integrity.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const drafts = await import("../../../src/storage/draft-claims.js");
+  const claims = await import("../../../src/storage/claims.js");
+  const assignments = await import("../../../src/storage/assignments.js");
+  return { integrity, documents, drafts, claims, assignments };
+}
+
+describe("Integrity checker", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "integrity-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function seed(modules: Awaited<ReturnType<typeof loadModules>>) {
+    const createDocument = (subject: string) =>
+      modules.documents.createMedicalDocument({
+        sourceType: "email",
+        subject,
+        detectedAmounts: [],
+        classification: "medical_bill",
+        medicalKeywords: [],
+      });
+    const kept = await createDocument("Invoice");
+    const deleted = await createDocument("Receipt");
+
+    const draft = await modules.drafts.createDraftClaim({
+      status: "pending",
+      primaryDocumentId: kept.id,
+      documentIds: [kept.id, deleted.id],
+      payment: { amount: 75, currency: "EUR", rawText: "EUR 75", confidence: 90 },
+    });
+    const claim = await modules.claims.createScrapedClaim({
+      cignaClaimNumber: "82143450",
+      submissionNumber: "36141816",
+      memberName: "Test Member",
+      treatmentDate: new Date("2025-03-10"),
+      claimAmount: 75,
+      claimCurrency: "EUR",
+      status: "processed",
+      submissionDate: new Date("2025-03-20"),
+      lineItems: [],
+    });
+    const match = {
+      documentId: kept.id,
+      claimId: claim.id,
+      matchScore: 90,
+      matchReasonType: "exact_amount" as const,
+      matchReason: "Same amount",
+    };
+    // The confirmed assignment of a duplicated pair is the one kept
+    const candidate = await modules.assignments.createAssignment(match);
+    const first = await modules.assignments.assignmentsStorage.save({
+      ...candidate,
+      status: "confirmed",
+    });
+    const second = await modules.assignments.createAssignment(match);
+    await modules.assignments.createAssignment({ ...match, documentId: deleted.id });
+
+    await modules.documents.documentsStorage.delete(deleted.id);
+
+    fs.mkdirSync(path.join(tempDir, "data", "uploads"), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, "data", "uploads", "stray.pdf"), "%PDF-1.4");
+
+    return { kept, deleted, draft, first, second };
+  }
+
+  it("reports broken references, orphans and duplicates", async () => {
+    const modules = await loadModules();
+    const { deleted, draft, first, second } = await seed(modules);
+
+    const report = await modules.integrity.checkIntegrity();
+    expect(report.checked.document).toBe(1);
+
+    const byKind = (kind: string) => report.issues.filter((issue) => issue.kind === kind);
+    expect(byKind("broken_reference")).toEqual([
+      expect.objectContaining({ entityType: "draft_claim", entityId: draft.id, field: "documentIds", targetId: deleted.id }),
+      expect.objectContaining({ entityType: "assignment", field: "documentId", targetId: deleted.id }),
+    ]);
+    expect(byKind("orphan")).toEqual([
+      expect.objectContaining({ entityType: "file", message: expect.stringContaining("stray.pdf") }),
+    ]);
+    expect(byKind("orphan")[0]?.repair).toBeUndefined();
+    expect(byKind("duplicate")).toEqual([
+      expect.objectContaining({ entityType: "assignment", entityId: second.id, targetId: first.id }),
+    ]);
+  });
+
+  it("applies safe repairs and leaves the rest for review", async () => {
+    const modules = await loadModules();
+    const { kept, draft, first } = await seed(modules);
+
+    const before = await modules.integrity.checkIntegrity();
+    const result = await modules.integrity.repairIntegrityIssues([
+      ...before.issues.map((issue) => issue.id),
+      "broken_reference:document:gone",
+    ]);
+
+    expect(result.repaired).toHaveLength(3);
+    expect(result.skipped).toHaveLength(2);
+    expect(result.report.issues.map((issue) => issue.kind)).toEqual(["orphan"]);
+
+    expect((await modules.drafts.draftClaimsStorage.get(draft.id))?.documentIds).toEqual([kept.id]);
+    expect((await modules.assignments.assignmentsStorage.getAll()).map((a) => a.id)).toEqual([first.id]);
+  });
+});
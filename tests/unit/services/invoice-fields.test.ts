@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  draftPrefillFromDocument,
+  extractInvoiceFields,
+  isValidIban,
+} from "../../../src/services/invoice-fields.js";
+import type { MedicalDocument } from "../../../src/types/medical-document.js";
+
+const GERMAN_INVOICE = [
+  "Praxis Dr. med. Anna Weber",
+  "Hauptstraße 12",
+  "10115 Berlin",
+  "",
+  "Rechnung Nr. 2025-0412",
+  "Rechnungsdatum: 10.03.2025",
+  "Patient: Max Mustermann, geb. 01.02.1980",
+  "",
+  "03.03.2025  Beratung GOÄ 1          10,72 €",
+  "07.03.2025  Untersuchung GOÄ 5      16,08 €",
+  "Gesamtbetrag                        26,80 €",
+  "",
+  "Zahlbar innerhalb von 30 Tagen ohne Abzug.",
+  "IBAN: DE89 3704 0044 0532 0130 00",
+].join("\n");
+
+function isoDay(date?: Date): string | undefined {
+  return date?.toISOString().slice(0, 10);
+}
+
+describe("extractInvoiceFields", () => {
+  it("reads the fields of a German practice invoice", () => {
+    const fields = extractInvoiceFields(GERMAN_INVOICE);
+
+    expect(fields.providerName).toEqual({ value: "Praxis Dr. med. Anna Weber", confidence: 80 });
+    expect(fields.providerAddress).toEqual({ value: "Hauptstraße 12, 10115 Berlin", confidence: 75 });
+    expect(fields.invoiceNumber).toEqual({ value: "2025-0412", confidence: 90 });
+    expect(isoDay(fields.invoiceDate?.value)).toBe("2025-03-10");
+    expect(fields.invoiceDate?.confidence).toBe(90);
+    expect(fields.serviceDates?.value.map(isoDay)).toEqual(["2025-03-03", "2025-03-07"]);
+    expect(fields.serviceDates?.confidence).toBe(60);
+    expect(fields.patientName).toEqual({ value: "Max Mustermann", confidence: 85 });
+    expect(fields.iban).toEqual({ value: "DE89370400440532013000", confidence: 99 });
+    expect(fields.paymentTerms?.value).toBe("Zahlbar innerhalb von 30 Tagen ohne Abzug.");
+  });
+
+  it("prefers labelled service dates and reads Latvian labels", () => {
+    const text = [
+      "SIA Veselības centrs",
+      "Brīvības iela 100",
+      "LV-1011 Rīga",
+      "Rēķins Nr. VC-1234",
+      "Datums: 12.04.2025",
+      "Pakalpojuma datums: 08.04.2025",
+      "Pacients: Jānis Bērziņš",
+      "Kopā apmaksai: 45,00 EUR",
+      "Apmaksas termiņš: 26.04.2025",
+    ].join("\n");
+
+    const fields = extractInvoiceFields(text);
+    expect(fields.providerName?.value).toBe("SIA Veselības centrs");
+    expect(fields.providerAddress?.value).toBe("Brīvības iela 100, LV-1011 Rīga");
+    expect(fields.invoiceNumber?.value).toBe("VC-1234");
+    expect(fields.serviceDates).toMatchObject({ confidence: 85 });
+    expect(fields.serviceDates?.value.map(isoDay)).toEqual(["2025-04-08"]);
+    expect(fields.patientName?.value).toBe("Jānis Bērziņš");
+    expect(fields.paymentTerms?.value).toBe("Apmaksas termiņš: 26.04.2025");
+  });
+
+  it("omits fields it cannot find and rejects IBANs with a bad checksum", () => {
+    const fields = extractInvoiceFields("Thank you for your visit\nIBAN DE00 3704 0044 0532 0130 00");
+
+    expect(fields.providerName).toEqual({ value: "Thank you for your visit", confidence: 40 });
+    expect(fields.iban).toBeUndefined();
+    expect(fields.invoiceNumber).toBeUndefined();
+    expect(fields.serviceDates).toBeUndefined();
+    expect(isValidIban("GB82 WEST 1234 5698 7654 32")).toBe(true);
+  });
+});
+
+describe("draftPrefillFromDocument", () => {
+  it("copies confident fields into the draft", () => {
+    const document = { extractedFields: extractInvoiceFields(GERMAN_INVOICE) } as MedicalDocument;
+
+    const prefill = draftPrefillFromDocument(document);
+    expect(prefill.submission).toEqual({
+      providerName: "Praxis Dr. med. Anna Weber",
+      providerAddress: "Hauptstraße 12, 10115 Berlin",
+    });
+    expect(isoDay(prefill.treatmentDate)).toBe("2025-03-03");
+    expect(prefill.treatmentDateSource).toBe("document");
+  });
+
+  it("leaves out low-confidence fields", () => {
+    const document = {
+      extractedFields: extractInvoiceFields("Thank you for your visit"),
+    } as MedicalDocument;
+
+    expect(draftPrefillFromDocument(document)).toEqual({});
+    expect(draftPrefillFromDocument({} as MedicalDocument)).toEqual({});
+  });
+});
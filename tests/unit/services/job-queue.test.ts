@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { LiveEvent } from "../../../src/types/progress-event.js";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const jobsStorage = await import("../../../src/storage/jobs.js");
+  const jobQueue = await import("../../../src/services/job-queue.js");
+  const liveEvents = await import("../../../src/services/live-events.js");
+  return { jobsStorage, jobQueue, liveEvents };
+}
+
+describe("Job queue", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "job-queue-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("persists status, progress, logs and result", async () => {
+    const { jobsStorage, jobQueue } = await loadModules();
+
+    const started = jobQueue.startJob("scrape", { trigger: "manual", input: { headless: true } }, async (ctx) => {
+      ctx.log("Logging in");
+      ctx.setProgress({ current: 1, total: 2, message: "Claim 1" });
+      return { scraped: 2 };
+    });
+    expect(started.status).toBe("running");
+
+    const finished = await jobQueue.waitForJob(started.id);
+    expect(finished?.status).toBe("succeeded");
+
+    const stored = await jobsStorage.jobsStorage.get(started.id);
+    expect(stored?.status).toBe("succeeded");
+    expect(stored?.input).toEqual({ headless: true });
+    expect(stored?.progress).toEqual({ current: 1, total: 2, message: "Claim 1" });
+    expect(stored?.logs.map((entry) => entry.message)).toEqual(["Logging in"]);
+    expect(stored?.result).toEqual({ scraped: 2 });
+    expect(stored?.startedAt).toBeInstanceOf(Date);
+    expect(stored?.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it("records handler errors as failed", async () => {
+    const { jobsStorage, jobQueue } = await loadModules();
+
+    const started = jobQueue.startJob("document_processing", { trigger: "scheduled" }, async () => {
+      throw new Error("Qwen unavailable");
+    });
+    await jobQueue.waitForJob(started.id);
+
+    const stored = await jobsStorage.jobsStorage.get(started.id);
+    expect(stored?.status).toBe("failed");
+    expect(stored?.error).toBe("Qwen unavailable");
+    expect(stored?.logs.at(-1)?.level).toBe("error");
+  });
+
+  it("allows one running job per type and entity", async () => {
+    const { jobQueue } = await loadModules();
+
+    let release!: () => void;
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const first = jobQueue.startJob("submit", { trigger: "manual", entityId: "draft-1" }, () => blocker);
+    expect(jobQueue.findActiveJob("submit", "draft-1")?.id).toBe(first.id);
+    expect(jobQueue.findActiveJob("submit", "draft-2")).toBeNull();
+    expect(() =>
+      jobQueue.startJob("submit", { trigger: "manual", entityId: "draft-1" }, async () => undefined)
+    ).toThrow(/already running/);
+
+    const other = jobQueue.startJob("submit", { trigger: "manual", entityId: "draft-2" }, async () => undefined);
+
+    release();
+    await jobQueue.waitForJob(first.id);
+    await jobQueue.waitForJob(other.id);
+    expect(jobQueue.findActiveJob("submit")).toBeNull();
+  });
+
+  it("treats a job covering several entities as running for each of them", async () => {
+    const { jobQueue } = await loadModules();
+
+    let release!: () => void;
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const single = jobQueue.startJob("submit", { trigger: "manual", entityId: "draft-1" }, () => blocker);
+    const batch = jobQueue.startJob(
+      "submit",
+      { trigger: "manual", entityIds: ["draft-2", "draft-3"] },
+      () => blocker
+    );
+    expect(jobQueue.findActiveJob("submit", "draft-3")?.id).toBe(batch.id);
+    expect(() =>
+      jobQueue.startJob("submit", { trigger: "manual", entityId: "draft-2" }, async () => undefined)
+    ).toThrow(/already running/);
+    expect(() =>
+      jobQueue.startJob("submit", { trigger: "manual", entityIds: ["draft-1", "draft-4"] }, async () => undefined)
+    ).toThrow(/already running/);
+
+    release();
+    await jobQueue.waitForJob(single.id);
+    await jobQueue.waitForJob(batch.id);
+    expect(jobQueue.findActiveJob("submit")).toBeNull();
+  });
+
+  it("cancels a running job through its abort signal", async () => {
+    const { jobsStorage, jobQueue } = await loadModules();
+
+    const started = jobQueue.startJob("scrape", { trigger: "manual" }, (ctx) =>
+      new Promise((_resolve, reject) => {
+        ctx.signal.addEventListener("abort", () => reject(new Error("Browser closed")));
+      })
+    );
+
+    const cancelling = await jobQueue.cancelJob(started.id);
+    expect(cancelling?.cancelRequestedAt).toBeInstanceOf(Date);
+
+    await jobQueue.waitForJob(started.id);
+    const stored = await jobsStorage.jobsStorage.get(started.id);
+    expect(stored?.status).toBe("cancelled");
+    expect(stored?.error).toBeUndefined();
+  });
+
+  it("publishes progress reports as live events", async () => {
+    const { jobsStorage, jobQueue, liveEvents } = await loadModules();
+
+    const events: LiveEvent[] = [];
+    const unsubscribe = liveEvents.subscribeLiveEvents((event) => events.push(event));
+
+    const started = jobQueue.startJob("scrape", { trigger: "manual" }, async (ctx) => {
+      ctx.report({ step: "claim", message: "Processing claim 123", current: 1, total: 3 });
+    });
+    await jobQueue.waitForJob(started.id);
+    unsubscribe();
+
+    const progress = events.filter((event) => event.kind === "progress");
+    expect(progress).toHaveLength(1);
+    expect(progress[0]).toMatchObject({
+      source: "scrape",
+      jobId: started.id,
+      step: "claim",
+      current: 1,
+      total: 3,
+    });
+
+    const statuses = events.flatMap((event) => (event.kind === "job" ? [event.job.status] : []));
+    expect(statuses.at(-1)).toBe("succeeded");
+
+    const stored = await jobsStorage.jobsStorage.get(started.id);
+    expect(stored?.progress).toEqual({ current: 1, total: 3, message: "Processing claim 123" });
+    expect(stored?.logs.map((entry) => entry.message)).toContain("Processing claim 123");
+
+    expect(liveEvents.formatSseMessage(progress[0]!)).toMatch(/^event: progress\ndata: \{.*\}\n\n$/);
+  });
+
+  it("marks jobs left running by a previous process as failed", async () => {
+    const { jobsStorage, jobQueue } = await loadModules();
+
+    const now = new Date();
+    await jobsStorage.jobsStorage.save({
+      id: "stale-job",
+      type: "scrape",
+      status: "running",
+      trigger: "manual",
+      logs: [],
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+    });
+
+    const recovered = await jobQueue.recoverInterruptedJobs();
+    expect(recovered).toBe(1);
+
+    const stored = await jobsStorage.jobsStorage.get("stale-job");
+    expect(stored?.status).toBe("failed");
+    expect(stored?.error).toBe("Interrupted by server restart");
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const query = await import("../../../src/storage/query.js");
+  const documents = await import("../../../src/storage/documents.js");
+  return { query, documents };
+}
+
+describe("List queries", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "list-query-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function seed(modules: Awaited<ReturnType<typeof loadModules>>) {
+    const create = (day: number, classification: "medical_bill" | "receipt", amount: number) =>
+      modules.documents.createMedicalDocument({
+        sourceType: "email",
+        account: day % 2 === 0 ? "even@example.com" : "odd@example.com",
+        date: new Date(`2025-03-${String(day).padStart(2, "0")}T10:00:00Z`),
+        detectedAmounts: [{ value: amount, currency: "EUR", rawText: `${amount} EUR`, confidence: 0.9 }],
+        classification,
+        medicalKeywords: [],
+      });
+
+    for (let day = 1; day <= 7; day++) {
+      await create(day, day <= 5 ? "medical_bill" : "receipt", day * 10);
+    }
+  }
+
+  it("pages through filtered documents with a cursor", async () => {
+    const modules = await loadModules();
+    await seed(modules);
+    const { DOCUMENT_LIST_SPEC, documentsStorage } = modules.documents;
+    const list = (params: Record<string, string>) =>
+      documentsStorage.list(DOCUMENT_LIST_SPEC, modules.query.parseListQuery(DOCUMENT_LIST_SPEC, params));
+
+    const first = await list({ classification: "medical_bill", limit: "2" });
+    expect(first.total).toBe(5);
+    expect(first.items.map((d) => d.date?.getUTCDate())).toEqual([5, 4]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const seen = [...first.items];
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await list({ classification: "medical_bill", limit: "2", cursor });
+      seen.push(...page.items);
+      cursor = page.nextCursor;
+    }
+    expect(seen.map((d) => d.date?.getUTCDate())).toEqual([5, 4, 3, 2, 1]);
+
+    const filtered = await list({
+      account: "even@example.com",
+      dateFrom: "2025-03-02",
+      dateTo: "2025-03-06",
+      amountMin: "30",
+      sort: "amount",
+    });
+    expect(filtered.items.map((d) => d.date?.getUTCDate())).toEqual([4, 6]);
+    expect(filtered.nextCursor).toBeNull();
+  });
+
+  it("rejects invalid parameters and cursors from another sort", async () => {
+    const { query, documents } = await loadModules();
+    const spec = documents.DOCUMENT_LIST_SPEC;
+
+    expect(() => query.parseListQuery(spec, { limit: "0" })).toThrow("limit must be");
+    expect(() => query.parseListQuery(spec, { sort: "subject" })).toThrow("Unknown sort key");
+    expect(() => query.parseListQuery(spec, { dateFrom: "yesterday" })).toThrow("Invalid date");
+    expect(() => query.parseListQuery(spec, { archived: "maybe" })).toThrow("archived must be");
+
+    const cursor = query.encodeListCursor({ sort: "date", direction: "desc", value: "x", id: "y" });
+    expect(() => query.parseListQuery(spec, { sort: "amount", cursor })).toThrow("different sort");
+    expect(() => query.parseListQuery(spec, { cursor: "not-a-cursor" })).toThrow("Invalid cursor");
+  });
+});
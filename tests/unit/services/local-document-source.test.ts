@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { LocalDocumentSource } from "../../../src/services/local-document-source.js";
+
+const PDF_BYTES = Buffer.from("%PDF-1.4\n% invoice\n");
+
+const MAILDIR_MESSAGE = [
+  "From: =?utf-8?Q?Cl=C3=ADnica_Sol?= <billing@clinica.example>",
+  "To: john@example.com",
+  "Subject: Invoice for therapy session",
+  "Date: Wed, 12 Mar 2025 10:00:00 +0000",
+  "Message-ID: <inv-1@clinica.example>",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="b1"',
+  "",
+  "--b1",
+  "Content-Type: text/plain; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "Please find your invoice attached. Total =E2=82=AC120.00 for the therapy=",
+  " session.",
+  "--b1",
+  'Content-Type: application/pdf; name="invoice.pdf"',
+  'Content-Disposition: attachment; filename="invoice.pdf"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  PDF_BYTES.toString("base64"),
+  "--b1--",
+  "",
+].join("\r\n");
+
+const MBOX = [
+  "From dentist@example.com Thu Apr 03 09:00:00 2025",
+  "From: Dentist <dentist@example.com>",
+  "To: jane@example.com",
+  "Subject: Appointment reminder",
+  "Message-ID: <appt-1@example.com>",
+  "",
+  "Your dentist appointment is tomorrow.",
+  ">From the front desk.",
+  "",
+  "From news@example.com Fri Apr 04 09:00:00 2025",
+  "From: News <news@example.com>",
+  "To: jane@example.com",
+  "Subject: Weekly newsletter",
+  "Date: Fri, 04 Apr 2025 09:00:00 +0000",
+  "",
+  "No appointment news this week.",
+  "",
+].join("\n");
+
+const ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "X-WR-CALNAME:Personal",
+  "BEGIN:VEVENT",
+  "UID:evt-1@example.com",
+  "SUMMARY:Therapy session with Dr. Smith",
+  "DESCRIPTION:Weekly session\\, room 4",
+  "LOCATION:Clinic",
+  "DTSTART;TZID=Europe/Paris:20250312T140000",
+  "DTEND;TZID=Europe/Paris:20250312T150000",
+  "ORGANIZER;CN=Dr. Smith:mailto:smith@clinic.example",
+  "ATTENDEE;CN=John;PARTSTAT=ACCEPTED:mailto:john@example.com",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:evt-2@example.com",
+  "SUMMARY:Dentist check",
+  "DTSTART;VALUE=DATE:20250405",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+describe("LocalDocumentSource", () => {
+  let tempDir: string;
+  let source: LocalDocumentSource;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-source-"));
+
+    const maildir = path.join(tempDir, "Maildir");
+    for (const sub of ["cur", "new", "tmp"]) {
+      fs.mkdirSync(path.join(maildir, sub), { recursive: true });
+    }
+    fs.writeFileSync(path.join(maildir, "cur", "1741773600.1.host:2,S"), MAILDIR_MESSAGE);
+    fs.writeFileSync(path.join(tempDir, "jane.mbox"), MBOX);
+    fs.writeFileSync(path.join(tempDir, "personal.ics"), ICS);
+
+    // Stand-in for tesseract: prints a fixed OCR result
+    const tesseract = path.join(tempDir, "fake-tesseract");
+    fs.writeFileSync(tesseract, '#!/bin/sh\necho "OCR TEXT for $1"\n', { mode: 0o755 });
+
+    source = new LocalDocumentSource({
+      mail: [{ path: maildir, account: "john@example.com" }, { path: path.join(tempDir, "jane.mbox") }],
+      calendars: [tempDir],
+      attachmentsDir: path.join(tempDir, "attachments"),
+      tesseractBin: tesseract,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("searches Maildir and mbox messages with date and account filters", async () => {
+    const invoice = await source.searchEmailsFTS("therapy invoice");
+    expect(invoice.status).toBe("success");
+    expect(invoice.index_size).toBe(3);
+    expect(invoice.results).toHaveLength(1);
+    expect(invoice.results?.[0]).toMatchObject({
+      rank: 1,
+      id: "inv-1@clinica.example",
+      account: "john@example.com",
+      from: "Clínica Sol <billing@clinica.example>",
+      subject: "Invoice for therapy session",
+      date: "2025-03-12T10:00:00.000Z",
+      has_attachments: true,
+      attachments: [{ filename: "invoice.pdf", size: PDF_BYTES.length, mime_type: "application/pdf" }],
+    });
+    expect(invoice.results?.[0]?.body).toContain("Total €120.00 for the therapy session.");
+
+    // mbox message without a Date header falls back to the "From " line
+    const appointment = await source.searchEmailsFTS("appointment", { account: "jane" });
+    const reminder = appointment.results?.find((r) => r.subject === "Appointment reminder");
+    expect(appointment.results).toHaveLength(2);
+    expect(reminder?.date).toBe(new Date("Thu Apr 03 09:00:00 2025").toISOString());
+    expect(reminder?.body).toContain("\nFrom the front desk.");
+
+    const windowed = await source.searchEmailsFTS("appointment", {
+      afterDate: "2025-04-04",
+      beforeDate: "2025-05-01",
+    });
+    expect(windowed.results?.map((r) => r.subject)).toEqual(["Weekly newsletter"]);
+
+    expect((await source.searchEmailsFTS("appointment", { account: "john@example.com" })).results).toEqual([]);
+  });
+
+  it("extracts attachments to disk on getEmail", async () => {
+    const response = await source.getEmail("inv-1@clinica.example", "john@example.com");
+    expect(response.status).toBe("success");
+
+    const attachment = response.email?.attachments[0];
+    expect(attachment).toMatchObject({ filename: "invoice.pdf", mime_type: "application/pdf" });
+    expect(attachment?.path?.startsWith(path.join(tempDir, "attachments"))).toBe(true);
+    expect(fs.readFileSync(attachment!.path!)).toEqual(PDF_BYTES);
+
+    expect((await source.getEmail("missing@example.com")).status).toBe("error");
+  });
+
+  it("searches .ics calendar events", async () => {
+    const response = await source.searchCalendarFTS("therapy");
+    expect(response.index_size).toBe(2);
+    expect(response.results).toHaveLength(1);
+    expect(response.results?.[0]).toMatchObject({
+      id: "evt-1@example.com",
+      account: "Personal",
+      calendar_id: "personal",
+      calendar_name: "Personal",
+      summary: "Therapy session with Dr. Smith",
+      description: "Weekly session, room 4",
+      location: "Clinic",
+      start: "2025-03-12T13:00:00.000Z",
+      end: "2025-03-12T14:00:00.000Z",
+      all_day: false,
+      timezone: "Europe/Paris",
+      organizer: { email: "smith@clinic.example", display_name: "Dr. Smith" },
+      attendees: [{ email: "john@example.com", name: "John", response: "accepted" }],
+    });
+
+    const dentist = await source.searchCalendarFTS("dentist", { afterDate: "2025-04-01" });
+    expect(dentist.results?.[0]).toMatchObject({
+      start: "2025-04-05T00:00:00.000Z",
+      end: "2025-04-06T00:00:00.000Z",
+      all_day: true,
+    });
+  });
+
+  it("runs OCR through the configured tesseract binary", async () => {
+    const image = path.join(tempDir, "scan.png");
+    fs.writeFileSync(image, "not really a png");
+
+    const result = await source.ocrDocument(image);
+    expect(result).toMatchObject({ status: "success", type: "image", text: `OCR TEXT for ${image}` });
+
+    const unsupported = await source.ocrDocument(path.join(tempDir, "personal.ics"));
+    expect(unsupported.status).toBe("error");
+    expect(unsupported.error).toContain("Unsupported file type");
+
+    const missingBinary = new LocalDocumentSource({ tesseractBin: path.join(tempDir, "no-such-tesseract") });
+    const failed = await missingBinary.ocrDocument(image);
+    expect(failed.status).toBe("error");
+    expect(failed.error).toContain("OCR tool not found");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractAmounts,
+  findInvoiceDate,
+  parseLocaleDate,
+  parseLocaleNumber,
+} from "../../../src/services/locale-extraction.js";
+
+function primary(text: string) {
+  return [...extractAmounts(text)].sort((a, b) => b.confidence - a.confidence)[0];
+}
+
+describe("parseLocaleNumber", () => {
+  it.each([
+    ["80.00", 80],
+    ["80,00", 80],
+    ["1.234,56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1 234,56", 1234.56],
+    ["1'234.50", 1234.5],
+    ["12.345.678", 12345678],
+    ["1.500", 1500],
+    ["80,-", 80],
+    ["12,5", 12.5],
+  ])("parses %s", (raw, expected) => {
+    expect(parseLocaleNumber(raw)).toBe(expected);
+  });
+
+  it("rejects text that is not a number", () => {
+    expect(parseLocaleNumber("EUR")).toBeNull();
+  });
+});
+
+describe("extractAmounts", () => {
+  it("picks the total of a German invoice over line items and VAT", () => {
+    const text = [
+      "Rechnung Nr. 2025-0412 vom 10.03.2025",
+      "Beratung GOÄ 1                 10,72 €",
+      "Untersuchung GOÄ 5             1.044,56 €",
+      "Zwischensumme                  1.055,28 €",
+      "MwSt 19 %                      200,50 €",
+      "Gesamtbetrag inkl. MwSt        1.255,78 €",
+    ].join("\n");
+
+    const amounts = extractAmounts(text);
+    expect(amounts.map((amount) => [amount.value, amount.role])).toEqual([
+      [1255.78, "total"],
+      [1055.28, "subtotal"],
+      [1044.56, "line_item"],
+      [200.5, "vat"],
+      [10.72, "line_item"],
+    ]);
+    expect(primary(text)).toMatchObject({ value: 1255.78, currency: "EUR", confidence: 95 });
+  });
+
+  it("reads several labelled amounts on one line", () => {
+    const amounts = extractAmounts("Netto 66,12 EUR MwSt 13,88 EUR Gesamt 80,00 EUR");
+    expect(amounts.map((amount) => amount.role)).toEqual(["total", "subtotal", "vat"]);
+  });
+
+  it("reads Latvian labels and infers the currency of unlabelled totals", () => {
+    const text = ["Summa bez PVN 66,12 EUR", "PVN 21% 13,88 EUR", "Kopā apmaksai:", "80,00"].join("\n");
+
+    expect(primary(text)).toMatchObject({ value: 80, currency: "EUR", role: "total", confidence: 75 });
+    expect(extractAmounts(text).find((amount) => amount.value === 66.12)?.role).toBe("subtotal");
+  });
+
+  it.each([
+    ["Total CHF 1'234.50", 1234.5, "CHF"],
+    ["Fr. 120.00", 120, "CHF"],
+    ["Razem do zapłaty: 1 234,56 zł", 1234.56, "PLN"],
+    ["Celkem k úhradě 2 500,00 Kč", 2500, "CZK"],
+    ["Att betala 450,00 kr", 450, "SEK"],
+    ["Amount due: SEK 1,200.00", 1200, "SEK"],
+    ["Total: $160", 160, "USD"],
+    ["Summe 80,- €", 80, "EUR"],
+  ])("reads %s", (text, value, currency) => {
+    expect(primary(text)).toMatchObject({ value, currency });
+  });
+
+  it("ignores dates, percentages, invoice numbers and unlabelled bare numbers", () => {
+    const text = "Rechnung Nr. 2025 vom 10.03.2025\nIBAN DE89 3704 0044 0532 0130 00\nMwSt 19,00 %\nQty 2 100";
+    expect(extractAmounts(text)).toEqual([]);
+  });
+
+  it("boosts the largest amount when no total is labelled", () => {
+    const amounts = extractAmounts("EUR 20.00\nEUR 80.00");
+    expect(amounts.map((amount) => amount.confidence)).toEqual([80, 70]);
+  });
+});
+
+describe("date extraction", () => {
+  it.each([
+    ["10.03.2025", "2025-03-10"],
+    ["10/03/2025", "2025-03-10"],
+    ["2025-03-10", "2025-03-10"],
+    ["10. März 2025", "2025-03-10"],
+    ["10 mars 2025", "2025-03-10"],
+    ["March 10, 2025", "2025-03-10"],
+    ["2025. gada 10. marts", "2025-03-10"],
+  ])("parses %s", (raw, expected) => {
+    expect(parseLocaleDate(raw)?.toISOString().slice(0, 10)).toBe(expected);
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseLocaleDate("31.02.2025")).toBeNull();
+  });
+
+  it("prefers the labelled invoice date", () => {
+    const text = "Behandlung 03.03.2025 - 07.03.2025\nRechnungsdatum: 10.03.2025";
+    const invoiceDate = findInvoiceDate(text);
+    expect(invoiceDate?.date.toISOString().slice(0, 10)).toBe("2025-03-10");
+    expect(invoiceDate?.labelled).toBe(true);
+  });
+
+  it("falls back to the first date without a label", () => {
+    const invoiceDate = findInvoiceDate("Behandlung 03.03.2025 - 07.03.2025");
+    expect(invoiceDate?.date.toISOString().slice(0, 10)).toBe("2025-03-03");
+    expect(invoiceDate?.labelled).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { buildReimbursementLedger } from "../../../src/services/reimbursement-ledger.js";
+import { FxRateTable } from "../../../src/services/fx-rates.js";
+import type { DraftClaim } from "../../../src/types/draft-claim.js";
+import type { ScrapedClaim } from "../../../src/types/scraped-claim.js";
+import type { Illness } from "../../../src/types/illness.js";
+import type { Patient } from "../../../src/types/patient.js";
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+const patient: Patient = {
+  id: "patient-1",
+  cignaId: "12345678901",
+  name: "JOHN SMITH",
+  relationship: "Employee",
+  dateOfBirth: new Date("1980-01-01"),
+  createdAt: now,
+  updatedAt: now,
+};
+
+const illness: Illness = {
+  id: "illness-1",
+  patientId: patient.id,
+  name: "Anxiety",
+  type: "chronic",
+  relevantAccounts: [],
+  createdAt: now,
+  updatedAt: now,
+};
+
+function draft(id: string, overrides: Partial<DraftClaim>): DraftClaim {
+  return {
+    id,
+    status: "accepted",
+    primaryDocumentId: `doc-${id}`,
+    documentIds: [`doc-${id}`],
+    payment: { amount: 100, currency: "EUR" },
+    illnessId: illness.id,
+    treatmentDate: new Date("2025-03-10"),
+    generatedAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function scraped(id: string, overrides: Partial<ScrapedClaim>): ScrapedClaim {
+  return {
+    id,
+    cignaClaimNumber: `cn-${id}`,
+    submissionNumber: `sn-${id}`,
+    memberName: "John Smith",
+    treatmentDate: new Date("2025-03-10"),
+    claimAmount: 100,
+    claimCurrency: "EUR",
+    status: "pending",
+    submissionDate: new Date("2025-03-15"),
+    lineItems: [],
+    scrapedAt: now,
+    ...overrides,
+  };
+}
+
+describe("Reimbursement ledger", () => {
+  it("splits drafts by submission state and Cigna outcome", () => {
+    const report = buildReimbursementLedger({
+      draftClaims: [
+        draft("unsubmitted", { payment: { amount: 40, currency: "EUR" } }),
+        draft("awaiting", { status: "submitted", submissionNumber: "123" }),
+        draft("paid", { status: "submitted", scrapedClaimId: "claim-paid", payment: { amount: 80, currency: "EUR" } }),
+        draft("declined", { status: "submitted", scrapedClaimId: "claim-rejected", payment: { amount: 60, currency: "EUR" } }),
+        draft("dismissed", { status: "rejected" }),
+      ],
+      scrapedClaims: [
+        scraped("claim-paid", { claimAmount: 80, status: "processed", amountPaid: 64 }),
+        scraped("claim-rejected", { claimAmount: 60, status: "rejected" }),
+      ],
+      illnesses: [illness],
+      patients: [patient],
+      fxRates: new FxRateTable([]),
+    });
+
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0]).toMatchObject({
+      patientId: patient.id,
+      illnessName: "Anxiety",
+      currency: "EUR",
+      outOfPocket: 280,
+      notSubmitted: 40,
+      submitted: 240,
+      awaiting: 100,
+      reimbursed: 64,
+      rejected: 60,
+      draftClaimCount: 4,
+    });
+  });
+
+  it("counts Cigna-only claims, converts reimbursements and applies the date range", () => {
+    const fxRates = new FxRateTable([
+      {
+        id: "ecb-EUR-2025-04-01",
+        source: "ecb",
+        baseCurrency: "EUR",
+        date: new Date("2025-04-01"),
+        rates: { GBP: 0.8 },
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+
+    const report = buildReimbursementLedger(
+      {
+        draftClaims: [
+          draft("gbp-paid", {
+            status: "submitted",
+            scrapedClaimId: "claim-gbp",
+            payment: { amount: 50, currency: "GBP" },
+          }),
+          draft("too-old", { treatmentDate: new Date("2024-12-01") }),
+        ],
+        scrapedClaims: [
+          scraped("claim-gbp", {
+            claimAmount: 50,
+            claimCurrency: "GBP",
+            status: "processed",
+            amountPaid: 50,
+            paymentCurrency: "EUR",
+            paymentDate: new Date("2025-04-01"),
+          }),
+          scraped("cigna-only", {
+            claimAmount: 30,
+            status: "processed",
+            amountPaid: 30,
+            treatmentDate: new Date("2025-03-31"),
+          }),
+        ],
+        illnesses: [illness],
+        patients: [patient],
+        fxRates,
+      },
+      { from: new Date("2025-01-01"), to: new Date("2025-03-31") }
+    );
+
+    const gbp = report.rows.find((row) => row.currency === "GBP");
+    expect(gbp).toMatchObject({ submitted: 50, reimbursed: 40, awaiting: 0 });
+
+    const cignaOnly = report.rows.find((row) => row.scrapedClaimCount === 1);
+    expect(cignaOnly).toMatchObject({
+      patientId: patient.id,
+      illnessName: "Unassigned illness",
+      currency: "EUR",
+      outOfPocket: 30,
+      reimbursed: 30,
+    });
+
+    expect(report.totals.map((t) => t.currency)).toEqual(["EUR", "GBP"]);
+    expect(report.totals.find((t) => t.currency === "EUR")?.outOfPocket).toBe(30);
+  });
+});
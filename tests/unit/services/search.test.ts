@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { parseSnippet, searchEntries } from "../../../src/services/search.js";
+import {
+  SNIPPET_CLOSE,
+  SNIPPET_OPEN,
+  documentSearchEntry,
+  draftClaimSearchEntry,
+  toFtsQuery,
+} from "../../../src/storage/search-index.js";
+import type { MedicalDocument } from "../../../src/types/medical-document.js";
+import type { DraftClaim } from "../../../src/types/draft-claim.js";
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+function document(id: string, overrides: Partial<MedicalDocument>): MedicalDocument {
+  return {
+    id,
+    sourceType: "email",
+    detectedAmounts: [],
+    classification: "medical_bill",
+    medicalKeywords: [],
+    processedAt: now,
+    ...overrides,
+  };
+}
+
+const draft: DraftClaim = {
+  id: "draft-1",
+  status: "pending",
+  primaryDocumentId: "doc-1",
+  documentIds: ["doc-1"],
+  payment: { amount: 120, currency: "EUR" },
+  doctorNotes: "Follow-up for physiotherapy of the lower back",
+  submission: { providerName: "Riga Physio" },
+  generatedAt: now,
+  updatedAt: now,
+};
+
+describe("search", () => {
+  it("quotes terms and makes the last one a prefix", () => {
+    expect(toFtsQuery('physio "OR" back*')).toBe('"physio" "or" "back"*');
+    expect(toFtsQuery("  -- ")).toBeNull();
+  });
+
+  it("ranks title matches above body matches and requires every term", () => {
+    const entries = [
+      documentSearchEntry(document("doc-1", { subject: "Invoice", ocrText: "Physiotherapy session, 60 EUR" })),
+      documentSearchEntry(document("doc-2", { subject: "Physiotherapy invoice" })),
+      documentSearchEntry(document("doc-3", { subject: "Dentist invoice" })),
+      documentSearchEntry(document("doc-4", { subject: "Physiotherapy", archivedAt: now })),
+      draftClaimSearchEntry(draft),
+    ];
+
+    const hits = searchEntries(entries, "physio", 10);
+    expect(hits.map((hit) => hit.entityId)).toEqual(["draft-1", "doc-2", "doc-1"]);
+
+    expect(searchEntries(entries, "invoice physio", 10).map((hit) => hit.entityId)).toEqual([
+      "doc-2",
+      "doc-1",
+    ]);
+  });
+
+  it("returns highlighted snippet parts", () => {
+    const [hit] = searchEntries([draftClaimSearchEntry(draft)], "lower back", 10);
+    expect(hit!.snippet).toContain(`${SNIPPET_OPEN}lower${SNIPPET_CLOSE} ${SNIPPET_OPEN}back${SNIPPET_CLOSE}`);
+
+    expect(parseSnippet(`Pain in ${SNIPPET_OPEN}back${SNIPPET_CLOSE} area`)).toEqual([
+      { text: "Pain in ", highlight: false },
+      { text: "back", highlight: true },
+      { text: " area", highlight: false },
+    ]);
+  });
+});
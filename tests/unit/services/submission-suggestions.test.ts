@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { suggestSubmission } from "../../../src/services/submission-suggestions.js";
+import type { DraftClaim } from "../../../src/types/draft-claim.js";
+import type { Illness } from "../../../src/types/illness.js";
+import type { Patient } from "../../../src/types/patient.js";
+import type { ScrapedClaim } from "../../../src/types/scraped-claim.js";
+
+const now = new Date("2025-06-01T00:00:00Z");
+
+const patient: Patient = {
+  id: "patient-1",
+  cignaId: "12345678901",
+  name: "JOHN SMITH",
+  relationship: "Employee",
+  dateOfBirth: new Date("1980-01-01"),
+  workLocation: "LATVIA",
+  createdAt: now,
+  updatedAt: now,
+};
+
+const illness: Illness = {
+  id: "illness-1",
+  patientId: patient.id,
+  name: "Anxiety",
+  type: "chronic",
+  relevantAccounts: [
+    { email: "reception@clinic.example", name: "Riga Clinic", role: "provider", addedAt: now },
+  ],
+  defaultSymptoms: [{ name: "ANXIETY", description: "ANXIETY DISORDER, UNSPECIFIED" }],
+  createdAt: now,
+  updatedAt: now,
+};
+
+function draft(id: string, overrides: Partial<DraftClaim>): DraftClaim {
+  return {
+    id,
+    status: "pending",
+    primaryDocumentId: `doc-${id}`,
+    documentIds: [`doc-${id}`],
+    payment: { amount: 100, currency: "EUR" },
+    generatedAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const scrapedClaim: ScrapedClaim = {
+  id: "scraped-1",
+  cignaClaimNumber: "82143450",
+  submissionNumber: "36141816",
+  memberName: "JOHN SMITH",
+  treatmentDate: new Date("2025-02-01"),
+  claimAmount: 100,
+  claimCurrency: "EUR",
+  status: "processed",
+  submissionDate: new Date("2025-02-10"),
+  lineItems: [],
+  providerName: "RIGA CLINIC SIA",
+  countryOfTreatment: "LATVIA",
+  claimType: "Medical",
+  scrapedAt: now,
+};
+
+describe("Submission suggestions", () => {
+  it("falls back to the illness and patient without history", () => {
+    const suggestion = suggestSubmission({
+      draft: draft("new", { illnessId: illness.id }),
+      illness,
+      patient,
+      history: [],
+    });
+
+    expect(suggestion.submission).toEqual({
+      claimType: "Medical",
+      country: "LATVIA",
+      symptoms: illness.defaultSymptoms,
+      providerName: "Riga Clinic",
+      providerCountry: "LATVIA",
+    });
+    expect(suggestion.sources.symptoms?.source).toBe("illness");
+    expect(suggestion.sources.country?.source).toBe("patient");
+    expect(suggestion.sources.providerAddress).toBeUndefined();
+  });
+
+  it("prefers the draft's own values, then the latest submission from the same sender", () => {
+    const older = draft("older", {
+      status: "submitted",
+      illnessId: illness.id,
+      linkedAt: new Date("2025-01-01"),
+      submission: { country: "ESTONIA", providerName: "Old Clinic", providerAddress: "Old street 1" },
+    });
+    const latest = draft("latest", {
+      status: "submitted",
+      illnessId: "other-illness",
+      linkedAt: new Date("2025-03-01"),
+      scrapedClaimId: scrapedClaim.id,
+      submission: { claimType: "Dental", providerAddress: "Brivibas iela 1, Riga" },
+    });
+
+    const suggestion = suggestSubmission({
+      draft: draft("new", { illnessId: illness.id, submission: { country: "GERMANY" } }),
+      illness,
+      patient,
+      senderAddress: "Riga Clinic <Reception@Clinic.example>",
+      history: [
+        { draft: older, senderAddress: "someone@else.example" },
+        { draft: latest, senderAddress: "reception@clinic.example", scrapedClaim },
+      ],
+    });
+
+    expect(suggestion.submission.country).toBe("GERMANY");
+    expect(suggestion.sources.country?.source).toBe("draft");
+
+    // Same sender beats same illness for provider details
+    expect(suggestion.submission.providerAddress).toBe("Brivibas iela 1, Riga");
+    expect(suggestion.sources.providerAddress).toMatchObject({ source: "previous_draft", draftClaimId: "latest" });
+
+    // Submitted draft for the same illness beats the sender's linked Cigna claim
+    expect(suggestion.submission.providerName).toBe("Old Clinic");
+
+    // Claim type follows the illness history first, then the sender
+    expect(suggestion.submission.claimType).toBe("Dental");
+    expect(suggestion.sources.claimType?.draftClaimId).toBe("latest");
+  });
+
+  it("uses the linked Cigna claim when submissions lack a field", () => {
+    const submitted = draft("submitted", {
+      status: "submitted",
+      illnessId: illness.id,
+      scrapedClaimId: scrapedClaim.id,
+      submission: { claimType: "Medical" },
+    });
+
+    const suggestion = suggestSubmission({
+      draft: draft("new", {}),
+      senderAddress: "reception@clinic.example",
+      history: [{ draft: submitted, senderAddress: "reception@clinic.example", scrapedClaim }],
+    });
+
+    expect(suggestion.submission.providerName).toBe("RIGA CLINIC SIA");
+    expect(suggestion.sources.providerName).toMatchObject({ source: "scraped_claim", scrapedClaimId: "scraped-1" });
+    expect(suggestion.submission.country).toBe("LATVIA");
+    expect(suggestion.submission.symptoms).toBeUndefined();
+  });
+
+  it("prefers confident fields from the invoice over history", () => {
+    const submitted = draft("submitted", {
+      status: "submitted",
+      submission: { providerName: "Old Clinic", providerAddress: "Old street 1" },
+    });
+
+    const suggestion = suggestSubmission({
+      draft: draft("new", {}),
+      senderAddress: "reception@clinic.example",
+      extractedFields: {
+        providerName: { value: "SIA Veselības centrs", confidence: 80 },
+        providerAddress: { value: "Brīvības iela 100", confidence: 50 },
+        extractedAt: now,
+      },
+      history: [{ draft: submitted, senderAddress: "reception@clinic.example" }],
+    });
+
+    expect(suggestion.submission.providerName).toBe("SIA Veselības centrs");
+    expect(suggestion.sources.providerName?.source).toBe("document");
+    expect(suggestion.submission.providerAddress).toBe("Old street 1");
+  });
+});
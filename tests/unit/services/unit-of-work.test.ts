@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+const originalCwd = process.cwd();
+
+async function loadModules() {
+  const unitOfWork = await import("../../../src/storage/unit-of-work.js");
+  const journal = await import("../../../src/storage/journal.js");
+  const documents = await import("../../../src/storage/documents.js");
+  const auditLog = await import("../../../src/storage/audit-log.js");
+  return { unitOfWork, journal, documents, auditLog };
+}
+
+describe("Unit of work", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "unit-of-work-"));
+    process.chdir(tempDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createDocument(modules: Awaited<ReturnType<typeof loadModules>>, subject: string) {
+    return modules.documents.createMedicalDocument({
+      sourceType: "email",
+      subject,
+      detectedAmounts: [],
+      classification: "medical_bill",
+      medicalKeywords: [],
+    });
+  }
+
+  it("stores all writes when the function returns and none when it throws", async () => {
+    const modules = await loadModules();
+    const { unitOfWork, documents, auditLog } = modules;
+    const first = await createDocument(modules, "First");
+    const second = await createDocument(modules, "Second");
+
+    await expect(
+      unitOfWork.runInTransaction(async () => {
+        await documents.documentsStorage.save({ ...first, subject: "First (edited)" });
+        await documents.documentsStorage.delete(second.id);
+        expect((await documents.documentsStorage.get(first.id))?.subject).toBe("First (edited)");
+        expect(await documents.documentsStorage.exists(second.id)).toBe(false);
+        throw new Error("Rolled back");
+      })
+    ).rejects.toThrow("Rolled back");
+
+    expect((await documents.documentsStorage.get(first.id))?.subject).toBe("First");
+    expect(await documents.documentsStorage.exists(second.id)).toBe(true);
+    expect(await auditLog.getAuditEntries({ entityId: first.id })).toHaveLength(1);
+
+    await unitOfWork.runInTransaction(async () => {
+      await documents.documentsStorage.save({ ...first, subject: "First (edited)" });
+      await documents.documentsStorage.delete(second.id);
+    });
+
+    const saved = await documents.documentsStorage.get(first.id);
+    expect(saved?.subject).toBe("First (edited)");
+    expect((saved as { version?: number }).version).toBe(2);
+    expect(await documents.documentsStorage.exists(second.id)).toBe(false);
+    expect(await auditLog.getAuditEntries({ entityId: first.id })).toHaveLength(2);
+    expect(fs.readdirSync(modules.journal.JOURNAL_DIR)).toEqual([]);
+  });
+
+  it("fails the commit when a staged entity was saved by someone else", async () => {
+    const modules = await loadModules();
+    const { unitOfWork, documents } = modules;
+    const created = await createDocument(modules, "Invoice");
+
+    let staged!: () => void;
+    let release!: () => void;
+    const isStaged = new Promise<void>((resolve) => (staged = resolve));
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const unit = unitOfWork.runInTransaction(async () => {
+      await documents.documentsStorage.save({ ...created, subject: "From the unit" });
+      staged();
+      await gate;
+    });
+
+    await isStaged;
+    await documents.documentsStorage.save({ ...created, subject: "From elsewhere" });
+    release();
+
+    await expect(unit).rejects.toThrow("Version conflict");
+    expect((await documents.documentsStorage.get(created.id))?.subject).toBe("From elsewhere");
+  });
+
+  it("replays a commit interrupted after its journal was written", async () => {
+    const modules = await loadModules();
+    const { unitOfWork, journal, documents } = modules;
+    const first = await createDocument(modules, "First");
+    const second = await createDocument(modules, "Second");
+
+    // Crash after the journal and the first entity file are written
+    const writeFile = fs.promises.writeFile;
+    let writes = 0;
+    vi.spyOn(fs.promises, "writeFile").mockImplementation(async (...args) => {
+      if (++writes > 2) throw new Error("Simulated crash");
+      return writeFile(...(args as Parameters<typeof writeFile>));
+    });
+
+    await expect(
+      unitOfWork.runInTransaction(async () => {
+        await documents.documentsStorage.save({ ...first, subject: "First (edited)" });
+        await documents.documentsStorage.save({ ...second, subject: "Second (edited)" });
+      })
+    ).rejects.toThrow("Simulated crash");
+    vi.restoreAllMocks();
+
+    const subjects = async () =>
+      Promise.all([first.id, second.id].map(async (id) => (await documents.documentsStorage.get(id))?.subject));
+    expect(await subjects()).not.toEqual(["First (edited)", "Second (edited)"]);
+
+    expect(journal.replayJournals()).toBe(1);
+    expect(await subjects()).toEqual(["First (edited)", "Second (edited)"]);
+    expect(fs.readdirSync(journal.JOURNAL_DIR)).toEqual([]);
+  });
+});